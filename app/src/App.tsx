@@ -18,6 +18,7 @@ import EditDepartmentForm from './components/admin/departments/EditDepartmentFor
 import { ToastProvider } from './components/ui/Toast';
 import PermissionsList from './components/admin/permissions/PermissionsList';
 import { CreatePermissionForm, EditPermissionForm } from './components/admin/permissions';
+import AuditLogList from './components/admin/audit/AuditLogList';
 
 function App() {
   return (
@@ -70,6 +71,8 @@ function App() {
                   <Route path="permissions/new" element={<CreatePermissionForm />} />
                   <Route path="permissions/:id/edit" element={<EditPermissionForm />} />
 
+                  {/* Audit Log */}
+                  <Route path="audit" element={<AuditLogList />} />
 
                   {/* Settings */}
                   {/* <Route path="settings" element={<AdminSettings />} /> */}
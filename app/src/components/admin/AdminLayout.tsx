@@ -11,6 +11,7 @@ import {
   Settings,
   Home,
   Shield,
+  History,
   Sparkles,
   User,
   Bell,
@@ -51,6 +52,13 @@ const AdminLayout = () => {
       color: 'from-orange-500 to-red-400',
       description: 'Access control'
     },
+    { 
+      name: 'Audit', 
+      href: '/admin/audit', 
+      icon: History, 
+      color: 'from-amber-500 to-yellow-400',
+      description: 'Change history'
+    },
     { 
       name: 'Settings', 
       href: '/admin/settings', 
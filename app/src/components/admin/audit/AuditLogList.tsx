@@ -0,0 +1,415 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  History,
+  Filter,
+  ChevronDown,
+  ChevronRight,
+  Calendar,
+  User,
+  FolderLock,
+  FileX
+} from 'lucide-react';
+import { auditLogApi } from '../../../lib/adminApi';
+import type { AuditAction, AuditLogEntry, AuditLogFilters } from '../../../types/admin';
+import { Button, Input, Select, Badge, Label } from '../../ui';
+import { useToast } from '../../../hooks/useToast';
+
+const AUDITED_TABLES = [
+  'users',
+  'departments',
+  'departmentpermissions',
+  'department_ai_models',
+  'permissions',
+  'folders',
+  'folderpermissions',
+  'documents',
+];
+
+const FILTER_KEYS: (keyof AuditLogFilters)[] = [
+  'table',
+  'record_id',
+  'folder_id',
+  'changed_by',
+  'action',
+  'from',
+  'to',
+];
+
+const filtersFromParams = (params: URLSearchParams): AuditLogFilters => {
+  const filters: AuditLogFilters = {};
+  FILTER_KEYS.forEach((key) => {
+    const value = params.get(key);
+    if (value) {
+      (filters as Record<string, string>)[key] = value;
+    }
+  });
+  return filters;
+};
+
+const getActionVariant = (action: AuditAction) => {
+  switch (action) {
+    case 'INSERT': return 'success';
+    case 'UPDATE': return 'warning';
+    case 'DELETE': return 'destructive';
+  }
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const AuditLogList = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [filters, setFilters] = useState<AuditLogFilters>(() => filtersFromParams(searchParams));
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const { toast } = useToast();
+
+  // The applied filters live in the URL so a filtered view can be linked to
+  const appliedFilters = filtersFromParams(searchParams);
+
+  const fetchAuditLogs = async (cursor?: string) => {
+    try {
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+
+      const response = await auditLogApi.getAuditLogs(appliedFilters, cursor);
+      const { audit_logs, pagination } = response.data;
+
+      setEntries(cursor ? [...entries, ...audit_logs] : audit_logs);
+      setNextCursor(pagination.next_cursor);
+      setHasMore(pagination.has_more);
+    } catch (error) {
+      console.error('Failed to fetch audit logs:', error);
+      toast.error('Failed to load audit logs', 'Please try again later.');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    setExpanded(new Set());
+    fetchAuditLogs();
+  }, [searchParams]);
+
+  const updateFilter = (key: keyof AuditLogFilters, value: string) => {
+    setFilters({ ...filters, [key]: value || undefined });
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const params = new URLSearchParams();
+    FILTER_KEYS.forEach((key) => {
+      const value = filters[key];
+      if (value) {
+        params.set(key, value);
+      }
+    });
+    setSearchParams(params);
+  };
+
+  const showFolderPermissionChanges = () => {
+    const next = { ...filters, table: 'folderpermissions' };
+    setFilters(next);
+    const params = new URLSearchParams({ table: 'folderpermissions' });
+    if (next.folder_id) {
+      params.set('folder_id', next.folder_id);
+    }
+    setSearchParams(params);
+  };
+
+  const resetFilters = () => {
+    setFilters({});
+    setSearchParams(new URLSearchParams());
+  };
+
+  const toggleExpanded = (auditId: string) => {
+    const next = new Set(expanded);
+    if (next.has(auditId)) {
+      next.delete(auditId);
+    } else {
+      next.add(auditId);
+    }
+    setExpanded(next);
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="relative">
+        <div className="absolute inset-0 bg-gradient-to-r from-amber-500/10 via-orange-500/10 to-red-500/10 rounded-3xl blur-3xl"></div>
+        <div className="relative bg-gradient-to-r from-background/80 to-muted/40 backdrop-blur-sm rounded-3xl p-8 border border-border/50">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6">
+            <div className="flex items-center space-x-4">
+              <div className="relative">
+                <div className="absolute inset-0 bg-gradient-to-r from-amber-500 to-orange-500 rounded-2xl blur opacity-75"></div>
+                <div className="relative p-4 bg-gradient-to-r from-amber-500 to-orange-500 rounded-2xl">
+                  <History className="h-8 w-8 text-white" />
+                </div>
+              </div>
+              <div>
+                <h1 className="text-4xl font-bold text-foreground">
+                  Audit Log
+                </h1>
+                <p className="text-lg text-muted-foreground">
+                  Who changed what, and when
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="gradient"
+              size="lg"
+              className="flex items-center space-x-2"
+              onClick={showFolderPermissionChanges}
+            >
+              <FolderLock className="h-5 w-5" />
+              <span>Folder Permission Changes</span>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="relative overflow-hidden rounded-2xl bg-card/80 backdrop-blur-sm border border-border/50">
+        <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-blue-500 to-cyan-500"></div>
+        <div className="p-6">
+          <div className="flex items-center space-x-3 mb-6">
+            <div className="p-2 rounded-lg bg-gradient-to-r from-blue-500 to-cyan-500">
+              <Filter className="h-5 w-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-foreground">Filters</h2>
+              <p className="text-sm text-muted-foreground">Narrow down the change history</p>
+            </div>
+          </div>
+          <form onSubmit={handleSearch} className="space-y-6">
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-4">
+              <div>
+                <Label>Table</Label>
+                <Select
+                  value={filters.table || ''}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateFilter('table', e.target.value)}
+                >
+                  <option value="">All Tables</option>
+                  {AUDITED_TABLES.map((table) => (
+                    <option key={table} value={table}>
+                      {table}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+
+              <div>
+                <Label>Action</Label>
+                <Select
+                  value={filters.action || ''}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateFilter('action', e.target.value)}
+                >
+                  <option value="">All Actions</option>
+                  <option value="INSERT">Insert</option>
+                  <option value="UPDATE">Update</option>
+                  <option value="DELETE">Delete</option>
+                </Select>
+              </div>
+
+              <div>
+                <Label>From</Label>
+                <Input
+                  type="date"
+                  value={filters.from || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('from', e.target.value)}
+                />
+              </div>
+
+              <div>
+                <Label>To</Label>
+                <Input
+                  type="date"
+                  value={filters.to || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('to', e.target.value)}
+                />
+              </div>
+
+              <div>
+                <Label>Record ID</Label>
+                <Input
+                  type="text"
+                  value={filters.record_id || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('record_id', e.target.value)}
+                  placeholder="Record UUID"
+                />
+              </div>
+
+              <div>
+                <Label>Folder ID</Label>
+                <Input
+                  type="text"
+                  value={filters.folder_id || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('folder_id', e.target.value)}
+                  placeholder="Folder UUID"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <Label>Changed By</Label>
+                <Input
+                  type="text"
+                  value={filters.changed_by || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('changed_by', e.target.value)}
+                  placeholder="User UUID"
+                  icon={<User className="h-5 w-5 text-muted-foreground" />}
+                />
+              </div>
+            </div>
+
+            {/* Action Buttons */}
+            <div className="flex items-center justify-end space-x-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={resetFilters}
+              >
+                Clear
+              </Button>
+              <Button type="submit" variant="secondary">
+                Apply Filters
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+
+      {/* Entries */}
+      {loading ? (
+        <div className="space-y-4">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <div key={i} className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-muted/50 to-accent/30 p-6 animate-pulse">
+              <div className="h-4 bg-muted rounded-full w-1/2 mb-3"></div>
+              <div className="h-3 bg-muted rounded-full w-1/3"></div>
+            </div>
+          ))}
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="relative overflow-hidden rounded-2xl bg-card/80 backdrop-blur-sm border border-border/50 p-12">
+          <div className="text-center">
+            <div className="relative mb-6">
+              <div className="absolute inset-0 bg-gradient-to-r from-muted/20 to-accent/20 rounded-full blur"></div>
+              <div className="relative h-24 w-24 mx-auto bg-gradient-to-r from-muted to-accent rounded-full flex items-center justify-center">
+                <FileX className="h-12 w-12 text-muted-foreground" />
+              </div>
+            </div>
+            <h3 className="text-xl font-bold text-foreground mb-2">No changes found</h3>
+            <p className="text-muted-foreground">
+              Try adjusting your filters.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="relative overflow-hidden rounded-2xl bg-card/80 backdrop-blur-sm border border-border/50">
+          <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-amber-500 to-orange-500"></div>
+          <div className="p-6 space-y-2">
+            {entries.map((entry) => {
+              const isExpanded = expanded.has(entry.audit_id);
+
+              return (
+                <div key={entry.audit_id} className="rounded-xl hover:bg-accent/30 transition-colors">
+                  <button
+                    type="button"
+                    onClick={() => toggleExpanded(entry.audit_id)}
+                    className="w-full flex items-center space-x-4 p-4 text-left"
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    <Badge variant={getActionVariant(entry.action)} size="sm">
+                      {entry.action}
+                    </Badge>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-foreground">{entry.table_name}</span>
+                        <span className="text-xs text-muted-foreground font-mono truncate">{entry.record_id}</span>
+                      </div>
+                      <div className="flex items-center text-sm text-muted-foreground">
+                        <User className="h-3 w-3 mr-1" />
+                        <span className="mr-4">
+                          {entry.changed_by_name
+                            ? `${entry.changed_by_name} (${entry.changed_by_email})`
+                            : 'System'}
+                        </span>
+                        <Calendar className="h-3 w-3 mr-1" />
+                        <span>{new Date(entry.changed_at).toLocaleString()}</span>
+                      </div>
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {entry.changes.length} {entry.changes.length === 1 ? 'field' : 'fields'}
+                    </span>
+                  </button>
+
+                  {/* Diff */}
+                  {isExpanded && (
+                    <div className="px-4 pb-4">
+                      {entry.changes.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No field changes recorded</p>
+                      ) : (
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-muted-foreground border-b border-border/50">
+                              <th className="py-2 pr-4 font-medium">Field</th>
+                              <th className="py-2 pr-4 font-medium">Old value</th>
+                              <th className="py-2 font-medium">New value</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {entry.changes.map((change) => (
+                              <tr key={change.field} className="border-b border-border/30 align-top">
+                                <td className="py-2 pr-4 font-mono text-foreground">{change.field}</td>
+                                <td className="py-2 pr-4 font-mono break-all text-red-600 dark:text-red-400">
+                                  {formatValue(change.old_value)}
+                                </td>
+                                <td className="py-2 font-mono break-all text-green-600 dark:text-green-400">
+                                  {formatValue(change.new_value)}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {hasMore && nextCursor && (
+            <div className="flex justify-center p-6 border-t border-border/50">
+              <Button
+                variant="outline"
+                onClick={() => fetchAuditLogs(nextCursor)}
+                disabled={loadingMore}
+              >
+                {loadingMore ? 'Loading...' : 'Load More'}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogList;
@@ -14,6 +14,8 @@ import type {
   PaginationResponseDepartment,
   PaginationResponseUsers,
   DepartmentPermissionResponse,
+  AuditLogFilters,
+  CursorPaginationResponseAuditLogs,
 } from '../types/admin';
 
 // Department API
@@ -294,4 +296,30 @@ export const permissionApi = {
     const response = await api.delete(`/permissions/department/${departmentId}/permission/${permissionId}`);
     return response.data;
   },
+};
+
+// Audit Log API
+export const auditLogApi = {
+  // Get audit log entries, newest first; pass next_cursor to get the next page
+  getAuditLogs: async (
+    filters?: AuditLogFilters,
+    cursor?: string,
+    limit = 50
+  ): Promise<ApiResponse<CursorPaginationResponseAuditLogs>> => {
+    const params = new URLSearchParams({
+      limit: limit.toString(),
+    });
+
+    Object.entries(filters || {}).forEach(([key, value]) => {
+      if (value) {
+        params.append(key, value);
+      }
+    });
+    if (cursor) {
+      params.append('cursor', cursor);
+    }
+
+    const response = await api.get(`/audit-logs?${params.toString()}`);
+    return response.data;
+  },
 }; 
\ No newline at end of file
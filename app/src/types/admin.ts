@@ -114,4 +114,45 @@ export interface DepartmentStats {
   active_users: number;
   ai_users: number;
   recent_activity?: number;
+}
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditFieldChange {
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+export interface AuditLogEntry {
+  audit_id: string;
+  table_name: string;
+  record_id: string;
+  action: AuditAction;
+  old_values?: Record<string, unknown> | null;
+  new_values?: Record<string, unknown> | null;
+  changed_by_user_id?: string | null;
+  changed_by_name?: string | null;
+  changed_by_email?: string | null;
+  changed_at: string;
+  changes: AuditFieldChange[];
+}
+
+export interface AuditLogFilters {
+  table?: string;
+  record_id?: string;
+  folder_id?: string;
+  changed_by?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+}
+
+export interface CursorPaginationResponseAuditLogs {
+  audit_logs: AuditLogEntry[];
+  pagination: {
+    limit: number;
+    next_cursor: string | null;
+    has_more: boolean;
+  };
 } 
\ No newline at end of file
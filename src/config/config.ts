@@ -36,11 +36,83 @@ const envSchema = z.object({
   UPLOAD_ALLOWED_TYPES: z.string().default('pdf,doc,docx,txt,md,png,jpg,jpeg,gif'),
   UPLOAD_DESTINATION: z.string().default('uploads/'),
   
+  // Storage
+  STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  STORAGE_SIGNED_URL_TTL: z.string().transform(Number).pipe(z.number().min(1).max(604800)).default('900'),
+  STORAGE_PUBLIC_BASE_URL: z.string().optional(),
+  S3_BUCKET: z.string().optional(),
+  S3_REGION: z.string().default('us-east-1'),
+  S3_ENDPOINT: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_FORCE_PATH_STYLE: z.string().transform(val => val === 'true').default('false'),
+  
+  // Chunking
+  CHUNK_SIZE_TOKENS: z.string().transform(Number).pipe(z.number().min(32).max(8192)).default('512'),
+  CHUNK_OVERLAP_TOKENS: z.string().transform(Number).pipe(z.number().min(0).max(4096)).default('64'),
+  CHUNKING_STRATEGY: z.enum(['auto', 'fixed', 'heading', 'page']).default('auto'),
+  
+  // Full-text search
+  SEARCH_LANGUAGE: z.string().regex(/^[a-z_]+$/, 'SEARCH_LANGUAGE must be a PostgreSQL text search configuration name').default('english'),
+  
   // AI Models
   OPENAI_API_KEY: z.string().optional(),
   OPENAI_ORG_ID: z.string().optional(),
+  OPENAI_BASE_URL: z.string().default('https://api.openai.com/v1'),
   ANTHROPIC_API_KEY: z.string().optional(),
+  ANTHROPIC_BASE_URL: z.string().default('https://api.anthropic.com/v1'),
   GOOGLE_AI_API_KEY: z.string().optional(),
+  GOOGLE_AI_BASE_URL: z.string().default('https://generativelanguage.googleapis.com/v1beta'),
+  
+  // Embeddings
+  EMBEDDING_PROVIDER: z.enum(['openai', 'hashing', 'mock']).default('hashing'),
+  EMBEDDING_MODEL: z.string().optional(),
+  EMBEDDING_DIMENSIONS: z.string().transform(Number).pipe(z.number().min(1).max(16000)).optional(),
+  EMBEDDING_BATCH_SIZE: z.string().transform(Number).pipe(z.number().min(1).max(2048)).default('64'),
+  EMBEDDING_MAX_RETRIES: z.string().transform(Number).pipe(z.number().min(0).max(10)).default('3'),
+  EMBEDDING_TIMEOUT_MS: z.string().transform(Number).pipe(z.number().min(1000)).default('30000'),
+  
+  // Chat
+  CHAT_PROVIDER: z.enum(['openai', 'anthropic', 'google', 'mock']).default('mock'),
+  CHAT_MODEL: z.string().default('gpt-4o-mini'),
+  CHAT_MAX_TOKENS: z.string().transform(Number).pipe(z.number().min(1).max(200000)).default('1024'),
+  CHAT_HISTORY_MESSAGES: z.string().transform(Number).pipe(z.number().min(0).max(200)).default('20'),
+  CHAT_TIMEOUT_MS: z.string().transform(Number).pipe(z.number().min(1000)).default('120000'),
+  CHAT_MAX_RETRIES: z.string().transform(Number).pipe(z.number().min(0).max(10)).default('2'),
+  CHAT_SYSTEM_PROMPT: z.string().optional(),
+  
+  // Retrieval-augmented answering
+  RAG_ENABLED: z.string().transform(val => val === 'true').default('true'),
+  RAG_TOP_K: z.string().transform(Number).pipe(z.number().min(1).max(50)).default('6'),
+  RAG_MIN_SCORE: z.string().transform(Number).pipe(z.number().min(-1).max(1)).default('0.2'),
+  RAG_MAX_CONTEXT_TOKENS: z.string().transform(Number).pipe(z.number().min(100).max(100000)).default('3000'),
+  
+  // Hybrid retrieval
+  RETRIEVAL_LEXICAL_WEIGHT: z.string().transform(Number).pipe(z.number().min(0).max(10)).default('1'),
+  RETRIEVAL_VECTOR_WEIGHT: z.string().transform(Number).pipe(z.number().min(0).max(10)).default('1'),
+  RETRIEVAL_RRF_K: z.string().transform(Number).pipe(z.number().min(1).max(1000)).default('60'),
+  RETRIEVAL_CANDIDATES: z.string().transform(Number).pipe(z.number().min(1).max(500)).default('50'),
+  RERANKER: z.enum(['none', 'heuristic', 'http']).default('none'),
+  RERANKER_URL: z.string().optional(),
+  RERANKER_MODEL: z.string().optional(),
+  RERANKER_API_KEY: z.string().optional(),
+  RERANKER_TIMEOUT_MS: z.string().transform(Number).pipe(z.number().min(100)).default('10000'),
+  RERANKER_TOP_N: z.string().transform(Number).pipe(z.number().min(1).max(200)).default('20'),
+  
+  // Vector Store
+  VECTOR_STORE: z.enum(['pgvector', 'memory']).default('pgvector'),
+  
+  // Background jobs
+  JOB_CONCURRENCY: z.string().transform(Number).pipe(z.number().min(1).max(64)).default('4'),
+  JOB_MAX_ATTEMPTS: z.string().transform(Number).pipe(z.number().min(1).max(50)).default('5'),
+  JOB_BACKOFF_BASE_MS: z.string().transform(Number).pipe(z.number().min(100)).default('5000'),
+  JOB_BACKOFF_MAX_MS: z.string().transform(Number).pipe(z.number().min(100)).default('600000'),
+  JOB_POLL_INTERVAL_MS: z.string().transform(Number).pipe(z.number().min(50).max(60000)).default('1000'),
+  JOB_LEASE_MS: z.string().transform(Number).pipe(z.number().min(5000)).default('300000'),
+  JOB_RETENTION_SECONDS: z.string().transform(Number).pipe(z.number().min(60)).default('604800'),
+  JOB_DEAD_LETTER_MAX: z.string().transform(Number).pipe(z.number().min(1)).default('1000'),
+  JOB_SHUTDOWN_TIMEOUT_MS: z.string().transform(Number).pipe(z.number().min(0)).default('30000'),
+  JOB_RUN_IN_API: z.string().transform(val => val === 'true').default('false'),
   
   // Security
   BCRYPT_ROUNDS: z.string().transform(Number).pipe(z.number().min(10).max(15)).default('12'),
@@ -111,19 +183,104 @@ export const config = {
     destination: env.UPLOAD_DESTINATION,
   },
   
+  storage: {
+    driver: env.STORAGE_DRIVER,
+    signedUrlTtl: Number(env.STORAGE_SIGNED_URL_TTL),
+    publicBaseUrl: env.STORAGE_PUBLIC_BASE_URL || `http://localhost:${env.PORT}`,
+    s3: {
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION,
+      endpoint: env.S3_ENDPOINT,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE,
+    },
+  },
+  
+  chunking: {
+    sizeTokens: Number(env.CHUNK_SIZE_TOKENS),
+    overlapTokens: Number(env.CHUNK_OVERLAP_TOKENS),
+    strategy: env.CHUNKING_STRATEGY,
+  },
+  
+  search: {
+    language: env.SEARCH_LANGUAGE,
+  },
+  
   ai: {
     openai: {
       apiKey: env.OPENAI_API_KEY,
       orgId: env.OPENAI_ORG_ID,
+      baseUrl: env.OPENAI_BASE_URL,
     },
     anthropic: {
       apiKey: env.ANTHROPIC_API_KEY,
+      baseUrl: env.ANTHROPIC_BASE_URL,
     },
     google: {
       apiKey: env.GOOGLE_AI_API_KEY,
+      baseUrl: env.GOOGLE_AI_BASE_URL,
+    },
+  },
+  
+  embeddings: {
+    provider: env.EMBEDDING_PROVIDER,
+    model: env.EMBEDDING_MODEL,
+    dimensions: env.EMBEDDING_DIMENSIONS,
+    batchSize: Number(env.EMBEDDING_BATCH_SIZE),
+    maxRetries: Number(env.EMBEDDING_MAX_RETRIES),
+    timeoutMs: Number(env.EMBEDDING_TIMEOUT_MS),
+  },
+  
+  chat: {
+    provider: env.CHAT_PROVIDER,
+    model: env.CHAT_MODEL,
+    maxTokens: Number(env.CHAT_MAX_TOKENS),
+    historyMessages: Number(env.CHAT_HISTORY_MESSAGES),
+    timeoutMs: Number(env.CHAT_TIMEOUT_MS),
+    maxRetries: Number(env.CHAT_MAX_RETRIES),
+    systemPrompt: env.CHAT_SYSTEM_PROMPT || 'You are a helpful assistant for the RAG-y knowledge base. Answer clearly and concisely.',
+  },
+  
+  rag: {
+    enabled: env.RAG_ENABLED,
+    topK: Number(env.RAG_TOP_K),
+    minScore: Number(env.RAG_MIN_SCORE),
+    maxContextTokens: Number(env.RAG_MAX_CONTEXT_TOKENS),
+  },
+  
+  retrieval: {
+    lexicalWeight: Number(env.RETRIEVAL_LEXICAL_WEIGHT),
+    vectorWeight: Number(env.RETRIEVAL_VECTOR_WEIGHT),
+    rrfK: Number(env.RETRIEVAL_RRF_K),
+    candidates: Number(env.RETRIEVAL_CANDIDATES),
+    reranker: {
+      provider: env.RERANKER,
+      url: env.RERANKER_URL,
+      model: env.RERANKER_MODEL,
+      apiKey: env.RERANKER_API_KEY,
+      timeoutMs: Number(env.RERANKER_TIMEOUT_MS),
+      topN: Number(env.RERANKER_TOP_N),
     },
   },
   
+  vectorStore: {
+    driver: env.VECTOR_STORE,
+  },
+  
+  jobs: {
+    concurrency: Number(env.JOB_CONCURRENCY),
+    maxAttempts: Number(env.JOB_MAX_ATTEMPTS),
+    backoffBaseMs: Number(env.JOB_BACKOFF_BASE_MS),
+    backoffMaxMs: Number(env.JOB_BACKOFF_MAX_MS),
+    pollIntervalMs: Number(env.JOB_POLL_INTERVAL_MS),
+    leaseMs: Number(env.JOB_LEASE_MS),
+    retentionSeconds: Number(env.JOB_RETENTION_SECONDS),
+    deadLetterMax: Number(env.JOB_DEAD_LETTER_MAX),
+    shutdownTimeoutMs: Number(env.JOB_SHUTDOWN_TIMEOUT_MS),
+    runInApi: env.JOB_RUN_IN_API,
+  },
+  
   security: {
     bcryptRounds: Number(env.BCRYPT_ROUNDS),
   },
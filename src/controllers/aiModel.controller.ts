@@ -0,0 +1,297 @@
+import { Request, Response } from 'express';
+import { AIModelService } from '@services/aiModel.service';
+import { AIModelStatus, IAIModelWithUsage } from '@models/AIModel.model';
+import { BadRequestError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+const formatModel = (model: IAIModelWithUsage) => ({
+  ai_model_id: model.ai_model_id,
+  model_name: model.model_name,
+  provider: model.provider,
+  version: model.version,
+  description: model.description,
+  status: model.status,
+  is_default: model.is_default,
+  is_restricted: model.is_restricted,
+  api_endpoint: model.api_endpoint,
+  max_tokens: model.max_tokens,
+  cost_per_1k_tokens: model.cost_per_1k_tokens != null ? Number(model.cost_per_1k_tokens) : null,
+  capabilities: model.capabilities,
+  ...(model.conversation_count !== undefined && { conversation_count: Number(model.conversation_count) }),
+  health: {
+    status: model.last_health_status || null,
+    checked_at: model.last_health_check_at || null,
+    latency_ms: model.last_health_latency_ms ?? null,
+    error: model.last_health_error || null,
+  },
+  created_at: model.created_at,
+  updated_at: model.updated_at,
+});
+
+export class AIModelController {
+  // Get all AI models with pagination and filtering
+  static async getModels(req: Request, res: Response): Promise<void> {
+    const { page, limit, search, status, provider } = req.query;
+
+    logger.info('Controller: Get AI models request', {
+      page,
+      limit,
+      search,
+      status,
+      provider,
+      requested_by: req.user?.user_id
+    });
+
+    const filters = {
+      ...(search && typeof search === 'string' && { search }),
+      ...(status && typeof status === 'string' && { status: status as AIModelStatus }),
+      ...(provider && typeof provider === 'string' && { provider }),
+    };
+
+    const result = await AIModelService.getModels(
+      Number(page) || 1,
+      Number(limit) || 10,
+      filters,
+      req.user!.permissions,
+      req.user!.department_id
+    );
+
+    res.json({
+      success: true,
+      message: 'AI models retrieved successfully',
+      data: {
+        models: result.models.map(formatModel),
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      },
+    });
+  }
+
+  // Get the default AI model
+  static async getDefaultModel(req: Request, res: Response): Promise<void> {
+    logger.info('Controller: Get default AI model request', { requested_by: req.user?.user_id });
+
+    const model = await AIModelService.getDefaultModel();
+
+    res.json({
+      success: true,
+      message: model ? 'Default AI model retrieved successfully' : 'No default AI model is set',
+      data: {
+        model: model && formatModel(model),
+      },
+    });
+  }
+
+  // Get AI model by ID
+  static async getModelById(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('AI model ID is required');
+    }
+
+    logger.info('Controller: Get AI model by ID request', {
+      ai_model_id: id,
+      requested_by: req.user?.user_id
+    });
+
+    const model = await AIModelService.getModelById(id);
+    const departments = await AIModelService.getModelDepartments(id);
+
+    res.json({
+      success: true,
+      message: 'AI model retrieved successfully',
+      data: {
+        model: {
+          ...formatModel(model),
+          departments: departments.map(department => ({
+            department_id: department.department_id,
+            department_name: department.department_name,
+            granted_at: department.granted_at,
+          })),
+        },
+      },
+    });
+  }
+
+  // Register new AI model
+  static async createModel(req: Request, res: Response): Promise<void> {
+    const {
+      model_name,
+      provider,
+      version,
+      description,
+      status,
+      api_endpoint,
+      max_tokens,
+      cost_per_1k_tokens,
+      capabilities
+    } = req.body;
+
+    logger.info('Controller: Create AI model request', {
+      model_name,
+      provider,
+      requested_by: req.user?.user_id
+    });
+
+    const model = await AIModelService.createModel({
+      model_name,
+      provider,
+      ...(version && { version }),
+      ...(description && { description }),
+      ...(status && { status }),
+      ...(api_endpoint && { api_endpoint }),
+      ...(max_tokens !== undefined && { max_tokens }),
+      ...(cost_per_1k_tokens !== undefined && { cost_per_1k_tokens }),
+      ...(capabilities && { capabilities }),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'AI model created successfully',
+      data: {
+        model: formatModel(model),
+      },
+    });
+  }
+
+  // Update AI model
+  static async updateModel(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('AI model ID is required');
+    }
+
+    logger.info('Controller: Update AI model request', {
+      ai_model_id: id,
+      update_fields: Object.keys(req.body),
+      requested_by: req.user?.user_id
+    });
+
+    const allowedFields = [
+      'model_name',
+      'provider',
+      'version',
+      'description',
+      'api_endpoint',
+      'max_tokens',
+      'cost_per_1k_tokens',
+      'capabilities',
+      'is_restricted',
+    ];
+    const updateData = Object.fromEntries(
+      Object.entries(req.body).filter(([key, value]) => allowedFields.includes(key) && value !== undefined)
+    );
+
+    const model = await AIModelService.updateModel(id, updateData);
+
+    res.json({
+      success: true,
+      message: 'AI model updated successfully',
+      data: {
+        model: formatModel(model),
+      },
+    });
+  }
+
+  // Change AI model status
+  static async changeStatus(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { status } = req.body;
+
+    if (!id) {
+      throw new BadRequestError('AI model ID is required');
+    }
+
+    logger.info('Controller: Change AI model status request', {
+      ai_model_id: id,
+      status,
+      requested_by: req.user?.user_id
+    });
+
+    const model = await AIModelService.changeStatus(id, status);
+
+    res.json({
+      success: true,
+      message: 'AI model status updated successfully',
+      data: {
+        model: formatModel(model),
+      },
+    });
+  }
+
+  // Make AI model the default
+  static async setDefaultModel(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('AI model ID is required');
+    }
+
+    logger.info('Controller: Set default AI model request', {
+      ai_model_id: id,
+      requested_by: req.user?.user_id
+    });
+
+    const model = await AIModelService.setDefaultModel(id);
+
+    res.json({
+      success: true,
+      message: 'Default AI model updated successfully',
+      data: {
+        model: formatModel(model),
+      },
+    });
+  }
+
+  // Delete AI model
+  static async deleteModel(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('AI model ID is required');
+    }
+
+    logger.info('Controller: Delete AI model request', {
+      ai_model_id: id,
+      requested_by: req.user?.user_id
+    });
+
+    await AIModelService.deleteModel(id);
+
+    res.json({
+      success: true,
+      message: 'AI model deleted successfully',
+    });
+  }
+
+  // Ping the model through its provider
+  static async checkHealth(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('AI model ID is required');
+    }
+
+    logger.info('Controller: AI model health check request', {
+      ai_model_id: id,
+      requested_by: req.user?.user_id
+    });
+
+    const { model, health } = await AIModelService.checkHealth(id);
+
+    res.json({
+      success: true,
+      message: health.status === 'healthy' ? 'AI model is healthy' : 'AI model health check failed',
+      data: {
+        model: formatModel(model),
+        health,
+      },
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import { AnalyticsService } from '@services/analytics.service';
+import { UsageGroupBy } from '@models/Usage.model';
+import { parsePeriodEnd } from '@utils/dateRange';
+import { logger } from '@utils/logger';
+
+export class AnalyticsController {
+  // Get AI token usage and cost grouped by user, department, model and/or day
+  static async getUsage(req: Request, res: Response): Promise<void> {
+    const { group_by, from, to, user_id, department_id, ai_model_id, page, limit } = req.query;
+
+    logger.info('Controller: Get AI usage request', {
+      group_by,
+      from,
+      to,
+      user_id,
+      department_id,
+      ai_model_id,
+      requested_by: req.user?.user_id
+    });
+
+    const groupBy = [...new Set(String(group_by || 'day').split(','))] as UsageGroupBy[];
+
+    const result = await AnalyticsService.getUsage(
+      groupBy,
+      {
+        ...(typeof from === 'string' && { from: new Date(from) }),
+        ...(typeof to === 'string' && { to: parsePeriodEnd(to) }),
+        ...(user_id && typeof user_id === 'string' && { user_id }),
+        ...(department_id && typeof department_id === 'string' && { department_id }),
+        ...(ai_model_id && typeof ai_model_id === 'string' && { ai_model_id }),
+      },
+      Number(page) || 1,
+      Number(limit) || 100
+    );
+
+    res.json({
+      success: true,
+      message: 'AI usage retrieved successfully',
+      data: {
+        group_by: result.group_by,
+        period: {
+          from: result.from,
+          to: result.to,
+        },
+        groups: result.groups,
+        totals: result.totals,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      },
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import { AuditLogService } from '@services/auditLog.service';
+import { DocumentAccessService } from '@services/documentAccess.service';
+import { AuditAction } from '@models/AuditLog.model';
+import { DocumentAccessType } from '@models/DocumentAccess.model';
+import { parsePeriodEnd } from '@utils/dateRange';
+import { logger } from '@utils/logger';
+
+export class AuditLogController {
+  // Get audit log entries with filters and cursor pagination
+  static async getAuditLogs(req: Request, res: Response): Promise<void> {
+    const { table, record_id, folder_id, changed_by, action, from, to, cursor, limit } = req.query;
+
+    logger.info('Controller: Get audit logs request', {
+      table,
+      record_id,
+      folder_id,
+      changed_by,
+      action,
+      from,
+      to,
+      cursor,
+      requested_by: req.user?.user_id
+    });
+
+    const result = await AuditLogService.getAuditLogs(
+      {
+        ...(table && typeof table === 'string' && { table_name: table }),
+        ...(record_id && typeof record_id === 'string' && { record_id }),
+        ...(folder_id && typeof folder_id === 'string' && { folder_id }),
+        ...(changed_by && typeof changed_by === 'string' && { changed_by_user_id: changed_by }),
+        ...(action && typeof action === 'string' && { action: action as AuditAction }),
+        ...(typeof from === 'string' && { from: new Date(from) }),
+        ...(typeof to === 'string' && { to: parsePeriodEnd(to) }),
+      },
+      typeof cursor === 'string' ? cursor : undefined,
+      Number(limit) || 50
+    );
+
+    res.json({
+      success: true,
+      message: 'Audit logs retrieved successfully',
+      data: {
+        audit_logs: result.entries,
+        pagination: {
+          limit: Number(limit) || 50,
+          next_cursor: result.next_cursor,
+          has_more: result.has_more,
+        },
+      },
+    });
+  }
+
+  // Get document reads: downloads, previews, search hits and AI context
+  static async getDocumentAccess(req: Request, res: Response): Promise<void> {
+    const { document_id, user_id, access_type, conversation_id, from, to, cursor, limit } = req.query;
+
+    logger.info('Controller: Get document access log request', {
+      document_id,
+      user_id,
+      access_type,
+      conversation_id,
+      from,
+      to,
+      cursor,
+      requested_by: req.user?.user_id
+    });
+
+    const result = await DocumentAccessService.getAccessLog(
+      {
+        ...(document_id && typeof document_id === 'string' && { document_id }),
+        ...(user_id && typeof user_id === 'string' && { user_id }),
+        ...(access_type && typeof access_type === 'string' && { access_type: access_type as DocumentAccessType }),
+        ...(conversation_id && typeof conversation_id === 'string' && { conversation_id }),
+        ...(typeof from === 'string' && { from: new Date(from) }),
+        ...(typeof to === 'string' && { to: parsePeriodEnd(to) }),
+      },
+      typeof cursor === 'string' ? cursor : undefined,
+      Number(limit) || 50
+    );
+
+    res.json({
+      success: true,
+      message: 'Document access log retrieved successfully',
+      data: {
+        accesses: result.entries,
+        pagination: {
+          limit: Number(limit) || 50,
+          next_cursor: result.next_cursor,
+          has_more: result.has_more,
+        },
+      },
+    });
+  }
+}
@@ -293,7 +293,7 @@ export class AuthController {
       }
 
       // Update password
-      await UserModel.changePassword(userId, new_password);
+      await UserModel.changePassword(userId, new_password, userId);
 
       // Remove reset token
       await RedisConnection.del(resetTokenKey);
@@ -340,7 +340,7 @@ export class AuthController {
       }
 
       // Update password
-      await UserModel.changePassword(req.user.user_id, new_password);
+      await UserModel.changePassword(req.user.user_id, new_password, req.user.user_id);
 
       // Remove all refresh tokens for this user (force re-login on other devices)
       const refreshTokenKey = `refresh_token:${req.user.user_id}`;
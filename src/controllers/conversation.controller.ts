@@ -0,0 +1,322 @@
+import { Request, Response } from 'express';
+import { ConversationService } from '@services/conversation.service';
+import {
+  ConversationStatus,
+  IConversationParticipant,
+  IConversationWithJoins
+} from '@models/Conversation.model';
+import { BadRequestError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+const formatConversation = (conversation: IConversationWithJoins) => ({
+  conversation_id: conversation.conversation_id,
+  conversation_name: conversation.conversation_name,
+  created_by_user_id: conversation.created_by_user_id,
+  created_by_name: conversation.created_by_name,
+  created_by_email: conversation.created_by_email,
+  ai_model_used_id: conversation.ai_model_used_id,
+  ai_model_name: conversation.ai_model_name,
+  status: conversation.status,
+  participant_count: Number(conversation.participant_count || 0),
+  total_messages: conversation.total_messages,
+  total_tokens_used: conversation.total_tokens_used,
+  created_at: conversation.created_at,
+  updated_at: conversation.updated_at,
+  last_message_at: conversation.last_message_at,
+});
+
+const formatParticipant = (participant: IConversationParticipant) => ({
+  user_id: participant.user_id,
+  first_name: participant.first_name,
+  last_name: participant.last_name,
+  email: participant.email,
+  is_ai_user: participant.is_ai_user,
+  role: participant.role,
+  joined_at: participant.joined_at,
+  last_active_at: participant.last_active_at,
+});
+
+export class ConversationController {
+  // Get conversations visible to the current user
+  static async getConversations(req: Request, res: Response): Promise<void> {
+    const { page, limit, search, status, all } = req.query;
+
+    logger.info('Controller: Get conversations request', {
+      page,
+      limit,
+      search,
+      status,
+      all,
+      requested_by: req.user?.user_id
+    });
+
+    const options = {
+      ...(search && typeof search === 'string' && { search }),
+      ...((status === 'active' || status === 'archived') && { status: status as ConversationStatus }),
+      ...(all === 'true' && { all: true }),
+    };
+
+    const result = await ConversationService.getConversations(
+      Number(page) || 1,
+      Number(limit) || 10,
+      options,
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    res.json({
+      success: true,
+      message: 'Conversations retrieved successfully',
+      data: {
+        conversations: result.conversations.map(formatConversation),
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      },
+    });
+  }
+
+  // Get conversation by ID
+  static async getConversationById(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('Conversation ID is required');
+    }
+
+    logger.info('Controller: Get conversation by ID request', {
+      conversation_id: id,
+      requested_by: req.user?.user_id
+    });
+
+    const conversation = await ConversationService.getConversationById(
+      id,
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    res.json({
+      success: true,
+      message: 'Conversation retrieved successfully',
+      data: {
+        conversation: formatConversation(conversation),
+      },
+    });
+  }
+
+  // Create new conversation
+  static async createConversation(req: Request, res: Response): Promise<void> {
+    const { conversation_name, ai_model_used_id, participants } = req.body;
+
+    logger.info('Controller: Create conversation request', {
+      conversation_name,
+      ai_model_used_id,
+      participant_count: participants?.length || 0,
+      requested_by: req.user?.user_id
+    });
+
+    const conversation = await ConversationService.createConversation(
+      {
+        ...(conversation_name && { conversation_name }),
+        ...(ai_model_used_id && { ai_model_used_id }),
+      },
+      participants || [],
+      req.user!.user_id,
+      req.user!.department_id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Conversation created successfully',
+      data: {
+        conversation: formatConversation(conversation),
+      },
+    });
+  }
+
+  // Rename, archive or unarchive a conversation
+  static async updateConversation(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { conversation_name, ai_model_used_id, status } = req.body;
+
+    if (!id) {
+      throw new BadRequestError('Conversation ID is required');
+    }
+
+    logger.info('Controller: Update conversation request', {
+      conversation_id: id,
+      update_fields: Object.keys(req.body),
+      requested_by: req.user?.user_id
+    });
+
+    const conversation = await ConversationService.updateConversation(
+      id,
+      {
+        ...(conversation_name !== undefined && { conversation_name }),
+        ...(ai_model_used_id !== undefined && { ai_model_used_id }),
+        ...(status !== undefined && { status }),
+      },
+      req.user!.user_id,
+      req.user!.permissions,
+      req.user!.department_id
+    );
+
+    res.json({
+      success: true,
+      message: 'Conversation updated successfully',
+      data: {
+        conversation: formatConversation(conversation),
+      },
+    });
+  }
+
+  // Delete conversation
+  static async deleteConversation(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('Conversation ID is required');
+    }
+
+    logger.info('Controller: Delete conversation request', {
+      conversation_id: id,
+      requested_by: req.user?.user_id
+    });
+
+    await ConversationService.deleteConversation(id, req.user!.user_id, req.user!.permissions);
+
+    res.json({
+      success: true,
+      message: 'Conversation deleted successfully',
+    });
+  }
+
+  // Get conversation participants
+  static async getParticipants(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('Conversation ID is required');
+    }
+
+    logger.info('Controller: Get conversation participants request', {
+      conversation_id: id,
+      requested_by: req.user?.user_id
+    });
+
+    const participants = await ConversationService.getParticipants(
+      id,
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    res.json({
+      success: true,
+      message: 'Conversation participants retrieved successfully',
+      data: {
+        conversation_id: id,
+        participants: participants.map(formatParticipant),
+      },
+    });
+  }
+
+  // Add participant to conversation
+  static async addParticipant(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { user_id, role } = req.body;
+
+    if (!id) {
+      throw new BadRequestError('Conversation ID is required');
+    }
+
+    logger.info('Controller: Add conversation participant request', {
+      conversation_id: id,
+      user_id,
+      role,
+      requested_by: req.user?.user_id
+    });
+
+    const participant = await ConversationService.addParticipant(
+      id,
+      { user_id, role },
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Participant added to conversation successfully',
+      data: {
+        conversation_id: id,
+        participant: {
+          user_id: participant.user_id,
+          role: participant.role,
+          joined_at: participant.joined_at,
+        },
+      },
+    });
+  }
+
+  // Change a participant's role
+  static async updateParticipant(req: Request, res: Response): Promise<void> {
+    const { id, userId } = req.params;
+    const { role } = req.body;
+
+    if (!id || !userId) {
+      throw new BadRequestError('Conversation ID and user ID are required');
+    }
+
+    logger.info('Controller: Update conversation participant request', {
+      conversation_id: id,
+      user_id: userId,
+      role,
+      requested_by: req.user?.user_id
+    });
+
+    const participant = await ConversationService.updateParticipantRole(
+      id,
+      userId,
+      role,
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    res.json({
+      success: true,
+      message: 'Participant role updated successfully',
+      data: {
+        conversation_id: id,
+        participant: {
+          user_id: participant.user_id,
+          role: participant.role,
+          joined_at: participant.joined_at,
+        },
+      },
+    });
+  }
+
+  // Remove participant from conversation (or leave it)
+  static async removeParticipant(req: Request, res: Response): Promise<void> {
+    const { id, userId } = req.params;
+
+    if (!id || !userId) {
+      throw new BadRequestError('Conversation ID and user ID are required');
+    }
+
+    logger.info('Controller: Remove conversation participant request', {
+      conversation_id: id,
+      user_id: userId,
+      requested_by: req.user?.user_id
+    });
+
+    await ConversationService.removeParticipant(id, userId, req.user!.user_id, req.user!.permissions);
+
+    res.json({
+      success: true,
+      message: 'Participant removed from conversation successfully',
+    });
+  }
+}
@@ -65,6 +65,7 @@ export class DepartmentController {
     });
 
     const department = await DepartmentService.getDepartmentById(id);
+    const { ai_models } = await DepartmentService.getDepartmentAIModels(id);
 
     res.json({
       success: true,
@@ -77,6 +78,13 @@ export class DepartmentController {
           is_active: department.is_active,
           created_at: department.created_at,
           updated_at: department.updated_at,
+          ai_models: ai_models.map(model => ({
+            ai_model_id: model.ai_model_id,
+            model_name: model.model_name,
+            provider: model.provider,
+            status: model.status,
+            granted_at: model.granted_at,
+          })),
         },
       },
     });
@@ -94,7 +102,7 @@ export class DepartmentController {
     const department = await DepartmentService.createDepartment({
       department_name,
       description,
-    });
+    }, req.user?.user_id);
 
     res.status(201).json({
       success: true,
@@ -127,7 +135,7 @@ export class DepartmentController {
       updated_by: req.user?.user_id 
     });
 
-    const updatedDepartment = await DepartmentService.updateDepartment(id, updateData);
+    const updatedDepartment = await DepartmentService.updateDepartment(id, updateData, req.user?.user_id);
 
     res.json({
       success: true,
@@ -158,7 +166,7 @@ export class DepartmentController {
       deleted_by: req.user?.user_id 
     });
 
-    await DepartmentService.deleteDepartment(id);
+    await DepartmentService.deleteDepartment(id, req.user?.user_id);
 
     res.json({
       success: true,
@@ -284,7 +292,7 @@ export class DepartmentController {
       removed_by: req.user?.user_id 
     });
 
-    await DepartmentService.removePermissionFromDepartment(id, permission_id);
+    await DepartmentService.removePermissionFromDepartment(id, permission_id, req.user?.user_id);
 
     res.json({
       success: true,
@@ -292,6 +300,98 @@ export class DepartmentController {
     });
   }
 
+  // Get the AI models granted to a department
+  static async getDepartmentAIModels(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('Department ID is required');
+    }
+
+    logger.info('Controller: Get department AI models request', { 
+      department_id: id, 
+      requested_by: req.user?.user_id 
+    });
+
+    const { department, ai_models } = await DepartmentService.getDepartmentAIModels(id);
+
+    res.json({
+      success: true,
+      message: 'Department AI models retrieved successfully',
+      data: {
+        department_id: id,
+        department_name: department.department_name,
+        ai_models: ai_models.map(model => ({
+          ai_model_id: model.ai_model_id,
+          model_name: model.model_name,
+          provider: model.provider,
+          status: model.status,
+          granted_by: model.granted_by_user_id,
+          granted_at: model.granted_at,
+        })),
+      },
+    });
+  }
+
+  // Allow a department to use an AI model
+  static async addDepartmentAIModel(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { ai_model_id } = req.body;
+
+    if (!id) {
+      throw new BadRequestError('Department ID is required');
+    }
+
+    if (!ai_model_id) {
+      throw new BadRequestError('AI model ID is required');
+    }
+
+    logger.info('Controller: Add department AI model request', { 
+      department_id: id, 
+      ai_model_id,
+      granted_by: req.user?.user_id 
+    });
+
+    await DepartmentService.addAIModelToDepartment(id, ai_model_id, req.user?.user_id);
+
+    res.status(201).json({
+      success: true,
+      message: 'AI model granted to department successfully',
+      data: {
+        department_id: id,
+        ai_model_id,
+        granted_by: req.user?.user_id,
+        granted_at: new Date(),
+      },
+    });
+  }
+
+  // Revoke a department's use of an AI model
+  static async removeDepartmentAIModel(req: Request, res: Response): Promise<void> {
+    const { id, ai_model_id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('Department ID is required');
+    }
+
+    if (!ai_model_id) {
+      throw new BadRequestError('AI model ID is required');
+    }
+
+    logger.info('Controller: Remove department AI model request', { 
+      department_id: id, 
+      ai_model_id,
+      removed_by: req.user?.user_id 
+    });
+
+    await DepartmentService.removeAIModelFromDepartment(id, ai_model_id, req.user?.user_id);
+
+    res.json({
+      success: true,
+      message: 'AI model revoked from department successfully',
+    });
+  }
+
   // Get all available permissions (helper endpoint for permission management)
   static async getAvailablePermissions(req: Request, res: Response): Promise<void> {
     const { category } = req.query;
@@ -384,4 +484,4 @@ export class DepartmentController {
       description: dept.description
     }));
   }
-} 
\ No newline at end of file
+} 
@@ -0,0 +1,214 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import express, { Request } from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { Readable } from 'stream';
+import { DocumentController } from '@controllers/document.controller';
+import { IDocument } from '@models/Document.model';
+import { DocumentService } from '@services/document.service';
+import { DocumentAccessService } from '@services/documentAccess.service';
+import { asyncHandler, errorHandler } from '@middleware/errorHandler';
+
+const CONTENT = Buffer.from('0123456789');
+const FILE_HASH = '84d89877f0d4041efb6bf91a16f0248f2fd573e6af05c19f96bedb9f882f7882';
+const ETAG = `"${FILE_HASH}"`;
+// Tag of a file with other content
+const STALE_ETAG = `"${'0'.repeat(64)}"`;
+
+const document: IDocument = {
+  document_id: 'document-1',
+  document_name: 'notes.pdf',
+  file_path: 'documents/notes.pdf',
+  uploaded_by_user_id: 'user-1',
+  file_size_bytes: CONTENT.length,
+  mime_type: 'application/pdf',
+  file_hash: FILE_HASH,
+  version_number: 2,
+  is_active: true,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const user: NonNullable<Request['user']> = {
+  user_id: 'user-1',
+  email: 'user@example.com',
+  first_name: 'Test',
+  last_name: 'User',
+  department_id: 'department-1',
+  is_ai_user: false,
+  permissions: [],
+};
+
+describe('DocumentController.getDocumentContent', () => {
+  let server: Server;
+  let baseUrl: string;
+  let contentInfo: ReturnType<typeof spyOn>;
+  let openContent: ReturnType<typeof spyOn>;
+  let recordAccess: ReturnType<typeof spyOn>;
+
+  const request = (headers: Record<string, string> = {}, options: { method?: string; path?: string } = {}) =>
+    fetch(`${baseUrl}${options.path || '/documents/document-1/content'}`, { method: options.method || 'GET', headers });
+
+  beforeAll(async () => {
+    const app = express();
+    app.use((req, _res, next) => {
+      req.user = user;
+      next();
+    });
+    app.get('/documents/:id/content', asyncHandler(DocumentController.getDocumentContent));
+    app.get('/documents/:id/versions/:versionNumber/content', asyncHandler(DocumentController.getDocumentContent));
+    app.use(errorHandler);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    contentInfo = spyOn(DocumentService, 'getDocumentContentInfo')
+      .mockResolvedValue({ document, size: CONTENT.length, etag: ETAG });
+    openContent = spyOn(DocumentService, 'openDocumentContent')
+      .mockImplementation(async (_document, range = {}) =>
+        Readable.from([CONTENT.subarray(range.start ?? 0, (range.end ?? CONTENT.length - 1) + 1)]));
+    recordAccess = spyOn(DocumentAccessService, 'recordFileAccess').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    contentInfo.mockRestore();
+    openContent.mockRestore();
+    recordAccess.mockRestore();
+  });
+
+  it('streams the whole file with its ETag and records one access', async () => {
+    const response = await request();
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('0123456789');
+    expect(response.headers.get('etag')).toBe(ETAG);
+    expect(response.headers.get('accept-ranges')).toBe('bytes');
+    expect(response.headers.get('content-length')).toBe('10');
+    expect(response.headers.get('content-type')).toBe('application/pdf');
+    expect(response.headers.get('content-disposition')).toStartWith('inline;');
+    expect(recordAccess).toHaveBeenCalledTimes(1);
+    expect(recordAccess.mock.calls[0]![2]).toBe('preview');
+  });
+
+  it('records a download when an attachment is requested', async () => {
+    const response = await request({}, { path: '/documents/document-1/content?disposition=attachment' });
+
+    expect(response.headers.get('content-disposition')).toStartWith('attachment;');
+    await response.text();
+    expect(recordAccess.mock.calls[0]![2]).toBe('download');
+  });
+
+  it('serves a single byte range with 206', async () => {
+    const response = await request({ Range: 'bytes=2-5' });
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-range')).toBe('bytes 2-5/10');
+    expect(response.headers.get('content-length')).toBe('4');
+    expect(await response.text()).toBe('2345');
+    expect(openContent.mock.calls[0]![1]).toEqual({ start: 2, end: 5 });
+  });
+
+  it('records an access only for the range starting at the first byte', async () => {
+    await (await request({ Range: 'bytes=4-' })).text();
+    expect(recordAccess).not.toHaveBeenCalled();
+
+    await (await request({ Range: 'bytes=0-3' })).text();
+    expect(recordAccess).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a suffix range', async () => {
+    const response = await request({ Range: 'bytes=-3' });
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-range')).toBe('bytes 7-9/10');
+    expect(await response.text()).toBe('789');
+  });
+
+  it('answers an unsatisfiable range with 416', async () => {
+    const response = await request({ Range: 'bytes=20-30' });
+
+    expect(response.status).toBe(416);
+    expect(response.headers.get('content-range')).toBe('bytes */10');
+    expect(openContent).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the whole file for multi-part and malformed ranges', async () => {
+    for (const range of ['bytes=0-1,5-6', 'items=0-1']) {
+      const response = await request({ Range: range });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-range')).toBeNull();
+      expect(await response.text()).toBe('0123456789');
+    }
+  });
+
+  it('answers a matching If-None-Match with 304 without reading the file', async () => {
+    const response = await request({ 'If-None-Match': ETAG });
+
+    expect(response.status).toBe(304);
+    expect(await response.text()).toBe('');
+    expect(openContent).not.toHaveBeenCalled();
+    expect(recordAccess).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves the whole file when If-None-Match is stale', async () => {
+    const response = await request({ 'If-None-Match': STALE_ETAG });
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('0123456789');
+  });
+
+  it('honours a Range only while If-Range matches the ETag', async () => {
+    const matching = await request({ Range: 'bytes=2-5', 'If-Range': ETAG });
+    expect(matching.status).toBe(206);
+    expect(await matching.text()).toBe('2345');
+
+    const stale = await request({ Range: 'bytes=2-5', 'If-Range': STALE_ETAG });
+    expect(stale.status).toBe(200);
+    expect(await stale.text()).toBe('0123456789');
+  });
+
+  it('sends no ETag and ignores If-Range when the file has no hash', async () => {
+    contentInfo.mockResolvedValue({ document, size: CONTENT.length, etag: null });
+
+    const response = await request({ Range: 'bytes=2-5', 'If-Range': ETAG });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('etag')).toBeNull();
+    expect(await response.text()).toBe('0123456789');
+  });
+
+  it('answers HEAD with the headers only and records no access', async () => {
+    const response = await request({ Range: 'bytes=0-3' }, { method: 'HEAD' });
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-length')).toBe('4');
+    expect(openContent).not.toHaveBeenCalled();
+    expect(recordAccess).not.toHaveBeenCalled();
+  });
+
+  it('passes the version number of version content requests', async () => {
+    await (await request({}, { path: '/documents/document-1/versions/1/content' })).text();
+
+    expect(contentInfo.mock.calls[0]![3]).toBe(1);
+    expect(recordAccess.mock.calls[0]![3]).toEqual({ version_number: 1 });
+  });
+
+  it('ends an empty file without opening it', async () => {
+    contentInfo.mockResolvedValue({ document, size: 0, etag: ETAG });
+
+    const response = await request();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-length')).toBe('0');
+    expect(await response.text()).toBe('');
+    expect(openContent).not.toHaveBeenCalled();
+  });
+});
@@ -1,11 +1,19 @@
 import { Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
 import { DocumentService } from '@services/document.service';
+import { ExtractionService } from '@services/extraction.service';
+import { ChunkingService } from '@services/chunking.service';
+import { SemanticSearchService } from '@services/semanticSearch.service';
+import { DocumentAccessService } from '@services/documentAccess.service';
+import { IDocumentFilters } from '@models/Document.model';
+import { ExtractionStatus } from '@models/DocumentExtraction.model';
 import { 
   BadRequestError, 
   NotFoundError, 
   ConflictError,
   ForbiddenError 
 } from '@utils/AppError';
+import { buildContentDisposition, isInlinePreviewable } from '@utils/contentDisposition';
 import { logger } from '@utils/logger';
 
 export class DocumentController {
@@ -13,7 +21,7 @@ export class DocumentController {
    * Get all documents with pagination and filtering
    */
   static async getDocuments(req: Request, res: Response): Promise<void> {
-    const { page, limit, folder_id, uploaded_by_user_id, mime_type, search, is_active } = req.query;
+    const { page, limit, folder_id, uploaded_by_user_id, mime_type, search, is_active, extraction_status } = req.query;
 
     logger.info('Fetching documents list:', { 
       page, 
@@ -23,17 +31,12 @@ export class DocumentController {
       mime_type,
       search,
       is_active,
+      extraction_status,
       requested_by: req.user?.user_id 
     });
 
     try {
-      const filters: {
-        folder_id?: string;
-        uploaded_by_user_id?: string;
-        mime_type?: string;
-        search?: string;
-        is_active?: boolean;
-      } = {};
+      const filters: IDocumentFilters = {};
 
       if (folder_id && typeof folder_id === 'string') {
         filters.folder_id = folder_id;
@@ -50,6 +53,9 @@ export class DocumentController {
       if (is_active !== undefined) {
         filters.is_active = is_active === 'true';
       }
+      if (extraction_status && typeof extraction_status === 'string') {
+        filters.extraction_status = extraction_status as ExtractionStatus;
+      }
 
       const result = await DocumentService.getDocuments(
         Number(page) || 1,
@@ -72,6 +78,7 @@ export class DocumentController {
           documents: result.documents.map(doc => ({
             document_id: doc.document_id,
             document_name: doc.document_name,
+            description: doc.description,
             file_path: doc.file_path,
             folder_id: doc.folder_id,
             folder_name: doc.folder_name,
@@ -82,6 +89,7 @@ export class DocumentController {
             mime_type: doc.mime_type,
             file_hash: doc.file_hash,
             version_number: doc.version_number,
+            extraction_status: doc.extraction_status,
             is_active: doc.is_active,
             created_at: doc.created_at,
             updated_at: doc.updated_at,
@@ -128,6 +136,7 @@ export class DocumentController {
           document: {
             document_id: document.document_id,
             document_name: document.document_name,
+            description: document.description,
             file_path: document.file_path,
             folder_id: document.folder_id,
             folder_name: document.folder_name,
@@ -138,6 +147,7 @@ export class DocumentController {
             mime_type: document.mime_type,
             file_hash: document.file_hash,
             version_number: document.version_number,
+            extraction_status: document.extraction_status,
             is_active: document.is_active,
             created_at: document.created_at,
             updated_at: document.updated_at,
@@ -151,49 +161,46 @@ export class DocumentController {
   }
 
   /**
-   * Create new document
+   * Upload a file as a new document
    */
-  static async createDocument(req: Request, res: Response): Promise<void> {
-    const { document_name, file_path, folder_id, file_size_bytes, mime_type, file_hash } = req.body;
+  static async uploadDocument(req: Request, res: Response): Promise<void> {
+    const { document_name, description, folder_id, on_duplicate } = req.body;
+
+    if (!req.file) {
+      throw new BadRequestError('File is required');
+    }
 
-    logger.info('Creating new document:', { 
+    logger.info('Uploading document:', { 
+      original_name: req.file.originalname,
       document_name,
       folder_id,
-      file_size_bytes,
-      mime_type,
+      on_duplicate,
       created_by: req.user?.user_id 
     });
 
     try {
-      const documentData = {
-        document_name,
-        file_path,
-        folder_id,
-        file_size_bytes,
-        mime_type,
-        file_hash,
-        uploaded_by_user_id: req.user!.user_id, // This will be overridden in service
-      };
-
-      const document = await DocumentService.createDocument(
-        documentData,
+      const { document, linked, warnings } = await DocumentService.uploadDocument(
+        req.file,
+        { document_name, description, folder_id, on_duplicate },
         req.user!.user_id,
         req.user!.permissions
       );
 
-      logger.info('Document created successfully:', { 
+      logger.info('Document uploaded successfully:', { 
         document_id: document.document_id,
         document_name: document.document_name,
+        linked,
         created_by: req.user?.user_id 
       });
 
-      res.status(201).json({
+      res.status(linked ? 200 : 201).json({
         success: true,
-        message: 'Document created successfully',
+        message: linked ? 'Existing duplicate document returned' : 'Document uploaded successfully',
         data: {
           document: {
             document_id: document.document_id,
             document_name: document.document_name,
+            description: document.description,
             file_path: document.file_path,
             folder_id: document.folder_id,
             uploaded_by_user_id: document.uploaded_by_user_id,
@@ -201,15 +208,18 @@ export class DocumentController {
             mime_type: document.mime_type,
             file_hash: document.file_hash,
             version_number: document.version_number,
+            extraction_status: document.extraction_status,
             is_active: document.is_active,
             created_at: document.created_at,
             updated_at: document.updated_at,
           },
+          linked,
+          warnings,
         },
       });
     } catch (error) {
-      logger.error('Failed to create document:', { 
-        document_name, 
+      logger.error('Failed to upload document:', { 
+        original_name: req.file.originalname, 
         error, 
         created_by: req.user?.user_id 
       });
@@ -217,6 +227,341 @@ export class DocumentController {
     }
   }
 
+  /**
+   * Stream a document's file, with support for Range and conditional requests.
+   * Under /versions/:versionNumber, streams that version's file.
+   */
+  static async getDocumentContent(req: Request, res: Response): Promise<void> {
+    const { id, versionNumber } = req.params;
+    const { disposition } = req.query;
+
+    if (!id) {
+      throw new BadRequestError('Document ID is required');
+    }
+
+    const version = versionNumber ? Number(versionNumber) : undefined;
+    const { document, size, etag } = await DocumentService.getDocumentContentInfo(
+      id,
+      req.user!.user_id,
+      req.user!.permissions,
+      version
+    );
+
+    const dispositionType = disposition === 'inline' || disposition === 'attachment'
+      ? disposition
+      : isInlinePreviewable(document.mime_type) ? 'inline' : 'attachment';
+    // Viewers fetch a file in many ranges; only the request for its start counts as an access
+    const recordAccess = () => DocumentAccessService.recordFileAccess(
+      document,
+      req.user!.user_id,
+      dispositionType === 'inline' ? 'preview' : 'download',
+      version ? { version_number: version } : undefined
+    );
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Content-Type', document.mime_type || 'application/octet-stream');
+    res.setHeader('Content-Disposition', buildContentDisposition(dispositionType, document.document_name));
+    res.setHeader('Cache-Control', 'private, no-cache');
+    // Let the frontend on another origin embed previews and read these headers
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader('Access-Control-Expose-Headers', 'Accept-Ranges, Content-Disposition, Content-Length, Content-Range, ETag');
+    if (etag) {
+      res.setHeader('ETag', etag);
+    }
+
+    if (req.fresh) {
+      if (req.method !== 'HEAD') {
+        await recordAccess();
+      }
+      res.status(304).end();
+      return;
+    }
+
+    // A Range is only honoured when If-Range (if sent) still matches the current file
+    const ifRange = req.headers['if-range'];
+    const rangeApplies = !!req.headers.range && (!ifRange || (!!etag && ifRange === etag));
+
+    let start = 0;
+    let end = size - 1;
+    if (rangeApplies) {
+      const ranges = req.range(size, { combine: true });
+
+      if (ranges === -1) {
+        res.status(416).setHeader('Content-Range', `bytes */${size}`);
+        res.end();
+        return;
+      }
+
+      // Malformed or multi-part ranges fall back to the full content
+      if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+        start = ranges[0]!.start;
+        end = ranges[0]!.end;
+        res.status(206).setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+      }
+    }
+
+    res.setHeader('Content-Length', size === 0 ? 0 : end - start + 1);
+
+    logger.info('Streaming document content:', { 
+      document_id: id,
+      version_number: version,
+      range: res.statusCode === 206 ? `${start}-${end}` : undefined,
+      requested_by: req.user?.user_id 
+    });
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    if (start === 0) {
+      await recordAccess();
+    }
+
+    if (size === 0) {
+      res.end();
+      return;
+    }
+
+    const stream = await DocumentService.openDocumentContent(document, { start, end });
+    try {
+      await pipeline(stream, res);
+    } catch (error) {
+      // Once bytes are on the wire the error handler can no longer respond
+      if (!res.headersSent) {
+        throw error;
+      }
+      logger.warn('Document content stream interrupted:', { document_id: id, error });
+    }
+  }
+
+  /**
+   * Get a signed download URL for a document's file
+   */
+  static async getDocumentDownloadUrl(req: Request, res: Response): Promise<void> {
+    const { id, versionNumber } = req.params;
+    const { disposition } = req.query;
+
+    if (!id) {
+      throw new BadRequestError('Document ID is required');
+    }
+
+    const version = versionNumber ? Number(versionNumber) : undefined;
+    logger.info('Issuing document download URL:', { document_id: id, version_number: version, requested_by: req.user?.user_id });
+
+    const { document, url, expires_in } = await DocumentService.getDocumentDownloadUrl(
+      id,
+      req.user!.user_id,
+      req.user!.permissions,
+      disposition === 'inline' ? 'inline' : 'attachment',
+      version
+    );
+
+    await DocumentAccessService.recordFileAccess(
+      document,
+      req.user!.user_id,
+      disposition === 'inline' ? 'preview' : 'download',
+      { via: 'signed_url', ...(version && { version_number: version }) }
+    );
+
+    res.json({
+      success: true,
+      message: 'Download URL generated successfully',
+      data: {
+        url,
+        expires_in,
+      },
+    });
+  }
+
+  /**
+   * Get a document's version history, newest first
+   */
+  static async getDocumentVersions(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('Document ID is required');
+    }
+
+    logger.info('Fetching document versions:', { document_id: id, requested_by: req.user?.user_id });
+
+    const versions = await DocumentService.getDocumentVersions(
+      id,
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    res.json({
+      success: true,
+      message: 'Document versions retrieved successfully',
+      data: {
+        versions,
+      },
+    });
+  }
+
+  /**
+   * Upload a file as the document's new current version
+   */
+  static async uploadDocumentVersion(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('Document ID is required');
+    }
+
+    if (!req.file) {
+      throw new BadRequestError('File is required');
+    }
+
+    logger.info('Uploading document version:', { 
+      document_id: id,
+      original_name: req.file.originalname,
+      uploaded_by: req.user?.user_id 
+    });
+
+    const document = await DocumentService.uploadDocumentVersion(
+      id,
+      req.file,
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Document version uploaded successfully',
+      data: {
+        document,
+      },
+    });
+  }
+
+  /**
+   * Make an earlier version current again (recorded as a new version)
+   */
+  static async restoreDocumentVersion(req: Request, res: Response): Promise<void> {
+    const { id, versionNumber } = req.params;
+
+    if (!id || !versionNumber) {
+      throw new BadRequestError('Document ID and version number are required');
+    }
+
+    logger.info('Restoring document version:', { 
+      document_id: id,
+      version_number: versionNumber,
+      restored_by: req.user?.user_id 
+    });
+
+    const document = await DocumentService.restoreDocumentVersion(
+      id,
+      Number(versionNumber),
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    res.json({
+      success: true,
+      message: `Version ${versionNumber} restored as version ${document.version_number}`,
+      data: {
+        document,
+      },
+    });
+  }
+
+  /**
+   * Get a document's text extraction status and, optionally, its text
+   */
+  static async getDocumentExtraction(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { include_text } = req.query;
+
+    if (!id) {
+      throw new BadRequestError('Document ID is required');
+    }
+
+    logger.info('Fetching document extraction:', { document_id: id, requested_by: req.user?.user_id });
+
+    const extraction = await ExtractionService.getDocumentExtraction(
+      id,
+      req.user!.user_id,
+      req.user!.permissions,
+      include_text === 'true'
+    );
+
+    res.json({
+      success: true,
+      message: 'Document extraction retrieved successfully',
+      data: {
+        extraction,
+      },
+    });
+  }
+
+  /**
+   * Get a page of a document's chunks in reading order
+   */
+  static async getDocumentChunks(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { page, limit } = req.query;
+
+    if (!id) {
+      throw new BadRequestError('Document ID is required');
+    }
+
+    logger.info('Fetching document chunks:', { document_id: id, page, limit, requested_by: req.user?.user_id });
+
+    const result = await ChunkingService.getDocumentChunks(
+      id,
+      Number(page) || 1,
+      Number(limit) || 20,
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    res.json({
+      success: true,
+      message: 'Document chunks retrieved successfully',
+      data: {
+        chunks: result.chunks,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+        },
+      },
+    });
+  }
+
+  /**
+   * Queue a new text extraction for a document
+   */
+  static async extractDocument(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('Document ID is required');
+    }
+
+    logger.info('Re-extracting document:', { document_id: id, requested_by: req.user?.user_id });
+
+    const { extraction, job } = await ExtractionService.reextractDocument(
+      id,
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    res.status(202).json({
+      success: true,
+      message: 'Document extraction queued',
+      data: {
+        extraction,
+        job,
+      },
+    });
+  }
+
   /**
    * Update document
    */
@@ -254,6 +599,7 @@ export class DocumentController {
           document: {
             document_id: document.document_id,
             document_name: document.document_name,
+            description: document.description,
             file_path: document.file_path,
             folder_id: document.folder_id,
             uploaded_by_user_id: document.uploaded_by_user_id,
@@ -261,6 +607,7 @@ export class DocumentController {
             mime_type: document.mime_type,
             file_hash: document.file_hash,
             version_number: document.version_number,
+            extraction_status: document.extraction_status,
             is_active: document.is_active,
             created_at: document.created_at,
             updated_at: document.updated_at,
@@ -323,7 +670,7 @@ export class DocumentController {
    * Search documents
    */
   static async searchDocuments(req: Request, res: Response): Promise<void> {
-    const { q, page, limit, folder_id, mime_type } = req.query;
+    const { q, page, limit, folder_id, mime_type, uploaded_by_user_id } = req.query;
 
     if (!q || typeof q !== 'string') {
       throw new BadRequestError('Search query is required');
@@ -335,6 +682,7 @@ export class DocumentController {
       limit,
       folder_id,
       mime_type,
+      uploaded_by_user_id,
       requested_by: req.user?.user_id 
     });
 
@@ -342,6 +690,7 @@ export class DocumentController {
       const filters: {
         folder_id?: string;
         mime_type?: string;
+        uploaded_by_user_id?: string;
       } = {};
 
       if (folder_id && typeof folder_id === 'string') {
@@ -350,6 +699,9 @@ export class DocumentController {
       if (mime_type && typeof mime_type === 'string') {
         filters.mime_type = mime_type;
       }
+      if (uploaded_by_user_id && typeof uploaded_by_user_id === 'string') {
+        filters.uploaded_by_user_id = uploaded_by_user_id;
+      }
 
       const result = await DocumentService.searchDocuments(
         q,
@@ -367,6 +719,8 @@ export class DocumentController {
         requested_by: req.user?.user_id 
       });
 
+      await DocumentAccessService.recordSearchHits(result.documents, req.user!.user_id, q);
+
       res.json({
         success: true,
         message: 'Document search completed',
@@ -374,6 +728,7 @@ export class DocumentController {
           documents: result.documents.map(doc => ({
             document_id: doc.document_id,
             document_name: doc.document_name,
+            description: doc.description,
             file_path: doc.file_path,
             folder_id: doc.folder_id,
             folder_name: doc.folder_name,
@@ -382,10 +737,14 @@ export class DocumentController {
             file_size_bytes: doc.file_size_bytes,
             mime_type: doc.mime_type,
             version_number: doc.version_number,
+            extraction_status: doc.extraction_status,
             is_active: doc.is_active,
             created_at: doc.created_at,
             updated_at: doc.updated_at,
+            rank: doc.rank,
+            highlights: doc.highlights,
           })),
+          facets: result.facets,
           pagination: {
             page: result.page,
             limit: result.limit,
@@ -405,6 +764,43 @@ export class DocumentController {
     }
   }
 
+  /**
+   * Find the document chunks most similar to a natural language query
+   */
+  static async semanticSearch(req: Request, res: Response): Promise<void> {
+    const { query, top_k, min_score, folder_id, document_ids, mime_type } = req.body;
+
+    logger.info('Semantic search:', { 
+      top_k,
+      folder_id,
+      requested_by: req.user?.user_id 
+    });
+
+    const { results, model } = await SemanticSearchService.search(
+      {
+        query,
+        ...(top_k !== undefined && { top_k }),
+        ...(min_score !== undefined && { min_score }),
+        ...(folder_id && { folder_id }),
+        ...(document_ids && { document_ids }),
+        ...(mime_type && { mime_type }),
+      },
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    await DocumentAccessService.recordChunkSearchHits(results, req.user!.user_id, query);
+
+    res.json({
+      success: true,
+      message: 'Semantic search completed successfully',
+      data: {
+        results,
+        model,
+      },
+    });
+  }
+
   /**
    * Get documents by folder
    */
@@ -446,6 +842,7 @@ export class DocumentController {
           documents: result.documents.map(doc => ({
             document_id: doc.document_id,
             document_name: doc.document_name,
+            description: doc.description,
             file_path: doc.file_path,
             folder_id: doc.folder_id,
             folder_name: doc.folder_name,
@@ -454,6 +851,7 @@ export class DocumentController {
             file_size_bytes: doc.file_size_bytes,
             mime_type: doc.mime_type,
             version_number: doc.version_number,
+            extraction_status: doc.extraction_status,
             is_active: doc.is_active,
             created_at: doc.created_at,
             updated_at: doc.updated_at,
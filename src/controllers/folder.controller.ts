@@ -82,6 +82,9 @@ export class FolderController {
             description: folder.description,
             access_level: folder.access_level,
             inherit_permissions: folder.inherit_permissions,
+            chunk_size_tokens: folder.chunk_size_tokens,
+            chunk_overlap_tokens: folder.chunk_overlap_tokens,
+            chunking_strategy: folder.chunking_strategy,
             document_count: folder.document_count,
             subfolder_count: folder.subfolder_count,
             is_active: folder.is_active,
@@ -138,6 +141,9 @@ export class FolderController {
             description: folder.description,
             access_level: folder.access_level,
             inherit_permissions: folder.inherit_permissions,
+            chunk_size_tokens: folder.chunk_size_tokens,
+            chunk_overlap_tokens: folder.chunk_overlap_tokens,
+            chunking_strategy: folder.chunking_strategy,
             document_count: folder.document_count,
             subfolder_count: folder.subfolder_count,
             is_active: folder.is_active,
@@ -156,7 +162,16 @@ export class FolderController {
    * Create new folder
    */
   static async createFolder(req: Request, res: Response): Promise<void> {
-    const { folder_name, parent_folder_id, description, access_level, inherit_permissions } = req.body;
+    const {
+      folder_name,
+      parent_folder_id,
+      description,
+      access_level,
+      inherit_permissions,
+      chunk_size_tokens,
+      chunk_overlap_tokens,
+      chunking_strategy,
+    } = req.body;
 
     logger.info('Creating new folder:', { 
       folder_name,
@@ -172,6 +187,9 @@ export class FolderController {
         description,
         access_level,
         inherit_permissions,
+        chunk_size_tokens,
+        chunk_overlap_tokens,
+        chunking_strategy,
         created_by_user_id: req.user!.user_id, // This will be overridden in service
       };
 
@@ -199,6 +217,9 @@ export class FolderController {
             description: folder.description,
             access_level: folder.access_level,
             inherit_permissions: folder.inherit_permissions,
+            chunk_size_tokens: folder.chunk_size_tokens,
+            chunk_overlap_tokens: folder.chunk_overlap_tokens,
+            chunking_strategy: folder.chunking_strategy,
             is_active: folder.is_active,
             created_at: folder.created_at,
             updated_at: folder.updated_at,
@@ -257,6 +278,9 @@ export class FolderController {
             description: folder.description,
             access_level: folder.access_level,
             inherit_permissions: folder.inherit_permissions,
+            chunk_size_tokens: folder.chunk_size_tokens,
+            chunk_overlap_tokens: folder.chunk_overlap_tokens,
+            chunking_strategy: folder.chunking_strategy,
             is_active: folder.is_active,
             created_at: folder.created_at,
             updated_at: folder.updated_at,
@@ -354,6 +378,9 @@ export class FolderController {
             description: folder.description,
             access_level: folder.access_level,
             inherit_permissions: folder.inherit_permissions,
+            chunk_size_tokens: folder.chunk_size_tokens,
+            chunk_overlap_tokens: folder.chunk_overlap_tokens,
+            chunking_strategy: folder.chunking_strategy,
             document_count: folder.document_count,
             subfolder_count: folder.subfolder_count,
             is_active: folder.is_active,
@@ -0,0 +1,27 @@
+import { Request, Response } from 'express';
+import { JobService } from '@services/job.service';
+import { BadRequestError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+export class JobController {
+  // Get the status of a background job
+  static async getJob(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    if (!id) {
+      throw new BadRequestError('Job ID is required');
+    }
+
+    logger.info('Controller: Get job request', { job_id: id, requested_by: req.user?.user_id });
+
+    const job = await JobService.getJob(id, req.user!.user_id, req.user!.permissions);
+
+    res.json({
+      success: true,
+      message: 'Job retrieved successfully',
+      data: {
+        job,
+      },
+    });
+  }
+}
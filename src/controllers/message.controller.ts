@@ -0,0 +1,154 @@
+import { Request, Response } from 'express';
+import { MessageService } from '@services/message.service';
+import { IMessage, IMessageWithSender } from '@models/Message.model';
+import { AppError, BadRequestError } from '@utils/AppError';
+import { IEventStream, openEventStream } from '@utils/sse';
+import { logger } from '@utils/logger';
+
+const formatMessage = (message: IMessageWithSender) => ({
+  message_id: message.message_id,
+  conversation_id: message.conversation_id,
+  sender_user_id: message.sender_user_id,
+  sender_name: message.sender_name,
+  sender_is_ai: message.sender_is_ai,
+  message_type: message.message_type,
+  message_content: message.message_content,
+  ai_response_to_message_id: message.ai_response_to_message_id,
+  ai_model_version: message.ai_model_version,
+  ai_processing_time_ms: message.ai_processing_time_ms,
+  ai_tokens_used: message.ai_tokens_used,
+  message_metadata: message.message_metadata,
+  sent_at: message.sent_at,
+  edited_at: message.edited_at,
+});
+
+export class MessageController {
+  // Get the messages of a conversation, newest first
+  static async getMessages(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { limit, before } = req.query;
+
+    if (!id) {
+      throw new BadRequestError('Conversation ID is required');
+    }
+
+    logger.info('Controller: Get messages request', {
+      conversation_id: id,
+      limit,
+      before,
+      requested_by: req.user?.user_id
+    });
+
+    const result = await MessageService.getMessages(
+      id,
+      Number(limit) || 50,
+      typeof before === 'string' ? new Date(before) : undefined,
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    res.json({
+      success: true,
+      message: 'Messages retrieved successfully',
+      data: {
+        conversation_id: id,
+        messages: result.messages.map(formatMessage),
+        has_more: result.has_more,
+      },
+    });
+  }
+
+  /**
+   * Send a message and get the assistant's reply. By default the reply is
+   * streamed as Server-Sent Events: `message` (the stored user message),
+   * `citations` (the sources given to the model), `token` (reply deltas),
+   * then `done` (the stored reply and any quota warnings) or `error`.
+   * Failures before the user message is stored are plain HTTP errors.
+   */
+  static async sendMessage(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { content, stream, use_documents, folder_id, document_ids } = req.body;
+    const retrievalOptions = {
+      use_documents: use_documents !== false,
+      retrieval_scope: {
+        ...(folder_id && { folder_id }),
+        ...(document_ids && { document_ids }),
+      },
+    };
+
+    if (!id) {
+      throw new BadRequestError('Conversation ID is required');
+    }
+
+    logger.info('Controller: Send message request', {
+      conversation_id: id,
+      stream,
+      requested_by: req.user?.user_id
+    });
+
+    if (stream === false) {
+      const result = await MessageService.sendMessage(
+        id,
+        content,
+        req.user!.user_id,
+        req.user!.permissions,
+        req.user!.department_id,
+        retrievalOptions
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Message sent successfully',
+        data: {
+          user_message: formatMessage(result.user_message),
+          ai_message: result.ai_message && formatMessage(result.ai_message),
+          quota_warnings: result.quota_warnings,
+        },
+      });
+      return;
+    }
+
+    const abortController = new AbortController();
+    let events = null as IEventStream | null;
+
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    try {
+      const result = await MessageService.sendMessage(id, content, req.user!.user_id, req.user!.permissions, req.user!.department_id, {
+        ...retrievalOptions,
+        signal: abortController.signal,
+        onUserMessage: message => {
+          events = openEventStream(res);
+          events.send('message', formatMessage(message));
+        },
+        onCitations: citations => events?.send('citations', { citations }),
+        onToken: delta => events?.send('token', { delta }),
+      });
+
+      events!.send('done', {
+        ai_message: result.ai_message && formatMessage(result.ai_message),
+        quota_warnings: result.quota_warnings,
+      });
+      events!.close();
+    } catch (error) {
+      if (!events) {
+        throw error;
+      }
+
+      logger.error('Controller: Message stream failed', {
+        conversation_id: id,
+        error,
+        requested_by: req.user?.user_id
+      });
+      events.send('error', {
+        message: error instanceof AppError ? error.message : 'Failed to generate a reply',
+        ...(error instanceof AppError && { statusCode: error.statusCode }),
+      });
+      events.close();
+    }
+  }
+}
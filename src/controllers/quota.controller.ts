@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import { QuotaService, IQuotaWithStatus } from '@services/quota.service';
+import { QuotaScope } from '@models/Quota.model';
+import { BadRequestError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+const formatQuota = (quota: IQuotaWithStatus) => ({
+  quota_id: quota.quota_id,
+  scope: quota.scope,
+  department_id: quota.department_id || null,
+  user_id: quota.user_id || null,
+  target_name: quota.target_name,
+  monthly_token_limit: quota.monthly_token_limit != null ? Number(quota.monthly_token_limit) : null,
+  monthly_cost_limit: quota.monthly_cost_limit != null ? Number(quota.monthly_cost_limit) : null,
+  usage: quota.usage,
+  statuses: quota.statuses.map(status => ({
+    limit_type: status.limit_type,
+    limit: status.limit,
+    used: status.used,
+    remaining: status.remaining,
+    percent_used: status.percent_used,
+  })),
+  created_by: quota.created_by_user_id || null,
+  created_at: quota.created_at,
+  updated_at: quota.updated_at,
+});
+
+/**
+ * Department and user quotas are set and removed the same way
+ */
+const setQuota = async (scope: QuotaScope, req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+  const { monthly_token_limit, monthly_cost_limit } = req.body;
+
+  if (!id) {
+    throw new BadRequestError(scope === 'department' ? 'Department ID is required' : 'User ID is required');
+  }
+
+  logger.info('Controller: Set quota request', {
+    scope,
+    target_id: id,
+    monthly_token_limit,
+    monthly_cost_limit,
+    requested_by: req.user?.user_id
+  });
+
+  const quota = await QuotaService.setQuota(
+    scope,
+    id,
+    {
+      monthly_token_limit: monthly_token_limit ?? null,
+      monthly_cost_limit: monthly_cost_limit ?? null,
+    },
+    req.user!.user_id
+  );
+
+  res.json({
+    success: true,
+    message: 'Quota set successfully',
+    data: {
+      quota: formatQuota(quota),
+    },
+  });
+};
+
+const deleteQuota = async (scope: QuotaScope, req: Request, res: Response): Promise<void> => {
+  const { id } = req.params;
+
+  if (!id) {
+    throw new BadRequestError(scope === 'department' ? 'Department ID is required' : 'User ID is required');
+  }
+
+  logger.info('Controller: Delete quota request', {
+    scope,
+    target_id: id,
+    requested_by: req.user?.user_id
+  });
+
+  await QuotaService.deleteQuota(scope, id, req.user!.user_id);
+
+  res.json({
+    success: true,
+    message: 'Quota deleted successfully',
+  });
+};
+
+export class QuotaController {
+  // Get all quotas with their usage this month
+  static async getQuotas(req: Request, res: Response): Promise<void> {
+    const { scope } = req.query;
+
+    logger.info('Controller: Get quotas request', {
+      scope,
+      requested_by: req.user?.user_id
+    });
+
+    const quotas = await QuotaService.getQuotas(
+      typeof scope === 'string' ? scope as QuotaScope : undefined
+    );
+
+    res.json({
+      success: true,
+      message: 'Quotas retrieved successfully',
+      data: {
+        quotas: quotas.map(formatQuota),
+      },
+    });
+  }
+
+  // Get the quotas that apply to the current user and their usage this month
+  static async getMyQuotas(req: Request, res: Response): Promise<void> {
+    logger.info('Controller: Get my quotas request', { requested_by: req.user?.user_id });
+
+    const statuses = await QuotaService.getQuotaStatus(req.user!.user_id, req.user!.department_id);
+
+    res.json({
+      success: true,
+      message: 'Quotas retrieved successfully',
+      data: {
+        quotas: statuses,
+      },
+    });
+  }
+
+  // Set the monthly quota of a department
+  static async setDepartmentQuota(req: Request, res: Response): Promise<void> {
+    await setQuota('department', req, res);
+  }
+
+  // Remove the quota of a department
+  static async deleteDepartmentQuota(req: Request, res: Response): Promise<void> {
+    await deleteQuota('department', req, res);
+  }
+
+  // Set the monthly quota of a user
+  static async setUserQuota(req: Request, res: Response): Promise<void> {
+    await setQuota('user', req, res);
+  }
+
+  // Remove the quota of a user
+  static async deleteUserQuota(req: Request, res: Response): Promise<void> {
+    await deleteQuota('user', req, res);
+  }
+}
@@ -0,0 +1,59 @@
+import { Request, Response } from 'express';
+import { RetrievalService } from '@services/retrieval.service';
+import { DocumentAccessService } from '@services/documentAccess.service';
+import { logger } from '@utils/logger';
+
+export class RetrievalController {
+  /**
+   * Find the document chunks most relevant to a query by combining
+   * full-text and semantic search
+   */
+  static async query(req: Request, res: Response): Promise<void> {
+    const {
+      query,
+      top_k,
+      mode,
+      lexical_weight,
+      vector_weight,
+      rrf_k,
+      min_vector_score,
+      rerank,
+      folder_id,
+      document_ids,
+      mime_type,
+    } = req.body;
+
+    logger.info('Controller: Retrieval query request', {
+      mode,
+      top_k,
+      folder_id,
+      requested_by: req.user?.user_id
+    });
+
+    const result = await RetrievalService.query(
+      {
+        query,
+        ...(top_k !== undefined && { top_k }),
+        ...(mode && { mode }),
+        ...(lexical_weight !== undefined && { lexical_weight }),
+        ...(vector_weight !== undefined && { vector_weight }),
+        ...(rrf_k !== undefined && { rrf_k }),
+        ...(min_vector_score !== undefined && { min_vector_score }),
+        ...(rerank !== undefined && { rerank }),
+        ...(folder_id && { folder_id }),
+        ...(document_ids && { document_ids }),
+        ...(mime_type && { mime_type }),
+      },
+      req.user!.user_id,
+      req.user!.permissions
+    );
+
+    await DocumentAccessService.recordChunkSearchHits(result.results, req.user!.user_id, query);
+
+    res.json({
+      success: true,
+      message: 'Retrieval completed successfully',
+      data: result,
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { getStorageProvider, LocalStorageProvider } from '@services/storage';
+import { ForbiddenError, NotFoundError } from '@utils/AppError';
+import { getFileExtension, MIME_TYPES_BY_EXTENSION } from '@utils/fileType';
+import { logger } from '@utils/logger';
+
+export class StorageController {
+  /**
+   * Serve a file from local storage using a signed URL
+   * (S3 signed URLs point at the bucket directly and never reach this route)
+   */
+  static async getSignedFile(req: Request, res: Response): Promise<void> {
+    const { key } = req.params;
+    const { expires, signature, disposition } = req.query;
+
+    const storage = getStorageProvider();
+    if (!(storage instanceof LocalStorageProvider) || !key) {
+      throw new NotFoundError('File not found');
+    }
+
+    const isValid = storage.verifySignedUrl(
+      key,
+      Number(expires),
+      String(signature),
+      typeof disposition === 'string' ? disposition : undefined
+    );
+    if (!isValid) {
+      throw new ForbiddenError('Invalid or expired download link');
+    }
+
+    const info = await storage.stat(key);
+    if (!info) {
+      throw new NotFoundError('File not found');
+    }
+
+    logger.info('Serving signed storage file:', { key });
+
+    res.setHeader('Content-Type', MIME_TYPES_BY_EXTENSION[getFileExtension(key)] || 'application/octet-stream');
+    res.setHeader('Content-Length', info.size);
+    if (typeof disposition === 'string') {
+      res.setHeader('Content-Disposition', disposition);
+    }
+
+    try {
+      await pipeline(await storage.stream(key), res);
+    } catch (error) {
+      if (!res.headersSent) {
+        throw error;
+      }
+      logger.warn('Signed storage file stream interrupted:', { key, error });
+    }
+  }
+}
@@ -151,7 +151,7 @@ export class UserController {
         is_ai_user,
       };
 
-      const user = await UserModel.create(userData);
+      const user = await UserModel.create(userData, req.user?.user_id);
 
       logger.info('User created successfully:', { 
         user_id: user.user_id, 
@@ -217,7 +217,7 @@ export class UserController {
         }
       }
 
-      const user = await UserModel.update(id, updateData as IUpdateUser);
+      const user = await UserModel.update(id, updateData as IUpdateUser, req.user?.user_id);
 
       logger.info('User updated successfully:', { 
         user_id: id,
@@ -271,7 +271,7 @@ export class UserController {
         throw new BadRequestError('Cannot deactivate your own account');
       }
 
-      await UserModel.delete(id);
+      await UserModel.delete(id, req.user?.user_id);
 
       logger.info('User deactivated successfully:', { 
         user_id: id,
@@ -313,7 +313,7 @@ export class UserController {
         throw new ForbiddenError('Access denied');
       }
 
-      await UserModel.changePassword(id, new_password);
+      await UserModel.changePassword(id, new_password, req.user?.user_id);
 
       logger.info('User password changed successfully:', { 
         user_id: id,
@@ -0,0 +1,218 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { Pool, PoolClient } from 'pg';
+import { DatabaseConnection } from './connection';
+
+/**
+ * A stand-in for a PostgreSQL session: rows inserted with `INSERT <row>`
+ * become visible in `committed` on COMMIT, and BEGIN/COMMIT/ROLLBACK and
+ * savepoints behave as in PostgreSQL.
+ */
+class FakeSession {
+  statements: string[] = [];
+  released = false;
+  private pending: string[] = [];
+  private savepoints = new Map<string, number>();
+
+  constructor(private readonly committed: string[]) {}
+
+  async query(text: string): Promise<{ rows: unknown[]; rowCount: number }> {
+    this.statements.push(text);
+    const [command, ...rest] = text.split(' ');
+    const argument = rest.join(' ');
+
+    if (command === 'INSERT') {
+      this.pending.push(argument);
+    } else if (command === 'SAVEPOINT') {
+      this.savepoints.set(argument, this.pending.length);
+    } else if (text.startsWith('ROLLBACK TO SAVEPOINT ')) {
+      this.pending.length = this.savepoints.get(text.slice('ROLLBACK TO SAVEPOINT '.length))!;
+    } else if (command === 'COMMIT') {
+      this.committed.push(...this.pending);
+      this.pending = [];
+    } else if (command === 'ROLLBACK') {
+      this.pending = [];
+    } else if (command === 'FAIL') {
+      throw new Error(`query failed: ${argument}`);
+    }
+
+    return { rows: [], rowCount: 0 };
+  }
+
+  release(): void {
+    this.released = true;
+  }
+}
+
+describe('DatabaseConnection transactions', () => {
+  let committed: string[];
+  let sessions: FakeSession[];
+  let connect: ReturnType<typeof spyOn>;
+  let poolQuery: ReturnType<typeof spyOn>;
+
+  const insert = (row: string) => DatabaseConnection.query(`INSERT ${row}`);
+
+  beforeAll(async () => {
+    connect = spyOn(Pool.prototype, 'connect').mockImplementation(async () => {
+      const session = new FakeSession(committed);
+      sessions.push(session);
+      return session as unknown as PoolClient;
+    });
+    // Outside a transaction every query autocommits
+    poolQuery = spyOn(Pool.prototype, 'query').mockImplementation(async (text: string) => {
+      const session = new FakeSession(committed);
+      await session.query('BEGIN');
+      await session.query(text);
+      await session.query('COMMIT');
+      return { rows: [], rowCount: 0 };
+    });
+
+    committed = [];
+    sessions = [];
+    await DatabaseConnection.initialize();
+  });
+
+  afterAll(() => {
+    connect.mockRestore();
+    poolQuery.mockRestore();
+  });
+
+  beforeEach(() => {
+    committed = [];
+    sessions = [];
+  });
+
+  it('commits every query of the callback on one connection', async () => {
+    const result = await DatabaseConnection.transaction(async () => {
+      await insert('a');
+      await insert('b');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(committed).toEqual(['a', 'b']);
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]!.statements).toEqual(['BEGIN', 'INSERT a', 'INSERT b', 'COMMIT']);
+    expect(sessions[0]!.released).toBe(true);
+  });
+
+  it('rolls back and rethrows when the callback throws', async () => {
+    const failure = new Error('boom');
+
+    await expect(DatabaseConnection.transaction(async () => {
+      await insert('a');
+      throw failure;
+    })).rejects.toBe(failure);
+
+    expect(committed).toEqual([]);
+    expect(sessions[0]!.statements.at(-1)).toBe('ROLLBACK');
+    expect(sessions[0]!.released).toBe(true);
+  });
+
+  it('rolls back only a nested transaction that throws', async () => {
+    await DatabaseConnection.transaction(async () => {
+      await insert('outer-before');
+      await expect(DatabaseConnection.transaction(async () => {
+        await insert('inner');
+        throw new Error('inner failed');
+      })).rejects.toThrow('inner failed');
+      await insert('outer-after');
+    });
+
+    expect(committed).toEqual(['outer-before', 'outer-after']);
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]!.statements).toEqual([
+      'BEGIN',
+      'INSERT outer-before',
+      'SAVEPOINT sp_1',
+      'INSERT inner',
+      'ROLLBACK TO SAVEPOINT sp_1',
+      'INSERT outer-after',
+      'COMMIT',
+    ]);
+  });
+
+  it('rolls back a nested transaction that completed when the outer one throws', async () => {
+    await expect(DatabaseConnection.transaction(async () => {
+      await DatabaseConnection.transaction(async () => {
+        await insert('inner');
+      });
+      await insert('outer');
+      throw new Error('outer failed');
+    })).rejects.toThrow('outer failed');
+
+    expect(committed).toEqual([]);
+    expect(sessions[0]!.statements).toEqual([
+      'BEGIN',
+      'SAVEPOINT sp_1',
+      'INSERT inner',
+      'RELEASE SAVEPOINT sp_1',
+      'INSERT outer',
+      'ROLLBACK',
+    ]);
+  });
+
+  it('names each savepoint of a transaction apart', async () => {
+    await DatabaseConnection.transaction(async () => {
+      await DatabaseConnection.transaction(async () => {
+        await DatabaseConnection.transaction(async () => insert('deepest'));
+      });
+      await DatabaseConnection.transaction(async () => insert('second'));
+    });
+
+    expect(sessions[0]!.statements.filter(text => text.startsWith('SAVEPOINT'))).toEqual([
+      'SAVEPOINT sp_1',
+      'SAVEPOINT sp_2',
+      'SAVEPOINT sp_3',
+    ]);
+    expect(committed).toEqual(['deepest', 'second']);
+  });
+
+  it('keeps concurrent transactions on their own connections', async () => {
+    let releaseFirst!: () => void;
+    const firstWaits = new Promise<void>(resolve => {
+      releaseFirst = resolve;
+    });
+
+    const first = DatabaseConnection.transaction(async () => {
+      await insert('first');
+      await firstWaits;
+      throw new Error('first failed');
+    });
+    const second = DatabaseConnection.transaction(async () => {
+      await insert('second');
+      releaseFirst();
+    });
+
+    await expect(first).rejects.toThrow('first failed');
+    await second;
+
+    expect(sessions).toHaveLength(2);
+    expect(committed).toEqual(['second']);
+  });
+
+  it('runs queries outside a transaction on the pool', async () => {
+    expect(DatabaseConnection.inTransaction).toBe(false);
+    await insert('autocommit');
+
+    expect(committed).toEqual(['autocommit']);
+    expect(sessions).toHaveLength(0);
+
+    await DatabaseConnection.transaction(async () => {
+      expect(DatabaseConnection.inTransaction).toBe(true);
+    });
+  });
+
+  it('passes on the original error when the rollback fails too', async () => {
+    const failure = new Error('query failed: first');
+
+    await expect(DatabaseConnection.transaction(async () => {
+      const session = sessions[0]!;
+      const query = session.query.bind(session);
+      // The connection is gone: ROLLBACK fails as well
+      session.query = async (text: string) => (text === 'ROLLBACK' ? Promise.reject(new Error('connection lost')) : query(text));
+      await DatabaseConnection.query('FAIL first');
+    })).rejects.toMatchObject({ message: failure.message });
+
+    expect(sessions[0]!.released).toBe(true);
+  });
+});
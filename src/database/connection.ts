@@ -1,10 +1,19 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { Pool, PoolClient, PoolConfig } from 'pg';
 import { logger } from '@utils/logger';
 import { config } from '@config/config';
 
+interface ITransactionContext {
+  client: PoolClient;
+  // Number of savepoints created so far, used to name the next one
+  savepoints: number;
+}
+
 export class DatabaseConnection {
   private static pool: Pool;
   private static isInitialized = false;
+  // The transaction the current async call chain runs in, if any
+  private static transactionContext = new AsyncLocalStorage<ITransactionContext>();
 
   public static async initialize(): Promise<void> {
     if (this.isInitialized) {
@@ -26,6 +35,15 @@ export class DatabaseConnection {
 
     this.pool = new Pool(poolConfig);
 
+    // Read by the full-text search triggers (migration 014). Set as a bound
+    // parameter so the value never reaches the connection string; the query
+    // is queued ahead of anything the new client runs.
+    this.pool.on('connect', (client) => {
+      client
+        .query(`SELECT set_config('app.search_language', $1, false)`, [config.search.language])
+        .catch((err) => logger.error('Failed to set search language on connection:', err));
+    });
+
     // Test connection
     try {
       const client = await this.pool.connect();
@@ -51,14 +69,21 @@ export class DatabaseConnection {
     return this.pool.connect();
   }
 
+  /**
+   * Run a query. Inside `transaction()` it runs on the transaction's
+   * connection, so it is committed or rolled back with the transaction.
+   */
   public static async query(text: string, params?: any[]): Promise<any> {
     if (!this.isInitialized) {
       throw new Error('Database not initialized. Call initialize() first.');
     }
     
+    const context = this.transactionContext.getStore();
     const start = Date.now();
     try {
-      const res = await this.pool.query(text, params);
+      const res = context
+        ? await context.client.query(text, params)
+        : await this.pool.query(text, params);
       const duration = Date.now() - start;
       logger.debug('Executed query', { text, duration, rows: res.rowCount });
       return res;
@@ -68,6 +93,15 @@ export class DatabaseConnection {
     }
   }
 
+  /**
+   * Run a callback in a transaction that commits when it resolves and rolls
+   * back when it throws. Every `query()` made while the callback runs joins
+   * the transaction, so models called from it compose atomically. A
+   * transaction started inside another becomes a savepoint: when it throws,
+   * only its own changes are rolled back and the error is passed on to the
+   * outer callback. Nested transactions must not run concurrently, and the
+   * callback must not leave queries running after it settles.
+   */
   public static async transaction<T>(
     callback: (client: PoolClient) => Promise<T>
   ): Promise<T> {
@@ -75,20 +109,54 @@ export class DatabaseConnection {
       throw new Error('Database not initialized. Call initialize() first.');
     }
 
+    const context = this.transactionContext.getStore();
+    if (context) {
+      return this.savepoint(context, callback);
+    }
+
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
-      const result = await callback(client);
+      const result = await this.transactionContext.run(
+        { client, savepoints: 0 },
+        () => callback(client)
+      );
       await client.query('COMMIT');
       return result;
     } catch (error) {
-      await client.query('ROLLBACK');
+      await client.query('ROLLBACK').catch(rollbackError => {
+        logger.error('Transaction rollback failed:', rollbackError);
+      });
       throw error;
     } finally {
       client.release();
     }
   }
 
+  /**
+   * Whether the current call chain runs inside `transaction()`
+   */
+  public static get inTransaction(): boolean {
+    return this.transactionContext.getStore() !== undefined;
+  }
+
+  private static async savepoint<T>(
+    context: ITransactionContext,
+    callback: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const name = `sp_${++context.savepoints}`;
+
+    await context.client.query(`SAVEPOINT ${name}`);
+    try {
+      const result = await callback(context.client);
+      await context.client.query(`RELEASE SAVEPOINT ${name}`);
+      return result;
+    } catch (error) {
+      await context.client.query(`ROLLBACK TO SAVEPOINT ${name}`);
+      throw error;
+    }
+  }
+
   public static async close(): Promise<void> {
     if (this.pool) {
       await this.pool.end();
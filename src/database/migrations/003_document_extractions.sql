@@ -0,0 +1,33 @@
+-- Migration: Document Text Extraction
+-- Stores the normalized text and structure extracted from each document's file
+
+CREATE TYPE extraction_status AS ENUM ('pending', 'processing', 'indexed', 'failed', 'skipped');
+
+CREATE TABLE document_extractions (
+    extraction_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    document_id UUID UNIQUE NOT NULL,
+    version_number INTEGER NOT NULL DEFAULT 1,
+    status extraction_status NOT NULL DEFAULT 'pending',
+    extractor VARCHAR(50),
+    content_text TEXT,
+    structure JSONB,
+    character_count INTEGER DEFAULT 0,
+    page_count INTEGER,
+    error_message TEXT,
+    attempts INTEGER DEFAULT 0,
+    started_at TIMESTAMP,
+    completed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (document_id) REFERENCES documents(document_id) ON DELETE CASCADE,
+
+    CONSTRAINT chk_extraction_character_count CHECK (character_count >= 0),
+    CONSTRAINT chk_extraction_attempts CHECK (attempts >= 0)
+);
+
+CREATE INDEX idx_document_extractions_status ON document_extractions(status);
+
+CREATE TRIGGER update_document_extractions_updated_at
+    BEFORE UPDATE ON document_extractions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,41 @@
+-- Migration: Document Chunks
+-- Stores retrievable chunks of extracted document text and per-folder chunking overrides
+
+-- Folder overrides (NULL inherits from the parent folder, then the server defaults)
+ALTER TABLE folders ADD COLUMN chunk_size_tokens INTEGER NULL;
+ALTER TABLE folders ADD COLUMN chunk_overlap_tokens INTEGER NULL;
+ALTER TABLE folders ADD COLUMN chunking_strategy VARCHAR(20) NULL;
+ALTER TABLE folders ADD CONSTRAINT chk_chunk_size_tokens CHECK (
+    chunk_size_tokens IS NULL OR chunk_size_tokens BETWEEN 32 AND 8192
+);
+ALTER TABLE folders ADD CONSTRAINT chk_chunk_overlap_tokens CHECK (
+    chunk_overlap_tokens IS NULL OR chunk_overlap_tokens >= 0
+);
+ALTER TABLE folders ADD CONSTRAINT chk_chunking_strategy CHECK (
+    chunking_strategy IS NULL OR chunking_strategy IN ('auto', 'fixed', 'heading', 'page')
+);
+
+CREATE TABLE document_chunks (
+    chunk_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    document_id UUID NOT NULL,
+    version_number INTEGER NOT NULL DEFAULT 1,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    start_offset INTEGER NOT NULL,
+    end_offset INTEGER NOT NULL,
+    page_start INTEGER,
+    page_end INTEGER,
+    heading TEXT,
+    token_count INTEGER NOT NULL,
+    strategy VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (document_id) REFERENCES documents(document_id) ON DELETE CASCADE,
+
+    CONSTRAINT chk_chunk_index_positive CHECK (chunk_index >= 0),
+    CONSTRAINT chk_chunk_offsets CHECK (start_offset >= 0 AND end_offset >= start_offset),
+    CONSTRAINT chk_chunk_token_count CHECK (token_count > 0),
+    UNIQUE (document_id, version_number, chunk_index)
+);
+
+CREATE INDEX idx_document_chunks_document_id ON document_chunks(document_id);
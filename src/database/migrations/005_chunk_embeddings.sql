@@ -0,0 +1,13 @@
+-- Migration: Chunk Embeddings
+-- Stores an embedding vector per document chunk for similarity search (requires pgvector)
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- The vector size depends on the configured embedding model, so the column is
+-- left unconstrained and rows record the model that produced them
+ALTER TABLE document_chunks ADD COLUMN embedding vector;
+ALTER TABLE document_chunks ADD COLUMN embedding_model VARCHAR(255);
+ALTER TABLE document_chunks ADD COLUMN embedded_at TIMESTAMP;
+
+CREATE INDEX idx_document_chunks_embedding_model ON document_chunks(embedding_model)
+    WHERE embedding IS NOT NULL;
@@ -0,0 +1,18 @@
+-- Migration: AI Model Registry
+-- Default model selection and health-check results for aimodels
+
+ALTER TABLE aimodels ADD COLUMN is_default BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE aimodels ADD COLUMN last_health_check_at TIMESTAMP;
+ALTER TABLE aimodels ADD COLUMN last_health_status VARCHAR(20);
+ALTER TABLE aimodels ADD COLUMN last_health_latency_ms INTEGER;
+ALTER TABLE aimodels ADD COLUMN last_health_error TEXT;
+
+ALTER TABLE aimodels ADD CONSTRAINT chk_aimodels_health_status
+    CHECK (last_health_status IS NULL OR last_health_status IN ('healthy', 'unhealthy'));
+ALTER TABLE aimodels ADD CONSTRAINT chk_aimodels_cost_non_negative
+    CHECK (cost_per_1k_tokens IS NULL OR cost_per_1k_tokens >= 0);
+
+-- At most one default model
+CREATE UNIQUE INDEX uq_aimodels_default ON aimodels(is_default) WHERE is_default;
+
+CREATE INDEX idx_aimodels_status ON aimodels(status);
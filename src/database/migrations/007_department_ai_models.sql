@@ -0,0 +1,41 @@
+-- Migration: Department AI Model Policies
+-- Restricts which departments may use an AI model. Unrestricted models are
+-- available to everyone; restricted models only to the departments listed in
+-- department_ai_models.
+
+ALTER TABLE aimodels ADD COLUMN is_restricted BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE department_ai_models (
+    department_id UUID NOT NULL,
+    ai_model_id UUID NOT NULL,
+    granted_by_user_id UUID,
+    granted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (department_id, ai_model_id),
+    FOREIGN KEY (department_id) REFERENCES departments(department_id) ON DELETE CASCADE,
+    FOREIGN KEY (ai_model_id) REFERENCES aimodels(ai_model_id) ON DELETE CASCADE,
+    FOREIGN KEY (granted_by_user_id) REFERENCES users(user_id)
+);
+
+CREATE INDEX idx_department_ai_models_model ON department_ai_models(ai_model_id);
+
+-- Function to check whether a department may use an AI model
+CREATE OR REPLACE FUNCTION department_can_use_ai_model(
+    p_department_id UUID,
+    p_ai_model_id UUID
+) RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM aimodels m
+        WHERE m.ai_model_id = p_ai_model_id
+          AND (
+              m.is_restricted = FALSE
+              OR EXISTS (
+                  SELECT 1 FROM department_ai_models dam
+                  WHERE dam.ai_model_id = m.ai_model_id
+                    AND dam.department_id = p_department_id
+              )
+          )
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
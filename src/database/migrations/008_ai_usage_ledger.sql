@@ -0,0 +1,68 @@
+-- Migration: AI Usage Ledger
+-- One row per AI reply with its prompt/completion tokens and cost. The user,
+-- department, model and price are copied at the time of the reply so later
+-- changes (a user moving department, a price update, a deleted model) do not
+-- rewrite past usage.
+
+CREATE TABLE ai_usage_ledger (
+    usage_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id UUID NOT NULL UNIQUE,
+    conversation_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    department_id UUID NOT NULL,
+    ai_model_id UUID,
+    model_name VARCHAR(255) NOT NULL,
+    provider VARCHAR(255),
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    usage_estimated BOOLEAN NOT NULL DEFAULT FALSE,
+    cost_per_1k_tokens DECIMAL(10, 6),
+    cost DECIMAL(14, 6) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (message_id) REFERENCES messages(message_id) ON DELETE CASCADE,
+    FOREIGN KEY (conversation_id) REFERENCES conversations(conversation_id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(user_id),
+    FOREIGN KEY (department_id) REFERENCES departments(department_id),
+    FOREIGN KEY (ai_model_id) REFERENCES aimodels(ai_model_id) ON DELETE SET NULL,
+
+    CONSTRAINT chk_usage_tokens_non_negative CHECK (
+        prompt_tokens >= 0 AND completion_tokens >= 0 AND total_tokens >= 0
+    ),
+    CONSTRAINT chk_usage_cost_non_negative CHECK (cost >= 0)
+);
+
+CREATE INDEX idx_ai_usage_ledger_created_at ON ai_usage_ledger(created_at);
+CREATE INDEX idx_ai_usage_ledger_user ON ai_usage_ledger(user_id, created_at);
+CREATE INDEX idx_ai_usage_ledger_department ON ai_usage_ledger(department_id, created_at);
+CREATE INDEX idx_ai_usage_ledger_model ON ai_usage_ledger(ai_model_id, created_at);
+
+-- Backfill existing AI replies. Replies stored before the ledger only have
+-- ai_tokens_used when the provider reported no prompt/completion split.
+INSERT INTO ai_usage_ledger (
+    message_id, conversation_id, user_id, department_id, ai_model_id, model_name,
+    provider, prompt_tokens, completion_tokens, total_tokens, usage_estimated,
+    cost_per_1k_tokens, cost, created_at
+)
+SELECT
+    m.message_id,
+    m.conversation_id,
+    q.sender_user_id,
+    u.department_id,
+    c.ai_model_used_id,
+    COALESCE(m.ai_model_version, am.model_name, 'unknown'),
+    COALESCE(m.message_metadata->>'provider', am.provider),
+    COALESCE((m.message_metadata->'usage'->>'prompt_tokens')::INTEGER, 0),
+    COALESCE((m.message_metadata->'usage'->>'completion_tokens')::INTEGER, m.ai_tokens_used, 0),
+    COALESCE(m.ai_tokens_used, 0),
+    COALESCE((m.message_metadata->>'usage_estimated')::BOOLEAN, TRUE),
+    am.cost_per_1k_tokens,
+    ROUND(COALESCE(m.ai_tokens_used, 0) * COALESCE(am.cost_per_1k_tokens, 0) / 1000, 6),
+    m.sent_at
+FROM messages m
+JOIN messages q ON m.ai_response_to_message_id = q.message_id
+JOIN users u ON q.sender_user_id = u.user_id
+JOIN conversations c ON m.conversation_id = c.conversation_id
+LEFT JOIN aimodels am ON c.ai_model_used_id = am.ai_model_id
+WHERE m.ai_tokens_used IS NOT NULL;
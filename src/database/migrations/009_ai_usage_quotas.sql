@@ -0,0 +1,39 @@
+-- Migration: AI Usage Quotas
+-- Monthly token and spend limits for a department or a single user, checked
+-- against ai_usage_ledger before each AI reply
+
+CREATE TABLE ai_usage_quotas (
+    quota_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    department_id UUID NULL,
+    user_id UUID NULL,
+    monthly_token_limit BIGINT NULL,
+    monthly_cost_limit DECIMAL(14, 6) NULL,
+    created_by_user_id UUID,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (department_id) REFERENCES departments(department_id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(user_id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by_user_id) REFERENCES users(user_id),
+
+    -- A quota applies to either a department or a user
+    CONSTRAINT chk_quota_department_or_user CHECK (
+        (department_id IS NOT NULL AND user_id IS NULL) OR
+        (department_id IS NULL AND user_id IS NOT NULL)
+    ),
+    CONSTRAINT chk_quota_has_limit CHECK (
+        monthly_token_limit IS NOT NULL OR monthly_cost_limit IS NOT NULL
+    ),
+    CONSTRAINT chk_quota_limits_non_negative CHECK (
+        (monthly_token_limit IS NULL OR monthly_token_limit >= 0) AND
+        (monthly_cost_limit IS NULL OR monthly_cost_limit >= 0)
+    )
+);
+
+-- One quota per department and per user
+CREATE UNIQUE INDEX uq_ai_usage_quotas_department ON ai_usage_quotas(department_id) WHERE department_id IS NOT NULL;
+CREATE UNIQUE INDEX uq_ai_usage_quotas_user ON ai_usage_quotas(user_id) WHERE user_id IS NOT NULL;
+
+CREATE TRIGGER update_ai_usage_quotas_updated_at
+    BEFORE UPDATE ON ai_usage_quotas
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,7 @@
+-- Migration: Audit Log Indexes
+-- Supports the audit log query API: newest-first keyset pagination and
+-- filtering by record and by actor
+
+CREATE INDEX idx_auditlog_changed_at ON auditlog(changed_at DESC, audit_id DESC);
+CREATE INDEX idx_auditlog_record ON auditlog(table_name, record_id);
+CREATE INDEX idx_auditlog_changed_by ON auditlog(changed_by_user_id);
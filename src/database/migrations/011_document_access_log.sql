@@ -0,0 +1,35 @@
+-- Migration: Document Access Log
+-- Read-access trail: who downloaded or previewed a document, which documents
+-- and chunks search results returned to whom, and which chunks were fed into
+-- an AI answer. The document name is copied so entries stay readable after
+-- the document or conversation is gone.
+
+CREATE TABLE document_access_log (
+    access_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    document_id UUID,
+    document_name VARCHAR(255) NOT NULL,
+    -- Set for chunk-level access (semantic search hits and AI context)
+    chunk_id UUID,
+    user_id UUID NOT NULL,
+    access_type VARCHAR(50) NOT NULL,
+    conversation_id UUID,
+    -- For AI context: the question the chunks were retrieved for
+    message_id UUID,
+    -- Purpose details, e.g. the search query and score
+    details JSONB,
+    accessed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (document_id) REFERENCES documents(document_id) ON DELETE SET NULL,
+    FOREIGN KEY (user_id) REFERENCES users(user_id),
+    FOREIGN KEY (conversation_id) REFERENCES conversations(conversation_id) ON DELETE SET NULL,
+    FOREIGN KEY (message_id) REFERENCES messages(message_id) ON DELETE SET NULL,
+
+    CONSTRAINT chk_document_access_type CHECK (
+        access_type IN ('download', 'preview', 'search_hit', 'ai_context')
+    )
+);
+
+CREATE INDEX idx_document_access_log_accessed_at ON document_access_log(accessed_at DESC, access_id DESC);
+CREATE INDEX idx_document_access_log_document ON document_access_log(document_id, accessed_at DESC);
+CREATE INDEX idx_document_access_log_user ON document_access_log(user_id, accessed_at DESC);
+CREATE INDEX idx_document_access_log_conversation ON document_access_log(conversation_id);
@@ -0,0 +1,39 @@
+-- Migration: Document Versions
+-- History of a document's file. Every version keeps its own blob, hash,
+-- size, type and uploader; documents.version_number is the current version
+-- and its file columns mirror that version's row. Restoring a version adds
+-- a new version with the old file rather than rewriting history.
+
+CREATE TABLE document_versions (
+    version_id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    document_id UUID NOT NULL,
+    version_number INTEGER NOT NULL,
+    file_path VARCHAR(1000) NOT NULL,
+    file_size_bytes BIGINT DEFAULT 0,
+    mime_type VARCHAR(255),
+    file_hash VARCHAR(128),
+    uploaded_by_user_id UUID NOT NULL,
+    -- Set when the version was created by restoring an earlier one
+    restored_from_version INTEGER,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (document_id) REFERENCES documents(document_id) ON DELETE CASCADE,
+    FOREIGN KEY (uploaded_by_user_id) REFERENCES users(user_id),
+
+    CONSTRAINT uq_document_versions UNIQUE (document_id, version_number),
+    CONSTRAINT chk_document_version_positive CHECK (version_number > 0),
+    CONSTRAINT chk_document_version_size CHECK (file_size_bytes >= 0)
+);
+
+-- Blob cleanup looks versions up by file
+CREATE INDEX idx_document_versions_file_path ON document_versions(file_path);
+
+-- Existing documents start their history with their current file
+INSERT INTO document_versions (
+    document_id, version_number, file_path, file_size_bytes,
+    mime_type, file_hash, uploaded_by_user_id, created_at
+)
+SELECT
+    document_id, version_number, file_path, file_size_bytes,
+    mime_type, file_hash, uploaded_by_user_id, updated_at
+FROM documents;
@@ -0,0 +1,6 @@
+-- Migration: Document Hash Indexes
+-- Supports content-hash deduplication on upload: finding a stored blob with
+-- the same content across all versions, and duplicates within a folder
+
+CREATE INDEX idx_document_versions_hash ON document_versions(file_hash);
+CREATE INDEX idx_documents_folder_hash ON documents(folder_id, file_hash) WHERE is_active = true;
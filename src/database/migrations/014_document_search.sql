@@ -0,0 +1,75 @@
+-- Migration: Document Full-Text Search
+-- Ranked full-text search over document names (weight A), descriptions (B)
+-- and extracted text (C). The tsvectors live in document_search, kept
+-- current by triggers on documents and document_extractions, so they never
+-- show up in document rows or the audit log. The text search configuration
+-- is the one the API sets on each connection as app.search_language
+-- (SEARCH_LANGUAGE), or english when it is not set.
+
+ALTER TABLE documents ADD COLUMN description TEXT;
+
+CREATE TABLE document_search (
+    document_id UUID PRIMARY KEY,
+    metadata_vector tsvector NOT NULL DEFAULT ''::tsvector,
+    content_vector tsvector NOT NULL DEFAULT ''::tsvector,
+
+    FOREIGN KEY (document_id) REFERENCES documents(document_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_document_search_metadata ON document_search USING GIN(metadata_vector);
+CREATE INDEX idx_document_search_content ON document_search USING GIN(content_vector);
+
+CREATE OR REPLACE FUNCTION document_search_config()
+RETURNS regconfig AS $$
+    SELECT COALESCE(NULLIF(current_setting('app.search_language', true), ''), 'english')::regconfig;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION document_metadata_vector(name TEXT, description TEXT)
+RETURNS tsvector AS $$
+    SELECT setweight(to_tsvector(document_search_config(), COALESCE(name, '')), 'A') ||
+           setweight(to_tsvector(document_search_config(), COALESCE(description, '')), 'B');
+$$ LANGUAGE sql STABLE;
+
+-- Only the first 500,000 characters of extracted text are indexed, which
+-- keeps the tsvector under its 1 MB limit
+CREATE OR REPLACE FUNCTION document_content_vector(content TEXT)
+RETURNS tsvector AS $$
+    SELECT setweight(to_tsvector(document_search_config(), LEFT(COALESCE(content, ''), 500000)), 'C');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION update_document_metadata_search()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO document_search (document_id, metadata_vector)
+    VALUES (NEW.document_id, document_metadata_vector(NEW.document_name, NEW.description))
+    ON CONFLICT (document_id) DO UPDATE SET metadata_vector = EXCLUDED.metadata_vector;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION update_document_content_search()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO document_search (document_id, content_vector)
+    VALUES (NEW.document_id, document_content_vector(NEW.content_text))
+    ON CONFLICT (document_id) DO UPDATE SET content_vector = EXCLUDED.content_vector;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_documents_search
+    AFTER INSERT OR UPDATE OF document_name, description ON documents
+    FOR EACH ROW EXECUTE FUNCTION update_document_metadata_search();
+
+CREATE TRIGGER update_document_extractions_search
+    AFTER INSERT OR UPDATE OF content_text ON document_extractions
+    FOR EACH ROW EXECUTE FUNCTION update_document_content_search();
+
+-- Index existing documents
+INSERT INTO document_search (document_id, metadata_vector, content_vector)
+SELECT
+    d.document_id,
+    document_metadata_vector(d.document_name, d.description),
+    document_content_vector(e.content_text)
+FROM documents d
+LEFT JOIN document_extractions e ON d.document_id = e.document_id;
@@ -0,0 +1,29 @@
+-- Migration: Chunk Full-Text Search
+-- tsvector per document chunk for the lexical half of hybrid retrieval.
+-- Headings weigh more than the chunk text. Uses the same text search
+-- configuration as document search (document_search_config, migration 014).
+
+ALTER TABLE document_chunks ADD COLUMN search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION document_chunk_vector(heading TEXT, content TEXT)
+RETURNS tsvector AS $$
+    SELECT setweight(to_tsvector(document_search_config(), COALESCE(heading, '')), 'A') ||
+           setweight(to_tsvector(document_search_config(), COALESCE(content, '')), 'B');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION update_chunk_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector = document_chunk_vector(NEW.heading, NEW.content);
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_document_chunks_search_vector
+    BEFORE INSERT OR UPDATE OF heading, content ON document_chunks
+    FOR EACH ROW EXECUTE FUNCTION update_chunk_search_vector();
+
+-- Index existing chunks
+UPDATE document_chunks SET search_vector = document_chunk_vector(heading, content);
+
+CREATE INDEX idx_document_chunks_search ON document_chunks USING GIN(search_vector);
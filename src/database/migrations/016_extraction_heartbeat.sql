@@ -0,0 +1,10 @@
+-- Migration: Extraction Heartbeat
+-- The worker running an extraction refreshes heartbeat_at whenever it renews
+-- its job lease. An extraction is only taken over (or reset on startup)
+-- once its heartbeat is older than a lease, not once it has run that long.
+
+ALTER TABLE document_extractions ADD COLUMN heartbeat_at TIMESTAMP;
+
+UPDATE document_extractions SET heartbeat_at = started_at WHERE status = 'processing';
+
+CREATE INDEX idx_document_extractions_heartbeat ON document_extractions(heartbeat_at) WHERE status = 'processing';
@@ -0,0 +1,10 @@
+-- Migration: Document Search Combined Index
+-- Document search matches the query against names, descriptions and
+-- extracted text together, so a query with terms in both (or an excluded
+-- term in either) is judged on the whole document. The expression index
+-- backs that match and replaces the per-vector indexes.
+
+CREATE INDEX idx_document_search_combined ON document_search USING GIN((metadata_vector || content_vector));
+
+DROP INDEX IF EXISTS idx_document_search_metadata;
+DROP INDEX IF EXISTS idx_document_search_content;
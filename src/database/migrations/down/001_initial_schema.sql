@@ -0,0 +1,24 @@
+-- Down: Initial Schema
+-- Drops every table, type and function of the initial schema. All data is lost.
+
+DROP TABLE IF EXISTS auditlog;
+DROP TABLE IF EXISTS messagereactions;
+DROP TABLE IF EXISTS messages;
+DROP TABLE IF EXISTS conversationparticipants;
+DROP TABLE IF EXISTS conversations;
+DROP TABLE IF EXISTS aimodels;
+DROP TABLE IF EXISTS documents;
+DROP TABLE IF EXISTS folders;
+DROP TABLE IF EXISTS departmentpermissions;
+DROP TABLE IF EXISTS permissions;
+DROP TABLE IF EXISTS users;
+DROP TABLE IF EXISTS departments;
+
+DROP TYPE IF EXISTS audit_action;
+DROP TYPE IF EXISTS reaction_type;
+DROP TYPE IF EXISTS message_type;
+DROP TYPE IF EXISTS participant_role;
+DROP TYPE IF EXISTS conversation_status;
+DROP TYPE IF EXISTS ai_model_status;
+
+DROP FUNCTION IF EXISTS update_updated_at_column();
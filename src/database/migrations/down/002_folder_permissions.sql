@@ -0,0 +1,10 @@
+-- Down: Folder Permissions System
+
+DROP FUNCTION IF EXISTS get_user_accessible_folders(UUID, VARCHAR);
+DROP FUNCTION IF EXISTS user_has_folder_permission(UUID, UUID, VARCHAR);
+
+ALTER TABLE folders DROP COLUMN IF EXISTS inherit_permissions;
+ALTER TABLE folders DROP CONSTRAINT IF EXISTS chk_access_level;
+ALTER TABLE folders DROP COLUMN IF EXISTS access_level;
+
+DROP TABLE IF EXISTS folderpermissions;
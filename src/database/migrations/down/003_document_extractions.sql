@@ -0,0 +1,4 @@
+-- Down: Document Text Extraction
+
+DROP TABLE IF EXISTS document_extractions;
+DROP TYPE IF EXISTS extraction_status;
@@ -0,0 +1,10 @@
+-- Down: Document Chunks
+
+DROP TABLE IF EXISTS document_chunks;
+
+ALTER TABLE folders DROP CONSTRAINT IF EXISTS chk_chunking_strategy;
+ALTER TABLE folders DROP CONSTRAINT IF EXISTS chk_chunk_overlap_tokens;
+ALTER TABLE folders DROP CONSTRAINT IF EXISTS chk_chunk_size_tokens;
+ALTER TABLE folders DROP COLUMN IF EXISTS chunking_strategy;
+ALTER TABLE folders DROP COLUMN IF EXISTS chunk_overlap_tokens;
+ALTER TABLE folders DROP COLUMN IF EXISTS chunk_size_tokens;
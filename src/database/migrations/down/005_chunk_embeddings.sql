@@ -0,0 +1,8 @@
+-- Down: Chunk Embeddings
+-- The pgvector extension is left installed; other database objects may use it
+
+DROP INDEX IF EXISTS idx_document_chunks_embedding_model;
+
+ALTER TABLE document_chunks DROP COLUMN IF EXISTS embedded_at;
+ALTER TABLE document_chunks DROP COLUMN IF EXISTS embedding_model;
+ALTER TABLE document_chunks DROP COLUMN IF EXISTS embedding;
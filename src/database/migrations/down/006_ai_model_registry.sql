@@ -0,0 +1,13 @@
+-- Down: AI Model Registry
+
+DROP INDEX IF EXISTS idx_aimodels_status;
+DROP INDEX IF EXISTS uq_aimodels_default;
+
+ALTER TABLE aimodels DROP CONSTRAINT IF EXISTS chk_aimodels_cost_non_negative;
+ALTER TABLE aimodels DROP CONSTRAINT IF EXISTS chk_aimodels_health_status;
+
+ALTER TABLE aimodels DROP COLUMN IF EXISTS last_health_error;
+ALTER TABLE aimodels DROP COLUMN IF EXISTS last_health_latency_ms;
+ALTER TABLE aimodels DROP COLUMN IF EXISTS last_health_status;
+ALTER TABLE aimodels DROP COLUMN IF EXISTS last_health_check_at;
+ALTER TABLE aimodels DROP COLUMN IF EXISTS is_default;
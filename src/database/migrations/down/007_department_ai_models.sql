@@ -0,0 +1,6 @@
+-- Down: Department AI Model Policies
+
+DROP FUNCTION IF EXISTS department_can_use_ai_model(UUID, UUID);
+DROP TABLE IF EXISTS department_ai_models;
+
+ALTER TABLE aimodels DROP COLUMN IF EXISTS is_restricted;
@@ -0,0 +1,4 @@
+-- Down: AI Usage Ledger
+-- Per-message usage stays in messages.ai_tokens_used and message_metadata
+
+DROP TABLE IF EXISTS ai_usage_ledger;
@@ -0,0 +1,3 @@
+-- Down: AI Usage Quotas
+
+DROP TABLE IF EXISTS ai_usage_quotas;
@@ -0,0 +1,5 @@
+-- Down: Audit Log Indexes
+
+DROP INDEX IF EXISTS idx_auditlog_changed_by;
+DROP INDEX IF EXISTS idx_auditlog_record;
+DROP INDEX IF EXISTS idx_auditlog_changed_at;
@@ -0,0 +1,3 @@
+-- Down: Document Access Log
+
+DROP TABLE IF EXISTS document_access_log;
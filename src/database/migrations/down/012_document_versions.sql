@@ -0,0 +1,3 @@
+-- Down: Document Versions
+
+DROP TABLE IF EXISTS document_versions;
@@ -0,0 +1,4 @@
+-- Down: Document Hash Indexes
+
+DROP INDEX IF EXISTS idx_documents_folder_hash;
+DROP INDEX IF EXISTS idx_document_versions_hash;
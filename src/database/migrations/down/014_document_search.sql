@@ -0,0 +1,14 @@
+-- Down: Document Full-Text Search
+
+DROP TRIGGER IF EXISTS update_document_extractions_search ON document_extractions;
+DROP TRIGGER IF EXISTS update_documents_search ON documents;
+
+DROP FUNCTION IF EXISTS update_document_content_search();
+DROP FUNCTION IF EXISTS update_document_metadata_search();
+DROP FUNCTION IF EXISTS document_content_vector(TEXT);
+DROP FUNCTION IF EXISTS document_metadata_vector(TEXT, TEXT);
+DROP FUNCTION IF EXISTS document_search_config();
+
+DROP TABLE IF EXISTS document_search;
+
+ALTER TABLE documents DROP COLUMN IF EXISTS description;
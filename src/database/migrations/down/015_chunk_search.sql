@@ -0,0 +1,8 @@
+-- Down: Chunk Full-Text Search
+
+DROP INDEX IF EXISTS idx_document_chunks_search;
+DROP TRIGGER IF EXISTS update_document_chunks_search_vector ON document_chunks;
+DROP FUNCTION IF EXISTS update_chunk_search_vector();
+DROP FUNCTION IF EXISTS document_chunk_vector(TEXT, TEXT);
+
+ALTER TABLE document_chunks DROP COLUMN IF EXISTS search_vector;
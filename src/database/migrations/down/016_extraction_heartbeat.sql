@@ -0,0 +1,5 @@
+-- Down: Extraction Heartbeat
+
+DROP INDEX IF EXISTS idx_document_extractions_heartbeat;
+
+ALTER TABLE document_extractions DROP COLUMN IF EXISTS heartbeat_at;
@@ -0,0 +1,6 @@
+-- Down: Document Search Combined Index
+
+CREATE INDEX IF NOT EXISTS idx_document_search_metadata ON document_search USING GIN(metadata_vector);
+CREATE INDEX IF NOT EXISTS idx_document_search_content ON document_search USING GIN(content_vector);
+
+DROP INDEX IF EXISTS idx_document_search_combined;
@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PoolClient } from 'pg';
+import { DatabaseConnection } from '@database/connection';
+import { logger } from '@utils/logger';
+import { MigrationRunner, checksumOf, parseArgs } from './runner';
+
+interface IMigrationRow {
+  filename: string;
+  checksum: string | null;
+  executed_at: Date;
+}
+
+const UP: Record<string, string> = {
+  '001_users.sql': 'CREATE TABLE users (id INT);',
+  '002_folders.sql': 'CREATE TABLE folders (id INT);',
+  '010_documents.sql': 'CREATE TABLE documents (id INT);',
+};
+
+const applied = (filename: string, checksum: string | null = checksumOf(UP[filename]!)): IMigrationRow => ({
+  filename,
+  checksum,
+  executed_at: new Date('2026-01-01T00:00:00Z'),
+});
+
+describe('checksumOf', () => {
+  it('ignores line endings', () => {
+    expect(checksumOf('SELECT 1;\r\nSELECT 2;\r\n')).toBe(checksumOf('SELECT 1;\nSELECT 2;\n'));
+  });
+
+  it('changes when the SQL changes', () => {
+    expect(checksumOf('SELECT 1;')).not.toBe(checksumOf('SELECT 2;'));
+  });
+});
+
+describe('parseArgs', () => {
+  it('defaults to up without a dry run', () => {
+    expect(parseArgs([])).toEqual({ command: 'up', dryRun: false });
+  });
+
+  it('reads the command, --to in both forms and --dry-run', () => {
+    expect(parseArgs(['down', '--to', '005', '--dry-run'])).toEqual({ command: 'down', to: '005', dryRun: true });
+    expect(parseArgs(['--', 'down', '--to=0'])).toEqual({ command: 'down', to: '0', dryRun: false });
+  });
+
+  it('rejects --to without a value and unknown arguments', () => {
+    expect(() => parseArgs(['down', '--to'])).toThrow('--to needs a migration');
+    expect(() => parseArgs(['sideways'])).toThrow('Unknown argument: sideways');
+  });
+});
+
+describe('MigrationRunner', () => {
+  let dir: string;
+  let rows: IMigrationRow[];
+  // SQL run inside migration transactions, in order
+  let executed: string[];
+  // Statements sent outside a transaction
+  let statements: string[];
+  let spies: Array<ReturnType<typeof spyOn>>;
+  let loggedError: ReturnType<typeof spyOn>;
+  let printed: ReturnType<typeof spyOn>;
+  let exit: ReturnType<typeof spyOn>;
+
+  const run = (...args: string[]) => new MigrationRunner(dir).run(args);
+
+  const failure = (): unknown => loggedError.mock.calls.find(call => call[0] === 'Migration failed:')?.[1];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'migrations-'));
+    mkdirSync(join(dir, 'down'));
+    for (const [filename, sql] of Object.entries(UP)) {
+      writeFileSync(join(dir, filename), sql);
+      writeFileSync(join(dir, 'down', filename), `-- revert ${filename}`);
+    }
+
+    rows = [];
+    executed = [];
+    statements = [];
+
+    const client = {
+      query: async (text: string) => {
+        statements.push(text);
+        return { rows: [], rowCount: 0 };
+      },
+      release: () => undefined,
+    } as unknown as PoolClient;
+
+    spies = [
+      spyOn(DatabaseConnection, 'initialize').mockResolvedValue(undefined),
+      spyOn(DatabaseConnection, 'close').mockResolvedValue(undefined),
+      spyOn(DatabaseConnection, 'getClient').mockResolvedValue(client),
+      spyOn(DatabaseConnection, 'query').mockImplementation(async (text: string) => {
+        statements.push(text);
+        if (text.includes('to_regclass')) {
+          return { rows: [{ name: 'migrations' }] };
+        }
+        if (text.startsWith('SELECT * FROM migrations')) {
+          return { rows: [...rows].sort((a, b) => a.filename.localeCompare(b.filename)) };
+        }
+        return { rows: [], rowCount: 0 };
+      }),
+      spyOn(DatabaseConnection, 'transaction').mockImplementation(async <T>(callback: (client: PoolClient) => Promise<T>) => {
+        const transactionClient = {
+          query: async (text: string) => {
+            if (!text.startsWith('INSERT INTO migrations') && !text.startsWith('DELETE FROM migrations')) {
+              executed.push(text);
+            }
+            return { rows: [], rowCount: 1 };
+          },
+        } as unknown as PoolClient;
+        return callback(transactionClient);
+      }),
+    ];
+    loggedError = spyOn(logger, 'error').mockImplementation(() => logger);
+    printed = spyOn(console, 'log').mockImplementation(() => undefined);
+    exit = spyOn(process, 'exit').mockImplementation(() => undefined as never);
+  });
+
+  afterEach(() => {
+    for (const spy of [...spies, loggedError, printed, exit]) {
+      spy.mockRestore();
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('up', () => {
+    it('applies pending migrations in filename order under the advisory lock', async () => {
+      rows = [applied('001_users.sql')];
+
+      await run('up');
+
+      expect(exit).not.toHaveBeenCalled();
+      expect(executed).toEqual([UP['002_folders.sql']!, UP['010_documents.sql']!]);
+      expect(statements.filter(text => text.includes('pg_advisory'))).toEqual([
+        'SELECT pg_advisory_lock(hashtext($1))',
+        'SELECT pg_advisory_unlock(hashtext($1))',
+      ]);
+    });
+
+    it('refuses to run when an applied migration was edited', async () => {
+      rows = [applied('001_users.sql', checksumOf('CREATE TABLE users (id BIGINT);'))];
+
+      await run('up');
+
+      expect(exit).toHaveBeenCalledWith(1);
+      expect(String(failure())).toContain('Applied migrations were edited after they ran: 001_users.sql');
+      expect(executed).toEqual([]);
+    });
+
+    it('records the checksum of rows from before checksums were stored', async () => {
+      rows = [applied('001_users.sql', null)];
+
+      await run('up');
+
+      expect(exit).not.toHaveBeenCalled();
+      expect(statements).toContain('UPDATE migrations SET checksum = $1 WHERE filename = $2');
+    });
+
+    it('prints the pending SQL on a dry run without touching the database', async () => {
+      rows = [applied('001_users.sql', null)];
+
+      await run('up', '--dry-run');
+
+      expect(exit).not.toHaveBeenCalled();
+      expect(executed).toEqual([]);
+      expect(statements.some(text => text.includes('CREATE TABLE IF NOT EXISTS migrations'))).toBe(false);
+      expect(statements.some(text => text.startsWith('UPDATE migrations'))).toBe(false);
+      expect(statements.some(text => text.includes('pg_advisory'))).toBe(false);
+      expect(printed.mock.calls.map(call => String(call[0]).split('\n')[0])).toEqual([
+        '-- Up: 002_folders.sql',
+        '-- Up: 010_documents.sql',
+      ]);
+    });
+  });
+
+  describe('down', () => {
+    beforeEach(() => {
+      rows = Object.keys(UP).map(filename => applied(filename));
+    });
+
+    it('rolls back only the newest migration by default', async () => {
+      await run('down');
+
+      expect(executed).toEqual(['-- revert 010_documents.sql']);
+    });
+
+    it('rolls back newest first down to the --to migration', async () => {
+      await run('down', '--to', '1');
+
+      expect(exit).not.toHaveBeenCalled();
+      expect(executed).toEqual(['-- revert 010_documents.sql', '-- revert 002_folders.sql']);
+    });
+
+    it('rolls back everything with --to 0', async () => {
+      await run('down', '--to=0');
+
+      expect(executed).toEqual([
+        '-- revert 010_documents.sql',
+        '-- revert 002_folders.sql',
+        '-- revert 001_users.sql',
+      ]);
+    });
+
+    it('rejects a --to that matches no applied migration', async () => {
+      await run('down', '--to', '004');
+
+      expect(exit).toHaveBeenCalledWith(1);
+      expect(String(failure())).toContain('--to 004 does not match an applied migration');
+      expect(executed).toEqual([]);
+    });
+
+    it('reverts nothing when any down file is missing', async () => {
+      rmSync(join(dir, 'down', '002_folders.sql'));
+
+      await run('down', '--to', '001');
+
+      expect(exit).toHaveBeenCalledWith(1);
+      expect(String(failure())).toContain('No down migration for: 002_folders.sql');
+      expect(executed).toEqual([]);
+    });
+
+    it('prints the down SQL on a dry run without reverting', async () => {
+      await run('down', '--to', '001', '--dry-run');
+
+      expect(executed).toEqual([]);
+      expect(statements.some(text => text.includes('pg_advisory'))).toBe(false);
+      expect(printed.mock.calls.map(call => String(call[0]).split('\n')[0])).toEqual([
+        '-- Down: 010_documents.sql',
+        '-- Down: 002_folders.sql',
+      ]);
+    });
+  });
+});
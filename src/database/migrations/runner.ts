@@ -1,36 +1,91 @@
 #!/usr/bin/env bun
 
-import { readFileSync, readdirSync } from 'fs';
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
 import { DatabaseConnection } from '@database/connection';
 import { logger } from '@utils/logger';
 
+// Held while migrating so concurrent runners wait instead of racing
+const MIGRATION_LOCK_KEY = 'rag-y:migrations';
+
+type MigrationCommand = 'up' | 'down' | 'status';
+
+interface IMigrationOptions {
+  command: MigrationCommand;
+  // down: roll back every migration after this one (filename or number, 0 for all)
+  to?: string;
+  // Print the SQL that would run instead of running it
+  dryRun: boolean;
+}
+
+interface IAppliedMigration {
+  filename: string;
+  checksum?: string | null;
+  executed_at: Date;
+}
+
+type MigrationState = 'applied' | 'pending' | 'changed' | 'missing';
+
+/**
+ * Checksum of a migration file. Line endings are normalized so a checkout
+ * with different line endings does not count as an edit.
+ */
+export const checksumOf = (sql: string): string =>
+  createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+
+export const parseArgs = (args: string[]): IMigrationOptions => {
+  const options: IMigrationOptions = { command: 'up', dryRun: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === '--') {
+      // Separator forwarded by package manager scripts
+      continue;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--to') {
+      const value = args[++i];
+      if (!value) {
+        throw new Error('--to needs a migration, e.g. --to 005');
+      }
+      options.to = value;
+    } else if (arg.startsWith('--to=')) {
+      options.to = arg.slice('--to='.length);
+    } else if (arg === 'up' || arg === 'down' || arg === 'status') {
+      options.command = arg;
+    } else {
+      throw new Error(`Unknown argument: ${arg}. Usage: migrate [up|down|status] [--to <migration>] [--dry-run]`);
+    }
+  }
+
+  return options;
+};
+
 class MigrationRunner {
   private migrationsPath: string;
+  private downPath: string;
 
-  constructor() {
-    this.migrationsPath = join(__dirname);
+  constructor(migrationsPath: string = __dirname) {
+    this.migrationsPath = migrationsPath;
+    // Down migrations have the same filename as the migration they revert
+    this.downPath = join(migrationsPath, 'down');
   }
 
-  async run(): Promise<void> {
+  async run(args: string[] = process.argv.slice(2)): Promise<void> {
     try {
-      logger.info('Starting database migrations...');
-      
+      const options = parseArgs(args);
+
       // Initialize database connection
       await DatabaseConnection.initialize();
-      
-      // Create migrations table if it doesn't exist
-      await this.createMigrationsTable();
-      
-      // Get migration files
-      const migrationFiles = this.getMigrationFiles();
-      
-      for (const file of migrationFiles) {
-        await this.runMigration(file);
+
+      if (options.command === 'status') {
+        await this.status();
+      } else if (options.dryRun) {
+        await this.execute(options);
+      } else {
+        await this.withLock(() => this.execute(options));
       }
-      
-      logger.info('All migrations completed successfully');
-      
     } catch (error) {
       logger.error('Migration failed:', error);
       process.exit(1);
@@ -39,75 +94,271 @@ class MigrationRunner {
     }
   }
 
+  private async execute(options: IMigrationOptions): Promise<void> {
+    if (!options.dryRun) {
+      // Create migrations table if it doesn't exist
+      await this.createMigrationsTable();
+    }
+
+    if (options.command === 'down') {
+      await this.down(options);
+    } else {
+      await this.up(options);
+    }
+  }
+
+  private async up(options: IMigrationOptions): Promise<void> {
+    logger.info('Starting database migrations...');
+
+    const applied = await this.getAppliedMigrations();
+    await this.verifyChecksums(applied, options.dryRun);
+
+    const appliedNames = new Set(applied.map(migration => migration.filename));
+    const pending = this.getMigrationFiles().filter(file => !appliedNames.has(file));
+
+    if (pending.length === 0) {
+      logger.info('Database is up to date');
+      return;
+    }
+
+    for (const file of pending) {
+      await this.runMigration(file, options.dryRun);
+    }
+
+    logger.info(options.dryRun
+      ? `Dry run: ${pending.length} migration(s) would be applied`
+      : 'All migrations completed successfully');
+  }
+
+  private async down(options: IMigrationOptions): Promise<void> {
+    const applied = await this.getAppliedMigrations();
+    await this.verifyChecksums(applied, options.dryRun);
+
+    // Newest first
+    const candidates = applied.map(migration => migration.filename).sort().reverse();
+    let toRevert: string[];
+
+    if (options.to === undefined) {
+      toRevert = candidates.slice(0, 1);
+    } else if (/^0+$/.test(options.to)) {
+      toRevert = candidates;
+    } else {
+      const target = this.resolveTarget(options.to, candidates);
+      toRevert = candidates.filter(file => file > target);
+    }
+
+    if (toRevert.length === 0) {
+      logger.info('Nothing to roll back');
+      return;
+    }
+
+    // Check every down file exists before reverting anything
+    const missing = toRevert.filter(file => !existsSync(join(this.downPath, file)));
+    if (missing.length > 0) {
+      throw new Error(`No down migration for: ${missing.join(', ')}`);
+    }
+
+    for (const file of toRevert) {
+      await this.revertMigration(file, options.dryRun);
+    }
+
+    logger.info(options.dryRun
+      ? `Dry run: ${toRevert.length} migration(s) would be rolled back`
+      : `Rolled back ${toRevert.length} migration(s)`);
+  }
+
+  private async status(): Promise<void> {
+    const applied = await this.getAppliedMigrations();
+    const appliedByName = new Map(applied.map(migration => [migration.filename, migration]));
+    const files = this.getMigrationFiles();
+    const names = [...new Set([...files, ...appliedByName.keys()])].sort();
+
+    const rows = names.map(filename => {
+      const migration = appliedByName.get(filename);
+      let state: MigrationState;
+      if (!migration) {
+        state = 'pending';
+      } else if (!files.includes(filename)) {
+        state = 'missing';
+      } else if (migration.checksum && migration.checksum !== checksumOf(this.readMigration(filename))) {
+        state = 'changed';
+      } else {
+        state = 'applied';
+      }
+
+      return {
+        migration: filename,
+        state,
+        executed_at: migration ? new Date(migration.executed_at).toISOString() : '',
+        down: existsSync(join(this.downPath, filename)) ? 'yes' : 'no',
+      };
+    });
+
+    console.table(rows);
+
+    const count = (state: MigrationState) => rows.filter(row => row.state === state).length;
+    console.log(`${count('applied')} applied, ${count('pending')} pending, ${count('changed')} changed, ${count('missing')} missing`);
+  }
+
+  /**
+   * Run a callback while holding the migration advisory lock. A second
+   * runner blocks here until the first finishes, then finds nothing to do.
+   */
+  private async withLock(callback: () => Promise<void>): Promise<void> {
+    const client = await DatabaseConnection.getClient();
+    try {
+      logger.info('Acquiring migration lock...');
+      await client.query('SELECT pg_advisory_lock(hashtext($1))', [MIGRATION_LOCK_KEY]);
+      try {
+        await callback();
+      } finally {
+        await client.query('SELECT pg_advisory_unlock(hashtext($1))', [MIGRATION_LOCK_KEY]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
   private async createMigrationsTable(): Promise<void> {
     const query = `
       CREATE TABLE IF NOT EXISTS migrations (
         id SERIAL PRIMARY KEY,
         filename VARCHAR(255) UNIQUE NOT NULL,
         executed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
+      );
+      ALTER TABLE migrations ADD COLUMN IF NOT EXISTS checksum VARCHAR(64);
     `;
-    
+
     await DatabaseConnection.query(query);
     logger.info('Migrations table ready');
   }
 
+  private async getAppliedMigrations(): Promise<IAppliedMigration[]> {
+    // Status and dry runs do not create the table
+    const table = await DatabaseConnection.query(`SELECT to_regclass('migrations') AS name`);
+    if (!table.rows[0].name) {
+      return [];
+    }
+
+    const result = await DatabaseConnection.query('SELECT * FROM migrations ORDER BY filename');
+    return result.rows;
+  }
+
+  /**
+   * Fail when an applied migration file was edited since it ran. Rows from
+   * before checksums were stored adopt the current file's checksum.
+   */
+  private async verifyChecksums(applied: IAppliedMigration[], dryRun: boolean): Promise<void> {
+    const files = new Set(this.getMigrationFiles());
+    const changed: string[] = [];
+
+    for (const migration of applied) {
+      if (!files.has(migration.filename)) {
+        logger.warn(`Applied migration ${migration.filename} has no file`);
+        continue;
+      }
+
+      const checksum = checksumOf(this.readMigration(migration.filename));
+      if (!migration.checksum) {
+        if (!dryRun) {
+          await DatabaseConnection.query(
+            'UPDATE migrations SET checksum = $1 WHERE filename = $2',
+            [checksum, migration.filename]
+          );
+          logger.info(`Recorded checksum for ${migration.filename}`);
+        }
+      } else if (migration.checksum !== checksum) {
+        changed.push(migration.filename);
+      }
+    }
+
+    if (changed.length > 0) {
+      throw new Error(
+        `Applied migrations were edited after they ran: ${changed.join(', ')}. ` +
+        'Restore the original files and put the change in a new migration.'
+      );
+    }
+  }
+
+  private resolveTarget(target: string, applied: string[]): string {
+    const matches = applied.filter(file => file === target || file.split('_')[0] === target.padStart(3, '0'));
+    if (matches.length !== 1) {
+      throw new Error(`--to ${target} does not match an applied migration`);
+    }
+    return matches[0]!;
+  }
+
   private getMigrationFiles(): string[] {
-    const files = readdirSync(this.migrationsPath)
+    return readdirSync(this.migrationsPath)
       .filter(file => file.endsWith('.sql'))
       .sort();
-    
-    logger.info(`Found ${files.length} migration files`);
-    return files;
-  }
-
-  private async runMigration(filename: string): Promise<void> {
-    // Check if migration has already been run
-    const checkQuery = 'SELECT id FROM migrations WHERE filename = $1';
-    const existingMigration = await DatabaseConnection.query(checkQuery, [filename]);
-    
-    if (existingMigration.rows.length > 0) {
-      logger.info(`Migration ${filename} already executed, skipping`);
+  }
+
+  private readMigration(filename: string): string {
+    return readFileSync(join(this.migrationsPath, filename), 'utf-8');
+  }
+
+  private async runMigration(filename: string, dryRun: boolean): Promise<void> {
+    const migrationSQL = this.readMigration(filename);
+
+    if (dryRun) {
+      console.log(`-- Up: ${filename}\n${migrationSQL.trim()}\n`);
       return;
     }
 
     logger.info(`Running migration: ${filename}`);
-    
-    // Read and execute migration file
-    const filePath = join(this.migrationsPath, filename);
-    const migrationSQL = readFileSync(filePath, 'utf-8');
-    
+
     try {
       // Execute migration in a transaction
       await DatabaseConnection.transaction(async (client) => {
         // Execute the migration SQL
         await client.query(migrationSQL);
-        
+
         // Record the migration as completed
         await client.query(
-          'INSERT INTO migrations (filename) VALUES ($1)',
-          [filename]
+          'INSERT INTO migrations (filename, checksum) VALUES ($1, $2)',
+          [filename, checksumOf(migrationSQL)]
         );
       });
-      
+
       logger.info(`Migration ${filename} completed successfully`);
-      
+
     } catch (error) {
       logger.error(`Migration ${filename} failed:`, error);
       throw error;
     }
   }
+
+  private async revertMigration(filename: string, dryRun: boolean): Promise<void> {
+    const downSQL = readFileSync(join(this.downPath, filename), 'utf-8');
+
+    if (dryRun) {
+      console.log(`-- Down: ${filename}\n${downSQL.trim()}\n`);
+      return;
+    }
+
+    logger.info(`Rolling back migration: ${filename}`);
+
+    try {
+      await DatabaseConnection.transaction(async (client) => {
+        await client.query(downSQL);
+        await client.query('DELETE FROM migrations WHERE filename = $1', [filename]);
+      });
+
+      logger.info(`Migration ${filename} rolled back successfully`);
+
+    } catch (error) {
+      logger.error(`Rollback of ${filename} failed:`, error);
+      throw error;
+    }
+  }
 }
 
-// Run migrations if this file is executed directly
+// Run migrations when this file is executed directly, not when imported
 // Note: import.meta.main is not available in all environments
-// if (import.meta.main) {
-//   const runner = new MigrationRunner();
-//   runner.run().catch(console.error);
-// }
-
-// Run migrations when this file is executed directly
-const runner = new MigrationRunner();
-runner.run().catch(console.error);
+if (process.argv[1] === __filename) {
+  const runner = new MigrationRunner();
+  runner.run().catch(console.error);
+}
 
-export { MigrationRunner }; 
\ No newline at end of file
+export { MigrationRunner };
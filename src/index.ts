@@ -9,10 +9,16 @@ import { requestLogger } from '@middleware/requestLogger';
 import { DatabaseConnection } from '@database/connection';
 import { RedisConnection } from '@database/redis';
 import { routes } from '@routes/index';
+import { ExtractionService } from '@services/extraction.service';
+import { JobWorker } from '@services/jobs';
+import { jobHandlers } from '@services/jobs/handlers';
 
 class Application {
   private app: express.Application;
   private server: any;
+  // Set when JOB_RUN_IN_API runs background jobs in this process
+  private jobWorker: JobWorker | null = null;
+  private shuttingDown = false;
 
   constructor() {
     this.app = express();
@@ -89,6 +95,16 @@ class Application {
         logger.info(`API Documentation: http://localhost:${config.port}/api/${config.apiVersion}/docs`);
       });
 
+      if (config.jobs.runInApi) {
+        this.jobWorker = new JobWorker(jobHandlers);
+        this.jobWorker.start();
+      }
+
+      // Queue document extractions that have no live job (e.g. their worker died)
+      ExtractionService.resumeUnfinishedExtractions().catch(error => {
+        logger.error('Failed to resume document extractions:', error);
+      });
+
       // Graceful shutdown handlers
       process.on('SIGTERM', this.gracefulShutdown.bind(this));
       process.on('SIGINT', this.gracefulShutdown.bind(this));
@@ -102,6 +118,10 @@ class Application {
   }
 
   private async gracefulShutdown(signal: string): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+    this.shuttingDown = true;
     logger.info(`Received ${signal}. Starting graceful shutdown...`);
 
     // Stop accepting new connections
@@ -112,6 +132,11 @@ class Application {
     }
 
     try {
+      // Let running jobs finish before closing the connections they use
+      if (this.jobWorker) {
+        await this.jobWorker.stop();
+      }
+
       // Close database connections
       await DatabaseConnection.close();
       logger.info('Database connections closed');
@@ -1,11 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '@utils/logger';
-import { AppError, ValidationError } from '@utils/AppError';
+import { AppError, DuplicateDocumentError, QuotaExceededError, ValidationError } from '@utils/AppError';
 
 export interface ErrorResponse {
   success: false;
   message: string;
   errors?: Array<{ field: string; message: string }>;
+  duplicate_of?: { document_id: string; document_name: string };
   error?: string;
   stack?: string;
   timestamp: string;
@@ -48,6 +49,14 @@ export const errorHandler = (
     statusCode = err.statusCode;
     message = err.message;
     errorResponse.errors = err.errors;
+  } else if (err instanceof QuotaExceededError) {
+    statusCode = err.statusCode;
+    message = err.message;
+    res.setHeader('Retry-After', Math.max(Math.ceil((err.resetsAt.getTime() - Date.now()) / 1000), 0));
+  } else if (err instanceof DuplicateDocumentError) {
+    statusCode = err.statusCode;
+    message = err.message;
+    errorResponse.duplicate_of = err.duplicateOf;
   } else if (err instanceof AppError) {
     statusCode = err.statusCode;
     message = err.message;
@@ -0,0 +1,69 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import path from 'path';
+import { unlink } from 'fs/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '@config/config';
+import { AppError, BadRequestError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+// Incoming files are written to a temporary directory first and only moved
+// to their final location once the service has validated them
+export const UPLOAD_TEMP_DIR = path.join(config.upload.destination, 'tmp');
+
+const storage = multer.diskStorage({
+  destination: UPLOAD_TEMP_DIR,
+  filename: (req, file, cb) => {
+    cb(null, uuidv4());
+  },
+});
+
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: config.upload.maxSize,
+    files: 1,
+  },
+});
+
+/**
+ * Accept a single multipart file in the given field.
+ *
+ * Multer errors are mapped to AppErrors, and the temporary file is removed
+ * once the response has been sent in case the request failed before the
+ * file was moved to storage.
+ */
+export const uploadSingleFile = (fieldName: string) => {
+  const handler = upload.single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, (error: unknown) => {
+      if (req.file) {
+        // Multer decodes file names as latin1
+        req.file.originalname = Buffer.from(req.file.originalname, 'latin1').toString('utf8');
+
+        const tempPath = req.file.path;
+        res.on('close', () => {
+          unlink(tempPath).catch((unlinkError: NodeJS.ErrnoException) => {
+            if (unlinkError.code !== 'ENOENT') {
+              logger.warn('Failed to remove temporary upload:', { path: tempPath, error: unlinkError });
+            }
+          });
+        });
+      }
+
+      if (!error) {
+        return next();
+      }
+
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          return next(new AppError(`File exceeds the maximum upload size of ${config.upload.maxSize} bytes`, 413));
+        }
+        return next(new BadRequestError(`Upload failed: ${error.message}`));
+      }
+
+      next(error);
+    });
+  };
+};
@@ -0,0 +1,385 @@
+import { DatabaseConnection } from '@database/connection';
+import { ConflictError, NotFoundError } from '@utils/AppError';
+
+export type AIModelStatus = 'active' | 'deprecated' | 'beta' | 'maintenance';
+export type AIModelHealthStatus = 'healthy' | 'unhealthy';
+
+export interface IAIModel {
+  ai_model_id: string;
+  model_name: string;
+  provider?: string;
+  version?: string;
+  description?: string;
+  status: AIModelStatus;
+  api_endpoint?: string;
+  max_tokens?: number;
+  // DECIMAL columns are returned as strings by pg
+  cost_per_1k_tokens?: string | number;
+  capabilities?: Record<string, any>;
+  is_default: boolean;
+  // Only departments granted the model may use it
+  is_restricted: boolean;
+  last_health_check_at?: Date;
+  last_health_status?: AIModelHealthStatus;
+  last_health_latency_ms?: number;
+  last_health_error?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface IAIModelWithUsage extends IAIModel {
+  conversation_count?: number;
+}
+
+export interface ICreateAIModel {
+  model_name: string;
+  provider: string;
+  version?: string;
+  description?: string;
+  status?: AIModelStatus;
+  api_endpoint?: string;
+  max_tokens?: number;
+  cost_per_1k_tokens?: number;
+  capabilities?: Record<string, any>;
+}
+
+export interface IUpdateAIModel {
+  model_name?: string;
+  provider?: string;
+  version?: string | null;
+  description?: string | null;
+  api_endpoint?: string | null;
+  max_tokens?: number | null;
+  cost_per_1k_tokens?: number | null;
+  capabilities?: Record<string, any> | null;
+  is_restricted?: boolean;
+}
+
+export interface IAIModelFilters {
+  status?: AIModelStatus;
+  provider?: string;
+  search?: string;
+  // Hide deprecated models (for users picking a model)
+  exclude_deprecated?: boolean;
+  // Only models this department may use
+  usable_by_department_id?: string;
+}
+
+export interface IAIModelDepartment {
+  department_id: string;
+  department_name: string;
+  granted_by_user_id?: string;
+  granted_at: Date;
+}
+
+export interface IAIModelHealthCheck {
+  status: AIModelHealthStatus;
+  latency_ms: number;
+  error?: string;
+}
+
+export interface IAIModelListResult {
+  models: IAIModelWithUsage[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export class AIModelModel {
+  private static tableName = 'aimodels';
+
+  /**
+   * Get AI models with pagination and filtering, default model first
+   */
+  static async findAll(
+    page: number = 1,
+    limit: number = 10,
+    filters: IAIModelFilters = {}
+  ): Promise<IAIModelListResult> {
+    const offset = (page - 1) * limit;
+
+    const whereConditions: string[] = [];
+    const queryParams: any[] = [];
+    let paramCount = 0;
+
+    if (filters.status) {
+      paramCount++;
+      whereConditions.push(`m.status = $${paramCount}`);
+      queryParams.push(filters.status);
+    }
+
+    if (filters.exclude_deprecated) {
+      whereConditions.push(`m.status != 'deprecated'`);
+    }
+
+    if (filters.usable_by_department_id) {
+      paramCount++;
+      whereConditions.push(`department_can_use_ai_model($${paramCount}, m.ai_model_id)`);
+      queryParams.push(filters.usable_by_department_id);
+    }
+
+    if (filters.provider) {
+      paramCount++;
+      whereConditions.push(`LOWER(m.provider) = LOWER($${paramCount})`);
+      queryParams.push(filters.provider);
+    }
+
+    if (filters.search) {
+      paramCount++;
+      whereConditions.push(`(m.model_name ILIKE $${paramCount} OR m.description ILIKE $${paramCount})`);
+      queryParams.push(`%${filters.search}%`);
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+    const query = `
+      SELECT 
+        m.*,
+        (SELECT COUNT(*) FROM conversations c 
+         WHERE c.ai_model_used_id = m.ai_model_id AND c.status != 'deleted')::int as conversation_count
+      FROM ${this.tableName} m
+      ${whereClause}
+      ORDER BY m.is_default DESC, m.model_name ASC
+      LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}
+    `;
+
+    const countQuery = `
+      SELECT COUNT(*) as total
+      FROM ${this.tableName} m
+      ${whereClause}
+    `;
+
+    queryParams.push(limit, offset);
+
+    const [modelsResult, countResult] = await Promise.all([
+      DatabaseConnection.query(query, queryParams),
+      DatabaseConnection.query(countQuery, queryParams.slice(0, -2))
+    ]);
+
+    const total = parseInt(countResult.rows[0].total);
+
+    return {
+      models: modelsResult.rows,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  static async findById(aiModelId: string): Promise<IAIModelWithUsage | null> {
+    const query = `
+      SELECT 
+        m.*,
+        (SELECT COUNT(*) FROM conversations c 
+         WHERE c.ai_model_used_id = m.ai_model_id AND c.status != 'deleted')::int as conversation_count
+      FROM ${this.tableName} m
+      WHERE m.ai_model_id = $1
+    `;
+
+    const result = await DatabaseConnection.query(query, [aiModelId]);
+    return result.rows[0] || null;
+  }
+
+  static async findByName(modelName: string): Promise<IAIModel | null> {
+    const query = `SELECT * FROM ${this.tableName} WHERE LOWER(model_name) = LOWER($1)`;
+    const result = await DatabaseConnection.query(query, [modelName]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * The model new conversations use when none is chosen
+   */
+  static async findDefault(): Promise<IAIModel | null> {
+    const query = `SELECT * FROM ${this.tableName} WHERE is_default = true`;
+    const result = await DatabaseConnection.query(query);
+    return result.rows[0] || null;
+  }
+
+  static async create(modelData: ICreateAIModel): Promise<IAIModel> {
+    const existing = await this.findByName(modelData.model_name);
+    if (existing) {
+      throw new ConflictError('AI model name already exists');
+    }
+
+    const query = `
+      INSERT INTO ${this.tableName} (
+        model_name, provider, version, description, status,
+        api_endpoint, max_tokens, cost_per_1k_tokens, capabilities
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *
+    `;
+
+    const values = [
+      modelData.model_name,
+      modelData.provider,
+      modelData.version || null,
+      modelData.description || null,
+      modelData.status || 'beta',
+      modelData.api_endpoint || null,
+      modelData.max_tokens ?? null,
+      modelData.cost_per_1k_tokens ?? null,
+      modelData.capabilities ? JSON.stringify(modelData.capabilities) : null,
+    ];
+
+    try {
+      const result = await DatabaseConnection.query(query, values);
+      return result.rows[0];
+    } catch (error: any) {
+      if (error.code === '23505') { // Unique violation
+        throw new ConflictError('AI model name already exists');
+      }
+      throw error;
+    }
+  }
+
+  static async update(aiModelId: string, updateData: IUpdateAIModel): Promise<IAIModel> {
+    const model = await this.findById(aiModelId);
+    if (!model) {
+      throw new NotFoundError('AI model not found');
+    }
+
+    if (updateData.model_name && updateData.model_name.toLowerCase() !== model.model_name.toLowerCase()) {
+      const existing = await this.findByName(updateData.model_name);
+      if (existing) {
+        throw new ConflictError('AI model name already exists');
+      }
+    }
+
+    const updateFields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 0;
+
+    Object.entries(updateData).forEach(([key, value]) => {
+      if (value !== undefined) {
+        paramCount++;
+        updateFields.push(`${key} = $${paramCount}`);
+        values.push(key === 'capabilities' && value !== null ? JSON.stringify(value) : value);
+      }
+    });
+
+    if (updateFields.length === 0) {
+      return model;
+    }
+
+    values.push(aiModelId);
+    const query = `
+      UPDATE ${this.tableName}
+      SET ${updateFields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE ai_model_id = $${paramCount + 1}
+      RETURNING *
+    `;
+
+    const result = await DatabaseConnection.query(query, values);
+    return result.rows[0];
+  }
+
+  static async setStatus(aiModelId: string, status: AIModelStatus): Promise<IAIModel> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET status = $2, updated_at = CURRENT_TIMESTAMP
+      WHERE ai_model_id = $1
+      RETURNING *
+    `;
+
+    const result = await DatabaseConnection.query(query, [aiModelId, status]);
+    if (result.rows.length === 0) {
+      throw new NotFoundError('AI model not found');
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Make a model the default, clearing the previous default in the same
+   * transaction
+   */
+  static async setDefault(aiModelId: string): Promise<IAIModel> {
+    return DatabaseConnection.transaction(async client => {
+      await client.query(`
+        UPDATE ${this.tableName}
+        SET is_default = false, updated_at = CURRENT_TIMESTAMP
+        WHERE is_default = true AND ai_model_id != $1
+      `, [aiModelId]);
+
+      const result = await client.query(`
+        UPDATE ${this.tableName}
+        SET is_default = true, updated_at = CURRENT_TIMESTAMP
+        WHERE ai_model_id = $1
+        RETURNING *
+      `, [aiModelId]);
+
+      if (result.rows.length === 0) {
+        throw new NotFoundError('AI model not found');
+      }
+      return result.rows[0];
+    });
+  }
+
+  static async recordHealthCheck(aiModelId: string, check: IAIModelHealthCheck): Promise<IAIModel> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET last_health_check_at = CURRENT_TIMESTAMP,
+          last_health_status = $2,
+          last_health_latency_ms = $3,
+          last_health_error = $4
+      WHERE ai_model_id = $1
+      RETURNING *
+    `;
+
+    const result = await DatabaseConnection.query(query, [aiModelId, check.status, check.latency_ms, check.error || null]);
+    if (result.rows.length === 0) {
+      throw new NotFoundError('AI model not found');
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Whether a department may use a model (unrestricted, or granted to it)
+   */
+  static async canDepartmentUse(aiModelId: string, departmentId: string): Promise<boolean> {
+    const query = 'SELECT department_can_use_ai_model($1, $2) as allowed';
+    const result = await DatabaseConnection.query(query, [departmentId, aiModelId]);
+    return result.rows[0].allowed;
+  }
+
+  /**
+   * Departments granted a model
+   */
+  static async getDepartments(aiModelId: string): Promise<IAIModelDepartment[]> {
+    const query = `
+      SELECT 
+        d.department_id,
+        d.department_name,
+        dam.granted_by_user_id,
+        dam.granted_at
+      FROM department_ai_models dam
+      JOIN departments d ON dam.department_id = d.department_id
+      WHERE dam.ai_model_id = $1
+      ORDER BY d.department_name
+    `;
+
+    const result = await DatabaseConnection.query(query, [aiModelId]);
+    return result.rows;
+  }
+
+  /**
+   * Delete a model that no conversation references
+   */
+  static async delete(aiModelId: string): Promise<void> {
+    const model = await this.findById(aiModelId);
+    if (!model) {
+      throw new NotFoundError('AI model not found');
+    }
+
+    const usage = await DatabaseConnection.query(
+      'SELECT COUNT(*) as count FROM conversations WHERE ai_model_used_id = $1',
+      [aiModelId]
+    );
+    if (parseInt(usage.rows[0].count) > 0) {
+      throw new ConflictError('AI model is used by conversations; deprecate it instead');
+    }
+
+    await DatabaseConnection.query(`DELETE FROM ${this.tableName} WHERE ai_model_id = $1`, [aiModelId]);
+  }
+}
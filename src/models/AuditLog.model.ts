@@ -0,0 +1,200 @@
+import { PoolClient } from 'pg';
+import { DatabaseConnection } from '@database/connection';
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface IAuditLog {
+  audit_id: string;
+  table_name: string;
+  record_id: string;
+  action: AuditAction;
+  old_values?: Record<string, any>;
+  new_values?: Record<string, any>;
+  changed_by_user_id?: string;
+  changed_at: Date;
+}
+
+export interface IAuditLogWithActor extends IAuditLog {
+  changed_by_name?: string;
+  changed_by_email?: string;
+}
+
+export interface IAuditLogFilters {
+  table_name?: string;
+  record_id?: string;
+  // Matches the folder itself and the rows that reference it (e.g. its permissions)
+  folder_id?: string;
+  changed_by_user_id?: string;
+  action?: AuditAction;
+  from?: Date;
+  // Exclusive
+  to?: Date;
+}
+
+export interface ICreateAuditLog {
+  table_name: string;
+  record_id: string;
+  action: AuditAction;
+  old_values?: Record<string, any> | null;
+  new_values?: Record<string, any> | null;
+  changed_by_user_id?: string | undefined;
+}
+
+// Columns whose values never go into the audit log
+const REDACTED_COLUMNS = new Set(['password_hash']);
+const REDACTED = '[REDACTED]';
+
+// Bookkeeping columns that do not make an update worth auditing on their own
+const IGNORED_COLUMNS = new Set(['updated_at']);
+
+const sanitize = (values: Record<string, any>): Record<string, any> => {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, REDACTED_COLUMNS.has(key) ? REDACTED : value])
+  );
+};
+
+const isSameValue = (a: any, b: any): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export class AuditLogModel {
+  private static tableName = 'auditlog';
+
+  /**
+   * Write an audit row on the client of the transaction that made the
+   * change, so the change and its audit row are committed together
+   */
+  static async record(client: PoolClient, entry: ICreateAuditLog): Promise<void> {
+    await client.query(`
+      INSERT INTO ${this.tableName} (
+        table_name, record_id, action, old_values, new_values, changed_by_user_id
+      ) VALUES ($1, $2, $3, $4, $5, $6)
+    `, [
+      entry.table_name,
+      entry.record_id,
+      entry.action,
+      entry.old_values ? JSON.stringify(sanitize(entry.old_values)) : null,
+      entry.new_values ? JSON.stringify(sanitize(entry.new_values)) : null,
+      entry.changed_by_user_id || null,
+    ]);
+  }
+
+  /**
+   * Audit an update with only the columns that changed. Nothing is written
+   * when no audited column changed.
+   */
+  static async recordUpdate(
+    client: PoolClient,
+    tableName: string,
+    recordId: string,
+    oldRow: Record<string, any>,
+    newRow: Record<string, any>,
+    changedByUserId?: string
+  ): Promise<void> {
+    const changedColumns = Object.keys(newRow).filter(
+      key => !IGNORED_COLUMNS.has(key) && !isSameValue(oldRow[key], newRow[key])
+    );
+
+    if (changedColumns.length === 0) {
+      return;
+    }
+
+    await this.record(client, {
+      table_name: tableName,
+      record_id: recordId,
+      action: 'UPDATE',
+      old_values: Object.fromEntries(changedColumns.map(key => [key, oldRow[key] ?? null])),
+      new_values: Object.fromEntries(changedColumns.map(key => [key, newRow[key] ?? null])),
+      changed_by_user_id: changedByUserId,
+    });
+  }
+
+  /**
+   * Get audit entries newest first. Pages are keyset based: pass the id of
+   * the last entry of the previous page as the cursor.
+   */
+  static async find(
+    filters: IAuditLogFilters,
+    cursor?: string,
+    limit: number = 50
+  ): Promise<{ entries: IAuditLogWithActor[]; hasMore: boolean }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.table_name) {
+      conditions.push(`a.table_name = $${paramIndex++}`);
+      values.push(filters.table_name);
+    }
+
+    if (filters.record_id) {
+      conditions.push(`a.record_id = $${paramIndex++}`);
+      values.push(filters.record_id);
+    }
+
+    if (filters.folder_id) {
+      conditions.push(`(
+        a.record_id::text = $${paramIndex} OR
+        a.new_values->>'folder_id' = $${paramIndex} OR
+        a.old_values->>'folder_id' = $${paramIndex}
+      )`);
+      values.push(filters.folder_id);
+      paramIndex++;
+    }
+
+    if (filters.changed_by_user_id) {
+      conditions.push(`a.changed_by_user_id = $${paramIndex++}`);
+      values.push(filters.changed_by_user_id);
+    }
+
+    if (filters.action) {
+      conditions.push(`a.action = $${paramIndex++}`);
+      values.push(filters.action);
+    }
+
+    if (filters.from) {
+      conditions.push(`a.changed_at >= $${paramIndex++}`);
+      values.push(filters.from);
+    }
+
+    if (filters.to) {
+      conditions.push(`a.changed_at < $${paramIndex++}`);
+      values.push(filters.to);
+    }
+
+    if (cursor) {
+      conditions.push(`(a.changed_at, a.audit_id) < (
+        SELECT changed_at, audit_id FROM ${this.tableName} WHERE audit_id = $${paramIndex++}
+      )`);
+      values.push(cursor);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // One extra row tells whether there is another page
+    values.push(limit + 1);
+
+    const result = await DatabaseConnection.query(`
+      SELECT
+        a.*,
+        u.first_name || ' ' || u.last_name as changed_by_name,
+        u.email as changed_by_email
+      FROM ${this.tableName} a
+      LEFT JOIN users u ON a.changed_by_user_id = u.user_id
+      ${whereClause}
+      ORDER BY a.changed_at DESC, a.audit_id DESC
+      LIMIT $${paramIndex}
+    `, values);
+
+    return {
+      entries: result.rows.slice(0, limit),
+      hasMore: result.rows.length > limit,
+    };
+  }
+
+  static async exists(auditId: string): Promise<boolean> {
+    const result = await DatabaseConnection.query(
+      `SELECT 1 FROM ${this.tableName} WHERE audit_id = $1`,
+      [auditId]
+    );
+    return result.rows.length > 0;
+  }
+}
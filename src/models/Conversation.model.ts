@@ -0,0 +1,451 @@
+import { DatabaseConnection } from '@database/connection';
+import { ConflictError, NotFoundError } from '@utils/AppError';
+
+export type ConversationStatus = 'active' | 'archived' | 'deleted';
+export type ParticipantRole = 'human' | 'ai' | 'moderator';
+
+export interface IConversation {
+  conversation_id: string;
+  conversation_name?: string;
+  created_by_user_id: string;
+  ai_model_used_id?: string;
+  status: ConversationStatus;
+  total_messages: number;
+  total_tokens_used: number;
+  created_at: Date;
+  updated_at: Date;
+  last_message_at?: Date;
+}
+
+export interface IConversationWithJoins extends IConversation {
+  created_by_name?: string;
+  created_by_email?: string;
+  ai_model_name?: string;
+  ai_model_provider?: string;
+  ai_model_endpoint?: string;
+  ai_model_status?: 'active' | 'deprecated' | 'beta' | 'maintenance';
+  participant_count?: number;
+}
+
+export interface ICreateConversation {
+  conversation_name?: string;
+  created_by_user_id: string;
+  ai_model_used_id?: string;
+}
+
+export interface IUpdateConversation {
+  conversation_name?: string;
+  ai_model_used_id?: string;
+  status?: ConversationStatus;
+}
+
+export interface IConversationFilters {
+  status?: ConversationStatus;
+  created_by_user_id?: string;
+  // Only conversations this user participates in
+  participant_user_id?: string;
+  search?: string;
+}
+
+export interface IConversationParticipant {
+  conversation_id: string;
+  user_id: string;
+  role: ParticipantRole;
+  joined_at: Date;
+  last_active_at?: Date;
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  is_ai_user?: boolean;
+}
+
+export interface IAddParticipant {
+  user_id: string;
+  role: ParticipantRole;
+}
+
+export interface IConversationListResult {
+  conversations: IConversationWithJoins[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export class ConversationModel {
+  private static tableName = 'conversations';
+  private static participantsTable = 'conversationparticipants';
+
+  /**
+   * Get conversations with pagination and filtering. Deleted conversations
+   * are only returned when explicitly filtered for.
+   */
+  static async findAll(
+    page: number = 1,
+    limit: number = 10,
+    filters: IConversationFilters = {}
+  ): Promise<IConversationListResult> {
+    const offset = (page - 1) * limit;
+
+    const whereConditions: string[] = [];
+    const queryParams: any[] = [];
+    let paramCount = 0;
+
+    if (filters.status) {
+      paramCount++;
+      whereConditions.push(`c.status = $${paramCount}`);
+      queryParams.push(filters.status);
+    } else {
+      whereConditions.push(`c.status != 'deleted'`);
+    }
+
+    if (filters.created_by_user_id) {
+      paramCount++;
+      whereConditions.push(`c.created_by_user_id = $${paramCount}`);
+      queryParams.push(filters.created_by_user_id);
+    }
+
+    if (filters.participant_user_id) {
+      paramCount++;
+      whereConditions.push(`EXISTS (
+        SELECT 1 FROM ${this.participantsTable} cp
+        WHERE cp.conversation_id = c.conversation_id AND cp.user_id = $${paramCount}
+      )`);
+      queryParams.push(filters.participant_user_id);
+    }
+
+    if (filters.search) {
+      paramCount++;
+      whereConditions.push(`c.conversation_name ILIKE $${paramCount}`);
+      queryParams.push(`%${filters.search}%`);
+    }
+
+    const whereClause = `WHERE ${whereConditions.join(' AND ')}`;
+
+    const query = `
+      SELECT 
+        c.*,
+        u.first_name || ' ' || u.last_name as created_by_name,
+        u.email as created_by_email,
+        m.model_name as ai_model_name,
+        m.provider as ai_model_provider,
+        m.api_endpoint as ai_model_endpoint,
+        m.status as ai_model_status,
+        (SELECT COUNT(*) FROM ${this.participantsTable} cp WHERE cp.conversation_id = c.conversation_id)::int as participant_count
+      FROM ${this.tableName} c
+      LEFT JOIN users u ON c.created_by_user_id = u.user_id
+      LEFT JOIN aimodels m ON c.ai_model_used_id = m.ai_model_id
+      ${whereClause}
+      ORDER BY COALESCE(c.last_message_at, c.created_at) DESC
+      LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}
+    `;
+
+    const countQuery = `
+      SELECT COUNT(*) as total
+      FROM ${this.tableName} c
+      ${whereClause}
+    `;
+
+    queryParams.push(limit, offset);
+
+    const [conversationsResult, countResult] = await Promise.all([
+      DatabaseConnection.query(query, queryParams),
+      DatabaseConnection.query(countQuery, queryParams.slice(0, -2))
+    ]);
+
+    const total = parseInt(countResult.rows[0].total);
+
+    return {
+      conversations: conversationsResult.rows,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Find a conversation that has not been deleted
+   */
+  static async findById(conversationId: string): Promise<IConversationWithJoins | null> {
+    const query = `
+      SELECT 
+        c.*,
+        u.first_name || ' ' || u.last_name as created_by_name,
+        u.email as created_by_email,
+        m.model_name as ai_model_name,
+        m.provider as ai_model_provider,
+        m.api_endpoint as ai_model_endpoint,
+        m.status as ai_model_status,
+        (SELECT COUNT(*) FROM ${this.participantsTable} cp WHERE cp.conversation_id = c.conversation_id)::int as participant_count
+      FROM ${this.tableName} c
+      LEFT JOIN users u ON c.created_by_user_id = u.user_id
+      LEFT JOIN aimodels m ON c.ai_model_used_id = m.ai_model_id
+      WHERE c.conversation_id = $1 AND c.status != 'deleted'
+    `;
+
+    const result = await DatabaseConnection.query(query, [conversationId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create a conversation with its creator as moderator and any initial
+   * participants, in one transaction
+   */
+  static async create(
+    conversationData: ICreateConversation,
+    participants: IAddParticipant[] = []
+  ): Promise<IConversation> {
+    if (conversationData.ai_model_used_id) {
+      await this.validateAIModelExists(conversationData.ai_model_used_id);
+    }
+    for (const participant of participants) {
+      await this.validateUserExists(participant.user_id);
+    }
+
+    return DatabaseConnection.transaction(async client => {
+      const result = await client.query(`
+        INSERT INTO ${this.tableName} (conversation_name, created_by_user_id, ai_model_used_id)
+        VALUES ($1, $2, $3)
+        RETURNING *
+      `, [
+        conversationData.conversation_name || null,
+        conversationData.created_by_user_id,
+        conversationData.ai_model_used_id || null,
+      ]);
+      const conversation: IConversation = result.rows[0];
+
+      const members = [
+        { user_id: conversationData.created_by_user_id, role: 'moderator' as ParticipantRole },
+        ...participants.filter(participant => participant.user_id !== conversationData.created_by_user_id),
+      ];
+
+      for (const member of members) {
+        await client.query(`
+          INSERT INTO ${this.participantsTable} (conversation_id, user_id, role)
+          VALUES ($1, $2, $3)
+          ON CONFLICT (conversation_id, user_id) DO NOTHING
+        `, [conversation.conversation_id, member.user_id, member.role]);
+      }
+
+      return conversation;
+    });
+  }
+
+  /**
+   * Update conversation
+   */
+  static async update(conversationId: string, updateData: IUpdateConversation): Promise<IConversation> {
+    const conversation = await this.findById(conversationId);
+    if (!conversation) {
+      throw new NotFoundError('Conversation not found');
+    }
+
+    if (updateData.ai_model_used_id) {
+      await this.validateAIModelExists(updateData.ai_model_used_id);
+    }
+
+    const updateFields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 0;
+
+    Object.entries(updateData).forEach(([key, value]) => {
+      if (value !== undefined) {
+        paramCount++;
+        updateFields.push(`${key} = $${paramCount}`);
+        values.push(value);
+      }
+    });
+
+    if (updateFields.length === 0) {
+      return conversation;
+    }
+
+    values.push(conversationId);
+    const query = `
+      UPDATE ${this.tableName}
+      SET ${updateFields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+      WHERE conversation_id = $${paramCount + 1}
+      RETURNING *
+    `;
+
+    const result = await DatabaseConnection.query(query, values);
+    return result.rows[0];
+  }
+
+  /**
+   * Soft delete conversation (status 'deleted')
+   */
+  static async delete(conversationId: string): Promise<void> {
+    const conversation = await this.findById(conversationId);
+    if (!conversation) {
+      throw new NotFoundError('Conversation not found');
+    }
+
+    const query = `
+      UPDATE ${this.tableName}
+      SET status = 'deleted', updated_at = CURRENT_TIMESTAMP
+      WHERE conversation_id = $1
+    `;
+
+    await DatabaseConnection.query(query, [conversationId]);
+  }
+
+  /**
+   * Get the participants of a conversation
+   */
+  static async getParticipants(conversationId: string): Promise<IConversationParticipant[]> {
+    const query = `
+      SELECT 
+        cp.*,
+        u.first_name,
+        u.last_name,
+        u.email,
+        u.is_ai_user
+      FROM ${this.participantsTable} cp
+      JOIN users u ON cp.user_id = u.user_id
+      WHERE cp.conversation_id = $1
+      ORDER BY cp.joined_at
+    `;
+
+    const result = await DatabaseConnection.query(query, [conversationId]);
+    return result.rows;
+  }
+
+  /**
+   * Find a user's participation in a conversation
+   */
+  static async findParticipant(conversationId: string, userId: string): Promise<IConversationParticipant | null> {
+    const query = `
+      SELECT * FROM ${this.participantsTable}
+      WHERE conversation_id = $1 AND user_id = $2
+    `;
+
+    const result = await DatabaseConnection.query(query, [conversationId, userId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find the first active AI user participating in a conversation
+   */
+  static async findAiParticipant(conversationId: string): Promise<IConversationParticipant | null> {
+    const query = `
+      SELECT cp.*, u.first_name, u.last_name, u.email, u.is_ai_user
+      FROM ${this.participantsTable} cp
+      JOIN users u ON cp.user_id = u.user_id
+      WHERE cp.conversation_id = $1 
+        AND cp.role = 'ai' 
+        AND u.is_ai_user = true 
+        AND u.is_active = true
+      ORDER BY cp.joined_at
+      LIMIT 1
+    `;
+
+    const result = await DatabaseConnection.query(query, [conversationId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Add a participant to a conversation
+   */
+  static async addParticipant(
+    conversationId: string,
+    participant: IAddParticipant
+  ): Promise<IConversationParticipant> {
+    await this.validateUserExists(participant.user_id);
+
+    const existing = await this.findParticipant(conversationId, participant.user_id);
+    if (existing) {
+      throw new ConflictError('User is already a participant in this conversation');
+    }
+
+    const query = `
+      INSERT INTO ${this.participantsTable} (conversation_id, user_id, role)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `;
+
+    const result = await DatabaseConnection.query(query, [conversationId, participant.user_id, participant.role]);
+    return result.rows[0];
+  }
+
+  /**
+   * Add a participant unless they already belong to the conversation
+   */
+  static async ensureParticipant(conversationId: string, userId: string, role: ParticipantRole): Promise<void> {
+    const query = `
+      INSERT INTO ${this.participantsTable} (conversation_id, user_id, role)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (conversation_id, user_id) DO NOTHING
+    `;
+
+    await DatabaseConnection.query(query, [conversationId, userId, role]);
+  }
+
+  /**
+   * Change a participant's role
+   */
+  static async updateParticipantRole(
+    conversationId: string,
+    userId: string,
+    role: ParticipantRole
+  ): Promise<IConversationParticipant> {
+    const query = `
+      UPDATE ${this.participantsTable}
+      SET role = $3
+      WHERE conversation_id = $1 AND user_id = $2
+      RETURNING *
+    `;
+
+    const result = await DatabaseConnection.query(query, [conversationId, userId, role]);
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Participant not found');
+    }
+    return result.rows[0];
+  }
+
+  /**
+   * Remove a participant from a conversation
+   */
+  static async removeParticipant(conversationId: string, userId: string): Promise<void> {
+    const query = `
+      DELETE FROM ${this.participantsTable}
+      WHERE conversation_id = $1 AND user_id = $2
+    `;
+
+    const result = await DatabaseConnection.query(query, [conversationId, userId]);
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Participant not found');
+    }
+  }
+
+  /**
+   * Record that a participant was active in the conversation
+   */
+  static async touchParticipant(conversationId: string, userId: string): Promise<void> {
+    const query = `
+      UPDATE ${this.participantsTable}
+      SET last_active_at = CURRENT_TIMESTAMP
+      WHERE conversation_id = $1 AND user_id = $2
+    `;
+
+    await DatabaseConnection.query(query, [conversationId, userId]);
+  }
+
+  // Private helper methods
+  private static async validateUserExists(userId: string): Promise<void> {
+    const query = 'SELECT user_id FROM users WHERE user_id = $1 AND is_active = true';
+    const result = await DatabaseConnection.query(query, [userId]);
+    if (result.rows.length === 0) {
+      throw new NotFoundError('User not found');
+    }
+  }
+
+  private static async validateAIModelExists(aiModelId: string): Promise<void> {
+    const query = 'SELECT ai_model_id FROM aimodels WHERE ai_model_id = $1';
+    const result = await DatabaseConnection.query(query, [aiModelId]);
+    if (result.rows.length === 0) {
+      throw new NotFoundError('AI model not found');
+    }
+  }
+}
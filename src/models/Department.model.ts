@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { DatabaseConnection } from '@database/connection';
+import { AuditLogModel } from '@models/AuditLog.model';
 import { AppError, NotFoundError, ConflictError } from '@utils/AppError';
 
 export interface IDepartment {
@@ -36,7 +37,7 @@ export interface IDepartmentWithStats {
 export class DepartmentModel {
   private static tableName = 'departments';
 
-  static async create(departmentData: ICreateDepartment): Promise<IDepartment> {
+  static async create(departmentData: ICreateDepartment, createdByUserId?: string): Promise<IDepartment> {
     const departmentId = uuidv4();
 
     // Check if department name already exists
@@ -59,8 +60,20 @@ export class DepartmentModel {
     ];
 
     try {
-      const result = await DatabaseConnection.query(query, values);
-      return result.rows[0];
+      return await DatabaseConnection.transaction(async client => {
+        const result = await client.query(query, values);
+        const department: IDepartment = result.rows[0];
+
+        await AuditLogModel.record(client, {
+          table_name: this.tableName,
+          record_id: department.department_id,
+          action: 'INSERT',
+          new_values: department,
+          changed_by_user_id: createdByUserId,
+        });
+
+        return department;
+      });
     } catch (error: any) {
       if (error.code === '23505') { // Unique violation
         throw new ConflictError('Department name already exists');
@@ -79,6 +92,22 @@ export class DepartmentModel {
     return result.rows[0] || null;
   }
 
+  /**
+   * Lock an active department until the surrounding transaction ends, so
+   * concurrent changes to its permission grants run one after another.
+   * Returns false when the department does not exist.
+   */
+  static async lockForUpdate(departmentId: string): Promise<boolean> {
+    const query = `
+      SELECT department_id FROM ${this.tableName}
+      WHERE department_id = $1 AND is_active = true
+      FOR UPDATE
+    `;
+
+    const result = await DatabaseConnection.query(query, [departmentId]);
+    return result.rows.length > 0;
+  }
+
   static async findByName(departmentName: string): Promise<IDepartment | null> {
     const query = `
       SELECT * FROM ${this.tableName}
@@ -165,7 +194,7 @@ export class DepartmentModel {
     };
   }
 
-  static async update(departmentId: string, updateData: IUpdateDepartment): Promise<IDepartment> {
+  static async update(departmentId: string, updateData: IUpdateDepartment, updatedByUserId?: string): Promise<IDepartment> {
     // Check if department exists
     const existingDepartment = await this.findById(departmentId);
     if (!existingDepartment) {
@@ -207,8 +236,15 @@ export class DepartmentModel {
     `;
 
     try {
-      const result = await DatabaseConnection.query(query, queryParams);
-      return result.rows[0];
+      return await DatabaseConnection.transaction(async client => {
+        const current = await client.query(`SELECT * FROM ${this.tableName} WHERE department_id = $1 FOR UPDATE`, [departmentId]);
+        const result = await client.query(query, queryParams);
+        const department: IDepartment = result.rows[0];
+
+        await AuditLogModel.recordUpdate(client, this.tableName, departmentId, current.rows[0], department, updatedByUserId);
+
+        return department;
+      });
     } catch (error: any) {
       if (error.code === '23505') {
         throw new ConflictError('Department name already exists');
@@ -217,7 +253,7 @@ export class DepartmentModel {
     }
   }
 
-  static async delete(departmentId: string): Promise<void> {
+  static async delete(departmentId: string, deletedByUserId?: string): Promise<void> {
     // Check if department exists
     const existingDepartment = await this.findById(departmentId);
     if (!existingDepartment) {
@@ -244,7 +280,19 @@ export class DepartmentModel {
       WHERE department_id = $1
     `;
 
-    await DatabaseConnection.query(query, [departmentId]);
+    await DatabaseConnection.transaction(async client => {
+      const current = await client.query(`SELECT * FROM ${this.tableName} WHERE department_id = $1 FOR UPDATE`, [departmentId]);
+      await client.query(query, [departmentId]);
+
+      await AuditLogModel.record(client, {
+        table_name: this.tableName,
+        record_id: departmentId,
+        action: 'DELETE',
+        old_values: current.rows[0],
+        new_values: { is_active: false },
+        changed_by_user_id: deletedByUserId,
+      });
+    });
   }
 
   static async getDepartmentUsers(departmentId: string): Promise<any[]> {
@@ -286,48 +334,163 @@ export class DepartmentModel {
   }
 
   static async addPermission(departmentId: string, permissionId: string, grantedByUserId?: string): Promise<void> {
-    // Check if department exists
-    const department = await this.findById(departmentId);
-    if (!department) {
-      throw new NotFoundError('Department not found');
-    }
-
     // Check if permission already exists for this department
     const existingQuery = `
       SELECT 1 FROM departmentpermissions
       WHERE department_id = $1 AND permission_id = $2
     `;
-    const existingResult = await DatabaseConnection.query(existingQuery, [departmentId, permissionId]);
-    
-    if (existingResult.rows.length > 0) {
-      throw new ConflictError('Permission already granted to this department');
-    }
 
     const query = `
       INSERT INTO departmentpermissions (department_id, permission_id, granted_by_user_id)
       VALUES ($1, $2, $3)
+      RETURNING *
     `;
 
     try {
-      await DatabaseConnection.query(query, [departmentId, permissionId, grantedByUserId || null]);
+      await DatabaseConnection.transaction(async client => {
+        // Check if department exists; the lock makes the check below hold until commit
+        if (!await this.lockForUpdate(departmentId)) {
+          throw new NotFoundError('Department not found');
+        }
+
+        const existingResult = await DatabaseConnection.query(existingQuery, [departmentId, permissionId]);
+        if (existingResult.rows.length > 0) {
+          throw new ConflictError('Permission already granted to this department');
+        }
+
+        const result = await client.query(query, [departmentId, permissionId, grantedByUserId || null]);
+
+        // Grants have a composite key; they are audited under the department
+        await AuditLogModel.record(client, {
+          table_name: 'departmentpermissions',
+          record_id: departmentId,
+          action: 'INSERT',
+          new_values: result.rows[0],
+          changed_by_user_id: grantedByUserId,
+        });
+      });
     } catch (error: any) {
       if (error.code === '23503') { // Foreign key violation
         throw new AppError('Invalid department ID or permission ID', 400);
       }
+      if (error.code === '23505') { // Unique violation
+        throw new ConflictError('Permission already granted to this department');
+      }
       throw error;
     }
   }
 
-  static async removePermission(departmentId: string, permissionId: string): Promise<void> {
+  static async removePermission(departmentId: string, permissionId: string, removedByUserId?: string): Promise<void> {
     const query = `
       DELETE FROM departmentpermissions
       WHERE department_id = $1 AND permission_id = $2
+      RETURNING *
     `;
 
-    const result = await DatabaseConnection.query(query, [departmentId, permissionId]);
-    
-    if (result.rowCount === 0) {
-      throw new NotFoundError('Permission not found for this department');
+    await DatabaseConnection.transaction(async client => {
+      const result = await client.query(query, [departmentId, permissionId]);
+      
+      if (result.rowCount === 0) {
+        throw new NotFoundError('Permission not found for this department');
+      }
+
+      await AuditLogModel.record(client, {
+        table_name: 'departmentpermissions',
+        record_id: departmentId,
+        action: 'DELETE',
+        old_values: result.rows[0],
+        changed_by_user_id: removedByUserId,
+      });
+    });
+  }
+
+  static async getDepartmentAIModels(departmentId: string): Promise<any[]> {
+    const query = `
+      SELECT 
+        m.ai_model_id,
+        m.model_name,
+        m.provider,
+        m.status,
+        m.is_restricted,
+        dam.granted_by_user_id,
+        dam.granted_at
+      FROM department_ai_models dam
+      JOIN aimodels m ON dam.ai_model_id = m.ai_model_id
+      WHERE dam.department_id = $1
+      ORDER BY m.model_name
+    `;
+
+    const result = await DatabaseConnection.query(query, [departmentId]);
+    return result.rows;
+  }
+
+  /**
+   * Grant a department use of an AI model. Granting marks the model as
+   * restricted, so departments without a grant lose access to it.
+   */
+  static async addAIModel(departmentId: string, aiModelId: string, grantedByUserId?: string): Promise<void> {
+    const department = await this.findById(departmentId);
+    if (!department) {
+      throw new NotFoundError('Department not found');
     }
+
+    await DatabaseConnection.transaction(async client => {
+      const model = await client.query('SELECT ai_model_id FROM aimodels WHERE ai_model_id = $1 FOR UPDATE', [aiModelId]);
+      if (model.rows.length === 0) {
+        throw new NotFoundError('AI model not found');
+      }
+
+      const result = await client.query(`
+        INSERT INTO department_ai_models (department_id, ai_model_id, granted_by_user_id)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (department_id, ai_model_id) DO NOTHING
+        RETURNING *
+      `, [departmentId, aiModelId, grantedByUserId || null]);
+
+      if (result.rowCount === 0) {
+        throw new ConflictError('AI model already granted to this department');
+      }
+
+      await AuditLogModel.record(client, {
+        table_name: 'department_ai_models',
+        record_id: departmentId,
+        action: 'INSERT',
+        new_values: result.rows[0],
+        changed_by_user_id: grantedByUserId,
+      });
+
+      await client.query(`
+        UPDATE aimodels SET is_restricted = true, updated_at = CURRENT_TIMESTAMP
+        WHERE ai_model_id = $1 AND is_restricted = false
+      `, [aiModelId]);
+    });
+  }
+
+  /**
+   * Revoke a department's grant. The model stays restricted, so removing the
+   * last grant leaves it unusable until it is granted again or unrestricted.
+   */
+  static async removeAIModel(departmentId: string, aiModelId: string, removedByUserId?: string): Promise<void> {
+    const query = `
+      DELETE FROM department_ai_models
+      WHERE department_id = $1 AND ai_model_id = $2
+      RETURNING *
+    `;
+
+    await DatabaseConnection.transaction(async client => {
+      const result = await client.query(query, [departmentId, aiModelId]);
+      
+      if (result.rowCount === 0) {
+        throw new NotFoundError('AI model not granted to this department');
+      }
+
+      await AuditLogModel.record(client, {
+        table_name: 'department_ai_models',
+        record_id: departmentId,
+        action: 'DELETE',
+        old_values: result.rows[0],
+        changed_by_user_id: removedByUserId,
+      });
+    });
   }
 } 
\ No newline at end of file
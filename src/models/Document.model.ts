@@ -1,10 +1,21 @@
 import { v4 as uuidv4 } from 'uuid';
 import { DatabaseConnection } from '@database/connection';
+import { config } from '@config/config';
+import { AuditLogModel } from '@models/AuditLog.model';
+import { DocumentVersionModel } from '@models/DocumentVersion.model';
 import { AppError, NotFoundError, ConflictError } from '@utils/AppError';
+import { ExtractionStatus } from '@models/DocumentExtraction.model';
+import {
+  formatHighlight,
+  HIGHLIGHT_START,
+  HIGHLIGHT_STOP,
+  ParsedSearchQuery
+} from '@utils/textSearch';
 
 export interface IDocument {
   document_id: string;
   document_name: string;
+  description?: string;
   file_path: string;
   folder_id?: string;
   uploaded_by_user_id: string;
@@ -19,6 +30,7 @@ export interface IDocument {
 
 export interface ICreateDocument {
   document_name: string;
+  description?: string;
   file_path: string;
   folder_id?: string;
   uploaded_by_user_id: string;
@@ -27,12 +39,19 @@ export interface ICreateDocument {
   file_hash?: string;
 }
 
+// The stored file of a document version
+export interface IDocumentFile {
+  file_path: string;
+  file_size_bytes: number;
+  mime_type?: string;
+  file_hash?: string;
+}
+
+// File fields change only through addVersion
 export interface IUpdateDocument {
   document_name?: string;
-  file_path?: string;
+  description?: string | null;
   folder_id?: string;
-  file_size_bytes?: number;
-  mime_type?: string;
   is_active?: boolean;
 }
 
@@ -42,6 +61,7 @@ export interface IDocumentFilters {
   mime_type?: string;
   search?: string;
   is_active?: boolean;
+  extraction_status?: ExtractionStatus;
 }
 
 export interface IDocumentWithJoins extends IDocument {
@@ -49,6 +69,10 @@ export interface IDocumentWithJoins extends IDocument {
   uploaded_by_email?: string;
   folder_name?: string;
   parent_folder_id?: string;
+  extraction_status?: ExtractionStatus;
+  extraction_error?: string;
+  // Background job extracting the document, set when one was just queued
+  extraction_job_id?: string;
 }
 
 export interface IDocumentListResult {
@@ -59,6 +83,46 @@ export interface IDocumentListResult {
   totalPages: number;
 }
 
+export interface IDocumentSearchFilters {
+  folder_id?: string;
+  mime_type?: string;
+  uploaded_by_user_id?: string;
+}
+
+export type DocumentSearchFacet = 'mime_type' | 'folder' | 'uploader';
+
+export interface IDocumentSearchFacetValue {
+  // null for documents without a MIME type or outside any folder
+  value: string | null;
+  label: string | null;
+  count: number;
+}
+
+// HTML with matches wrapped in <mark>; the document text is escaped
+export interface IDocumentSearchHighlights {
+  document_name: string;
+  description?: string;
+  content?: string;
+}
+
+export interface IDocumentSearchHit extends IDocumentWithJoins {
+  rank: number;
+  highlights: IDocumentSearchHighlights;
+}
+
+export interface IDocumentSearchResult {
+  documents: IDocumentSearchHit[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  // Each facet counts the matches with the other facets' filters applied
+  facets: Record<DocumentSearchFacet, IDocumentSearchFacetValue[]>;
+}
+
+// Most values returned per facet
+const SEARCH_FACET_LIMIT = 20;
+
 export class DocumentModel {
   private static tableName = 'documents';
 
@@ -107,6 +171,12 @@ export class DocumentModel {
       queryParams.push(filters.is_active);
     }
 
+    if (filters.extraction_status) {
+      paramCount++;
+      whereConditions.push(`COALESCE(e.status, 'pending') = $${paramCount}`);
+      queryParams.push(filters.extraction_status);
+    }
+
     const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
 
     // Main query with joins
@@ -116,10 +186,13 @@ export class DocumentModel {
         u.first_name || ' ' || u.last_name as uploaded_by_name,
         u.email as uploaded_by_email,
         f.folder_name,
-        f.parent_folder_id
+        f.parent_folder_id,
+        COALESCE(e.status, 'pending') as extraction_status,
+        e.error_message as extraction_error
       FROM ${this.tableName} d
       LEFT JOIN users u ON d.uploaded_by_user_id = u.user_id
       LEFT JOIN folders f ON d.folder_id = f.folder_id
+      LEFT JOIN document_extractions e ON d.document_id = e.document_id
       ${whereClause}
       ORDER BY d.created_at DESC
       LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}
@@ -129,6 +202,7 @@ export class DocumentModel {
     const countQuery = `
       SELECT COUNT(*) as total
       FROM ${this.tableName} d
+      LEFT JOIN document_extractions e ON d.document_id = e.document_id
       ${whereClause}
     `;
 
@@ -161,10 +235,13 @@ export class DocumentModel {
         u.first_name || ' ' || u.last_name as uploaded_by_name,
         u.email as uploaded_by_email,
         f.folder_name,
-        f.parent_folder_id
+        f.parent_folder_id,
+        COALESCE(e.status, 'pending') as extraction_status,
+        e.error_message as extraction_error
       FROM ${this.tableName} d
       LEFT JOIN users u ON d.uploaded_by_user_id = u.user_id
       LEFT JOIN folders f ON d.folder_id = f.folder_id
+      LEFT JOIN document_extractions e ON d.document_id = e.document_id
       WHERE d.document_id = $1 AND d.is_active = true
     `;
 
@@ -178,28 +255,21 @@ export class DocumentModel {
   static async create(documentData: ICreateDocument): Promise<IDocument> {
     const documentId = uuidv4();
 
-    // Validate folder exists if provided
-    if (documentData.folder_id) {
-      const folderExists = await this.validateFolderExists(documentData.folder_id);
-      if (!folderExists) {
-        throw new NotFoundError('Folder not found');
-      }
-    }
-
     // Check for duplicate names in the same folder
     await this.validateUniqueNameInFolder(documentData.document_name, documentData.folder_id || null);
 
     const query = `
       INSERT INTO ${this.tableName} (
-        document_id, document_name, file_path, folder_id, uploaded_by_user_id,
+        document_id, document_name, description, file_path, folder_id, uploaded_by_user_id,
         file_size_bytes, mime_type, file_hash
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
       RETURNING *
     `;
 
     const values = [
       documentId,
       documentData.document_name,
+      documentData.description || null,
       documentData.file_path,
       documentData.folder_id || null,
       documentData.uploaded_by_user_id,
@@ -208,27 +278,49 @@ export class DocumentModel {
       documentData.file_hash || null,
     ];
 
-    const result = await DatabaseConnection.query(query, values);
-    return result.rows[0];
+    return DatabaseConnection.transaction(async client => {
+      // Locks the folder so a concurrent folder delete cannot orphan the document
+      if (documentData.folder_id) {
+        const folderExists = await this.validateFolderExists(documentData.folder_id);
+        if (!folderExists) {
+          throw new NotFoundError('Folder not found');
+        }
+      }
+
+      const result = await client.query(query, values);
+      const document: IDocument = result.rows[0];
+
+      await DocumentVersionModel.create(client, {
+        document_id: document.document_id,
+        version_number: document.version_number,
+        file_path: document.file_path,
+        file_size_bytes: document.file_size_bytes,
+        mime_type: document.mime_type ?? null,
+        file_hash: document.file_hash ?? null,
+        uploaded_by_user_id: document.uploaded_by_user_id,
+      });
+
+      await AuditLogModel.record(client, {
+        table_name: this.tableName,
+        record_id: document.document_id,
+        action: 'INSERT',
+        new_values: document,
+        changed_by_user_id: document.uploaded_by_user_id,
+      });
+
+      return document;
+    });
   }
 
   /**
    * Update document
    */
-  static async update(documentId: string, updateData: IUpdateDocument): Promise<IDocument> {
+  static async update(documentId: string, updateData: IUpdateDocument, updatedByUserId?: string): Promise<IDocument> {
     const document = await this.findById(documentId);
     if (!document) {
       throw new NotFoundError('Document not found');
     }
 
-    // Validate folder exists if being updated
-    if (updateData.folder_id) {
-      const folderExists = await this.validateFolderExists(updateData.folder_id);
-      if (!folderExists) {
-        throw new NotFoundError('Folder not found');
-      }
-    }
-
     // Check for duplicate names if name or folder is being updated
     if (updateData.document_name || updateData.folder_id !== undefined) {
       const newName = updateData.document_name || document.document_name;
@@ -261,14 +353,83 @@ export class DocumentModel {
       RETURNING *
     `;
 
-    const result = await DatabaseConnection.query(query, values);
-    return result.rows[0];
+    return DatabaseConnection.transaction(async client => {
+      // Locks the target folder so a concurrent folder delete cannot orphan the document
+      if (updateData.folder_id) {
+        const folderExists = await this.validateFolderExists(updateData.folder_id);
+        if (!folderExists) {
+          throw new NotFoundError('Folder not found');
+        }
+      }
+
+      const current = await client.query(`SELECT * FROM ${this.tableName} WHERE document_id = $1 FOR UPDATE`, [documentId]);
+      const result = await client.query(query, values);
+      const updatedDocument: IDocument = result.rows[0];
+
+      await AuditLogModel.recordUpdate(client, this.tableName, documentId, current.rows[0], updatedDocument, updatedByUserId);
+
+      return updatedDocument;
+    });
+  }
+
+  /**
+   * Make a file the document's current version. Earlier versions keep
+   * their files and metadata in document_versions.
+   */
+  static async addVersion(
+    documentId: string,
+    file: IDocumentFile,
+    uploadedByUserId: string,
+    restoredFromVersion?: number
+  ): Promise<IDocument> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET file_path = $1, file_size_bytes = $2, mime_type = $3, file_hash = $4,
+          version_number = version_number + 1, updated_at = CURRENT_TIMESTAMP
+      WHERE document_id = $5
+      RETURNING *
+    `;
+
+    return DatabaseConnection.transaction(async client => {
+      const current = await client.query(
+        `SELECT * FROM ${this.tableName} WHERE document_id = $1 AND is_active = true FOR UPDATE`,
+        [documentId]
+      );
+      if (current.rows.length === 0) {
+        throw new NotFoundError('Document not found');
+      }
+
+      const result = await client.query(query, [
+        file.file_path,
+        file.file_size_bytes,
+        file.mime_type || null,
+        file.file_hash || null,
+        documentId,
+      ]);
+      const updatedDocument: IDocument = result.rows[0];
+
+      await DocumentVersionModel.create(client, {
+        document_id: documentId,
+        version_number: updatedDocument.version_number,
+        file_path: file.file_path,
+        file_size_bytes: file.file_size_bytes,
+        mime_type: file.mime_type ?? null,
+        file_hash: file.file_hash ?? null,
+        uploaded_by_user_id: uploadedByUserId,
+        ...(restoredFromVersion && { restored_from_version: restoredFromVersion }),
+      });
+
+      await AuditLogModel.recordUpdate(client, this.tableName, documentId, current.rows[0], updatedDocument, uploadedByUserId);
+
+      return updatedDocument;
+    });
   }
 
   /**
-   * Soft delete document
+   * Soft delete document. The stored file is removed separately, see
+   * DocumentService.removeStoredFileIfUnreferenced.
    */
-  static async delete(documentId: string): Promise<void> {
+  static async delete(documentId: string, deletedByUserId?: string): Promise<void> {
     const document = await this.findById(documentId);
     if (!document) {
       throw new NotFoundError('Document not found');
@@ -280,7 +441,103 @@ export class DocumentModel {
       WHERE document_id = $1
     `;
 
-    await DatabaseConnection.query(query, [documentId]);
+    await DatabaseConnection.transaction(async client => {
+      const current = await client.query(`SELECT * FROM ${this.tableName} WHERE document_id = $1 FOR UPDATE`, [documentId]);
+      await client.query(query, [documentId]);
+
+      await AuditLogModel.record(client, {
+        table_name: this.tableName,
+        record_id: documentId,
+        action: 'DELETE',
+        old_values: current.rows[0],
+        new_values: { is_active: false },
+        changed_by_user_id: deletedByUserId,
+      });
+    });
+  }
+
+  /**
+   * Whether an active document, current or earlier version, points at a blob
+   */
+  static async isStoredFileReferenced(filePath: string): Promise<boolean> {
+    const query = `
+      SELECT 1 FROM ${this.tableName}
+      WHERE file_path = $1 AND is_active = true
+      UNION ALL
+      SELECT 1 FROM document_versions v
+      JOIN ${this.tableName} d ON v.document_id = d.document_id
+      WHERE v.file_path = $1 AND d.is_active = true
+      LIMIT 1
+    `;
+
+    const result = await DatabaseConnection.query(query, [filePath]);
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Serialize work on one blob until the current transaction ends. Taken
+   * before checking whether a blob is referenced and before adding a
+   * reference to an existing blob, so a blob cannot be deleted while a new
+   * document starts to share it.
+   */
+  static async lockStoredFile(filePath: string): Promise<void> {
+    await DatabaseConnection.query(
+      "SELECT pg_advisory_xact_lock(hashtext('stored_file'), hashtext($1))",
+      [filePath]
+    );
+  }
+
+  /**
+   * Get the active documents of a folder (or of the top level when
+   * `folderId` is null) whose current file has the given content
+   */
+  static async findByHashInFolder(fileHash: string, folderId: string | null): Promise<IDocumentWithJoins[]> {
+    let query = `
+      SELECT * FROM ${this.tableName}
+      WHERE file_hash = $1 AND is_active = true
+    `;
+    const params: any[] = [fileHash];
+
+    if (folderId) {
+      query += ' AND folder_id = $2';
+      params.push(folderId);
+    } else {
+      query += ' AND folder_id IS NULL';
+    }
+
+    const result = await DatabaseConnection.query(`${query} ORDER BY created_at ASC`, params);
+    return result.rows;
+  }
+
+  /**
+   * SQL common table expressions selecting the active documents a user may
+   * read, named `readable_documents`. Mirrors the read rule of the document
+   * service: global read access, ownership, or `read` on the document's
+   * folder via user_has_folder_permission (evaluated once per folder).
+   *
+   * `userParam` and `globalReadParam` are the placeholders (e.g. "$1") bound
+   * to the user id and to whether the user holds view_documents.
+   */
+  static readableDocumentsCte(userParam: string, globalReadParam: string): string {
+    return `
+      readable_folders AS MATERIALIZED (
+        SELECT f.folder_id
+        FROM folders f
+        WHERE NOT ${globalReadParam}::boolean
+          AND f.is_active = true
+          AND user_has_folder_permission(${userParam}::uuid, f.folder_id, 'read')
+      ),
+      readable_documents AS (
+        SELECT d.*
+        FROM ${this.tableName} d
+        WHERE d.is_active = true
+          AND (
+            ${globalReadParam}::boolean
+            OR d.uploaded_by_user_id = ${userParam}::uuid
+            OR d.folder_id IN (SELECT folder_id FROM readable_folders)
+          )
+      )
+    `;
   }
 
   /**
@@ -338,10 +595,11 @@ export class DocumentModel {
   }
 
   /**
-   * Validate that folder exists
+   * Validate that folder exists. Inside a transaction, the share lock keeps
+   * the folder from being deleted until the transaction ends
    */
   private static async validateFolderExists(folderId: string): Promise<boolean> {
-    const query = 'SELECT folder_id FROM folders WHERE folder_id = $1 AND is_active = true';
+    const query = 'SELECT folder_id FROM folders WHERE folder_id = $1 AND is_active = true FOR SHARE';
     const result = await DatabaseConnection.query(query, [folderId]);
     return result.rows.length > 0;
   }
@@ -365,17 +623,191 @@ export class DocumentModel {
   }
 
   /**
-   * Search documents by content or metadata
+   * Full-text search over the names, descriptions and extracted text of
+   * the documents a user may read, best matches first, with highlighted
+   * snippets and facet counts
    */
   static async search(
-    searchTerm: string,
+    searchQuery: ParsedSearchQuery,
     page: number = 1,
     limit: number = 10,
-    filters: IDocumentFilters = {}
-  ): Promise<IDocumentListResult> {
-    return this.findAll(page, limit, {
-      ...filters,
-      search: searchTerm,
+    filters: IDocumentSearchFilters = {},
+    requestingUserId: string,
+    canReadAll: boolean
+  ): Promise<IDocumentSearchResult> {
+    const offset = (page - 1) * limit;
+    const params: any[] = [requestingUserId, canReadAll, config.search.language];
+    const tsQuery = this.buildTsQuery(searchQuery, '$3::regconfig', params);
+
+    const facetFilters: Array<[DocumentSearchFacet, string]> = [];
+    if (filters.mime_type) {
+      params.push(filters.mime_type);
+      facetFilters.push(['mime_type', `m.mime_type = $${params.length}`]);
+    }
+    if (filters.folder_id) {
+      params.push(filters.folder_id);
+      facetFilters.push(['folder', `m.folder_id = $${params.length}`]);
+    }
+    if (filters.uploaded_by_user_id) {
+      params.push(filters.uploaded_by_user_id);
+      facetFilters.push(['uploader', `m.uploaded_by_user_id = $${params.length}`]);
+    }
+
+    const whereClause = (exceptFacet?: DocumentSearchFacet): string => {
+      const conditions = facetFilters
+        .filter(([facet]) => facet !== exceptFacet)
+        .map(([, condition]) => condition);
+      return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    };
+
+    const matches = `
+      WITH ${this.readableDocumentsCte('$1', '$2')},
+      search_query AS (
+        SELECT ${tsQuery} AS query
+      ),
+      matches AS (
+        SELECT rd.*, ts_rank(s.metadata_vector || s.content_vector, q.query, 1) AS rank
+        FROM readable_documents rd
+        JOIN document_search s ON rd.document_id = s.document_id
+        CROSS JOIN search_query q
+        WHERE (s.metadata_vector || s.content_vector) @@ q.query
+      )
+    `;
+
+    const facetQuery = `
+      ${matches}
+      SELECT 'mime_type' AS facet, m.mime_type AS value, NULL AS label, COUNT(*) AS count
+      FROM matches m
+      ${whereClause('mime_type')}
+      GROUP BY m.mime_type
+      UNION ALL
+      SELECT 'folder', m.folder_id::text, MAX(f.folder_name), COUNT(*)
+      FROM matches m
+      LEFT JOIN folders f ON m.folder_id = f.folder_id
+      ${whereClause('folder')}
+      GROUP BY m.folder_id
+      UNION ALL
+      SELECT 'uploader', m.uploaded_by_user_id::text, MAX(u.first_name || ' ' || u.last_name), COUNT(*)
+      FROM matches m
+      LEFT JOIN users u ON m.uploaded_by_user_id = u.user_id
+      ${whereClause('uploader')}
+      GROUP BY m.uploaded_by_user_id
+      UNION ALL
+      SELECT 'total', NULL, NULL, COUNT(*)
+      FROM matches m
+      ${whereClause()}
+      ORDER BY count DESC
+    `;
+    const facetParams = [...params];
+
+    // Names and descriptions are highlighted whole, extracted text as snippets
+    params.push(`HighlightAll=true, StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}`);
+    const fieldHeadlineParam = `$${params.length}`;
+    params.push(`MaxFragments=2, MinWords=10, MaxWords=30, FragmentDelimiter=" … ", StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}`);
+    const contentHeadlineParam = `$${params.length}`;
+    params.push(limit, offset);
+
+    const hitsQuery = `
+      ${matches},
+      page AS (
+        SELECT m.*
+        FROM matches m
+        ${whereClause()}
+        ORDER BY m.rank DESC, m.created_at DESC
+        LIMIT $${params.length - 1} OFFSET $${params.length}
+      )
+      SELECT
+        p.*,
+        u.first_name || ' ' || u.last_name as uploaded_by_name,
+        u.email as uploaded_by_email,
+        f.folder_name,
+        f.parent_folder_id,
+        COALESCE(e.status, 'pending') as extraction_status,
+        e.error_message as extraction_error,
+        ts_headline($3::regconfig, p.document_name, q.query, ${fieldHeadlineParam}) as name_highlight,
+        CASE WHEN p.description IS NOT NULL
+          THEN ts_headline($3::regconfig, p.description, q.query, ${fieldHeadlineParam})
+        END as description_highlight,
+        CASE WHEN e.content_text IS NOT NULL
+          THEN ts_headline($3::regconfig, LEFT(e.content_text, 500000), q.query, ${contentHeadlineParam})
+        END as content_highlight
+      FROM page p
+      CROSS JOIN search_query q
+      LEFT JOIN users u ON p.uploaded_by_user_id = u.user_id
+      LEFT JOIN folders f ON p.folder_id = f.folder_id
+      LEFT JOIN document_extractions e ON p.document_id = e.document_id
+      ORDER BY p.rank DESC, p.created_at DESC
+    `;
+
+    const [hitsResult, facetResult] = await Promise.all([
+      DatabaseConnection.query(hitsQuery, params),
+      DatabaseConnection.query(facetQuery, facetParams),
+    ]);
+
+    const facets: Record<DocumentSearchFacet, IDocumentSearchFacetValue[]> = {
+      mime_type: [],
+      folder: [],
+      uploader: [],
+    };
+    let total = 0;
+    for (const row of facetResult.rows) {
+      if (row.facet === 'total') {
+        total = parseInt(row.count);
+      } else if (facets[row.facet as DocumentSearchFacet].length < SEARCH_FACET_LIMIT) {
+        facets[row.facet as DocumentSearchFacet].push({
+          value: row.value,
+          label: row.label,
+          count: parseInt(row.count),
+        });
+      }
+    }
+
+    const documents: IDocumentSearchHit[] = hitsResult.rows.map(({
+      rank,
+      name_highlight,
+      description_highlight,
+      content_highlight,
+      ...document
+    }: any) => ({
+      ...document,
+      rank: Number(rank),
+      highlights: {
+        document_name: formatHighlight(name_highlight),
+        ...(description_highlight !== null && { description: formatHighlight(description_highlight) }),
+        ...(content_highlight !== null && { content: formatHighlight(content_highlight) }),
+      },
+    }));
+
+    return {
+      documents,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      facets,
+    };
+  }
+
+  /**
+   * Build a tsquery expression for a parsed search query, adding each
+   * term to `params`. `configSql` is the text search configuration.
+   */
+  private static buildTsQuery(searchQuery: ParsedSearchQuery, configSql: string, params: any[]): string {
+    const groups = searchQuery.map(group => {
+      const terms = group.map(term => {
+        if (term.kind === 'prefix') {
+          params.push(`${term.text}:*`);
+        } else {
+          params.push(term.text);
+        }
+
+        const functionName = { word: 'plainto_tsquery', phrase: 'phraseto_tsquery', prefix: 'to_tsquery' }[term.kind];
+        const termQuery = `${functionName}(${configSql}, $${params.length})`;
+        return term.exclude ? `(!!${termQuery})` : termQuery;
+      });
+      return `(${terms.join(' || ')})`;
     });
+
+    return groups.join(' && ');
   }
 } 
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { DatabaseConnection } from '@database/connection';
+
+export type DocumentAccessType = 'download' | 'preview' | 'search_hit' | 'ai_context';
+
+export interface IDocumentAccess {
+  access_id: string;
+  document_id?: string;
+  document_name: string;
+  chunk_id?: string;
+  user_id: string;
+  access_type: DocumentAccessType;
+  conversation_id?: string;
+  message_id?: string;
+  details?: Record<string, any>;
+  accessed_at: Date;
+}
+
+export interface IDocumentAccessWithJoins extends IDocumentAccess {
+  user_name?: string;
+  user_email?: string;
+  conversation_name?: string;
+}
+
+export interface ICreateDocumentAccess {
+  document_id: string;
+  document_name: string;
+  chunk_id?: string;
+  user_id: string;
+  access_type: DocumentAccessType;
+  conversation_id?: string;
+  message_id?: string;
+  details?: Record<string, any>;
+}
+
+export interface IDocumentAccessFilters {
+  document_id?: string;
+  user_id?: string;
+  access_type?: DocumentAccessType;
+  conversation_id?: string;
+  from?: Date;
+  // Exclusive
+  to?: Date;
+}
+
+export class DocumentAccessModel {
+  private static tableName = 'document_access_log';
+
+  /**
+   * Record a batch of accesses in one statement
+   */
+  static async createMany(entries: ICreateDocumentAccess[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const values: any[] = [];
+    const rows = entries.map(entry => {
+      const base = values.length;
+      values.push(
+        entry.document_id,
+        entry.document_name,
+        entry.chunk_id || null,
+        entry.user_id,
+        entry.access_type,
+        entry.conversation_id || null,
+        entry.message_id || null,
+        entry.details ? JSON.stringify(entry.details) : null
+      );
+      return `(${Array.from({ length: 8 }, (_, i) => `$${base + i + 1}`).join(', ')})`;
+    });
+
+    await DatabaseConnection.query(`
+      INSERT INTO ${this.tableName} (
+        document_id, document_name, chunk_id, user_id, access_type,
+        conversation_id, message_id, details
+      ) VALUES ${rows.join(', ')}
+    `, values);
+  }
+
+  /**
+   * Get accesses newest first. Pages are keyset based: pass the id of the
+   * last entry of the previous page as the cursor.
+   */
+  static async find(
+    filters: IDocumentAccessFilters,
+    cursor?: string,
+    limit: number = 50
+  ): Promise<{ entries: IDocumentAccessWithJoins[]; hasMore: boolean }> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    if (filters.document_id) {
+      conditions.push(`a.document_id = $${paramIndex++}`);
+      values.push(filters.document_id);
+    }
+
+    if (filters.user_id) {
+      conditions.push(`a.user_id = $${paramIndex++}`);
+      values.push(filters.user_id);
+    }
+
+    if (filters.access_type) {
+      conditions.push(`a.access_type = $${paramIndex++}`);
+      values.push(filters.access_type);
+    }
+
+    if (filters.conversation_id) {
+      conditions.push(`a.conversation_id = $${paramIndex++}`);
+      values.push(filters.conversation_id);
+    }
+
+    if (filters.from) {
+      conditions.push(`a.accessed_at >= $${paramIndex++}`);
+      values.push(filters.from);
+    }
+
+    if (filters.to) {
+      conditions.push(`a.accessed_at < $${paramIndex++}`);
+      values.push(filters.to);
+    }
+
+    if (cursor) {
+      conditions.push(`(a.accessed_at, a.access_id) < (
+        SELECT accessed_at, access_id FROM ${this.tableName} WHERE access_id = $${paramIndex++}
+      )`);
+      values.push(cursor);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // One extra row tells whether there is another page
+    values.push(limit + 1);
+
+    const result = await DatabaseConnection.query(`
+      SELECT
+        a.*,
+        u.first_name || ' ' || u.last_name as user_name,
+        u.email as user_email,
+        c.conversation_name
+      FROM ${this.tableName} a
+      JOIN users u ON a.user_id = u.user_id
+      LEFT JOIN conversations c ON a.conversation_id = c.conversation_id
+      ${whereClause}
+      ORDER BY a.accessed_at DESC, a.access_id DESC
+      LIMIT $${paramIndex}
+    `, values);
+
+    return {
+      entries: result.rows.slice(0, limit),
+      hasMore: result.rows.length > limit,
+    };
+  }
+
+  static async exists(accessId: string): Promise<boolean> {
+    const result = await DatabaseConnection.query(
+      `SELECT 1 FROM ${this.tableName} WHERE access_id = $1`,
+      [accessId]
+    );
+    return result.rows.length > 0;
+  }
+}
@@ -0,0 +1,214 @@
+import { DatabaseConnection } from '@database/connection';
+import { config } from '@config/config';
+import { DocumentModel } from '@models/Document.model';
+import { ChunkingStrategy, ITextChunk } from '@services/chunking';
+import { IVectorSearchHit } from '@services/vectors';
+
+export interface IDocumentChunk {
+  chunk_id: string;
+  document_id: string;
+  version_number: number;
+  chunk_index: number;
+  content: string;
+  start_offset: number;
+  end_offset: number;
+  page_start?: number;
+  page_end?: number;
+  heading?: string;
+  token_count: number;
+  strategy: ChunkingStrategy;
+  embedding_model?: string;
+  embedded_at?: Date;
+  created_at: Date;
+}
+
+export interface IDocumentChunkListResult {
+  chunks: IDocumentChunk[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface IChunkTextSearchQuery {
+  query: string;
+  top_k: number;
+  // The caller whose read access bounds the results
+  user_id: string;
+  has_global_read: boolean;
+  folder_id?: string;
+  document_ids?: string[];
+  mime_type?: string;
+}
+
+// Rows per INSERT, keeping well below PostgreSQL's bind parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+export class DocumentChunkModel {
+  private static tableName = 'document_chunks';
+
+  // Everything except the embedding vector, which callers never need back
+  private static columns = `
+    chunk_id, document_id, version_number, chunk_index, content, start_offset, end_offset,
+    page_start, page_end, heading, token_count, strategy, embedding_model, embedded_at, created_at
+  `;
+
+  /**
+   * Get a page of a document's chunks in reading order
+   */
+  static async findByDocumentId(
+    documentId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<IDocumentChunkListResult> {
+    const offset = (page - 1) * limit;
+
+    const query = `
+      SELECT ${this.columns} FROM ${this.tableName}
+      WHERE document_id = $1
+      ORDER BY chunk_index
+      LIMIT $2 OFFSET $3
+    `;
+    const countQuery = `SELECT COUNT(*) as total FROM ${this.tableName} WHERE document_id = $1`;
+
+    const [chunksResult, countResult] = await Promise.all([
+      DatabaseConnection.query(query, [documentId, limit, offset]),
+      DatabaseConnection.query(countQuery, [documentId]),
+    ]);
+
+    const total = parseInt(countResult.rows[0].total);
+
+    return {
+      chunks: chunksResult.rows,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Replace all chunks of a document in one transaction, so readers never
+   * see a mix of old and new chunks. Returns the stored chunks in order.
+   */
+  static async replaceForDocument(
+    documentId: string,
+    versionNumber: number,
+    strategy: ChunkingStrategy,
+    chunks: ITextChunk[]
+  ): Promise<IDocumentChunk[]> {
+    return DatabaseConnection.transaction(async client => {
+      const stored: IDocumentChunk[] = [];
+
+      await client.query(`DELETE FROM ${this.tableName} WHERE document_id = $1`, [documentId]);
+
+      for (let batchStart = 0; batchStart < chunks.length; batchStart += INSERT_BATCH_SIZE) {
+        const batch = chunks.slice(batchStart, batchStart + INSERT_BATCH_SIZE);
+        const values: any[] = [];
+        const rows = batch.map(chunk => {
+          values.push(
+            documentId,
+            versionNumber,
+            chunk.chunk_index,
+            chunk.content,
+            chunk.start_offset,
+            chunk.end_offset,
+            chunk.page_start ?? null,
+            chunk.page_end ?? null,
+            chunk.heading ?? null,
+            chunk.token_count,
+            strategy
+          );
+          const base = values.length - 11;
+          return `(${Array.from({ length: 11 }, (_, index) => `$${base + index + 1}`).join(', ')})`;
+        });
+
+        const result = await client.query(`
+          INSERT INTO ${this.tableName} (
+            document_id, version_number, chunk_index, content, start_offset, end_offset,
+            page_start, page_end, heading, token_count, strategy
+          ) VALUES ${rows.join(', ')}
+          RETURNING ${this.columns}
+        `, values);
+        stored.push(...result.rows);
+      }
+
+      return stored.sort((a, b) => a.chunk_index - b.chunk_index);
+    });
+  }
+
+  /**
+   * Rank the current chunks of readable documents by full-text relevance to
+   * a natural language query. Any query word may match (words are OR-ed),
+   * so questions find chunks that share only some of their terms. `score`
+   * is ts_rank_cd scaled to 0..1.
+   */
+  static async searchText(searchQuery: IChunkTextSearchQuery): Promise<IVectorSearchHit[]> {
+    const params: any[] = [
+      searchQuery.user_id,
+      searchQuery.has_global_read,
+      config.search.language,
+      searchQuery.query,
+    ];
+    const conditions: string[] = [
+      'c.search_vector @@ q.query',
+      'c.version_number = rd.version_number',
+    ];
+
+    if (searchQuery.folder_id) {
+      params.push(searchQuery.folder_id);
+      conditions.push(`rd.folder_id = $${params.length}`);
+    }
+
+    if (searchQuery.document_ids && searchQuery.document_ids.length > 0) {
+      params.push(searchQuery.document_ids);
+      conditions.push(`rd.document_id = ANY($${params.length}::uuid[])`);
+    }
+
+    if (searchQuery.mime_type) {
+      params.push(searchQuery.mime_type);
+      conditions.push(`rd.mime_type = $${params.length}`);
+    }
+
+    params.push(searchQuery.top_k);
+
+    const query = `
+      WITH ${DocumentModel.readableDocumentsCte('$1', '$2')},
+      search_query AS (
+        SELECT replace(plainto_tsquery($3::regconfig, $4)::text, '&', '|')::tsquery AS query
+      )
+      SELECT
+        c.chunk_id, c.chunk_index, c.content, c.page_start, c.page_end, c.heading,
+        rd.document_id, rd.document_name, rd.folder_id, rd.mime_type,
+        ts_rank_cd(c.search_vector, q.query, 32) as score
+      FROM ${this.tableName} c
+      JOIN readable_documents rd ON c.document_id = rd.document_id
+      CROSS JOIN search_query q
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY score DESC, c.chunk_index
+      LIMIT $${params.length}
+    `;
+
+    const result = await DatabaseConnection.query(query, params);
+    return result.rows.map((row: any) => ({
+      chunk_id: row.chunk_id,
+      chunk_index: row.chunk_index,
+      content: row.content,
+      document_id: row.document_id,
+      document_name: row.document_name,
+      score: Number(row.score),
+      ...(row.page_start !== null && { page_start: row.page_start }),
+      ...(row.page_end !== null && { page_end: row.page_end }),
+      ...(row.heading !== null && { heading: row.heading }),
+      ...(row.folder_id !== null && { folder_id: row.folder_id }),
+      ...(row.mime_type !== null && { mime_type: row.mime_type }),
+    }));
+  }
+
+  /**
+   * Remove all chunks of a document
+   */
+  static async deleteByDocumentId(documentId: string): Promise<void> {
+    await DatabaseConnection.query(`DELETE FROM ${this.tableName} WHERE document_id = $1`, [documentId]);
+  }
+}
@@ -0,0 +1,261 @@
+import { DatabaseConnection } from '@database/connection';
+import { IExtractionStructure } from '@services/extraction';
+
+export type ExtractionStatus = 'pending' | 'processing' | 'indexed' | 'failed' | 'skipped';
+
+export interface IDocumentExtraction {
+  extraction_id: string;
+  document_id: string;
+  version_number: number;
+  status: ExtractionStatus;
+  extractor?: string;
+  content_text?: string;
+  structure?: IExtractionStructure;
+  character_count: number;
+  page_count?: number;
+  error_message?: string;
+  attempts: number;
+  started_at?: Date;
+  // Refreshed while a worker is processing the extraction
+  heartbeat_at?: Date;
+  completed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ICompleteExtraction {
+  extractor: string;
+  content_text: string;
+  structure: IExtractionStructure;
+  page_count?: number;
+}
+
+export class DocumentExtractionModel {
+  private static tableName = 'document_extractions';
+
+  /**
+   * Find the extraction for a document, optionally without the (large) text body
+   */
+  static async findByDocumentId(
+    documentId: string,
+    includeText: boolean = false
+  ): Promise<IDocumentExtraction | null> {
+    const columns = includeText
+      ? '*'
+      : `extraction_id, document_id, version_number, status, extractor, structure,
+         character_count, page_count, error_message, attempts, started_at,
+         completed_at, created_at, updated_at`;
+
+    const query = `SELECT ${columns} FROM ${this.tableName} WHERE document_id = $1`;
+    const result = await DatabaseConnection.query(query, [documentId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Reset a document's extraction to pending for the given version,
+   * discarding any previous result
+   */
+  static async markPending(documentId: string, versionNumber: number): Promise<IDocumentExtraction> {
+    const query = `
+      INSERT INTO ${this.tableName} (document_id, version_number, status)
+      VALUES ($1, $2, 'pending')
+      ON CONFLICT (document_id) DO UPDATE SET
+        version_number = EXCLUDED.version_number,
+        status = 'pending',
+        extractor = NULL,
+        content_text = NULL,
+        structure = NULL,
+        character_count = 0,
+        page_count = NULL,
+        error_message = NULL,
+        started_at = NULL,
+        heartbeat_at = NULL,
+        completed_at = NULL
+      RETURNING *
+    `;
+
+    const result = await DatabaseConnection.query(query, [documentId, versionNumber]);
+    return result.rows[0];
+  }
+
+  /**
+   * Claim a pending (or previously failed) extraction for processing and
+   * return the version it is for. Returns null when another worker already
+   * holds it. An extraction whose heartbeat is older than `staleAfterMs`
+   * (its worker died) can be claimed again.
+   */
+  static async markProcessing(documentId: string, staleAfterMs: number): Promise<number | null> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET status = 'processing', attempts = attempts + 1,
+          started_at = CURRENT_TIMESTAMP, heartbeat_at = CURRENT_TIMESTAMP, error_message = NULL
+      WHERE document_id = $1
+        AND (
+          status IN ('pending', 'failed')
+          OR (status = 'processing' AND heartbeat_at < CURRENT_TIMESTAMP - $2 * INTERVAL '1 millisecond')
+        )
+      RETURNING version_number
+    `;
+
+    const result = await DatabaseConnection.query(query, [documentId, staleAfterMs]);
+    return result.rows[0]?.version_number ?? null;
+  }
+
+  /**
+   * Show that the worker processing an extraction is still alive
+   */
+  static async heartbeat(documentId: string): Promise<void> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET heartbeat_at = CURRENT_TIMESTAMP
+      WHERE document_id = $1 AND status = 'processing'
+    `;
+
+    await DatabaseConnection.query(query, [documentId]);
+  }
+
+  /**
+   * Put a processing extraction back to pending after a failure that its
+   * job will retry, keeping the error for display
+   */
+  static async markRetrying(documentId: string, versionNumber: number, errorMessage: string): Promise<void> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET status = 'pending', error_message = $3, heartbeat_at = NULL
+      WHERE document_id = $1 AND status = 'processing' AND version_number = $2
+    `;
+
+    await DatabaseConnection.query(query, [documentId, versionNumber, errorMessage]);
+  }
+
+  /**
+   * Store a successful extraction result. The completion methods only apply
+   * to the run that claimed `versionNumber` and is still processing it; they
+   * return false when the extraction was reset or claimed again meanwhile.
+   */
+  static async markIndexed(documentId: string, versionNumber: number, data: ICompleteExtraction): Promise<boolean> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET status = 'indexed', extractor = $3, content_text = $4, structure = $5,
+          character_count = $6, page_count = $7, completed_at = CURRENT_TIMESTAMP
+      WHERE document_id = $1 AND status = 'processing' AND version_number = $2
+    `;
+
+    const result = await DatabaseConnection.query(query, [
+      documentId,
+      versionNumber,
+      data.extractor,
+      data.content_text,
+      JSON.stringify(data.structure),
+      data.content_text.length,
+      data.page_count ?? null,
+    ]);
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Record that a document has no extractable text (e.g. images)
+   */
+  static async markSkipped(documentId: string, versionNumber: number, reason: string): Promise<boolean> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET status = 'skipped', error_message = $3, completed_at = CURRENT_TIMESTAMP
+      WHERE document_id = $1 AND status = 'processing' AND version_number = $2
+    `;
+
+    const result = await DatabaseConnection.query(query, [documentId, versionNumber, reason]);
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Record a failed extraction attempt
+   */
+  static async markFailed(documentId: string, versionNumber: number, errorMessage: string): Promise<boolean> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET status = 'failed', error_message = $3, completed_at = CURRENT_TIMESTAMP
+      WHERE document_id = $1 AND status = 'processing' AND version_number = $2
+    `;
+
+    const result = await DatabaseConnection.query(query, [documentId, versionNumber, errorMessage]);
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Put extractions whose heartbeat is older than `staleAfterMs` back to
+   * pending and return the ids of every pending extraction for an active
+   * document
+   */
+  static async resetUnfinished(staleAfterMs: number): Promise<string[]> {
+    await DatabaseConnection.query(`
+      UPDATE ${this.tableName} SET status = 'pending', started_at = NULL, heartbeat_at = NULL
+      WHERE status = 'processing' AND heartbeat_at < CURRENT_TIMESTAMP - $1 * INTERVAL '1 millisecond'
+    `, [staleAfterMs]);
+
+    const query = `
+      SELECT e.document_id
+      FROM ${this.tableName} e
+      JOIN documents d ON e.document_id = d.document_id
+      WHERE e.status = 'pending' AND d.is_active = true
+      ORDER BY e.created_at
+    `;
+
+    const result = await DatabaseConnection.query(query);
+    return result.rows.map((row: any) => row.document_id);
+  }
+
+  /**
+   * Ids of the indexed, active documents in a folder or any of its subfolders
+   */
+  static async findIndexedDocumentIdsInFolderTree(folderId: string): Promise<string[]> {
+    const query = `
+      WITH RECURSIVE folder_tree AS (
+        SELECT folder_id, 0 as level FROM folders WHERE folder_id = $1
+
+        UNION ALL
+
+        SELECT f.folder_id, ft.level + 1
+        FROM folders f
+        JOIN folder_tree ft ON f.parent_folder_id = ft.folder_id
+        WHERE f.is_active = true AND ft.level < 10
+      )
+      SELECT d.document_id
+      FROM documents d
+      JOIN folder_tree ft ON d.folder_id = ft.folder_id
+      JOIN ${this.tableName} e ON d.document_id = e.document_id
+      WHERE d.is_active = true AND e.status = 'indexed'
+      ORDER BY d.created_at
+    `;
+
+    const result = await DatabaseConnection.query(query, [folderId]);
+    return result.rows.map((row: any) => row.document_id);
+  }
+
+  /**
+   * Get extraction counts by status for active documents
+   */
+  static async getStatusCounts(): Promise<Record<ExtractionStatus, number>> {
+    const query = `
+      SELECT COALESCE(e.status, 'pending') as status, COUNT(*) as count
+      FROM documents d
+      LEFT JOIN ${this.tableName} e ON d.document_id = e.document_id
+      WHERE d.is_active = true
+      GROUP BY COALESCE(e.status, 'pending')
+    `;
+
+    const result = await DatabaseConnection.query(query);
+    const counts: Record<ExtractionStatus, number> = {
+      pending: 0,
+      processing: 0,
+      indexed: 0,
+      failed: 0,
+      skipped: 0,
+    };
+
+    for (const row of result.rows) {
+      counts[row.status as ExtractionStatus] = parseInt(row.count);
+    }
+
+    return counts;
+  }
+}
@@ -0,0 +1,114 @@
+import { PoolClient } from 'pg';
+import { DatabaseConnection } from '@database/connection';
+
+export interface IDocumentVersion {
+  version_id: string;
+  document_id: string;
+  version_number: number;
+  file_path: string;
+  file_size_bytes: number;
+  mime_type?: string;
+  file_hash?: string;
+  uploaded_by_user_id: string;
+  restored_from_version?: number;
+  created_at: Date;
+}
+
+export interface IDocumentVersionWithUploader extends IDocumentVersion {
+  uploaded_by_name?: string;
+  uploaded_by_email?: string;
+}
+
+export interface ICreateDocumentVersion {
+  document_id: string;
+  version_number: number;
+  file_path: string;
+  file_size_bytes: number;
+  mime_type?: string | null;
+  file_hash?: string | null;
+  uploaded_by_user_id: string;
+  restored_from_version?: number;
+}
+
+export class DocumentVersionModel {
+  private static tableName = 'document_versions';
+
+  /**
+   * Add a version on the client of the transaction that made it the
+   * document's current version
+   */
+  static async create(client: PoolClient, versionData: ICreateDocumentVersion): Promise<IDocumentVersion> {
+    const result = await client.query(`
+      INSERT INTO ${this.tableName} (
+        document_id, version_number, file_path, file_size_bytes,
+        mime_type, file_hash, uploaded_by_user_id, restored_from_version
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `, [
+      versionData.document_id,
+      versionData.version_number,
+      versionData.file_path,
+      versionData.file_size_bytes,
+      versionData.mime_type || null,
+      versionData.file_hash || null,
+      versionData.uploaded_by_user_id,
+      versionData.restored_from_version || null,
+    ]);
+    return result.rows[0];
+  }
+
+  /**
+   * Get every version of a document, newest first
+   */
+  static async findByDocumentId(documentId: string): Promise<IDocumentVersionWithUploader[]> {
+    const result = await DatabaseConnection.query(`
+      SELECT
+        v.*,
+        u.first_name || ' ' || u.last_name as uploaded_by_name,
+        u.email as uploaded_by_email
+      FROM ${this.tableName} v
+      LEFT JOIN users u ON v.uploaded_by_user_id = u.user_id
+      WHERE v.document_id = $1
+      ORDER BY v.version_number DESC
+    `, [documentId]);
+    return result.rows;
+  }
+
+  static async findByNumber(documentId: string, versionNumber: number): Promise<IDocumentVersion | null> {
+    const result = await DatabaseConnection.query(
+      `SELECT * FROM ${this.tableName} WHERE document_id = $1 AND version_number = $2`,
+      [documentId, versionNumber]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Stored files of all versions of a document
+   */
+  static async findFilePaths(documentId: string): Promise<string[]> {
+    const result = await DatabaseConnection.query(
+      `SELECT DISTINCT file_path FROM ${this.tableName} WHERE document_id = $1`,
+      [documentId]
+    );
+    return result.rows.map((row: any) => row.file_path);
+  }
+
+  /**
+   * Find the stored blobs of active documents with the given content, oldest
+   * first. Only version rows are searched: their hash and size are computed
+   * by the server when a file is uploaded.
+   */
+  static async findFilePathsByHash(fileHash: string, fileSizeBytes: number, limit: number): Promise<string[]> {
+    const query = `
+      SELECT v.file_path FROM ${this.tableName} v
+      JOIN documents d ON v.document_id = d.document_id
+      WHERE v.file_hash = $1 AND v.file_size_bytes = $2 AND d.is_active = true
+      GROUP BY v.file_path
+      ORDER BY MIN(v.created_at) ASC
+      LIMIT $3
+    `;
+
+    const result = await DatabaseConnection.query(query, [fileHash, fileSizeBytes, limit]);
+    return result.rows.map((row: any) => row.file_path);
+  }
+}
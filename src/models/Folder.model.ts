@@ -1,7 +1,12 @@
 import { v4 as uuidv4 } from 'uuid';
+import { PoolClient } from 'pg';
 import { DatabaseConnection } from '@database/connection';
+import { AuditLogModel } from '@models/AuditLog.model';
 import { AppError, NotFoundError, ConflictError, ForbiddenError } from '@utils/AppError';
 
+// 'auto' lets the chunker pick a strategy from the document's format
+export type ChunkingStrategySetting = 'fixed' | 'heading' | 'page' | 'auto';
+
 export interface IFolder {
   folder_id: string;
   folder_name: string;
@@ -10,6 +15,9 @@ export interface IFolder {
   description?: string;
   access_level: 'public' | 'restricted' | 'private' | 'inherited';
   inherit_permissions: boolean;
+  chunk_size_tokens?: number;
+  chunk_overlap_tokens?: number;
+  chunking_strategy?: ChunkingStrategySetting;
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
@@ -22,6 +30,9 @@ export interface ICreateFolder {
   description?: string;
   access_level?: 'public' | 'restricted' | 'private' | 'inherited';
   inherit_permissions?: boolean;
+  chunk_size_tokens?: number;
+  chunk_overlap_tokens?: number;
+  chunking_strategy?: ChunkingStrategySetting;
 }
 
 export interface IUpdateFolder {
@@ -30,9 +41,19 @@ export interface IUpdateFolder {
   description?: string;
   access_level?: 'public' | 'restricted' | 'private' | 'inherited';
   inherit_permissions?: boolean;
+  // null clears the override so the folder inherits it again
+  chunk_size_tokens?: number | null;
+  chunk_overlap_tokens?: number | null;
+  chunking_strategy?: ChunkingStrategySetting | null;
   is_active?: boolean;
 }
 
+export interface IFolderChunkingSettings {
+  chunk_size_tokens?: number;
+  chunk_overlap_tokens?: number;
+  chunking_strategy?: ChunkingStrategySetting;
+}
+
 export interface IFolderWithJoins extends IFolder {
   created_by_name?: string;
   created_by_email?: string;
@@ -76,6 +97,13 @@ export interface IFolderFilters {
   is_active?: boolean;
 }
 
+// A document soft-deleted together with its folder, whose file, chunks and
+// vectors still need cleaning up
+export interface IDeletedFolderDocument {
+  document_id: string;
+  file_path: string;
+}
+
 export class FolderModel {
   private static tableName = 'folders';
   private static permissionsTableName = 'folderpermissions';
@@ -228,14 +256,6 @@ export class FolderModel {
   static async create(folderData: ICreateFolder): Promise<IFolder> {
     const folderId = uuidv4();
 
-    // Validate parent folder exists if provided
-    if (folderData.parent_folder_id) {
-      const parentExists = await this.validateFolderExists(folderData.parent_folder_id);
-      if (!parentExists) {
-        throw new NotFoundError('Parent folder not found');
-      }
-    }
-
     // Check for duplicate names within the same parent folder
     await this.validateUniqueNameInParent(
       folderData.folder_name, 
@@ -250,8 +270,9 @@ export class FolderModel {
     const query = `
       INSERT INTO ${this.tableName} (
         folder_id, folder_name, parent_folder_id, created_by_user_id,
-        description, access_level, inherit_permissions
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        description, access_level, inherit_permissions,
+        chunk_size_tokens, chunk_overlap_tokens, chunking_strategy
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       RETURNING *
     `;
 
@@ -263,29 +284,46 @@ export class FolderModel {
       folderData.description || null,
       folderData.access_level || 'inherited',
       folderData.inherit_permissions !== undefined ? folderData.inherit_permissions : true,
+      folderData.chunk_size_tokens ?? null,
+      folderData.chunk_overlap_tokens ?? null,
+      folderData.chunking_strategy ?? null,
     ];
 
-    const result = await DatabaseConnection.query(query, values);
-    return result.rows[0];
+    return DatabaseConnection.transaction(async client => {
+      // Locks the parent so a concurrent delete cannot orphan the new folder
+      if (folderData.parent_folder_id) {
+        const parentExists = await this.validateFolderExists(folderData.parent_folder_id);
+        if (!parentExists) {
+          throw new NotFoundError('Parent folder not found');
+        }
+      }
+
+      const result = await client.query(query, values);
+      const folder: IFolder = result.rows[0];
+
+      await AuditLogModel.record(client, {
+        table_name: this.tableName,
+        record_id: folder.folder_id,
+        action: 'INSERT',
+        new_values: folder,
+        changed_by_user_id: folder.created_by_user_id,
+      });
+
+      return folder;
+    });
   }
 
   /**
    * Update folder
    */
-  static async update(folderId: string, updateData: IUpdateFolder): Promise<IFolder> {
+  static async update(folderId: string, updateData: IUpdateFolder, updatedByUserId?: string): Promise<IFolder> {
     const folder = await this.findById(folderId);
     if (!folder) {
       throw new NotFoundError('Folder not found');
     }
 
-    // Validate parent folder exists if being updated
+    // Prevent circular references
     if (updateData.parent_folder_id) {
-      const parentExists = await this.validateFolderExists(updateData.parent_folder_id);
-      if (!parentExists) {
-        throw new NotFoundError('Parent folder not found');
-      }
-      
-      // Prevent circular references
       await this.validateNoCircularReference(folderId, updateData.parent_folder_id);
     }
 
@@ -323,30 +361,34 @@ export class FolderModel {
       RETURNING *
     `;
 
-    const result = await DatabaseConnection.query(query, values);
-    return result.rows[0];
+    return DatabaseConnection.transaction(async client => {
+      // Locks the new parent so a concurrent delete cannot orphan the folder
+      if (updateData.parent_folder_id) {
+        const parentExists = await this.validateFolderExists(updateData.parent_folder_id);
+        if (!parentExists) {
+          throw new NotFoundError('Parent folder not found');
+        }
+      }
+
+      const current = await client.query(`SELECT * FROM ${this.tableName} WHERE folder_id = $1 FOR UPDATE`, [folderId]);
+      const result = await client.query(query, values);
+      const updatedFolder: IFolder = result.rows[0];
+
+      await AuditLogModel.recordUpdate(client, this.tableName, folderId, current.rows[0], updatedFolder, updatedByUserId);
+
+      return updatedFolder;
+    });
   }
 
   /**
-   * Soft delete folder (and optionally its contents)
+   * Soft delete folder (and optionally its contents). Every deleted folder
+   * and document gets its own audit row. Returns the deleted documents.
    */
-  static async delete(folderId: string, deleteContents: boolean = false): Promise<void> {
-    const folder = await this.findById(folderId);
-    if (!folder) {
-      throw new NotFoundError('Folder not found');
-    }
-
-    if (deleteContents) {
-      // Recursively delete all subfolders and documents
-      await this.deleteContentsRecursively(folderId);
-    } else {
-      // Check if folder has contents
-      const hasContents = await this.hasFolderContents(folderId);
-      if (hasContents) {
-        throw new ConflictError('Cannot delete folder with contents. Use deleteContents=true to force deletion.');
-      }
-    }
-
+  static async delete(
+    folderId: string,
+    deleteContents: boolean = false,
+    deletedByUserId?: string
+  ): Promise<IDeletedFolderDocument[]> {
     // Soft delete the folder
     const query = `
       UPDATE ${this.tableName}
@@ -354,7 +396,45 @@ export class FolderModel {
       WHERE folder_id = $1
     `;
 
-    await DatabaseConnection.query(query, [folderId]);
+    return DatabaseConnection.transaction(async client => {
+      // Documents and subfolders are only added to a folder they lock with
+      // validateFolderExists, so while this lock is held no contents can be
+      // added, and once it is released the folder is gone for them
+      const current = await client.query(
+        `SELECT * FROM ${this.tableName} WHERE folder_id = $1 AND is_active = true FOR UPDATE`,
+        [folderId]
+      );
+      if (current.rows.length === 0) {
+        throw new NotFoundError('Folder not found');
+      }
+
+      if (!deleteContents) {
+        // Check if folder has contents
+        const hasContents = await this.hasFolderContents(folderId);
+        if (hasContents) {
+          throw new ConflictError('Cannot delete folder with contents. Use deleteContents=true to force deletion.');
+        }
+      }
+
+      const deletedDocuments: IDeletedFolderDocument[] = [];
+      if (deleteContents) {
+        // Recursively delete all subfolders and documents
+        await this.deleteContentsRecursively(client, folderId, deletedDocuments, deletedByUserId);
+      }
+
+      await client.query(query, [folderId]);
+
+      await AuditLogModel.record(client, {
+        table_name: this.tableName,
+        record_id: folderId,
+        action: 'DELETE',
+        old_values: current.rows[0],
+        new_values: { is_active: false },
+        changed_by_user_id: deletedByUserId,
+      });
+
+      return deletedDocuments;
+    });
   }
 
   /**
@@ -451,8 +531,20 @@ export class FolderModel {
       permissionData.granted_by_user_id,
     ];
 
-    const result = await DatabaseConnection.query(query, values);
-    return result.rows[0];
+    return DatabaseConnection.transaction(async client => {
+      const result = await client.query(query, values);
+      const permission: IFolderPermission = result.rows[0];
+
+      await AuditLogModel.record(client, {
+        table_name: this.permissionsTableName,
+        record_id: permission.folder_permission_id,
+        action: 'INSERT',
+        new_values: permission,
+        changed_by_user_id: permissionData.granted_by_user_id,
+      });
+
+      return permission;
+    });
   }
 
   /**
@@ -462,7 +554,8 @@ export class FolderModel {
     folderId: string,
     userId?: string,
     departmentId?: string,
-    permissionType?: string
+    permissionType?: string,
+    revokedByUserId?: string
   ): Promise<void> {
     let whereConditions = ['folder_id = $1'];
     let queryParams: any[] = [folderId];
@@ -489,10 +582,24 @@ export class FolderModel {
     const query = `
       UPDATE ${this.permissionsTableName}
       SET is_active = false
-      WHERE ${whereConditions.join(' AND ')}
+      WHERE ${whereConditions.join(' AND ')} AND is_active = true
+      RETURNING *
     `;
 
-    await DatabaseConnection.query(query, queryParams);
+    await DatabaseConnection.transaction(async client => {
+      const result = await client.query(query, queryParams);
+
+      for (const permission of result.rows) {
+        await AuditLogModel.record(client, {
+          table_name: this.permissionsTableName,
+          record_id: permission.folder_permission_id,
+          action: 'DELETE',
+          old_values: { ...permission, is_active: true },
+          new_values: { is_active: false },
+          changed_by_user_id: revokedByUserId,
+        });
+      }
+    });
   }
 
   /**
@@ -544,9 +651,64 @@ export class FolderModel {
     return result.rows;
   }
 
+  /**
+   * Resolve the chunking overrides that apply to a folder: each setting comes
+   * from the nearest folder up the hierarchy that sets it
+   */
+  static async getChunkingSettings(folderId: string): Promise<IFolderChunkingSettings> {
+    const query = `
+      WITH RECURSIVE folder_path AS (
+        SELECT folder_id, parent_folder_id, chunk_size_tokens, chunk_overlap_tokens,
+               chunking_strategy, 0 as level
+        FROM ${this.tableName}
+        WHERE folder_id = $1
+
+        UNION ALL
+
+        SELECT f.folder_id, f.parent_folder_id, f.chunk_size_tokens, f.chunk_overlap_tokens,
+               f.chunking_strategy, fp.level + 1
+        FROM ${this.tableName} f
+        JOIN folder_path fp ON f.folder_id = fp.parent_folder_id
+        WHERE fp.level < 10
+      )
+      SELECT
+        (SELECT chunk_size_tokens FROM folder_path
+         WHERE chunk_size_tokens IS NOT NULL ORDER BY level LIMIT 1) as chunk_size_tokens,
+        (SELECT chunk_overlap_tokens FROM folder_path
+         WHERE chunk_overlap_tokens IS NOT NULL ORDER BY level LIMIT 1) as chunk_overlap_tokens,
+        (SELECT chunking_strategy FROM folder_path
+         WHERE chunking_strategy IS NOT NULL ORDER BY level LIMIT 1) as chunking_strategy
+    `;
+
+    const result = await DatabaseConnection.query(query, [folderId]);
+    const row = result.rows[0] || {};
+
+    return {
+      ...(row.chunk_size_tokens !== null && row.chunk_size_tokens !== undefined && { chunk_size_tokens: row.chunk_size_tokens }),
+      ...(row.chunk_overlap_tokens !== null && row.chunk_overlap_tokens !== undefined && { chunk_overlap_tokens: row.chunk_overlap_tokens }),
+      ...(row.chunking_strategy && { chunking_strategy: row.chunking_strategy }),
+    };
+  }
+
+  /**
+   * Lock an active folder until the surrounding transaction ends, so checks
+   * made afterwards (such as manage access) hold until its changes commit.
+   * Returns false when the folder does not exist.
+   */
+  static async lockForUpdate(folderId: string): Promise<boolean> {
+    const query = `SELECT folder_id FROM ${this.tableName} WHERE folder_id = $1 AND is_active = true FOR UPDATE`;
+    const result = await DatabaseConnection.query(query, [folderId]);
+    return result.rows.length > 0;
+  }
+
   // Private helper methods
+
+  /**
+   * Inside a transaction, the share lock keeps the folder from being deleted
+   * until the transaction ends, so contents added to it are not orphaned
+   */
   private static async validateFolderExists(folderId: string): Promise<boolean> {
-    const query = `SELECT folder_id FROM ${this.tableName} WHERE folder_id = $1 AND is_active = true`;
+    const query = `SELECT folder_id FROM ${this.tableName} WHERE folder_id = $1 AND is_active = true FOR SHARE`;
     const result = await DatabaseConnection.query(query, [folderId]);
     return result.rows.length > 0;
   }
@@ -641,33 +803,66 @@ export class FolderModel {
     return docCount > 0 || folderCount > 0;
   }
 
-  private static async deleteContentsRecursively(folderId: string): Promise<void> {
-    // Get all subfolders
+  private static async deleteContentsRecursively(
+    client: PoolClient,
+    folderId: string,
+    deletedDocuments: IDeletedFolderDocument[],
+    deletedByUserId?: string
+  ): Promise<void> {
+    // Get all subfolders, locked against new contents like the folder itself
     const subfoldersQuery = `
       SELECT folder_id FROM ${this.tableName} 
       WHERE parent_folder_id = $1 AND is_active = true
+      FOR UPDATE
     `;
-    const subfoldersResult = await DatabaseConnection.query(subfoldersQuery, [folderId]);
+    const subfoldersResult = await client.query(subfoldersQuery, [folderId]);
 
     // Recursively delete subfolders
     for (const subfolder of subfoldersResult.rows) {
-      await this.deleteContentsRecursively(subfolder.folder_id);
+      await this.deleteContentsRecursively(client, subfolder.folder_id, deletedDocuments, deletedByUserId);
     }
 
     // Delete all documents in this folder
-    const deleteDocsQuery = `
+    const documents = await client.query(`
+      SELECT * FROM documents
+      WHERE folder_id = $1 AND is_active = true
+      FOR UPDATE
+    `, [folderId]);
+    await client.query(`
       UPDATE documents 
       SET is_active = false, updated_at = CURRENT_TIMESTAMP
-      WHERE folder_id = $1
-    `;
-    await DatabaseConnection.query(deleteDocsQuery, [folderId]);
+      WHERE folder_id = $1 AND is_active = true
+    `, [folderId]);
+    deletedDocuments.push(...documents.rows.map((row: any) => ({
+      document_id: row.document_id,
+      file_path: row.file_path,
+    })));
 
     // Delete all subfolders
-    const deleteFoldersQuery = `
+    const folders = await client.query(`
+      SELECT * FROM ${this.tableName}
+      WHERE parent_folder_id = $1 AND is_active = true
+      FOR UPDATE
+    `, [folderId]);
+    await client.query(`
       UPDATE ${this.tableName} 
       SET is_active = false, updated_at = CURRENT_TIMESTAMP
-      WHERE parent_folder_id = $1
-    `;
-    await DatabaseConnection.query(deleteFoldersQuery, [folderId]);
+      WHERE parent_folder_id = $1 AND is_active = true
+    `, [folderId]);
+
+    const deleted = [
+      ...documents.rows.map((row: any) => ({ table_name: 'documents', record_id: row.document_id, row })),
+      ...folders.rows.map((row: any) => ({ table_name: this.tableName, record_id: row.folder_id, row })),
+    ];
+    for (const { table_name, record_id, row } of deleted) {
+      await AuditLogModel.record(client, {
+        table_name,
+        record_id,
+        action: 'DELETE',
+        old_values: row,
+        new_values: { is_active: false },
+        changed_by_user_id: deletedByUserId,
+      });
+    }
   }
 } 
\ No newline at end of file
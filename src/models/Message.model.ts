@@ -0,0 +1,189 @@
+import { DatabaseConnection } from '@database/connection';
+import { ICreateUsageEntry, UsageModel } from '@models/Usage.model';
+
+export type MessageType = 'text' | 'audio_input' | 'audio_output' | 'system' | 'file_attachment';
+
+export interface IMessage {
+  message_id: string;
+  conversation_id: string;
+  sender_user_id: string;
+  message_type: MessageType;
+  message_content?: string;
+  ai_response_to_message_id?: string;
+  sent_at: Date;
+  read_at?: Date;
+  edited_at?: Date;
+  is_deleted: boolean;
+  ai_model_version?: string;
+  ai_processing_time_ms?: number;
+  ai_tokens_used?: number;
+  ai_confidence_score?: number;
+  message_metadata?: Record<string, any>;
+}
+
+export interface IMessageWithSender extends IMessage {
+  sender_name?: string;
+  sender_is_ai?: boolean;
+}
+
+export interface ICreateMessage {
+  conversation_id: string;
+  sender_user_id: string;
+  message_type: MessageType;
+  message_content: string;
+  ai_response_to_message_id?: string;
+  ai_model_version?: string;
+  ai_processing_time_ms?: number;
+  ai_tokens_used?: number;
+  message_metadata?: Record<string, any>;
+  // Usage ledger entry for an AI reply, recorded with the message
+  usage?: Omit<ICreateUsageEntry, 'message_id' | 'conversation_id'>;
+}
+
+export interface IMessageListResult {
+  messages: IMessageWithSender[];
+  has_more: boolean;
+}
+
+export class MessageModel {
+  private static tableName = 'messages';
+
+  /**
+   * Get the messages of a conversation, newest first, paging backwards
+   * from an optional `before` timestamp
+   */
+  static async findByConversation(
+    conversationId: string,
+    limit: number = 50,
+    before?: Date
+  ): Promise<IMessageListResult> {
+    const queryParams: any[] = [conversationId];
+    let beforeCondition = '';
+
+    if (before) {
+      queryParams.push(before);
+      beforeCondition = `AND m.sent_at < $${queryParams.length}`;
+    }
+
+    queryParams.push(limit + 1);
+    const query = `
+      SELECT 
+        m.*,
+        u.first_name || ' ' || u.last_name as sender_name,
+        u.is_ai_user as sender_is_ai
+      FROM ${this.tableName} m
+      JOIN users u ON m.sender_user_id = u.user_id
+      WHERE m.conversation_id = $1 AND m.is_deleted = false ${beforeCondition}
+      ORDER BY m.sent_at DESC, m.message_id DESC
+      LIMIT $${queryParams.length}
+    `;
+
+    const result = await DatabaseConnection.query(query, queryParams);
+    return {
+      messages: result.rows.slice(0, limit),
+      has_more: result.rows.length > limit,
+    };
+  }
+
+  /**
+   * Get the most recent messages of a conversation in chronological order,
+   * used as context for the chat model
+   */
+  static async findRecentForContext(conversationId: string, limit: number): Promise<IMessageWithSender[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT * FROM (
+        SELECT 
+          m.*,
+          u.is_ai_user as sender_is_ai
+        FROM ${this.tableName} m
+        JOIN users u ON m.sender_user_id = u.user_id
+        WHERE m.conversation_id = $1 
+          AND m.is_deleted = false 
+          AND m.message_type IN ('text', 'system')
+          AND m.message_content IS NOT NULL
+        ORDER BY m.sent_at DESC, m.message_id DESC
+        LIMIT $2
+      ) recent
+      ORDER BY sent_at ASC
+    `;
+
+    const result = await DatabaseConnection.query(query, [conversationId, limit]);
+    return result.rows;
+  }
+
+  /**
+   * Find message by ID
+   */
+  static async findById(messageId: string): Promise<IMessageWithSender | null> {
+    const query = `
+      SELECT 
+        m.*,
+        u.first_name || ' ' || u.last_name as sender_name,
+        u.is_ai_user as sender_is_ai
+      FROM ${this.tableName} m
+      JOIN users u ON m.sender_user_id = u.user_id
+      WHERE m.message_id = $1 AND m.is_deleted = false
+    `;
+
+    const result = await DatabaseConnection.query(query, [messageId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Store a message and update the conversation's message count, token
+   * total and last activity (and, for AI replies, the usage ledger) in the
+   * same transaction
+   */
+  static async create(messageData: ICreateMessage): Promise<IMessage> {
+    return DatabaseConnection.transaction(async client => {
+      const result = await client.query(`
+        INSERT INTO ${this.tableName} (
+          conversation_id, sender_user_id, message_type, message_content,
+          ai_response_to_message_id, ai_model_version, ai_processing_time_ms,
+          ai_tokens_used, message_metadata
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING *
+      `, [
+        messageData.conversation_id,
+        messageData.sender_user_id,
+        messageData.message_type,
+        messageData.message_content,
+        messageData.ai_response_to_message_id || null,
+        messageData.ai_model_version || null,
+        messageData.ai_processing_time_ms ?? null,
+        messageData.ai_tokens_used ?? null,
+        messageData.message_metadata ? JSON.stringify(messageData.message_metadata) : null,
+      ]);
+      const message: IMessage = result.rows[0];
+
+      await client.query(`
+        UPDATE conversations
+        SET total_messages = total_messages + 1,
+            total_tokens_used = total_tokens_used + $2,
+            last_message_at = $3,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE conversation_id = $1
+      `, [message.conversation_id, message.ai_tokens_used || 0, message.sent_at]);
+
+      await client.query(`
+        UPDATE conversationparticipants
+        SET last_active_at = $3
+        WHERE conversation_id = $1 AND user_id = $2
+      `, [message.conversation_id, message.sender_user_id, message.sent_at]);
+
+      if (messageData.usage) {
+        await UsageModel.record(client, {
+          ...messageData.usage,
+          message_id: message.message_id,
+          conversation_id: message.conversation_id,
+        });
+      }
+
+      return message;
+    });
+  }
+}
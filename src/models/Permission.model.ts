@@ -1,4 +1,5 @@
 import { DatabaseConnection } from '@database/connection';
+import { AuditLogModel } from '@models/AuditLog.model';
 import { AppError, NotFoundError } from '@utils/AppError';
 
 export interface IPermission {
@@ -10,9 +11,121 @@ export interface IPermission {
   created_at: Date;
 }
 
+export interface ICreatePermission {
+  permission_name: string;
+  description?: string;
+  category: string;
+}
+
+export interface IUpdatePermission {
+  permission_name?: string;
+  description?: string;
+  category?: string;
+  is_active?: boolean;
+}
+
 export class PermissionModel {
   private static tableName = 'permissions';
 
+  static async create(permissionData: ICreatePermission, createdByUserId?: string): Promise<IPermission> {
+    const query = `
+      INSERT INTO ${this.tableName} (permission_name, description, category, is_active, created_at)
+      VALUES ($1, $2, $3, true, NOW())
+      RETURNING *
+    `;
+
+    const values = [
+      permissionData.permission_name,
+      permissionData.description,
+      permissionData.category
+    ];
+
+    return DatabaseConnection.transaction(async client => {
+      const result = await client.query(query, values);
+      const permission: IPermission = result.rows[0];
+
+      await AuditLogModel.record(client, {
+        table_name: this.tableName,
+        record_id: permission.permission_id,
+        action: 'INSERT',
+        new_values: permission,
+        changed_by_user_id: createdByUserId,
+      });
+
+      return permission;
+    });
+  }
+
+  static async update(
+    permissionId: string,
+    updateData: IUpdatePermission,
+    updatedByUserId?: string
+  ): Promise<IPermission | null> {
+    const updateFields: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(updateData).forEach(([key, value]) => {
+      if (value !== undefined) {
+        updateFields.push(`${key} = $${paramIndex++}`);
+        values.push(value);
+      }
+    });
+
+    values.push(permissionId);
+
+    const query = `
+      UPDATE ${this.tableName}
+      SET ${updateFields.join(', ')}
+      WHERE permission_id = $${paramIndex}
+      RETURNING *
+    `;
+
+    return DatabaseConnection.transaction(async client => {
+      const current = await client.query(`SELECT * FROM ${this.tableName} WHERE permission_id = $1 FOR UPDATE`, [permissionId]);
+      if (current.rows.length === 0) {
+        return null;
+      }
+
+      const result = await client.query(query, values);
+      const permission: IPermission = result.rows[0];
+
+      await AuditLogModel.recordUpdate(client, this.tableName, permissionId, current.rows[0], permission, updatedByUserId);
+
+      return permission;
+    });
+  }
+
+  /**
+   * Soft delete (deactivate) a permission
+   */
+  static async delete(permissionId: string, deletedByUserId?: string): Promise<void> {
+    await DatabaseConnection.transaction(async client => {
+      const current = await client.query(
+        `SELECT * FROM ${this.tableName} WHERE permission_id = $1 AND is_active = true FOR UPDATE`,
+        [permissionId]
+      );
+      if (current.rows.length === 0) {
+        throw new NotFoundError('Permission not found');
+      }
+
+      await client.query(`
+        UPDATE ${this.tableName}
+        SET is_active = false
+        WHERE permission_id = $1
+      `, [permissionId]);
+
+      await AuditLogModel.record(client, {
+        table_name: this.tableName,
+        record_id: permissionId,
+        action: 'DELETE',
+        old_values: current.rows[0],
+        new_values: { is_active: false },
+        changed_by_user_id: deletedByUserId,
+      });
+    });
+  }
+
   static async findAll(category?: string): Promise<IPermission[]> {
     let query = `
       SELECT * FROM ${this.tableName}
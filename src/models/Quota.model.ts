@@ -0,0 +1,123 @@
+import { DatabaseConnection } from '@database/connection';
+import { NotFoundError } from '@utils/AppError';
+
+export type QuotaScope = 'department' | 'user';
+
+export interface IQuota {
+  quota_id: string;
+  department_id?: string;
+  user_id?: string;
+  monthly_token_limit?: string | number;
+  monthly_cost_limit?: string | number;
+  created_by_user_id?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface IQuotaWithTarget extends IQuota {
+  scope: QuotaScope;
+  // Department name or user full name
+  target_name: string;
+}
+
+export interface ISetQuota {
+  // null removes that limit
+  monthly_token_limit: number | null;
+  monthly_cost_limit: number | null;
+}
+
+export class QuotaModel {
+  private static tableName = 'ai_usage_quotas';
+
+  private static selectWithTarget = `
+    SELECT
+      q.*,
+      CASE WHEN q.department_id IS NOT NULL THEN 'department' ELSE 'user' END as scope,
+      COALESCE(d.department_name, u.first_name || ' ' || u.last_name) as target_name
+    FROM ai_usage_quotas q
+    LEFT JOIN departments d ON q.department_id = d.department_id
+    LEFT JOIN users u ON q.user_id = u.user_id
+  `;
+
+  /**
+   * Get all quotas, optionally of one scope
+   */
+  static async findAll(scope?: QuotaScope): Promise<IQuotaWithTarget[]> {
+    const whereClause = scope === 'department'
+      ? 'WHERE q.department_id IS NOT NULL'
+      : scope === 'user'
+        ? 'WHERE q.user_id IS NOT NULL'
+        : '';
+
+    const result = await DatabaseConnection.query(`
+      ${this.selectWithTarget}
+      ${whereClause}
+      ORDER BY scope, target_name
+    `);
+    return result.rows;
+  }
+
+  /**
+   * Get the quotas that apply to a user: their own and their department's
+   */
+  static async findApplicable(userId: string, departmentId: string): Promise<IQuotaWithTarget[]> {
+    const result = await DatabaseConnection.query(`
+      ${this.selectWithTarget}
+      WHERE q.user_id = $1 OR q.department_id = $2
+      ORDER BY scope DESC
+    `, [userId, departmentId]);
+    return result.rows;
+  }
+
+  static async findByTarget(scope: QuotaScope, targetId: string): Promise<IQuotaWithTarget | null> {
+    const column = scope === 'department' ? 'department_id' : 'user_id';
+    const result = await DatabaseConnection.query(`
+      ${this.selectWithTarget}
+      WHERE q.${column} = $1
+    `, [targetId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create or replace the quota of a department or user
+   */
+  static async upsert(
+    scope: QuotaScope,
+    targetId: string,
+    quotaData: ISetQuota,
+    createdByUserId?: string
+  ): Promise<IQuotaWithTarget> {
+    const column = scope === 'department' ? 'department_id' : 'user_id';
+    const targetTable = scope === 'department' ? 'departments' : 'users';
+
+    const target = await DatabaseConnection.query(
+      `SELECT 1 FROM ${targetTable} WHERE ${column} = $1`,
+      [targetId]
+    );
+    if (target.rows.length === 0) {
+      throw new NotFoundError(scope === 'department' ? 'Department not found' : 'User not found');
+    }
+
+    await DatabaseConnection.query(`
+      INSERT INTO ${this.tableName} (${column}, monthly_token_limit, monthly_cost_limit, created_by_user_id)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (${column}) WHERE ${column} IS NOT NULL DO UPDATE
+      SET monthly_token_limit = EXCLUDED.monthly_token_limit,
+          monthly_cost_limit = EXCLUDED.monthly_cost_limit
+    `, [targetId, quotaData.monthly_token_limit, quotaData.monthly_cost_limit, createdByUserId || null]);
+
+    return (await this.findByTarget(scope, targetId))!;
+  }
+
+  static async delete(scope: QuotaScope, targetId: string): Promise<void> {
+    const column = scope === 'department' ? 'department_id' : 'user_id';
+    const result = await DatabaseConnection.query(
+      `DELETE FROM ${this.tableName} WHERE ${column} = $1`,
+      [targetId]
+    );
+
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Quota not found');
+    }
+  }
+}
@@ -0,0 +1,226 @@
+import { PoolClient } from 'pg';
+import { DatabaseConnection } from '@database/connection';
+
+export type UsageGroupBy = 'user' | 'department' | 'model' | 'day';
+
+export interface IUsageEntry {
+  usage_id: string;
+  message_id: string;
+  conversation_id: string;
+  user_id: string;
+  department_id: string;
+  ai_model_id?: string;
+  model_name: string;
+  provider?: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  usage_estimated: boolean;
+  cost_per_1k_tokens?: string;
+  cost: string;
+  created_at: Date;
+}
+
+export interface ICreateUsageEntry {
+  message_id: string;
+  conversation_id: string;
+  // The user whose message was answered
+  user_id: string;
+  ai_model_id?: string;
+  model_name: string;
+  provider?: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  usage_estimated: boolean;
+}
+
+export interface IUsageFilters {
+  // Inclusive start and exclusive end of the reporting period
+  from: Date;
+  to: Date;
+  user_id?: string;
+  department_id?: string;
+  ai_model_id?: string;
+}
+
+export interface IUsageTotals {
+  message_count: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number;
+}
+
+export interface IUsageGroup extends IUsageTotals {
+  user_id?: string;
+  user_name?: string;
+  user_email?: string;
+  department_id?: string;
+  department_name?: string;
+  ai_model_id?: string | null;
+  model_name?: string;
+  day?: string;
+}
+
+export interface IUsageSummary {
+  groups: IUsageGroup[];
+  total: number;
+}
+
+// Columns selected and grouped on for each dimension
+const GROUP_COLUMNS: Record<UsageGroupBy, string[]> = {
+  user: ['l.user_id', `u.first_name || ' ' || u.last_name AS user_name`, 'u.email AS user_email'],
+  department: ['l.department_id', 'd.department_name'],
+  model: ['l.ai_model_id', 'l.model_name'],
+  day: [`TO_CHAR(DATE_TRUNC('day', l.created_at), 'YYYY-MM-DD') AS day`],
+};
+
+const GROUP_KEYS: Record<UsageGroupBy, string[]> = {
+  user: ['l.user_id', 'u.first_name', 'u.last_name', 'u.email'],
+  department: ['l.department_id', 'd.department_name'],
+  model: ['l.ai_model_id', 'l.model_name'],
+  day: [`DATE_TRUNC('day', l.created_at)`],
+};
+
+const toTotals = (row: any): IUsageTotals => ({
+  message_count: Number(row.message_count),
+  prompt_tokens: Number(row.prompt_tokens),
+  completion_tokens: Number(row.completion_tokens),
+  total_tokens: Number(row.total_tokens),
+  cost: Number(row.cost),
+});
+
+export class UsageModel {
+  private static tableName = 'ai_usage_ledger';
+
+  /**
+   * Record the usage of an AI reply on the client of the transaction that
+   * stores the reply. The user's department and the model's price are read
+   * at insert time, and the cost is total tokens times the price per 1k.
+   */
+  static async record(client: PoolClient, entry: ICreateUsageEntry): Promise<IUsageEntry> {
+    const result = await client.query(`
+      INSERT INTO ${this.tableName} (
+        message_id, conversation_id, user_id, department_id, ai_model_id, model_name,
+        provider, prompt_tokens, completion_tokens, total_tokens, usage_estimated,
+        cost_per_1k_tokens, cost
+      )
+      SELECT
+        $1, $2, u.user_id, u.department_id, am.ai_model_id, $4, $5, $6, $7, $8, $9,
+        am.cost_per_1k_tokens,
+        ROUND($8::INTEGER * COALESCE(am.cost_per_1k_tokens, 0) / 1000, 6)
+      FROM users u
+      LEFT JOIN aimodels am ON am.ai_model_id = $10
+      WHERE u.user_id = $3
+      RETURNING *
+    `, [
+      entry.message_id,
+      entry.conversation_id,
+      entry.user_id,
+      entry.model_name,
+      entry.provider || null,
+      entry.prompt_tokens,
+      entry.completion_tokens,
+      entry.total_tokens,
+      entry.usage_estimated,
+      entry.ai_model_id || null,
+    ]);
+
+    return result.rows[0];
+  }
+
+  /**
+   * Aggregate usage in a period, grouped by the given dimensions
+   */
+  static async summarize(
+    groupBy: UsageGroupBy[],
+    filters: IUsageFilters,
+    page: number = 1,
+    limit: number = 100
+  ): Promise<IUsageSummary> {
+    const { whereClause, queryParams } = this.buildFilters(filters);
+
+    const selectColumns = groupBy.flatMap(dimension => GROUP_COLUMNS[dimension]);
+    const groupColumns = groupBy.flatMap(dimension => GROUP_KEYS[dimension]);
+    // Days read chronologically, everything else by spend
+    const orderBy = groupBy.includes('day')
+      ? 'day ASC, cost DESC'
+      : 'cost DESC, total_tokens DESC';
+
+    const fromClause = `
+      FROM ${this.tableName} l
+      JOIN users u ON l.user_id = u.user_id
+      JOIN departments d ON l.department_id = d.department_id
+      ${whereClause}
+      GROUP BY ${groupColumns.join(', ')}
+    `;
+
+    const countResult = await DatabaseConnection.query(
+      `SELECT COUNT(*) FROM (SELECT 1 ${fromClause}) grouped`,
+      queryParams
+    );
+    const total = parseInt(countResult.rows[0].count);
+
+    const offset = (page - 1) * limit;
+    const result = await DatabaseConnection.query(`
+      SELECT
+        ${selectColumns.join(',\n        ')},
+        COUNT(*) as message_count,
+        COALESCE(SUM(l.prompt_tokens), 0) as prompt_tokens,
+        COALESCE(SUM(l.completion_tokens), 0) as completion_tokens,
+        COALESCE(SUM(l.total_tokens), 0) as total_tokens,
+        COALESCE(SUM(l.cost), 0) as cost
+      ${fromClause}
+      ORDER BY ${orderBy}
+      LIMIT $${queryParams.length + 1} OFFSET $${queryParams.length + 2}
+    `, [...queryParams, limit, offset]);
+
+    return {
+      groups: result.rows.map((row: any) => ({ ...row, ...toTotals(row) })),
+      total,
+    };
+  }
+
+  /**
+   * Totals over a period
+   */
+  static async getTotals(filters: IUsageFilters): Promise<IUsageTotals> {
+    const { whereClause, queryParams } = this.buildFilters(filters);
+
+    const result = await DatabaseConnection.query(`
+      SELECT
+        COUNT(*) as message_count,
+        COALESCE(SUM(l.prompt_tokens), 0) as prompt_tokens,
+        COALESCE(SUM(l.completion_tokens), 0) as completion_tokens,
+        COALESCE(SUM(l.total_tokens), 0) as total_tokens,
+        COALESCE(SUM(l.cost), 0) as cost
+      FROM ${this.tableName} l
+      ${whereClause}
+    `, queryParams);
+
+    return toTotals(result.rows[0]);
+  }
+
+  private static buildFilters(filters: IUsageFilters): { whereClause: string; queryParams: any[] } {
+    const conditions = ['l.created_at >= $1', 'l.created_at < $2'];
+    const queryParams: any[] = [filters.from, filters.to];
+
+    if (filters.user_id) {
+      queryParams.push(filters.user_id);
+      conditions.push(`l.user_id = $${queryParams.length}`);
+    }
+
+    if (filters.department_id) {
+      queryParams.push(filters.department_id);
+      conditions.push(`l.department_id = $${queryParams.length}`);
+    }
+
+    if (filters.ai_model_id) {
+      queryParams.push(filters.ai_model_id);
+      conditions.push(`l.ai_model_id = $${queryParams.length}`);
+    }
+
+    return { whereClause: `WHERE ${conditions.join(' AND ')}`, queryParams };
+  }
+}
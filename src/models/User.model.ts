@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcryptjs';
 import { DatabaseConnection } from '@database/connection';
+import { AuditLogModel } from '@models/AuditLog.model';
 import { config } from '@config/config';
 import { AppError, NotFoundError, ConflictError } from '@utils/AppError';
 
@@ -38,7 +39,7 @@ export interface IUpdateUser {
 export class UserModel {
   private static tableName = 'users';
 
-  static async create(userData: ICreateUser): Promise<IUser> {
+  static async create(userData: ICreateUser, createdByUserId?: string): Promise<IUser> {
     const userId = uuidv4();
     const hashedPassword = await bcrypt.hash(userData.password, config.security.bcryptRounds);
 
@@ -67,8 +68,21 @@ export class UserModel {
     ];
 
     try {
-      const result = await DatabaseConnection.query(query, values);
-      return result.rows[0];
+      return await DatabaseConnection.transaction(async client => {
+        const result = await client.query(query, values);
+        const user: IUser = result.rows[0];
+
+        await AuditLogModel.record(client, {
+          table_name: this.tableName,
+          record_id: user.user_id,
+          action: 'INSERT',
+          new_values: user,
+          // Self-registration is attributed to the new user
+          changed_by_user_id: createdByUserId || user.user_id,
+        });
+
+        return user;
+      });
     } catch (error: any) {
       if (error.code === '23505') { // Unique violation
         throw new ConflictError('Email already exists');
@@ -102,6 +116,19 @@ export class UserModel {
     return result.rows[0] || null;
   }
 
+  // The oldest active AI user answers in conversations without an AI participant
+  static async findDefaultAiUser(): Promise<IUser | null> {
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE is_ai_user = true AND is_active = true
+      ORDER BY created_at ASC
+      LIMIT 1
+    `;
+
+    const result = await DatabaseConnection.query(query);
+    return result.rows[0] || null;
+  }
+
   static async findAll(
     page: number = 1,
     limit: number = 10,
@@ -182,7 +209,7 @@ export class UserModel {
     };
   }
 
-  static async update(userId: string, updateData: IUpdateUser): Promise<IUser> {
+  static async update(userId: string, updateData: IUpdateUser, updatedByUserId?: string): Promise<IUser> {
     // Check if user exists
     const existingUser = await this.findById(userId);
     if (!existingUser) {
@@ -224,8 +251,15 @@ export class UserModel {
     `;
 
     try {
-      const result = await DatabaseConnection.query(query, queryParams);
-      return result.rows[0];
+      return await DatabaseConnection.transaction(async client => {
+        const current = await client.query(`SELECT * FROM ${this.tableName} WHERE user_id = $1 FOR UPDATE`, [userId]);
+        const result = await client.query(query, queryParams);
+        const user: IUser = result.rows[0];
+
+        await AuditLogModel.recordUpdate(client, this.tableName, userId, current.rows[0], user, updatedByUserId);
+
+        return user;
+      });
     } catch (error: any) {
       if (error.code === '23505') {
         throw new ConflictError('Email already exists');
@@ -237,18 +271,31 @@ export class UserModel {
     }
   }
 
-  static async delete(userId: string): Promise<void> {
-    const query = `
-      UPDATE ${this.tableName}
-      SET is_active = false, updated_at = NOW()
-      WHERE user_id = $1 AND is_active = true
-    `;
+  static async delete(userId: string, deletedByUserId?: string): Promise<void> {
+    await DatabaseConnection.transaction(async client => {
+      const current = await client.query(
+        `SELECT * FROM ${this.tableName} WHERE user_id = $1 AND is_active = true FOR UPDATE`,
+        [userId]
+      );
+      if (current.rows.length === 0) {
+        throw new NotFoundError('User not found');
+      }
 
-    const result = await DatabaseConnection.query(query, [userId]);
-    
-    if (result.rowCount === 0) {
-      throw new NotFoundError('User not found');
-    }
+      await client.query(`
+        UPDATE ${this.tableName}
+        SET is_active = false, updated_at = NOW()
+        WHERE user_id = $1
+      `, [userId]);
+
+      await AuditLogModel.record(client, {
+        table_name: this.tableName,
+        record_id: userId,
+        action: 'DELETE',
+        old_values: current.rows[0],
+        new_values: { is_active: false },
+        changed_by_user_id: deletedByUserId,
+      });
+    });
   }
 
   static async updateLastLogin(userId: string): Promise<void> {
@@ -265,20 +312,27 @@ export class UserModel {
     return bcrypt.compare(plainPassword, hashedPassword);
   }
 
-  static async changePassword(userId: string, newPassword: string): Promise<void> {
+  static async changePassword(userId: string, newPassword: string, changedByUserId?: string): Promise<void> {
     const hashedPassword = await bcrypt.hash(newPassword, config.security.bcryptRounds);
     
     const query = `
       UPDATE ${this.tableName}
       SET password_hash = $1, updated_at = NOW()
       WHERE user_id = $2
+      RETURNING *
     `;
 
-    const result = await DatabaseConnection.query(query, [hashedPassword, userId]);
-    
-    if (result.rowCount === 0) {
-      throw new NotFoundError('User not found');
-    }
+    await DatabaseConnection.transaction(async client => {
+      const current = await client.query(`SELECT * FROM ${this.tableName} WHERE user_id = $1 FOR UPDATE`, [userId]);
+      if (current.rows.length === 0) {
+        throw new NotFoundError('User not found');
+      }
+
+      const result = await client.query(query, [hashedPassword, userId]);
+
+      // The hash itself is redacted; the audit row only shows that it changed
+      await AuditLogModel.recordUpdate(client, this.tableName, userId, current.rows[0], result.rows[0], changedByUserId);
+    });
   }
 
   static async getUserPermissions(userId: string): Promise<string[]> {
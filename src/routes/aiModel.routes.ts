@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import { AIModelController } from '@/controllers/aiModel.controller';
+import { validateRequest } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import {
+  authenticateToken,
+  requirePermission
+} from '@/middleware/auth.middleware';
+import { aiModelValidation } from '@/utils/validation/aiModel.validation';
+
+const router = Router();
+
+// All AI model routes require authentication
+router.use(authenticateToken);
+
+// Get AI models (deprecated models are only listed for manage_ai_models)
+router.get('/',
+  requirePermission('view_conversations'),
+  validateRequest(aiModelValidation.getAIModelsList),
+  asyncHandler(AIModelController.getModels)
+);
+
+// Get the default AI model for new conversations
+router.get('/default',
+  requirePermission('view_conversations'),
+  asyncHandler(AIModelController.getDefaultModel)
+);
+
+// Get AI model by ID
+router.get('/:id',
+  requirePermission('view_conversations'),
+  validateRequest(aiModelValidation.getAIModelById),
+  asyncHandler(AIModelController.getModelById)
+);
+
+// Register new AI model
+router.post('/',
+  requirePermission('manage_ai_models'),
+  validateRequest(aiModelValidation.createAIModel),
+  asyncHandler(AIModelController.createModel)
+);
+
+// Update AI model
+router.put('/:id',
+  requirePermission('manage_ai_models'),
+  validateRequest(aiModelValidation.updateAIModel),
+  asyncHandler(AIModelController.updateModel)
+);
+
+// Change AI model status (beta → active → maintenance/deprecated)
+router.put('/:id/status',
+  requirePermission('manage_ai_models'),
+  validateRequest(aiModelValidation.changeAIModelStatus),
+  asyncHandler(AIModelController.changeStatus)
+);
+
+// Make AI model the default
+router.put('/:id/default',
+  requirePermission('manage_ai_models'),
+  validateRequest(aiModelValidation.setDefaultAIModel),
+  asyncHandler(AIModelController.setDefaultModel)
+);
+
+// Ping the model through its provider
+router.post('/:id/health-check',
+  requirePermission('manage_ai_models'),
+  validateRequest(aiModelValidation.checkAIModelHealth),
+  asyncHandler(AIModelController.checkHealth)
+);
+
+// Delete AI model (only when unused)
+router.delete('/:id',
+  requirePermission('manage_ai_models'),
+  validateRequest(aiModelValidation.deleteAIModel),
+  asyncHandler(AIModelController.deleteModel)
+);
+
+export { router as aiModelRoutes };
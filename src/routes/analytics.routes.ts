@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { AnalyticsController } from '@/controllers/analytics.controller';
+import { validateRequest } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import {
+  authenticateToken,
+  requirePermission
+} from '@/middleware/auth.middleware';
+import { analyticsValidation } from '@/utils/validation/analytics.validation';
+
+const router = Router();
+
+// All analytics routes require authentication
+router.use(authenticateToken);
+
+// Get AI token usage and cost grouped by user, department, model and/or day
+router.get('/usage',
+  requirePermission('view_analytics'),
+  validateRequest(analyticsValidation.getUsage),
+  asyncHandler(AnalyticsController.getUsage)
+);
+
+export { router as analyticsRoutes };
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { AuditLogController } from '@/controllers/auditLog.controller';
+import { validateRequest } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import {
+  authenticateToken,
+  requirePermission
+} from '@/middleware/auth.middleware';
+import { auditLogValidation } from '@/utils/validation/auditLog.validation';
+
+const router = Router();
+
+// All audit log routes require authentication
+router.use(authenticateToken);
+
+// Get audit log entries, newest first
+router.get('/',
+  requirePermission('audit_logs'),
+  validateRequest(auditLogValidation.getAuditLogs),
+  asyncHandler(AuditLogController.getAuditLogs)
+);
+
+// Get document reads (downloads, previews, search hits, AI context), newest first
+router.get('/document-access',
+  requirePermission('audit_logs'),
+  validateRequest(auditLogValidation.getDocumentAccess),
+  asyncHandler(AuditLogController.getDocumentAccess)
+);
+
+export { router as auditLogRoutes };
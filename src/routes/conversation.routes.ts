@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { ConversationController } from '@/controllers/conversation.controller';
+import { validateRequest } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import {
+  authenticateToken,
+  requirePermission
+} from '@/middleware/auth.middleware';
+import { conversationValidation } from '@/utils/validation/conversation.validation';
+import { messageRoutes } from './message.routes';
+
+const router = Router();
+
+// All conversation routes require authentication
+router.use(authenticateToken);
+
+// Get conversations (own conversations, or all with view_all_conversations and ?all=true)
+router.get('/',
+  requirePermission('view_conversations'),
+  validateRequest(conversationValidation.getConversationsList),
+  asyncHandler(ConversationController.getConversations)
+);
+
+// Create new conversation
+router.post('/',
+  requirePermission('create_conversations'),
+  validateRequest(conversationValidation.createConversation),
+  asyncHandler(ConversationController.createConversation)
+);
+
+// Get conversation by ID (participants or view_all_conversations)
+router.get('/:id',
+  requirePermission('view_conversations'),
+  validateRequest(conversationValidation.getConversationById),
+  asyncHandler(ConversationController.getConversationById)
+);
+
+// Rename / archive / unarchive conversation (creator, moderators or manage_conversations)
+router.put('/:id',
+  requirePermission('view_conversations'),
+  validateRequest(conversationValidation.updateConversation),
+  asyncHandler(ConversationController.updateConversation)
+);
+
+// Delete conversation (creator or administrators)
+router.delete('/:id',
+  requirePermission('view_conversations'),
+  validateRequest(conversationValidation.deleteConversation),
+  asyncHandler(ConversationController.deleteConversation)
+);
+
+// Get conversation participants
+router.get('/:id/participants',
+  requirePermission('view_conversations'),
+  validateRequest(conversationValidation.getParticipants),
+  asyncHandler(ConversationController.getParticipants)
+);
+
+// Add participant to conversation
+router.post('/:id/participants',
+  requirePermission('view_conversations'),
+  validateRequest(conversationValidation.addParticipant),
+  asyncHandler(ConversationController.addParticipant)
+);
+
+// Change participant role
+router.put('/:id/participants/:userId',
+  requirePermission('view_conversations'),
+  validateRequest(conversationValidation.updateParticipant),
+  asyncHandler(ConversationController.updateParticipant)
+);
+
+// Remove participant from conversation (participants may remove themselves)
+router.delete('/:id/participants/:userId',
+  requirePermission('view_conversations'),
+  validateRequest(conversationValidation.removeParticipant),
+  asyncHandler(ConversationController.removeParticipant)
+);
+
+// Conversation messages
+router.use('/:id/messages', messageRoutes);
+
+export { router as conversationRoutes };
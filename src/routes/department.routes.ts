@@ -96,4 +96,25 @@ router.delete('/:id/permissions/:permission_id',
   asyncHandler(DepartmentController.removeDepartmentPermission)
 );
 
+// Get AI models granted to department
+router.get('/:id/ai-models', 
+  requirePermission('view_users'),
+  validateRequest(departmentValidation.getDepartmentById), // Reuse the validation for ID
+  asyncHandler(DepartmentController.getDepartmentAIModels)
+);
+
+// Allow department to use an AI model (restricts the model to granted departments)
+router.post('/:id/ai-models', 
+  requirePermission('manage_ai_models'),
+  validateRequest(departmentValidation.addDepartmentAIModel),
+  asyncHandler(DepartmentController.addDepartmentAIModel)
+);
+
+// Revoke department's use of an AI model
+router.delete('/:id/ai-models/:ai_model_id', 
+  requirePermission('manage_ai_models'),
+  validateRequest(departmentValidation.removeDepartmentAIModel),
+  asyncHandler(DepartmentController.removeDepartmentAIModel)
+);
+
 export { router as departmentRoutes }; 
\ No newline at end of file
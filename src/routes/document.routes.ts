@@ -7,6 +7,7 @@ import {
   requirePermission,
   requireAnyPermission 
 } from '@middleware/auth.middleware';
+import { uploadSingleFile } from '@middleware/upload';
 import { documentValidation } from '@utils/validation/document.validation';
 
 const router = Router();
@@ -25,6 +26,13 @@ router.get('/search',
   asyncHandler(DocumentController.searchDocuments)
 );
 
+// Semantic search over document chunks (results limited to readable documents)
+router.post('/semantic-search', 
+  authenticateToken,
+  validateRequest(documentValidation.semanticSearch),
+  asyncHandler(DocumentController.semanticSearch)
+);
+
 // Get document statistics (requires view_analytics permission)
 router.get('/statistics', 
   authenticateToken,
@@ -40,6 +48,77 @@ router.get('/folder/:folderId',
   asyncHandler(DocumentController.getDocumentsByFolder)
 );
 
+// Stream document content (supports Range, ETag and inline/attachment disposition)
+router.get('/:id/content', 
+  authenticateToken,
+  validateRequest(documentValidation.getDocumentContent),
+  asyncHandler(DocumentController.getDocumentContent)
+);
+
+// Get a signed, time-limited download URL for the document's file
+router.get('/:id/download-url', 
+  authenticateToken,
+  validateRequest(documentValidation.getDocumentDownloadUrl),
+  asyncHandler(DocumentController.getDocumentDownloadUrl)
+);
+
+// Get the document's version history, newest first
+router.get('/:id/versions', 
+  authenticateToken,
+  validateRequest(documentValidation.getDocumentVersions),
+  asyncHandler(DocumentController.getDocumentVersions)
+);
+
+// Upload a new version of the document's file (requires write access to the document)
+router.post('/:id/versions', 
+  authenticateToken,
+  uploadSingleFile('file'),
+  validateRequest(documentValidation.uploadDocumentVersion),
+  asyncHandler(DocumentController.uploadDocumentVersion)
+);
+
+// Stream the file of a version (same Range/ETag support as /content)
+router.get('/:id/versions/:versionNumber/content', 
+  authenticateToken,
+  validateRequest(documentValidation.getDocumentVersionContent),
+  asyncHandler(DocumentController.getDocumentContent)
+);
+
+// Get a signed download URL for the file of a version
+router.get('/:id/versions/:versionNumber/download-url', 
+  authenticateToken,
+  validateRequest(documentValidation.getDocumentVersionContent),
+  asyncHandler(DocumentController.getDocumentDownloadUrl)
+);
+
+// Restore an earlier version as the new current version (requires write access to the document)
+router.post('/:id/versions/:versionNumber/restore', 
+  authenticateToken,
+  validateRequest(documentValidation.restoreDocumentVersion),
+  asyncHandler(DocumentController.restoreDocumentVersion)
+);
+
+// Get the document's text extraction status (include_text=true returns the text)
+router.get('/:id/extraction', 
+  authenticateToken,
+  validateRequest(documentValidation.getDocumentExtraction),
+  asyncHandler(DocumentController.getDocumentExtraction)
+);
+
+// Get the chunks the document's text was split into
+router.get('/:id/chunks', 
+  authenticateToken,
+  validateRequest(documentValidation.getDocumentChunks),
+  asyncHandler(DocumentController.getDocumentChunks)
+);
+
+// Re-run text extraction (requires write access to the document)
+router.post('/:id/extract', 
+  authenticateToken,
+  validateRequest(documentValidation.extractDocument),
+  asyncHandler(DocumentController.extractDocument)
+);
+
 // Get document by ID (users can view documents they uploaded or need view_documents permission)
 router.get('/:id', 
   authenticateToken,
@@ -47,12 +126,13 @@ router.get('/:id',
   asyncHandler(DocumentController.getDocumentById)
 );
 
-// Create new document (requires create_documents permission)
-router.post('/', 
+// Upload a file as a new document (multipart/form-data, field "file")
+router.post('/upload', 
   authenticateToken,
   requirePermission('create_documents'),
-  validateRequest(documentValidation.createDocument),
-  asyncHandler(DocumentController.createDocument)
+  uploadSingleFile('file'),
+  validateRequest(documentValidation.uploadDocument),
+  asyncHandler(DocumentController.uploadDocument)
 );
 
 // Update document (users can update their own documents or need edit_documents permission)
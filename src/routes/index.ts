@@ -4,10 +4,16 @@ import { userRoutes } from './user.routes';
 import { departmentRoutes } from './department.routes';
 import { documentRoutes } from './document.routes';
 import { folderRoutes } from './folder.routes';
-// import { conversationRoutes } from './conversation.routes';
+import { conversationRoutes } from './conversation.routes';
 // import { messageRoutes } from './message.routes';
 import { permissionRoutes } from './permission.routes';
-// import { aiModelRoutes } from './aiModel.routes';
+import { storageRoutes } from './storage.routes';
+import { aiModelRoutes } from './aiModel.routes';
+import { analyticsRoutes } from './analytics.routes';
+import { quotaRoutes } from './quota.routes';
+import { auditLogRoutes } from './auditLog.routes';
+import { jobRoutes } from './job.routes';
+import { retrievalRoutes } from './retrieval.routes';
 
 const router = Router();
 
@@ -62,7 +68,14 @@ router.use('/departments', departmentRoutes);
 router.use('/documents', documentRoutes);
 router.use('/folders', folderRoutes);
 router.use('/permissions', permissionRoutes);
-// router.use('/conversations', conversationRoutes);
+router.use('/storage', storageRoutes);
+router.use('/conversations', conversationRoutes);
+router.use('/ai-models', aiModelRoutes);
+router.use('/analytics', analyticsRoutes);
+router.use('/quotas', quotaRoutes);
+router.use('/audit-logs', auditLogRoutes);
+router.use('/jobs', jobRoutes);
+router.use('/retrieval', retrievalRoutes);
 // router.use('/messages', messageRoutes);
 
 // API info endpoint
@@ -80,9 +93,14 @@ router.get('/', (req, res) => {
       documents: '/documents',
       folders: '/folders',
       permissions: '/permissions',
-      // conversations: '/conversations',
+      conversations: '/conversations',
       // messages: '/messages',
-      // aiModels: '/ai-models',
+      aiModels: '/ai-models',
+      analytics: '/analytics',
+      quotas: '/quotas',
+      auditLogs: '/audit-logs',
+      jobs: '/jobs',
+      retrieval: '/retrieval',
     },
     features: {
       authentication: 'JWT-based authentication with refresh tokens',
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { JobController } from '@/controllers/job.controller';
+import { validateRequest } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { authenticateToken } from '@/middleware/auth.middleware';
+import { jobValidation } from '@/utils/validation/job.validation';
+
+const router = Router();
+
+// All job routes require authentication
+router.use(authenticateToken);
+
+// Get the status of a background job (document extraction, re-chunking, cleanup)
+router.get('/:id',
+  validateRequest(jobValidation.getJob),
+  asyncHandler(JobController.getJob)
+);
+
+export { router as jobRoutes };
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { MessageController } from '@/controllers/message.controller';
+import { validateRequest } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { requirePermission } from '@/middleware/auth.middleware';
+import { messageValidation } from '@/utils/validation/message.validation';
+
+// Mounted under /conversations/:id/messages; authentication is applied by the parent router
+const router = Router({ mergeParams: true });
+
+// Get conversation messages (newest first, ?before= to page backwards)
+router.get('/',
+  requirePermission('view_conversations'),
+  validateRequest(messageValidation.getMessages),
+  asyncHandler(MessageController.getMessages)
+);
+
+// Send a message; the AI reply is streamed over Server-Sent Events unless stream=false
+router.post('/',
+  requirePermission('view_conversations'),
+  validateRequest(messageValidation.sendMessage),
+  asyncHandler(MessageController.sendMessage)
+);
+
+export { router as messageRoutes };
@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { QuotaController } from '@/controllers/quota.controller';
+import { validateRequest } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import {
+  authenticateToken,
+  requirePermission
+} from '@/middleware/auth.middleware';
+import { quotaValidation } from '@/utils/validation/quota.validation';
+
+const router = Router();
+
+// All quota routes require authentication
+router.use(authenticateToken);
+
+// Get the quotas that apply to the current user
+router.get('/me',
+  asyncHandler(QuotaController.getMyQuotas)
+);
+
+// Get all quotas with their usage this month
+router.get('/',
+  requirePermission('view_analytics'),
+  validateRequest(quotaValidation.getQuotas),
+  asyncHandler(QuotaController.getQuotas)
+);
+
+// Set department quota
+router.put('/departments/:id',
+  requirePermission('system_settings'),
+  validateRequest(quotaValidation.setQuota),
+  asyncHandler(QuotaController.setDepartmentQuota)
+);
+
+// Remove department quota
+router.delete('/departments/:id',
+  requirePermission('system_settings'),
+  validateRequest(quotaValidation.deleteQuota),
+  asyncHandler(QuotaController.deleteDepartmentQuota)
+);
+
+// Set user quota
+router.put('/users/:id',
+  requirePermission('system_settings'),
+  validateRequest(quotaValidation.setQuota),
+  asyncHandler(QuotaController.setUserQuota)
+);
+
+// Remove user quota
+router.delete('/users/:id',
+  requirePermission('system_settings'),
+  validateRequest(quotaValidation.deleteQuota),
+  asyncHandler(QuotaController.deleteUserQuota)
+);
+
+export { router as quotaRoutes };
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { RetrievalController } from '@/controllers/retrieval.controller';
+import { validateRequest } from '@/middleware/validation';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { authenticateToken } from '@/middleware/auth.middleware';
+import { retrievalValidation } from '@/utils/validation/retrieval.validation';
+
+const router = Router();
+
+// All retrieval routes require authentication
+router.use(authenticateToken);
+
+// Hybrid full-text and semantic search over document chunks (results limited to readable documents)
+router.post('/query',
+  validateRequest(retrievalValidation.query),
+  asyncHandler(RetrievalController.query)
+);
+
+export { router as retrievalRoutes };
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { StorageController } from '@controllers/storage.controller';
+import { validateRequest } from '@middleware/validation';
+import { asyncHandler } from '@middleware/errorHandler';
+import { storageValidation } from '@utils/validation/storage.validation';
+
+const router = Router();
+
+// Download a locally stored file through a signed URL (no JWT, the signature authorizes)
+router.get('/:key', 
+  validateRequest(storageValidation.getSignedFile),
+  asyncHandler(StorageController.getSignedFile)
+);
+
+export { router as storageRoutes };
@@ -0,0 +1,258 @@
+import {
+  AIModelModel,
+  AIModelStatus,
+  IAIModel,
+  IAIModelDepartment,
+  IAIModelFilters,
+  IAIModelHealthCheck,
+  IAIModelListResult,
+  IAIModelWithUsage,
+  ICreateAIModel,
+  IUpdateAIModel
+} from '@models/AIModel.model';
+import { getChatProvider, resolveChatProviderName } from '@services/chat';
+import { BadRequestError, ForbiddenError, NotFoundError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+// Allowed lifecycle moves; deprecated is final
+const STATUS_TRANSITIONS: Record<AIModelStatus, AIModelStatus[]> = {
+  beta: ['active', 'deprecated'],
+  active: ['maintenance', 'deprecated'],
+  maintenance: ['active', 'deprecated'],
+  deprecated: [],
+};
+
+const HEALTH_CHECK_TIMEOUT_MS = 15000;
+
+export interface IAIModelHealthResult {
+  model: IAIModel;
+  health: IAIModelHealthCheck;
+}
+
+export class AIModelService {
+  /**
+   * Get AI models. Users without manage_ai_models only see the models their
+   * department may use, and no deprecated ones.
+   */
+  static async getModels(
+    page: number = 1,
+    limit: number = 10,
+    filters: IAIModelFilters = {},
+    userPermissions: string[] = [],
+    departmentId?: string
+  ): Promise<IAIModelListResult> {
+    logger.info('Service: Fetching AI models list', { page, limit, filters });
+
+    const canManage = userPermissions.includes('manage_ai_models');
+    return AIModelModel.findAll(page, limit, {
+      ...filters,
+      ...(!canManage && { exclude_deprecated: true }),
+      ...(!canManage && departmentId && { usable_by_department_id: departmentId }),
+    });
+  }
+
+  /**
+   * Get the departments granted a model
+   */
+  static async getModelDepartments(aiModelId: string): Promise<IAIModelDepartment[]> {
+    return AIModelModel.getDepartments(aiModelId);
+  }
+
+  /**
+   * Get AI model by ID
+   */
+  static async getModelById(aiModelId: string): Promise<IAIModelWithUsage> {
+    logger.info('Service: Fetching AI model by ID', { ai_model_id: aiModelId });
+
+    const model = await AIModelModel.findById(aiModelId);
+    if (!model) {
+      throw new NotFoundError('AI model not found');
+    }
+    return model;
+  }
+
+  /**
+   * Get the default AI model, if one is set
+   */
+  static async getDefaultModel(): Promise<IAIModel | null> {
+    return AIModelModel.findDefault();
+  }
+
+  /**
+   * Register a new AI model. New models start in beta unless created active.
+   */
+  static async createModel(modelData: ICreateAIModel): Promise<IAIModel> {
+    logger.info('Service: Creating AI model', {
+      model_name: modelData.model_name,
+      provider: modelData.provider
+    });
+
+    resolveChatProviderName(modelData.provider);
+    if (modelData.status && !['beta', 'active'].includes(modelData.status)) {
+      throw new BadRequestError('New AI models must start as beta or active');
+    }
+
+    try {
+      const model = await AIModelModel.create(modelData);
+      logger.info('Service: AI model created successfully', { ai_model_id: model.ai_model_id });
+      return model;
+    } catch (error) {
+      logger.error('Service: Failed to create AI model', { model_name: modelData.model_name, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Update AI model settings (status and default have their own actions)
+   */
+  static async updateModel(aiModelId: string, updateData: IUpdateAIModel): Promise<IAIModel> {
+    logger.info('Service: Updating AI model', {
+      ai_model_id: aiModelId,
+      update_fields: Object.keys(updateData)
+    });
+
+    if (updateData.provider !== undefined) {
+      resolveChatProviderName(updateData.provider);
+    }
+
+    try {
+      const model = await AIModelModel.update(aiModelId, updateData);
+      logger.info('Service: AI model updated successfully', { ai_model_id: aiModelId });
+      return model;
+    } catch (error) {
+      logger.error('Service: Failed to update AI model', { ai_model_id: aiModelId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Move a model through its lifecycle: beta → active → maintenance/deprecated
+   */
+  static async changeStatus(aiModelId: string, status: AIModelStatus): Promise<IAIModel> {
+    logger.info('Service: Changing AI model status', { ai_model_id: aiModelId, status });
+
+    const model = await this.getModelById(aiModelId);
+    if (model.status === status) {
+      return model;
+    }
+
+    if (!STATUS_TRANSITIONS[model.status].includes(status)) {
+      throw new BadRequestError(`AI model status cannot change from ${model.status} to ${status}`);
+    }
+
+    if (model.is_default && status !== 'active') {
+      throw new BadRequestError('Choose another default AI model before changing the status of the default model');
+    }
+
+    const updated = await AIModelModel.setStatus(aiModelId, status);
+    logger.info('Service: AI model status changed', {
+      ai_model_id: aiModelId,
+      from: model.status,
+      to: status
+    });
+    return updated;
+  }
+
+  /**
+   * Make an active model the default for new conversations
+   */
+  static async setDefaultModel(aiModelId: string): Promise<IAIModel> {
+    logger.info('Service: Setting default AI model', { ai_model_id: aiModelId });
+
+    const model = await this.getModelById(aiModelId);
+    if (model.status !== 'active') {
+      throw new BadRequestError('Only active AI models can be the default');
+    }
+
+    return AIModelModel.setDefault(aiModelId);
+  }
+
+  /**
+   * Delete an AI model that is not the default and not used by conversations
+   */
+  static async deleteModel(aiModelId: string): Promise<void> {
+    logger.info('Service: Deleting AI model', { ai_model_id: aiModelId });
+
+    const model = await this.getModelById(aiModelId);
+    if (model.is_default) {
+      throw new BadRequestError('The default AI model cannot be deleted');
+    }
+
+    await AIModelModel.delete(aiModelId);
+    logger.info('Service: AI model deleted successfully', { ai_model_id: aiModelId });
+  }
+
+  /**
+   * Send a minimal prompt to the model through its provider and record
+   * whether it answered and how long it took
+   */
+  static async checkHealth(aiModelId: string): Promise<IAIModelHealthResult> {
+    const model = await this.getModelById(aiModelId);
+    logger.info('Service: Checking AI model health', { ai_model_id: aiModelId, model_name: model.model_name });
+
+    const startedAt = Date.now();
+    let health: IAIModelHealthCheck;
+
+    try {
+      const provider = getChatProvider({ provider: model.provider, api_endpoint: model.api_endpoint });
+      await provider.complete({
+        model: model.model_name,
+        messages: [{ role: 'user', content: 'Reply with OK.' }],
+        max_tokens: 5,
+        signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+      });
+      health = { status: 'healthy', latency_ms: Date.now() - startedAt };
+    } catch (error) {
+      health = {
+        status: 'unhealthy',
+        latency_ms: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const updated = await AIModelModel.recordHealthCheck(aiModelId, health);
+    logger.info('Service: AI model health checked', {
+      ai_model_id: aiModelId,
+      status: health.status,
+      latency_ms: health.latency_ms
+    });
+
+    return { model: updated, health };
+  }
+
+  /**
+   * Resolve the model for a new conversation: the requested one, which must
+   * not be deprecated and must be allowed for the user's department, or the
+   * default model when the department may use it
+   */
+  static async resolveModelForNewConversation(aiModelId: string | undefined, departmentId: string): Promise<IAIModel | null> {
+    if (!aiModelId) {
+      const defaultModel = await AIModelModel.findDefault();
+      if (defaultModel && !(await AIModelModel.canDepartmentUse(defaultModel.ai_model_id, departmentId))) {
+        // Fall back to the system chat model rather than blocking the conversation
+        return null;
+      }
+      return defaultModel;
+    }
+
+    const model = await AIModelModel.findById(aiModelId);
+    if (!model) {
+      throw new NotFoundError('AI model not found');
+    }
+    if (model.status === 'deprecated') {
+      throw new BadRequestError(`AI model ${model.model_name} is deprecated and cannot be used for new conversations`);
+    }
+    await this.assertDepartmentCanUse(aiModelId, model.model_name, departmentId);
+    return model;
+  }
+
+  /**
+   * Check that a department may use a model. Conversations are checked again
+   * on every message since a grant can be revoked after they were created.
+   */
+  static async assertDepartmentCanUse(aiModelId: string, modelName: string, departmentId: string): Promise<void> {
+    if (!(await AIModelModel.canDepartmentUse(aiModelId, departmentId))) {
+      throw new ForbiddenError(`Your department is not allowed to use AI model ${modelName}`);
+    }
+  }
+}
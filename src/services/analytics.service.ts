@@ -0,0 +1,91 @@
+import {
+  IUsageGroup,
+  IUsageTotals,
+  UsageGroupBy,
+  UsageModel
+} from '@models/Usage.model';
+import { BadRequestError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+const DEFAULT_USAGE_PERIOD_DAYS = 30;
+
+export interface IUsageQuery {
+  from?: Date;
+  to?: Date;
+  user_id?: string;
+  department_id?: string;
+  ai_model_id?: string;
+}
+
+export interface IUsageReport {
+  group_by: UsageGroupBy[];
+  from: Date;
+  to: Date;
+  groups: IUsageGroup[];
+  totals: IUsageTotals;
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export class AnalyticsService {
+  /**
+   * Report AI token usage and cost grouped by user, department, model and/or
+   * day. The period defaults to the last 30 days.
+   */
+  static async getUsage(
+    groupBy: UsageGroupBy[],
+    query: IUsageQuery = {},
+    page: number = 1,
+    limit: number = 100
+  ): Promise<IUsageReport> {
+    logger.info('Service: Fetching AI usage report', { group_by: groupBy, query, page, limit });
+
+    if (groupBy.length === 0) {
+      throw new BadRequestError('At least one group_by dimension is required');
+    }
+
+    const to = query.to || new Date();
+    const from = query.from || new Date(to.getTime() - DEFAULT_USAGE_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+    if (from >= to) {
+      throw new BadRequestError('from must be before to');
+    }
+
+    const filters = {
+      from,
+      to,
+      ...(query.user_id && { user_id: query.user_id }),
+      ...(query.department_id && { department_id: query.department_id }),
+      ...(query.ai_model_id && { ai_model_id: query.ai_model_id }),
+    };
+
+    try {
+      const [summary, totals] = await Promise.all([
+        UsageModel.summarize(groupBy, filters, page, limit),
+        UsageModel.getTotals(filters),
+      ]);
+
+      logger.info('Service: AI usage report fetched successfully', {
+        group_by: groupBy,
+        groups: summary.total,
+        total_tokens: totals.total_tokens
+      });
+
+      return {
+        group_by: groupBy,
+        from,
+        to,
+        groups: summary.groups,
+        totals,
+        total: summary.total,
+        page,
+        limit,
+        totalPages: Math.ceil(summary.total / limit),
+      };
+    } catch (error) {
+      logger.error('Service: Failed to fetch AI usage report', { group_by: groupBy, error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  AuditLogModel,
+  IAuditLogFilters,
+  IAuditLogWithActor
+} from '@models/AuditLog.model';
+import { BadRequestError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+export interface IAuditFieldChange {
+  field: string;
+  old_value: any;
+  new_value: any;
+}
+
+export interface IAuditLogEntry extends IAuditLogWithActor {
+  changes: IAuditFieldChange[];
+}
+
+export interface IAuditLogPage {
+  entries: IAuditLogEntry[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+const isSameValue = (a: any, b: any): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Field-by-field diff of an entry's old and new values. Inserts list every
+ * field with a null old value; deletes list the fields that changed on the
+ * removed row (e.g. is_active).
+ */
+const diffValues = (oldValues?: Record<string, any> | null, newValues?: Record<string, any> | null): IAuditFieldChange[] => {
+  const oldRow = oldValues || {};
+  const newRow = newValues || {};
+  const fields = [...new Set([...Object.keys(oldRow), ...Object.keys(newRow)])];
+
+  return fields
+    .filter(field => field in newRow && !isSameValue(oldRow[field], newRow[field]))
+    .map(field => ({
+      field,
+      old_value: oldRow[field] ?? null,
+      new_value: newRow[field] ?? null,
+    }));
+};
+
+export class AuditLogService {
+  /**
+   * Get audit log entries, newest first, with a diff of each change
+   */
+  static async getAuditLogs(
+    filters: IAuditLogFilters,
+    cursor?: string,
+    limit: number = 50
+  ): Promise<IAuditLogPage> {
+    logger.info('Service: Fetching audit logs', { filters, cursor, limit });
+
+    if (filters.from && filters.to && filters.from >= filters.to) {
+      throw new BadRequestError('from must be before to');
+    }
+
+    if (cursor && !(await AuditLogModel.exists(cursor))) {
+      throw new BadRequestError('Invalid cursor');
+    }
+
+    try {
+      const { entries, hasMore } = await AuditLogModel.find(filters, cursor, limit);
+      const lastEntry = entries[entries.length - 1];
+
+      logger.info('Service: Audit logs fetched successfully', {
+        count: entries.length,
+        has_more: hasMore
+      });
+
+      return {
+        entries: entries.map(entry => ({
+          ...entry,
+          changes: diffValues(entry.old_values, entry.new_values),
+        })),
+        next_cursor: hasMore && lastEntry ? lastEntry.audit_id : null,
+        has_more: hasMore,
+      };
+    } catch (error) {
+      logger.error('Service: Failed to fetch audit logs', { filters, error });
+      throw error;
+    }
+  }
+}
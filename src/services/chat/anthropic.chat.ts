@@ -0,0 +1,81 @@
+import { ExternalServiceError } from '@utils/AppError';
+import { ChatFinishReason, ChatStreamEvent, IChatCapabilities, IChatRequest, toAlternatingTurns } from './chat.provider';
+import { HttpChatProvider, IHttpChatProviderOptions } from './http';
+
+const API_VERSION = '2023-06-01';
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * Client for the Anthropic Messages API (`/messages` with `stream: true`)
+ */
+export class AnthropicChatProvider extends HttpChatProvider {
+  public readonly name = 'anthropic';
+  public readonly capabilities: IChatCapabilities = {
+    streaming: true,
+    usage_reporting: true,
+    system_messages: true,
+  };
+
+  constructor(options: IHttpChatProviderOptions) {
+    super(options, {
+      'anthropic-version': API_VERSION,
+      ...(options.apiKey && { 'x-api-key': options.apiKey }),
+    });
+  }
+
+  async *stream(request: IChatRequest): AsyncGenerator<ChatStreamEvent> {
+    const { system, turns } = toAlternatingTurns(request.messages);
+
+    const body = await this.openStream('/messages', {
+      model: request.model,
+      max_tokens: request.max_tokens || DEFAULT_MAX_TOKENS,
+      messages: turns,
+      stream: true,
+      ...(system && { system }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+    }, request);
+
+    let finishReason: ChatFinishReason = 'stop';
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    for await (const payload of this.readPayloads(body, request)) {
+      switch (payload.type) {
+        case 'message_start':
+          promptTokens = payload.message?.usage?.input_tokens ?? 0;
+          completionTokens = payload.message?.usage?.output_tokens ?? 0;
+          break;
+        case 'content_block_delta':
+          if (payload.delta?.type === 'text_delta' && payload.delta.text) {
+            yield { type: 'token', delta: payload.delta.text };
+          }
+          break;
+        case 'message_delta':
+          if (payload.delta?.stop_reason) {
+            finishReason = payload.delta.stop_reason === 'max_tokens' ? 'length' : 'stop';
+          }
+          completionTokens = payload.usage?.output_tokens ?? completionTokens;
+          break;
+        case 'error':
+          throw new ExternalServiceError(
+            this.name,
+            `Chat stream failed: ${payload.error?.message || 'unknown error'}`,
+            { retryable: payload.error?.type === 'overloaded_error' }
+          );
+      }
+    }
+
+    yield {
+      type: 'done',
+      finish_reason: request.signal?.aborted ? 'aborted' : finishReason,
+      ...((promptTokens > 0 || completionTokens > 0) && {
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        },
+      }),
+    };
+  }
+}
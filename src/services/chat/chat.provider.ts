@@ -0,0 +1,137 @@
+import { countTokens } from '@utils/tokenizer';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface IChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface IChatRequest {
+  model: string;
+  messages: IChatMessage[];
+  max_tokens?: number;
+  temperature?: number;
+  // Aborts the upstream request, e.g. when the SSE client disconnects
+  signal?: AbortSignal;
+}
+
+export interface IChatUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export type ChatFinishReason = 'stop' | 'length' | 'aborted' | 'error';
+
+export type ChatStreamEvent =
+  | { type: 'token'; delta: string }
+  | { type: 'done'; finish_reason: ChatFinishReason; usage?: IChatUsage };
+
+export interface IChatCompletion {
+  content: string;
+  finish_reason: ChatFinishReason;
+  usage: IChatUsage;
+  // False when the provider did not report usage and it was estimated locally
+  usage_reported: boolean;
+}
+
+export interface IChatCapabilities {
+  streaming: boolean;
+  // Whether the vendor API reports token usage for streamed replies
+  usage_reporting: boolean;
+  // Whether system messages are sent natively rather than folded into the prompt
+  system_messages: boolean;
+}
+
+/**
+ * A chat completion backend. Replies are streamed as token deltas followed
+ * by a single `done` event carrying the usage reported by the vendor.
+ */
+export interface ChatProvider {
+  readonly name: string;
+  readonly capabilities: IChatCapabilities;
+
+  complete(request: IChatRequest): Promise<IChatCompletion>;
+  stream(request: IChatRequest): AsyncIterable<ChatStreamEvent>;
+  // Approximate prompt size, used for budgeting before a request is sent
+  countTokens(messages: IChatMessage[]): number;
+}
+
+/**
+ * Approximate usage with the local tokenizer when a provider does not report it
+ */
+export const estimateUsage = (messages: IChatMessage[], completion: string): IChatUsage => {
+  const promptTokens = messages.reduce((sum, message) => sum + countTokens(message.content), 0);
+  const completionTokens = countTokens(completion);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+};
+
+/**
+ * Separate system messages for vendors that take the system prompt as its
+ * own field, and merge consecutive turns of the same role for vendors that
+ * require user and assistant turns to alternate, starting with the user
+ */
+export const toAlternatingTurns = (messages: IChatMessage[]): { system: string; turns: IChatMessage[] } => {
+  const system = messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+
+  const turns: IChatMessage[] = [];
+  for (const message of messages) {
+    if (message.role === 'system') {
+      continue;
+    }
+    const previous = turns[turns.length - 1];
+    if (previous && previous.role === message.role) {
+      previous.content = `${previous.content}\n\n${message.content}`;
+    } else if (previous || message.role === 'user') {
+      turns.push({ ...message });
+    }
+  }
+
+  return { system, turns };
+};
+
+/**
+ * Shared behaviour: a full completion is the collected stream, and token
+ * counts use the local tokenizer
+ */
+export abstract class BaseChatProvider implements ChatProvider {
+  public abstract readonly name: string;
+  public abstract readonly capabilities: IChatCapabilities;
+
+  abstract stream(request: IChatRequest): AsyncIterable<ChatStreamEvent>;
+
+  async complete(request: IChatRequest): Promise<IChatCompletion> {
+    let content = '';
+    let finishReason: ChatFinishReason = 'stop';
+    let usage: IChatUsage | undefined;
+
+    for await (const event of this.stream(request)) {
+      if (event.type === 'token') {
+        content += event.delta;
+      } else {
+        finishReason = event.finish_reason;
+        usage = event.usage;
+      }
+    }
+
+    const reported = !!usage && usage.total_tokens > 0;
+    return {
+      content,
+      finish_reason: finishReason,
+      usage: reported ? usage! : estimateUsage(request.messages, content),
+      usage_reported: reported,
+    };
+  }
+
+  countTokens(messages: IChatMessage[]): number {
+    return messages.reduce((sum, message) => sum + countTokens(message.content), 0);
+  }
+}
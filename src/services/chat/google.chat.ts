@@ -0,0 +1,67 @@
+import { ChatFinishReason, ChatStreamEvent, IChatCapabilities, IChatRequest, IChatUsage, toAlternatingTurns } from './chat.provider';
+import { HttpChatProvider, IHttpChatProviderOptions } from './http';
+
+/**
+ * Client for the Google Gemini API (`models/{model}:streamGenerateContent`
+ * with server-sent events)
+ */
+export class GoogleChatProvider extends HttpChatProvider {
+  public readonly name = 'google';
+  public readonly capabilities: IChatCapabilities = {
+    streaming: true,
+    usage_reporting: true,
+    system_messages: true,
+  };
+
+  constructor(options: IHttpChatProviderOptions) {
+    super(options, {
+      ...(options.apiKey && { 'x-goog-api-key': options.apiKey }),
+    });
+  }
+
+  async *stream(request: IChatRequest): AsyncGenerator<ChatStreamEvent> {
+    const { system, turns } = toAlternatingTurns(request.messages);
+
+    const body = await this.openStream(`/models/${encodeURIComponent(request.model)}:streamGenerateContent?alt=sse`, {
+      contents: turns.map(turn => ({
+        role: turn.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: turn.content }],
+      })),
+      ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+      generationConfig: {
+        ...(request.max_tokens && { maxOutputTokens: request.max_tokens }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+      },
+    }, request);
+
+    let finishReason: ChatFinishReason = 'stop';
+    let usage: IChatUsage | undefined;
+
+    for await (const payload of this.readPayloads(body, request)) {
+      const candidate = payload.candidates?.[0];
+      for (const part of candidate?.content?.parts || []) {
+        if (typeof part.text === 'string' && part.text.length > 0) {
+          yield { type: 'token', delta: part.text };
+        }
+      }
+      if (candidate?.finishReason) {
+        finishReason = candidate.finishReason === 'MAX_TOKENS' ? 'length' : 'stop';
+      }
+      if (payload.usageMetadata) {
+        const promptTokens = payload.usageMetadata.promptTokenCount ?? 0;
+        const completionTokens = payload.usageMetadata.candidatesTokenCount ?? 0;
+        usage = {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: payload.usageMetadata.totalTokenCount ?? promptTokens + completionTokens,
+        };
+      }
+    }
+
+    yield {
+      type: 'done',
+      finish_reason: request.signal?.aborted ? 'aborted' : finishReason,
+      ...(usage && { usage }),
+    };
+  }
+}
@@ -0,0 +1,157 @@
+import axios, { AxiosInstance } from 'axios';
+import { Readable } from 'stream';
+import { ExternalServiceError } from '@utils/AppError';
+import { withRetry } from '@utils/retry';
+import { logger } from '@utils/logger';
+import { BaseChatProvider, IChatRequest } from './chat.provider';
+
+const parseRetryAfter = (value: unknown): number | undefined => {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+};
+
+/**
+ * Split a server-sent event stream into the payloads of its `data:` lines
+ */
+export async function* readEventData(stream: Readable): AsyncGenerator<string> {
+  let buffer = '';
+  for await (const chunk of stream) {
+    buffer += chunk.toString('utf8');
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      if (line.startsWith('data:')) {
+        yield line.slice(5).trim();
+      }
+      newline = buffer.indexOf('\n');
+    }
+  }
+
+  if (buffer.startsWith('data:')) {
+    yield buffer.slice(5).trim();
+  }
+}
+
+/**
+ * Convert an HTTP failure into an ExternalServiceError, marking rate limits,
+ * server errors and network failures as retryable
+ */
+export const toChatServiceError = async (provider: string, error: unknown): Promise<ExternalServiceError> => {
+  if (!axios.isAxiosError(error)) {
+    return new ExternalServiceError(provider, error instanceof Error ? error.message : String(error));
+  }
+
+  const status = error.response?.status;
+  let detail = error.message;
+
+  // With responseType 'stream' the error body is a stream as well
+  const data = error.response?.data;
+  if (data instanceof Readable) {
+    try {
+      let text = '';
+      for await (const chunk of data) {
+        text += chunk.toString('utf8');
+      }
+      detail = JSON.parse(text)?.error?.message || text || detail;
+    } catch {
+      // Keep the transport error message
+    }
+  } else if (data?.error?.message) {
+    detail = data.error.message;
+  }
+
+  const retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+  const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+
+  return new ExternalServiceError(
+    provider,
+    `Chat request failed${status ? ` (${status})` : ''}: ${detail}`,
+    { retryable, ...(retryAfterMs !== undefined && { retryAfterMs }) }
+  );
+};
+
+export interface IHttpChatProviderOptions {
+  apiKey?: string | undefined;
+  // Vendor API root; point it at a local stand-in for testing
+  baseUrl: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+/**
+ * Base for vendors reached over HTTP with a streaming (SSE) response
+ */
+export abstract class HttpChatProvider extends BaseChatProvider {
+  protected readonly http: AxiosInstance;
+  private readonly maxRetries: number;
+
+  constructor(options: IHttpChatProviderOptions, headers: Record<string, string>) {
+    super();
+    this.maxRetries = options.maxRetries ?? 2;
+    this.http = axios.create({
+      baseURL: options.baseUrl.replace(/\/+$/, ''),
+      timeout: options.timeoutMs || 120000,
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+    });
+  }
+
+  /**
+   * POST a streaming request. Only establishing the stream is retried; a
+   * reply cut off midway is not replayed.
+   */
+  protected async openStream(path: string, body: unknown, request: IChatRequest): Promise<Readable> {
+    return withRetry(async () => {
+      try {
+        const response = await this.http.post(path, body, {
+          responseType: 'stream',
+          ...(request.signal && { signal: request.signal }),
+        });
+        return response.data as Readable;
+      } catch (error) {
+        throw await toChatServiceError(this.name, error);
+      }
+    }, {
+      retries: this.maxRetries,
+      shouldRetry: error => !request.signal?.aborted && error instanceof ExternalServiceError && error.retryable,
+      getDelayMs: error => (error instanceof ExternalServiceError ? error.retryAfterMs : undefined),
+      onRetry: (error, attempt, delayMs) => {
+        logger.warn('Chat request failed, retrying', {
+          provider: this.name,
+          attempt,
+          delay_ms: delayMs,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      },
+    });
+  }
+
+  /**
+   * Parse the stream's JSON payloads until `[DONE]` or the end of the body.
+   * A connection broken by the caller's abort signal ends quietly.
+   */
+  protected async *readPayloads(body: Readable, request: IChatRequest): AsyncGenerator<any> {
+    try {
+      for await (const data of readEventData(body)) {
+        if (data === '[DONE]') {
+          return;
+        }
+        if (data) {
+          yield JSON.parse(data);
+        }
+      }
+    } catch (error) {
+      if (request.signal?.aborted) {
+        return;
+      }
+      throw new ExternalServiceError(
+        this.name,
+        `Chat stream interrupted: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { config } from '@config/config';
+import { BadRequestError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+import { AnthropicChatProvider } from './anthropic.chat';
+import { ChatProvider } from './chat.provider';
+import { GoogleChatProvider } from './google.chat';
+import { MockChatProvider } from './mock.chat';
+import { OpenAIChatProvider } from './openai.chat';
+
+export * from './chat.provider';
+export { AnthropicChatProvider } from './anthropic.chat';
+export { GoogleChatProvider } from './google.chat';
+export { MockChatProvider } from './mock.chat';
+export { OpenAIChatProvider } from './openai.chat';
+
+export type ChatProviderName = 'openai' | 'anthropic' | 'google' | 'mock';
+
+// Values accepted in the aimodels.provider column
+const PROVIDER_NAMES: Record<string, ChatProviderName> = {
+  openai: 'openai',
+  anthropic: 'anthropic',
+  google: 'google',
+  gemini: 'google',
+  'google-ai': 'google',
+  mock: 'mock',
+};
+
+export interface IChatModelTarget {
+  // aimodels.provider; CHAT_PROVIDER is used when empty
+  provider?: string | null | undefined;
+  // aimodels.api_endpoint; overrides the vendor base URL
+  api_endpoint?: string | null | undefined;
+}
+
+const providers = new Map<string, ChatProvider>();
+const overrides = new Map<ChatProviderName, ChatProvider>();
+let globalOverride: ChatProvider | null = null;
+
+/**
+ * Map an aimodels.provider value to a supported chat provider
+ */
+export const resolveChatProviderName = (provider?: string | null): ChatProviderName => {
+  if (!provider || !provider.trim()) {
+    return config.chat.provider;
+  }
+
+  const name = PROVIDER_NAMES[provider.trim().toLowerCase()];
+  if (!name) {
+    throw new BadRequestError(`AI model provider '${provider}' is not supported`);
+  }
+  return name;
+};
+
+const createChatProvider = (name: ChatProviderName, baseUrl?: string): ChatProvider => {
+  const options = {
+    timeoutMs: config.chat.timeoutMs,
+    maxRetries: config.chat.maxRetries,
+  };
+
+  switch (name) {
+    case 'openai':
+      return new OpenAIChatProvider({
+        ...options,
+        apiKey: config.ai.openai.apiKey,
+        organization: config.ai.openai.orgId,
+        baseUrl: baseUrl || config.ai.openai.baseUrl,
+      });
+    case 'anthropic':
+      return new AnthropicChatProvider({
+        ...options,
+        apiKey: config.ai.anthropic.apiKey,
+        baseUrl: baseUrl || config.ai.anthropic.baseUrl,
+      });
+    case 'google':
+      return new GoogleChatProvider({
+        ...options,
+        apiKey: config.ai.google.apiKey,
+        baseUrl: baseUrl || config.ai.google.baseUrl,
+      });
+    case 'mock':
+    default:
+      return new MockChatProvider();
+  }
+};
+
+/**
+ * Get the chat provider for an AI model (its `provider` and optional
+ * `api_endpoint`), or the CHAT_PROVIDER default
+ */
+export const getChatProvider = (target: IChatModelTarget = {}): ChatProvider => {
+  const name = resolveChatProviderName(target.provider);
+
+  const override = globalOverride || overrides.get(name);
+  if (override) {
+    return override;
+  }
+
+  const baseUrl = target.api_endpoint?.trim() || undefined;
+  const key = `${name}|${baseUrl || ''}`;
+
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = createChatProvider(name, baseUrl);
+    providers.set(key, provider);
+    logger.info(`Chat provider initialized: ${provider.name}`, { ...(baseUrl && { base_url: baseUrl }) });
+  }
+  return provider;
+};
+
+/**
+ * Replace a chat provider (e.g. with a mock in tests). Without a name the
+ * provider answers for every model.
+ */
+export const setChatProvider = (chatProvider: ChatProvider | null, name?: ChatProviderName): void => {
+  if (name) {
+    if (chatProvider) {
+      overrides.set(name, chatProvider);
+    } else {
+      overrides.delete(name);
+    }
+    return;
+  }
+  globalOverride = chatProvider;
+};
@@ -0,0 +1,81 @@
+import { ExternalServiceError } from '@utils/AppError';
+import {
+  BaseChatProvider,
+  ChatFinishReason,
+  ChatStreamEvent,
+  IChatCapabilities,
+  IChatRequest,
+  IChatUsage,
+  estimateUsage
+} from './chat.provider';
+
+export interface IMockChatReply {
+  content: string;
+  finish_reason?: ChatFinishReason;
+  // Reported usage; estimated from the text when omitted
+  usage?: IChatUsage;
+  // Thrown instead of replying, after any content has been streamed
+  error?: ExternalServiceError;
+}
+
+/**
+ * Offline provider. Replies come from a script queued with `enqueue`, or
+ * default to a canned reply quoting the last user message. Every request is
+ * recorded in `requests` so tests can inspect the prompt.
+ */
+export class MockChatProvider extends BaseChatProvider {
+  public readonly name = 'mock';
+  public readonly capabilities: IChatCapabilities = {
+    streaming: true,
+    usage_reporting: true,
+    system_messages: true,
+  };
+  public readonly requests: IChatRequest[] = [];
+  private readonly script: IMockChatReply[] = [];
+
+  enqueue(...replies: Array<string | IMockChatReply>): this {
+    for (const reply of replies) {
+      this.script.push(typeof reply === 'string' ? { content: reply } : reply);
+    }
+    return this;
+  }
+
+  failNext(count: number = 1, retryable: boolean = false): this {
+    for (let index = 0; index < count; index++) {
+      this.script.push({ content: '', error: new ExternalServiceError(this.name, 'Mock chat failure', { retryable }) });
+    }
+    return this;
+  }
+
+  async *stream(request: IChatRequest): AsyncGenerator<ChatStreamEvent> {
+    this.requests.push(request);
+    const reply = this.script.shift() || { content: this.defaultReply(request) };
+
+    let completion = '';
+    for (const delta of reply.content.match(/\S+\s*|\s+/g) || []) {
+      if (request.signal?.aborted) {
+        yield { type: 'done', finish_reason: 'aborted', usage: estimateUsage(request.messages, completion) };
+        return;
+      }
+      completion += delta;
+      yield { type: 'token', delta };
+    }
+
+    if (reply.error) {
+      throw reply.error;
+    }
+
+    yield {
+      type: 'done',
+      finish_reason: reply.finish_reason || 'stop',
+      usage: reply.usage || estimateUsage(request.messages, completion),
+    };
+  }
+
+  private defaultReply(request: IChatRequest): string {
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    return lastUserMessage
+      ? `This is a mock reply to: "${lastUserMessage.content.trim()}"`
+      : 'This is a mock reply.';
+  }
+}
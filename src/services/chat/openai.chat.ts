@@ -0,0 +1,64 @@
+import { ChatFinishReason, ChatStreamEvent, IChatCapabilities, IChatRequest, IChatUsage } from './chat.provider';
+import { HttpChatProvider, IHttpChatProviderOptions } from './http';
+
+export interface IOpenAIChatOptions extends IHttpChatProviderOptions {
+  organization?: string | undefined;
+}
+
+/**
+ * Client for the OpenAI `/chat/completions` streaming API. Any server
+ * speaking the same protocol can be used by changing the base URL.
+ */
+export class OpenAIChatProvider extends HttpChatProvider {
+  public readonly name = 'openai';
+  public readonly capabilities: IChatCapabilities = {
+    streaming: true,
+    usage_reporting: true,
+    system_messages: true,
+  };
+
+  constructor(options: IOpenAIChatOptions) {
+    super(options, {
+      ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+      ...(options.organization && { 'OpenAI-Organization': options.organization }),
+    });
+  }
+
+  async *stream(request: IChatRequest): AsyncGenerator<ChatStreamEvent> {
+    const body = await this.openStream('/chat/completions', {
+      model: request.model,
+      messages: request.messages,
+      stream: true,
+      stream_options: { include_usage: true },
+      ...(request.max_tokens && { max_tokens: request.max_tokens }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+    }, request);
+
+    let finishReason: ChatFinishReason = 'stop';
+    let usage: IChatUsage | undefined;
+
+    for await (const payload of this.readPayloads(body, request)) {
+      const choice = payload.choices?.[0];
+      const delta: unknown = choice?.delta?.content;
+      if (typeof delta === 'string' && delta.length > 0) {
+        yield { type: 'token', delta };
+      }
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason === 'length' ? 'length' : 'stop';
+      }
+      if (payload.usage) {
+        usage = {
+          prompt_tokens: payload.usage.prompt_tokens ?? 0,
+          completion_tokens: payload.usage.completion_tokens ?? 0,
+          total_tokens: payload.usage.total_tokens ?? 0,
+        };
+      }
+    }
+
+    yield {
+      type: 'done',
+      finish_reason: request.signal?.aborted ? 'aborted' : finishReason,
+      ...(usage && { usage }),
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { config } from '@config/config';
+import { DocumentChunkModel, IDocumentChunkListResult } from '@models/DocumentChunk.model';
+import { DocumentExtractionModel } from '@models/DocumentExtraction.model';
+import { DocumentModel, IDocument } from '@models/Document.model';
+import { FolderModel } from '@models/Folder.model';
+import {
+  chunkExtraction,
+  ChunkingStrategy,
+  IChunkingOptions,
+  resolveChunkingStrategy,
+} from '@services/chunking';
+import { DocumentService } from '@services/document.service';
+import { IndexableDocument, SemanticSearchService } from '@services/semanticSearch.service';
+import { IExtractionResult } from '@services/extraction';
+import { IJob, JobQueue } from '@services/jobs';
+import { logger } from '@utils/logger';
+
+type ChunkableDocument = IndexableDocument & Pick<IDocument, 'version_number'>;
+
+export class ChunkingService {
+  /**
+   * Resolve the chunking strategy and sizes for a document from its folder
+   * (and the folder's ancestors), falling back to the server defaults
+   */
+  static async resolveSettings(
+    document: ChunkableDocument
+  ): Promise<{ strategy: ChunkingStrategy; options: IChunkingOptions }> {
+    const folderSettings = document.folder_id
+      ? await FolderModel.getChunkingSettings(document.folder_id)
+      : {};
+
+    const chunkSize = folderSettings.chunk_size_tokens ?? config.chunking.sizeTokens;
+    const chunkOverlap = folderSettings.chunk_overlap_tokens ?? config.chunking.overlapTokens;
+
+    return {
+      strategy: resolveChunkingStrategy(
+        folderSettings.chunking_strategy ?? config.chunking.strategy,
+        document.mime_type
+      ),
+      options: {
+        chunk_size_tokens: chunkSize,
+        // An inherited overlap may not fit a smaller folder chunk size
+        chunk_overlap_tokens: Math.min(chunkOverlap, Math.floor(chunkSize / 2)),
+      },
+    };
+  }
+
+  /**
+   * Split a document's extracted text into chunks, store them (replacing any
+   * previous chunks) and embed them for semantic search. Returns the number
+   * of chunks written.
+   */
+  static async chunkDocument(document: ChunkableDocument, extraction: IExtractionResult): Promise<number> {
+    const { strategy, options } = await this.resolveSettings(document);
+    const chunks = chunkExtraction(extraction, strategy, options);
+
+    const storedChunks = await DocumentChunkModel.replaceForDocument(
+      document.document_id,
+      document.version_number || 1,
+      strategy,
+      chunks
+    );
+    await SemanticSearchService.indexDocumentChunks(document, storedChunks);
+
+    logger.info('Service: Document chunked', { 
+      document_id: document.document_id,
+      strategy,
+      chunk_size_tokens: options.chunk_size_tokens,
+      chunk_count: chunks.length 
+    });
+
+    return chunks.length;
+  }
+
+  /**
+   * Queue a re-chunk of the already extracted documents of a folder and its
+   * subfolders, e.g. after the folder's chunking settings changed
+   */
+  static async scheduleFolderRechunk(folderId: string, requestingUserId?: string): Promise<IJob<'folder.rechunk'>> {
+    return JobQueue.enqueue(
+      'folder.rechunk',
+      { folder_id: folderId },
+      { ...(requestingUserId && { created_by_user_id: requestingUserId }) }
+    );
+  }
+
+  /**
+   * Re-chunk and re-embed the indexed documents of a folder tree. Returns
+   * the number of documents processed.
+   */
+  static async rechunkFolder(folderId: string): Promise<number> {
+    const documentIds = await DocumentExtractionModel.findIndexedDocumentIdsInFolderTree(folderId);
+
+    for (const documentId of documentIds) {
+      const [document, extraction] = await Promise.all([
+        DocumentModel.findById(documentId),
+        DocumentExtractionModel.findByDocumentId(documentId, true),
+      ]);
+
+      if (!document || extraction?.status !== 'indexed' || !extraction.structure) {
+        continue;
+      }
+
+      await this.chunkDocument(document, {
+        text: extraction.content_text || '',
+        structure: extraction.structure,
+      });
+    }
+
+    logger.info('Service: Folder documents re-chunked', { folder_id: folderId, document_count: documentIds.length });
+
+    return documentIds.length;
+  }
+
+  /**
+   * Get the chunks of a document the user can read
+   */
+  static async getDocumentChunks(
+    documentId: string,
+    page: number = 1,
+    limit: number = 20,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IDocumentChunkListResult> {
+    await DocumentService.getDocumentById(documentId, requestingUserId, userPermissions);
+    return DocumentChunkModel.findByDocumentId(documentId, page, limit);
+  }
+}
@@ -0,0 +1,122 @@
+import { ChunkingStrategySetting } from '@models/Folder.model';
+import { IExtractionResult, IExtractedPage } from '@services/extraction';
+import { ITokenSpan } from '@utils/tokenizer';
+
+export type ChunkingStrategy = Exclude<ChunkingStrategySetting, 'auto'>;
+
+export interface IChunkingOptions {
+  chunk_size_tokens: number;
+  chunk_overlap_tokens: number;
+}
+
+export interface ITextChunk {
+  chunk_index: number;
+  content: string;
+  start_offset: number;
+  end_offset: number;
+  token_count: number;
+  page_start?: number;
+  page_end?: number;
+  heading?: string;
+}
+
+/**
+ * Splits extracted document text into retrievable chunks. Offsets refer to
+ * positions in the extracted text so chunks can be traced back to it.
+ */
+export interface DocumentChunker {
+  readonly strategy: ChunkingStrategy;
+
+  chunk(extraction: IExtractionResult, options: IChunkingOptions): ITextChunk[];
+}
+
+interface IChunkSpan {
+  start_offset: number;
+  end_offset: number;
+  token_count: number;
+}
+
+/**
+ * Cut a run of tokens into windows of at most `chunk_size_tokens`, each
+ * starting `chunk_overlap_tokens` before the end of the previous one
+ */
+export const splitTokenWindows = (tokens: ITokenSpan[], options: IChunkingOptions): IChunkSpan[] => {
+  const size = Math.max(1, options.chunk_size_tokens);
+  // Overlap must leave room to advance, otherwise the windows never end
+  const overlap = Math.min(Math.max(0, options.chunk_overlap_tokens), Math.floor(size / 2));
+  const step = size - overlap;
+  const spans: IChunkSpan[] = [];
+
+  for (let first = 0; first < tokens.length; first += step) {
+    const last = Math.min(first + size, tokens.length) - 1;
+    spans.push({
+      start_offset: tokens[first]!.start,
+      end_offset: tokens[last]!.end,
+      token_count: last - first + 1,
+    });
+
+    if (last === tokens.length - 1) {
+      break;
+    }
+  }
+
+  return spans;
+};
+
+/**
+ * The tokens (sorted by offset) that fall inside [start, end)
+ */
+export const tokensInRange = (tokens: ITokenSpan[], start: number, end: number): ITokenSpan[] => {
+  let low = 0;
+  let high = tokens.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (tokens[middle]!.start < start) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  let last = low;
+  while (last < tokens.length && tokens[last]!.end <= end) {
+    last++;
+  }
+
+  return tokens.slice(low, last);
+};
+
+const findPageNumber = (pages: IExtractedPage[], offset: number): number | undefined => {
+  return pages.find(page => offset >= page.start_offset && offset < page.end_offset)?.page_number;
+};
+
+/**
+ * Builds the final chunk list: numbers chunks in order and resolves the
+ * pages each chunk spans
+ */
+export class ChunkListBuilder {
+  private readonly chunks: ITextChunk[] = [];
+
+  constructor(private readonly extraction: IExtractionResult) {}
+
+  add(span: IChunkSpan, heading?: string): void {
+    const { pages } = this.extraction.structure;
+    const pageStart = findPageNumber(pages, span.start_offset);
+    const pageEnd = findPageNumber(pages, span.end_offset - 1);
+
+    this.chunks.push({
+      chunk_index: this.chunks.length,
+      content: this.extraction.text.slice(span.start_offset, span.end_offset),
+      start_offset: span.start_offset,
+      end_offset: span.end_offset,
+      token_count: span.token_count,
+      ...(pageStart !== undefined && { page_start: pageStart }),
+      ...(pageEnd !== undefined && { page_end: pageEnd }),
+      ...(heading && { heading }),
+    });
+  }
+
+  build(): ITextChunk[] {
+    return this.chunks;
+  }
+}
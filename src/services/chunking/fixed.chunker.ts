@@ -0,0 +1,20 @@
+import { IExtractionResult } from '@services/extraction';
+import { tokenize } from '@utils/tokenizer';
+import { ChunkListBuilder, DocumentChunker, IChunkingOptions, ITextChunk, splitTokenWindows } from './chunker';
+
+/**
+ * Fixed-size token windows with overlap over the whole text
+ */
+export class FixedChunker implements DocumentChunker {
+  public readonly strategy = 'fixed' as const;
+
+  chunk(extraction: IExtractionResult, options: IChunkingOptions): ITextChunk[] {
+    const builder = new ChunkListBuilder(extraction);
+
+    for (const span of splitTokenWindows(tokenize(extraction.text), options)) {
+      builder.add(span);
+    }
+
+    return builder.build();
+  }
+}
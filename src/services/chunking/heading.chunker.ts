@@ -0,0 +1,87 @@
+import { IExtractionResult } from '@services/extraction';
+import { ITokenSpan, tokenize } from '@utils/tokenizer';
+import {
+  ChunkListBuilder,
+  DocumentChunker,
+  IChunkingOptions,
+  ITextChunk,
+  splitTokenWindows,
+  tokensInRange,
+} from './chunker';
+import { FixedChunker } from './fixed.chunker';
+
+interface ISection {
+  heading?: string;
+  tokens: ITokenSpan[];
+}
+
+/**
+ * Splits the text into sections at headings. Consecutive small sections are
+ * packed together up to the chunk size; larger sections are cut into token
+ * windows that stay inside the section. Chunks carry their heading path
+ * (e.g. "Setup > Installation").
+ */
+export class HeadingChunker implements DocumentChunker {
+  public readonly strategy = 'heading' as const;
+
+  chunk(extraction: IExtractionResult, options: IChunkingOptions): ITextChunk[] {
+    const { headings } = extraction.structure;
+    if (headings.length === 0) {
+      return new FixedChunker().chunk(extraction, options);
+    }
+
+    const tokens = tokenize(extraction.text);
+    const sections = this.buildSections(extraction, tokens);
+    const builder = new ChunkListBuilder(extraction);
+
+    let pending: ISection | null = null;
+    for (const section of sections) {
+      if (pending && pending.tokens.length + section.tokens.length <= options.chunk_size_tokens) {
+        pending.tokens.push(...section.tokens);
+        continue;
+      }
+
+      if (pending) {
+        this.addSection(builder, pending, options);
+      }
+      pending = { ...section, tokens: [...section.tokens] };
+    }
+    if (pending) {
+      this.addSection(builder, pending, options);
+    }
+
+    return builder.build();
+  }
+
+  private addSection(builder: ChunkListBuilder, section: ISection, options: IChunkingOptions): void {
+    for (const span of splitTokenWindows(section.tokens, options)) {
+      builder.add(span, section.heading);
+    }
+  }
+
+  private buildSections(extraction: IExtractionResult, tokens: ITokenSpan[]): ISection[] {
+    const { headings } = extraction.structure;
+    const sections: ISection[] = [];
+    const path: { level: number; text: string }[] = [];
+
+    // Text before the first heading
+    if (headings[0]!.offset > 0) {
+      sections.push({ tokens: tokensInRange(tokens, 0, headings[0]!.offset) });
+    }
+
+    headings.forEach((heading, index) => {
+      while (path.length > 0 && path[path.length - 1]!.level >= heading.level) {
+        path.pop();
+      }
+      path.push({ level: heading.level, text: heading.text });
+
+      const end = headings[index + 1]?.offset ?? extraction.text.length;
+      sections.push({
+        heading: path.map(entry => entry.text).join(' > '),
+        tokens: tokensInRange(tokens, heading.offset, end),
+      });
+    });
+
+    return sections;
+  }
+}
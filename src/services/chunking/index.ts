@@ -0,0 +1,52 @@
+import { ChunkingStrategySetting } from '@models/Folder.model';
+import { IExtractionResult } from '@services/extraction';
+import { ChunkingStrategy, DocumentChunker, IChunkingOptions, ITextChunk } from './chunker';
+import { FixedChunker } from './fixed.chunker';
+import { HeadingChunker } from './heading.chunker';
+import { PageChunker } from './page.chunker';
+
+export * from './chunker';
+
+const chunkers: Record<ChunkingStrategy, DocumentChunker> = {
+  fixed: new FixedChunker(),
+  heading: new HeadingChunker(),
+  page: new PageChunker(),
+};
+
+// Formats whose extraction records headings worth splitting on
+const HEADING_MIME_TYPES = [
+  'text/markdown',
+  'text/html',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+
+/**
+ * Pick the strategy for a document: page-aware for PDFs, heading-aware for
+ * Markdown, HTML and DOCX, fixed windows for everything else
+ */
+export const resolveChunkingStrategy = (
+  setting: ChunkingStrategySetting,
+  mimeType?: string | null
+): ChunkingStrategy => {
+  if (setting !== 'auto') {
+    return setting;
+  }
+  if (mimeType === 'application/pdf') {
+    return 'page';
+  }
+  if (mimeType && HEADING_MIME_TYPES.includes(mimeType)) {
+    return 'heading';
+  }
+  return 'fixed';
+};
+
+/**
+ * Split extracted text into chunks with the given strategy
+ */
+export const chunkExtraction = (
+  extraction: IExtractionResult,
+  strategy: ChunkingStrategy,
+  options: IChunkingOptions
+): ITextChunk[] => {
+  return chunkers[strategy].chunk(extraction, options);
+};
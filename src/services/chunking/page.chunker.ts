@@ -0,0 +1,38 @@
+import { IExtractionResult } from '@services/extraction';
+import { tokenize } from '@utils/tokenizer';
+import {
+  ChunkListBuilder,
+  DocumentChunker,
+  IChunkingOptions,
+  ITextChunk,
+  splitTokenWindows,
+  tokensInRange,
+} from './chunker';
+import { FixedChunker } from './fixed.chunker';
+
+/**
+ * Token windows that never cross a page boundary, so every chunk cites a
+ * single page. Falls back to fixed windows when the text has no pages.
+ */
+export class PageChunker implements DocumentChunker {
+  public readonly strategy = 'page' as const;
+
+  chunk(extraction: IExtractionResult, options: IChunkingOptions): ITextChunk[] {
+    const { pages } = extraction.structure;
+    if (pages.length === 0) {
+      return new FixedChunker().chunk(extraction, options);
+    }
+
+    const tokens = tokenize(extraction.text);
+    const builder = new ChunkListBuilder(extraction);
+
+    for (const page of pages) {
+      const pageTokens = tokensInRange(tokens, page.start_offset, page.end_offset);
+      for (const span of splitTokenWindows(pageTokens, options)) {
+        builder.add(span);
+      }
+    }
+
+    return builder.build();
+  }
+}
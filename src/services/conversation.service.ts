@@ -0,0 +1,408 @@
+import {
+  ConversationModel,
+  ConversationStatus,
+  IAddParticipant,
+  IConversationFilters,
+  IConversationListResult,
+  IConversationParticipant,
+  IConversationWithJoins,
+  ICreateConversation,
+  IUpdateConversation,
+  ParticipantRole,
+} from '@models/Conversation.model';
+import { AIModelService } from '@services/aiModel.service';
+import {
+  BadRequestError,
+  NotFoundError,
+  ForbiddenError
+} from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+export interface IConversationListOptions {
+  status?: ConversationStatus;
+  search?: string;
+  // Admins with view_all_conversations may list every conversation
+  all?: boolean;
+}
+
+export interface IUpdateConversationRequest {
+  conversation_name?: string;
+  ai_model_used_id?: string;
+  status?: Exclude<ConversationStatus, 'deleted'>;
+}
+
+export class ConversationService {
+  /**
+   * List conversations visible to the requesting user. By default only the
+   * conversations the user participates in are returned.
+   */
+  static async getConversations(
+    page: number = 1,
+    limit: number = 10,
+    options: IConversationListOptions,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IConversationListResult> {
+    logger.info('Service: Fetching conversations list', {
+      page,
+      limit,
+      options,
+      requesting_user: requestingUserId
+    });
+
+    if (options.all && !userPermissions.includes('view_all_conversations')) {
+      throw new ForbiddenError('Insufficient permissions to view all conversations');
+    }
+
+    try {
+      const filters: IConversationFilters = {
+        ...(options.status && { status: options.status }),
+        ...(options.search && { search: options.search }),
+        ...(!options.all && { participant_user_id: requestingUserId }),
+      };
+
+      const result = await ConversationModel.findAll(page, limit, filters);
+
+      logger.info('Service: Conversations fetched successfully', {
+        total: result.total,
+        requesting_user: requestingUserId
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Service: Failed to fetch conversations', { error, requesting_user: requestingUserId });
+      throw error;
+    }
+  }
+
+  /**
+   * Get conversation by ID
+   */
+  static async getConversationById(
+    conversationId: string,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IConversationWithJoins> {
+    logger.info('Service: Fetching conversation by ID', {
+      conversation_id: conversationId,
+      requesting_user: requestingUserId
+    });
+
+    if (!conversationId) {
+      throw new BadRequestError('Conversation ID is required');
+    }
+
+    return this.getConversationForRead(conversationId, requestingUserId, userPermissions);
+  }
+
+  /**
+   * Create a conversation owned by the requesting user
+   */
+  static async createConversation(
+    conversationData: Omit<ICreateConversation, 'created_by_user_id'>,
+    participants: IAddParticipant[],
+    requestingUserId: string,
+    departmentId: string
+  ): Promise<IConversationWithJoins> {
+    logger.info('Service: Creating new conversation', {
+      conversation_name: conversationData.conversation_name,
+      participant_count: participants.length,
+      requesting_user: requestingUserId
+    });
+
+    try {
+      // Conversations without an explicit model use the default model
+      const model = await AIModelService.resolveModelForNewConversation(conversationData.ai_model_used_id, departmentId);
+
+      const conversation = await ConversationModel.create(
+        {
+          ...conversationData,
+          created_by_user_id: requestingUserId,
+          ...(model && { ai_model_used_id: model.ai_model_id }),
+        },
+        participants
+      );
+
+      logger.info('Service: Conversation created successfully', {
+        conversation_id: conversation.conversation_id,
+        requesting_user: requestingUserId
+      });
+
+      return (await ConversationModel.findById(conversation.conversation_id))!;
+    } catch (error) {
+      logger.error('Service: Failed to create conversation', { error, requesting_user: requestingUserId });
+      throw error;
+    }
+  }
+
+  /**
+   * Rename, archive/unarchive or switch the AI model of a conversation
+   */
+  static async updateConversation(
+    conversationId: string,
+    updateData: IUpdateConversationRequest,
+    requestingUserId: string,
+    userPermissions: string[],
+    departmentId: string
+  ): Promise<IConversationWithJoins> {
+    logger.info('Service: Updating conversation', {
+      conversation_id: conversationId,
+      update_fields: Object.keys(updateData),
+      requesting_user: requestingUserId
+    });
+
+    try {
+      const conversation = await this.getConversationForManage(conversationId, requestingUserId, userPermissions);
+
+      // Switching models is checked like starting a conversation with the new one
+      if (updateData.ai_model_used_id && updateData.ai_model_used_id !== conversation.ai_model_used_id) {
+        await AIModelService.resolveModelForNewConversation(updateData.ai_model_used_id, departmentId);
+      }
+
+      const update: IUpdateConversation = { ...updateData };
+      await ConversationModel.update(conversationId, update);
+
+      logger.info('Service: Conversation updated successfully', {
+        conversation_id: conversationId,
+        requesting_user: requestingUserId
+      });
+
+      return (await ConversationModel.findById(conversationId))!;
+    } catch (error) {
+      logger.error('Service: Failed to update conversation', {
+        conversation_id: conversationId,
+        error,
+        requesting_user: requestingUserId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete conversation (soft delete). Only the creator, or an administrator
+   * with both view_all_conversations and manage_conversations, may delete.
+   */
+  static async deleteConversation(
+    conversationId: string,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<void> {
+    logger.info('Service: Deleting conversation', {
+      conversation_id: conversationId,
+      requesting_user: requestingUserId
+    });
+
+    try {
+      const conversation = await this.getConversationForRead(conversationId, requestingUserId, userPermissions);
+
+      const isAdmin = userPermissions.includes('view_all_conversations')
+        && userPermissions.includes('manage_conversations');
+      if (conversation.created_by_user_id !== requestingUserId && !isAdmin) {
+        throw new ForbiddenError('Only the conversation creator can delete this conversation');
+      }
+
+      await ConversationModel.delete(conversationId);
+
+      logger.info('Service: Conversation deleted successfully', {
+        conversation_id: conversationId,
+        requesting_user: requestingUserId
+      });
+    } catch (error) {
+      logger.error('Service: Failed to delete conversation', {
+        conversation_id: conversationId,
+        error,
+        requesting_user: requestingUserId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the participants of a conversation
+   */
+  static async getParticipants(
+    conversationId: string,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IConversationParticipant[]> {
+    logger.info('Service: Fetching conversation participants', {
+      conversation_id: conversationId,
+      requesting_user: requestingUserId
+    });
+
+    await this.getConversationForRead(conversationId, requestingUserId, userPermissions);
+    return ConversationModel.getParticipants(conversationId);
+  }
+
+  /**
+   * Add a participant to a conversation
+   */
+  static async addParticipant(
+    conversationId: string,
+    participant: IAddParticipant,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IConversationParticipant> {
+    logger.info('Service: Adding conversation participant', {
+      conversation_id: conversationId,
+      user_id: participant.user_id,
+      role: participant.role,
+      requesting_user: requestingUserId
+    });
+
+    try {
+      const conversation = await this.getConversationForManage(conversationId, requestingUserId, userPermissions);
+      this.assertWritable(conversation);
+
+      const added = await ConversationModel.addParticipant(conversationId, participant);
+
+      logger.info('Service: Conversation participant added successfully', {
+        conversation_id: conversationId,
+        user_id: participant.user_id
+      });
+
+      return added;
+    } catch (error) {
+      logger.error('Service: Failed to add conversation participant', {
+        conversation_id: conversationId,
+        user_id: participant.user_id,
+        error
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the role of a conversation participant
+   */
+  static async updateParticipantRole(
+    conversationId: string,
+    userId: string,
+    role: ParticipantRole,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IConversationParticipant> {
+    logger.info('Service: Updating conversation participant role', {
+      conversation_id: conversationId,
+      user_id: userId,
+      role,
+      requesting_user: requestingUserId
+    });
+
+    try {
+      const conversation = await this.getConversationForManage(conversationId, requestingUserId, userPermissions);
+
+      if (userId === conversation.created_by_user_id && role !== 'moderator') {
+        throw new BadRequestError('The conversation creator must remain a moderator');
+      }
+
+      return await ConversationModel.updateParticipantRole(conversationId, userId, role);
+    } catch (error) {
+      logger.error('Service: Failed to update conversation participant role', {
+        conversation_id: conversationId,
+        user_id: userId,
+        error
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a participant from a conversation. Any participant may remove
+   * themselves; removing others requires manage rights.
+   */
+  static async removeParticipant(
+    conversationId: string,
+    userId: string,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<void> {
+    logger.info('Service: Removing conversation participant', {
+      conversation_id: conversationId,
+      user_id: userId,
+      requesting_user: requestingUserId
+    });
+
+    try {
+      const conversation = userId === requestingUserId
+        ? await this.getConversationForRead(conversationId, requestingUserId, userPermissions)
+        : await this.getConversationForManage(conversationId, requestingUserId, userPermissions);
+
+      if (userId === conversation.created_by_user_id) {
+        throw new BadRequestError('The conversation creator cannot be removed');
+      }
+
+      await ConversationModel.removeParticipant(conversationId, userId);
+
+      logger.info('Service: Conversation participant removed successfully', {
+        conversation_id: conversationId,
+        user_id: userId
+      });
+    } catch (error) {
+      logger.error('Service: Failed to remove conversation participant', {
+        conversation_id: conversationId,
+        user_id: userId,
+        error
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Load a conversation the user can read: participants, or anyone with
+   * view_all_conversations
+   */
+  static async getConversationForRead(
+    conversationId: string,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IConversationWithJoins> {
+    const conversation = await ConversationModel.findById(conversationId);
+    if (!conversation) {
+      throw new NotFoundError('Conversation not found');
+    }
+
+    if (userPermissions.includes('view_all_conversations')) {
+      return conversation;
+    }
+
+    const participant = await ConversationModel.findParticipant(conversationId, requestingUserId);
+    if (!participant) {
+      throw new ForbiddenError('Access denied to this conversation');
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Load a conversation the user can manage: its creator or moderators, or
+   * users holding manage_conversations who can also see it
+   */
+  static async getConversationForManage(
+    conversationId: string,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IConversationWithJoins> {
+    const conversation = await this.getConversationForRead(conversationId, requestingUserId, userPermissions);
+
+    if (conversation.created_by_user_id === requestingUserId || userPermissions.includes('manage_conversations')) {
+      return conversation;
+    }
+
+    const participant = await ConversationModel.findParticipant(conversationId, requestingUserId);
+    if (participant?.role !== 'moderator') {
+      throw new ForbiddenError('Insufficient permissions to manage this conversation');
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Archived conversations are read-only until they are reactivated
+   */
+  static assertWritable(conversation: IConversationWithJoins): void {
+    if (conversation.status !== 'active') {
+      throw new BadRequestError('Conversation is archived');
+    }
+  }
+}
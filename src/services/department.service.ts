@@ -78,11 +78,11 @@ export class DepartmentService {
   /**
    * Create new department
    */
-  static async createDepartment(departmentData: ICreateDepartment) {
+  static async createDepartment(departmentData: ICreateDepartment, createdByUserId?: string) {
     logger.info('Service: Creating new department', { department_name: departmentData.department_name });
 
     try {
-      const department = await DepartmentModel.create(departmentData);
+      const department = await DepartmentModel.create(departmentData, createdByUserId);
 
       logger.info('Service: Department created successfully', { 
         department_id: department.department_id, 
@@ -102,7 +102,7 @@ export class DepartmentService {
   /**
    * Update department
    */
-  static async updateDepartment(departmentId: string, updateData: IUpdateDepartment) {
+  static async updateDepartment(departmentId: string, updateData: IUpdateDepartment, updatedByUserId?: string) {
     logger.info('Service: Updating department', { 
       department_id: departmentId, 
       update_fields: Object.keys(updateData) 
@@ -113,7 +113,7 @@ export class DepartmentService {
     }
 
     try {
-      const updatedDepartment = await DepartmentModel.update(departmentId, updateData);
+      const updatedDepartment = await DepartmentModel.update(departmentId, updateData, updatedByUserId);
 
       logger.info('Service: Department updated successfully', { department_id: departmentId });
       return updatedDepartment;
@@ -126,7 +126,7 @@ export class DepartmentService {
   /**
    * Delete department (soft delete)
    */
-  static async deleteDepartment(departmentId: string): Promise<void> {
+  static async deleteDepartment(departmentId: string, deletedByUserId?: string): Promise<void> {
     logger.info('Service: Deleting department', { department_id: departmentId });
 
     if (!departmentId) {
@@ -134,7 +134,7 @@ export class DepartmentService {
     }
 
     try {
-      await DepartmentModel.delete(departmentId);
+      await DepartmentModel.delete(departmentId, deletedByUserId);
       
       logger.info('Service: Department deleted successfully', { department_id: departmentId });
     } catch (error) {
@@ -263,7 +263,8 @@ export class DepartmentService {
    */
   static async removePermissionFromDepartment(
     departmentId: string, 
-    permissionId: string
+    permissionId: string,
+    removedByUserId?: string
   ): Promise<void> {
     logger.info('Service: Removing permission from department', { 
       department_id: departmentId, 
@@ -279,7 +280,7 @@ export class DepartmentService {
     }
 
     try {
-      await DepartmentModel.removePermission(departmentId, permissionId);
+      await DepartmentModel.removePermission(departmentId, permissionId, removedByUserId);
 
       logger.info('Service: Permission removed from department successfully', { 
         department_id: departmentId, 
@@ -295,6 +296,121 @@ export class DepartmentService {
     }
   }
 
+  /**
+   * Get the AI models granted to a department
+   */
+  static async getDepartmentAIModels(departmentId: string) {
+    logger.info('Service: Fetching department AI models', { department_id: departmentId });
+
+    if (!departmentId) {
+      throw new BadRequestError('Department ID is required');
+    }
+
+    try {
+      const department = await DepartmentModel.findById(departmentId);
+      if (!department) {
+        throw new NotFoundError('Department not found');
+      }
+
+      const aiModels = await DepartmentModel.getDepartmentAIModels(departmentId);
+
+      logger.info('Service: Department AI models fetched successfully', { 
+        department_id: departmentId, 
+        ai_model_count: aiModels.length 
+      });
+
+      return {
+        department,
+        ai_models: aiModels
+      };
+    } catch (error) {
+      logger.error('Service: Failed to fetch department AI models', { 
+        department_id: departmentId, 
+        error 
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Allow a department to use an AI model (restricts the model to granted departments)
+   */
+  static async addAIModelToDepartment(
+    departmentId: string, 
+    aiModelId: string, 
+    grantedByUserId?: string
+  ): Promise<void> {
+    logger.info('Service: Granting AI model to department', { 
+      department_id: departmentId, 
+      ai_model_id: aiModelId,
+      granted_by: grantedByUserId 
+    });
+
+    if (!departmentId) {
+      throw new BadRequestError('Department ID is required');
+    }
+
+    if (!aiModelId) {
+      throw new BadRequestError('AI model ID is required');
+    }
+
+    try {
+      await DepartmentModel.addAIModel(departmentId, aiModelId, grantedByUserId);
+
+      logger.info('Service: AI model granted to department successfully', { 
+        department_id: departmentId, 
+        ai_model_id: aiModelId,
+        granted_by: grantedByUserId 
+      });
+    } catch (error) {
+      logger.error('Service: Failed to grant AI model to department', { 
+        department_id: departmentId, 
+        ai_model_id: aiModelId,
+        error,
+        granted_by: grantedByUserId 
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a department's use of an AI model
+   */
+  static async removeAIModelFromDepartment(
+    departmentId: string, 
+    aiModelId: string,
+    removedByUserId?: string
+  ): Promise<void> {
+    logger.info('Service: Revoking AI model from department', { 
+      department_id: departmentId, 
+      ai_model_id: aiModelId 
+    });
+
+    if (!departmentId) {
+      throw new BadRequestError('Department ID is required');
+    }
+
+    if (!aiModelId) {
+      throw new BadRequestError('AI model ID is required');
+    }
+
+    try {
+      await DepartmentModel.removeAIModel(departmentId, aiModelId, removedByUserId);
+
+      logger.info('Service: AI model revoked from department successfully', { 
+        department_id: departmentId, 
+        ai_model_id: aiModelId 
+      });
+    } catch (error) {
+      logger.error('Service: Failed to revoke AI model from department', { 
+        department_id: departmentId, 
+        ai_model_id: aiModelId,
+        error 
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get all available permissions (helper for permission management)
    */
@@ -405,4 +521,4 @@ export class DepartmentService {
       throw error;
     }
   }
-} 
\ No newline at end of file
+} 
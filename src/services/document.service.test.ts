@@ -0,0 +1,147 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PoolClient } from 'pg';
+import { DatabaseConnection } from '@database/connection';
+import { DocumentModel, IDocumentWithJoins } from '@models/Document.model';
+import { DocumentVersionModel } from '@models/DocumentVersion.model';
+import { DocumentService } from '@services/document.service';
+import { IJob, IJobPayloads, JobQueue, JobType } from '@services/jobs';
+import { jobHandlers } from '@services/jobs/handlers';
+import { SemanticSearchService } from '@services/semanticSearch.service';
+import { LocalStorageProvider, setStorageProvider } from '@services/storage';
+
+const SHARED_PATH = 'documents/shared.pdf';
+
+const storedDocument = (documentId: string, filePath: string): IDocumentWithJoins => ({
+  document_id: documentId,
+  document_name: `${documentId}.pdf`,
+  file_path: filePath,
+  uploaded_by_user_id: 'owner',
+  file_size_bytes: 5,
+  mime_type: 'application/pdf',
+  version_number: 1,
+  is_active: true,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+const job = <T extends JobType>(type: T, payload: IJobPayloads[T]): IJob<T> => ({
+  job_id: `job-${type}`,
+  type,
+  payload,
+  status: 'active',
+  attempts: 1,
+  max_attempts: 5,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+// The service's transaction callbacks only query through DatabaseConnection
+const transactionClient = {} as PoolClient;
+
+describe('DocumentService shared blob cleanup', () => {
+  let directory: string;
+  let storage: LocalStorageProvider;
+  let documents: Map<string, IDocumentWithJoins>;
+  let cleanupJobs: string[];
+  let lockedPaths: string[];
+  let spies: Array<ReturnType<typeof spyOn>>;
+
+  // Delete a document as its owner, then run the storage.cleanup jobs it queued
+  const deleteAndCleanUp = async (documentId: string): Promise<unknown[]> => {
+    await DocumentService.deleteDocument(documentId, 'owner', []);
+    const results = [];
+    for (const filePath of cleanupJobs.splice(0)) {
+      const cleanup = job('storage.cleanup', { file_path: filePath });
+      results.push(await jobHandlers['storage.cleanup'].run(cleanup.payload, cleanup));
+    }
+    return results;
+  };
+
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'document-storage-'));
+    storage = new LocalStorageProvider(directory);
+    setStorageProvider(storage);
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    // Two documents uploaded with the same content share one blob
+    await storage.put(SHARED_PATH, Buffer.from('%PDF-'));
+    documents = new Map([
+      ['first', storedDocument('first', SHARED_PATH)],
+      ['second', storedDocument('second', SHARED_PATH)],
+    ]);
+    cleanupJobs = [];
+    lockedPaths = [];
+
+    spies = [
+      spyOn(DocumentModel, 'findById').mockImplementation(async documentId =>
+        (documents.get(documentId)?.is_active ? documents.get(documentId)! : null)),
+      spyOn(DocumentModel, 'delete').mockImplementation(async documentId => {
+        documents.get(documentId)!.is_active = false;
+        return true;
+      }),
+      spyOn(DocumentModel, 'isStoredFileReferenced').mockImplementation(async filePath =>
+        [...documents.values()].some(document => document.is_active && document.file_path === filePath)),
+      spyOn(DocumentModel, 'lockStoredFile').mockImplementation(async filePath => {
+        lockedPaths.push(filePath);
+      }),
+      spyOn(DocumentVersionModel, 'findFilePaths').mockImplementation(async documentId =>
+        [documents.get(documentId)!.file_path]),
+      spyOn(DatabaseConnection, 'transaction').mockImplementation(async callback => callback(transactionClient)),
+      spyOn(SemanticSearchService, 'removeDocument').mockResolvedValue(undefined),
+      spyOn(JobQueue, 'enqueue').mockImplementation(async (type, payload) => {
+        if ('file_path' in payload) {
+          cleanupJobs.push(payload.file_path);
+        }
+        return job(type, payload);
+      }),
+    ];
+  });
+
+  afterEach(() => {
+    spies.forEach(spy => spy.mockRestore());
+  });
+
+  it('keeps a blob that another active document still references', async () => {
+    expect(await deleteAndCleanUp('first')).toEqual([{ deleted: false }]);
+
+    expect(await storage.exists(SHARED_PATH)).toBe(true);
+    expect(lockedPaths).toEqual([SHARED_PATH]);
+  });
+
+  it('deletes the blob once its last document is deleted', async () => {
+    await deleteAndCleanUp('first');
+    expect(await deleteAndCleanUp('second')).toEqual([{ deleted: true }]);
+
+    expect(await storage.exists(SHARED_PATH)).toBe(false);
+  });
+
+  it('checks references under the blob lock, inside one transaction', async () => {
+    const order: string[] = [];
+    spies.push(
+      spyOn(DocumentModel, 'lockStoredFile').mockImplementation(async () => {
+        order.push('lock');
+      }),
+      spyOn(DocumentModel, 'isStoredFileReferenced').mockImplementation(async () => {
+        order.push('check');
+        return false;
+      }),
+      spyOn(DatabaseConnection, 'transaction').mockImplementation(async callback => {
+        order.push('begin');
+        const result = await callback(transactionClient);
+        order.push('commit');
+        return result;
+      })
+    );
+
+    expect(await DocumentService.removeStoredFileIfUnreferenced(SHARED_PATH)).toBe(true);
+    expect(order).toEqual(['begin', 'lock', 'check', 'commit']);
+  });
+});
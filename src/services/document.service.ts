@@ -5,16 +5,84 @@ import {
   IUpdateDocument, 
   IDocumentWithJoins, 
   IDocumentListResult,
-  IDocumentFilters 
+  IDocumentFilters,
+  IDocumentFile,
+  IDocumentSearchFilters,
+  IDocumentSearchResult
 } from '@models/Document.model';
+import { DocumentVersionModel, IDocumentVersionWithUploader } from '@models/DocumentVersion.model';
 import { FolderModel } from '@models/Folder.model';
+import { DatabaseConnection } from '@database/connection';
+import { config } from '@config/config';
 import { 
+  AppError,
   BadRequestError, 
   NotFoundError, 
   ConflictError,
+  DuplicateDocumentError,
   ForbiddenError 
 } from '@utils/AppError';
+import { detectFileType, isAllowedFileType } from '@utils/fileType';
+import { hashFile, hashStream } from '@utils/fileHash';
+import { parseSearchQuery } from '@utils/textSearch';
 import { logger } from '@utils/logger';
+import { buildContentDisposition, DispositionType } from '@utils/contentDisposition';
+import { getStorageProvider, IStorageStreamOptions } from '@services/storage';
+import { ExtractionService } from '@services/extraction.service';
+import { JobQueue } from '@services/jobs';
+import { SemanticSearchService } from '@services/semanticSearch.service';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+// What an upload does when its folder already has a document with the same content
+export type DuplicateHandling = 'reject' | 'link' | 'allow';
+
+export interface IUploadDocumentData {
+  document_name?: string;
+  description?: string;
+  folder_id?: string;
+  on_duplicate?: DuplicateHandling;
+}
+
+export interface IDuplicateWarning {
+  code: 'duplicate_content';
+  message: string;
+  document_id: string;
+  document_name: string;
+}
+
+export interface IUploadDocumentResult {
+  document: IDocumentWithJoins;
+  // The existing duplicate was returned instead of creating a document
+  linked: boolean;
+  warnings: IDuplicateWarning[];
+}
+
+// An uploaded file after type detection and hashing, before it is stored
+interface IInspectedFile {
+  mime_type: string;
+  extension: string;
+  file_hash: string;
+  file_size_bytes: number;
+}
+
+// Stored blobs with the content of an upload that are hashed again before one is reused
+const MAX_REUSE_CANDIDATES = 3;
+
+// How a version differs from the one before it
+export interface IDocumentVersionChanges {
+  size_delta_bytes: number;
+  content_changed: boolean;
+  mime_type_changed: boolean;
+}
+
+export interface IDocumentVersionEntry extends IDocumentVersionWithUploader {
+  is_current: boolean;
+  // null for the first version
+  changes: IDocumentVersionChanges | null;
+}
 
 export class DocumentService {
   /**
@@ -124,63 +192,202 @@ export class DocumentService {
   }
 
   /**
-   * Create new document
+   * Upload a file and create its document record
+   *
+   * The file type is sniffed from the content, the hash and size are computed
+   * server-side, and the folder write checks of insertDocument apply.
+   *
+   * Content already in blob storage is not stored again. When the target
+   * folder already has a document with the same content that the user can
+   * read, `on_duplicate` decides: `reject` fails with a 409, `link` returns
+   * the existing document, and `allow` (the default) creates the document
+   * with a duplicate warning.
    */
-  static async createDocument(
-    documentData: ICreateDocument,
+  static async uploadDocument(
+    file: Express.Multer.File,
+    uploadData: IUploadDocumentData,
     requestingUserId: string,
     userPermissions: string[]
-  ): Promise<IDocumentWithJoins> {
-    logger.info('Service: Creating new document', { 
-      document_name: documentData.document_name,
-      folder_id: documentData.folder_id,
-      created_by: requestingUserId 
+  ): Promise<IUploadDocumentResult> {
+    const onDuplicate = uploadData.on_duplicate || 'allow';
+
+    logger.info('Service: Uploading document', { 
+      original_name: file.originalname,
+      folder_id: uploadData.folder_id,
+      on_duplicate: onDuplicate,
+      uploaded_by: requestingUserId 
     });
 
     try {
-      // Check folder permissions if document is being placed in a folder
-      if (documentData.folder_id) {
-        const hasWriteAccess = await FolderModel.checkUserPermission(
-          requestingUserId,
-          documentData.folder_id,
-          'write'
-        );
-        
-        if (!hasWriteAccess && !userPermissions.includes('create_documents')) {
-          throw new ForbiddenError('Permission denied: insufficient access to create documents in this folder');
+      const inspectedFile = await this.inspectUploadedFile(file);
+
+      const warnings: IDuplicateWarning[] = [];
+      const duplicate = await this.findReadableDuplicate(
+        inspectedFile.file_hash,
+        uploadData.folder_id || null,
+        requestingUserId,
+        userPermissions
+      );
+
+      if (duplicate) {
+        const message = `File is a duplicate of document "${duplicate.document_name}"`;
+
+        if (onDuplicate === 'reject') {
+          throw new DuplicateDocumentError(message, {
+            document_id: duplicate.document_id,
+            document_name: duplicate.document_name,
+          });
         }
-      } else {
-        // For root-level documents, require create_documents permission
-        if (!userPermissions.includes('create_documents')) {
-          throw new ForbiddenError('Permission denied: create_documents required');
+
+        const warning: IDuplicateWarning = {
+          code: 'duplicate_content',
+          message,
+          document_id: duplicate.document_id,
+          document_name: duplicate.document_name,
+        };
+
+        if (onDuplicate === 'link') {
+          logger.info('Service: Upload linked to existing duplicate document', { 
+            document_id: duplicate.document_id,
+            uploaded_by: requestingUserId 
+          });
+          return { document: duplicate, linked: true, warnings: [warning] };
         }
+
+        warnings.push(warning);
       }
 
-      // Set the uploaded_by_user_id to the requesting user
-      const documentToCreate = {
-        ...documentData,
+      const stored = await this.storeUploadedFile(file, inspectedFile, storedFile => this.insertDocument({
+        document_name: uploadData.document_name || path.basename(file.originalname),
         uploaded_by_user_id: requestingUserId,
-      };
+        ...(uploadData.description && { description: uploadData.description }),
+        ...storedFile,
+        ...(uploadData.folder_id && { folder_id: uploadData.folder_id }),
+      }, requestingUserId, userPermissions));
 
-      const document = await DocumentModel.create(documentToCreate);
+      const document = await this.withNewExtraction(stored.result, requestingUserId);
 
-      logger.info('Service: Document created successfully', { 
+      logger.info('Service: Document uploaded successfully', { 
         document_id: document.document_id,
-        document_name: document.document_name,
-        created_by: requestingUserId 
+        mime_type: inspectedFile.mime_type,
+        file_size_bytes: inspectedFile.file_size_bytes,
+        reused_blob: stored.reused,
+        duplicate_of: duplicate?.document_id,
+        uploaded_by: requestingUserId 
       });
 
-      return document;
+      return { document, linked: false, warnings };
     } catch (error) {
-      logger.error('Service: Failed to create document', { 
-        document_name: documentData.document_name, 
+      logger.error('Service: Failed to upload document', { 
+        original_name: file.originalname,
         error,
-        created_by: requestingUserId 
+        uploaded_by: requestingUserId 
       });
       throw error;
     }
   }
 
+  /**
+   * Get a time-limited URL for downloading a document's file
+   */
+  static async getDocumentDownloadUrl(
+    documentId: string,
+    requestingUserId: string,
+    userPermissions: string[],
+    disposition: DispositionType = 'attachment',
+    versionNumber?: number
+  ): Promise<{ document: IDocumentWithJoins; url: string; expires_in: number }> {
+    const document = await this.withVersionFile(
+      await this.getDocumentById(documentId, requestingUserId, userPermissions),
+      versionNumber
+    );
+
+    const url = await getStorageProvider().getSignedUrl(document.file_path, {
+      expires_in_seconds: config.storage.signedUrlTtl,
+      content_disposition: buildContentDisposition(disposition, document.document_name),
+      ...(document.mime_type && { content_type: document.mime_type }),
+    });
+
+    logger.info('Service: Document download URL issued', { 
+      document_id: documentId,
+      version_number: versionNumber,
+      requesting_user: requestingUserId 
+    });
+
+    return { document, url, expires_in: config.storage.signedUrlTtl };
+  }
+
+  /**
+   * Get a readable document together with the size of its stored file and
+   * an entity tag for it. With a version number, the returned document
+   * carries that version's file.
+   *
+   * The entity tag is the file's SHA-256 hash, computed by the server when
+   * the file was uploaded, so identical bytes keep the same tag across
+   * re-uploads and versions.
+   */
+  static async getDocumentContentInfo(
+    documentId: string,
+    requestingUserId: string,
+    userPermissions: string[],
+    versionNumber?: number
+  ): Promise<{ document: IDocumentWithJoins; size: number; etag: string | null }> {
+    const currentDocument = await this.getDocumentById(documentId, requestingUserId, userPermissions);
+    const document = await this.withVersionFile(currentDocument, versionNumber);
+
+    const info = await getStorageProvider().stat(document.file_path);
+    if (!info) {
+      logger.error('Service: Stored file missing for document', { 
+        document_id: documentId,
+        version_number: versionNumber,
+        file_path: document.file_path 
+      });
+      throw new NotFoundError('Document content not found');
+    }
+
+    // Files stored before hashing was introduced have no hash, so no tag
+    const etag = document.file_hash ? `"${document.file_hash}"` : null;
+
+    return { document, size: info.size, etag };
+  }
+
+  /**
+   * Open a stream over a document's stored file, optionally for a byte range
+   */
+  static async openDocumentContent(
+    document: IDocumentWithJoins,
+    range: IStorageStreamOptions = {}
+  ): Promise<Readable> {
+    return getStorageProvider().stream(document.file_path, range);
+  }
+
+  /**
+   * Get a document the user is allowed to modify
+   */
+  static async getDocumentForWrite(
+    documentId: string,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IDocumentWithJoins> {
+    const document = await DocumentModel.findById(documentId);
+    if (!document) {
+      throw new NotFoundError('Document not found');
+    }
+
+    const hasAccess = await this.checkDocumentAccess(
+      document,
+      requestingUserId,
+      userPermissions,
+      'write'
+    );
+
+    if (!hasAccess) {
+      throw new ForbiddenError('Permission denied: insufficient access to modify this document');
+    }
+
+    return document;
+  }
+
   /**
    * Update document
    */
@@ -231,7 +438,7 @@ export class DocumentService {
         }
       }
 
-      const updatedDocument = await DocumentModel.update(documentId, updateData);
+      const updatedDocument: IDocumentWithJoins = await DocumentModel.update(documentId, updateData, requestingUserId);
 
       logger.info('Service: Document updated successfully', { 
         document_id: documentId,
@@ -284,7 +491,8 @@ export class DocumentService {
         throw new ForbiddenError('Permission denied: insufficient access to delete this document');
       }
 
-      await DocumentModel.delete(documentId);
+      await DocumentModel.delete(documentId, requestingUserId);
+      await this.cleanUpDeletedDocument(documentId, document.file_path, requestingUserId);
 
       logger.info('Service: Document deleted successfully', { 
         document_id: documentId,
@@ -301,16 +509,182 @@ export class DocumentService {
   }
 
   /**
-   * Search documents
+   * Remove the vectors of a soft-deleted document and queue the removal of
+   * its current and earlier files. Files shared with other documents are
+   * kept, see removeStoredFileIfUnreferenced.
+   */
+  static async cleanUpDeletedDocument(
+    documentId: string,
+    filePath: string,
+    requestingUserId: string
+  ): Promise<void> {
+    const filePaths = new Set([filePath, ...await DocumentVersionModel.findFilePaths(documentId)]);
+
+    await SemanticSearchService.removeDocument(documentId);
+    for (const storedPath of filePaths) {
+      await JobQueue.enqueue(
+        'storage.cleanup',
+        { file_path: storedPath },
+        { created_by_user_id: requestingUserId }
+      );
+    }
+  }
+
+  /**
+   * Delete a blob from storage once no active document, current or earlier
+   * version, points at it. Returns whether the blob was deleted.
+   */
+  static async removeStoredFileIfUnreferenced(filePath: string): Promise<boolean> {
+    // Uploads reusing the blob take the same lock before adding a reference
+    return DatabaseConnection.transaction(async () => {
+      await DocumentModel.lockStoredFile(filePath);
+      if (await DocumentModel.isStoredFileReferenced(filePath)) {
+        return false;
+      }
+
+      await getStorageProvider().delete(filePath);
+      return true;
+    });
+  }
+
+  /**
+   * Get the version history of a document the user can read, newest first
+   */
+  static async getDocumentVersions(
+    documentId: string,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IDocumentVersionEntry[]> {
+    logger.info('Service: Fetching document versions', { 
+      document_id: documentId,
+      requesting_user: requestingUserId 
+    });
+
+    const document = await this.getDocumentById(documentId, requestingUserId, userPermissions);
+    const versions = await DocumentVersionModel.findByDocumentId(documentId);
+
+    return versions.map((version, index) => {
+      const previous = versions[index + 1];
+      return {
+        ...version,
+        is_current: version.version_number === document.version_number,
+        changes: previous
+          ? {
+            size_delta_bytes: Number(version.file_size_bytes) - Number(previous.file_size_bytes),
+            content_changed: version.file_hash && previous.file_hash
+              ? version.file_hash !== previous.file_hash
+              : version.file_path !== previous.file_path,
+            mime_type_changed: (version.mime_type || null) !== (previous.mime_type || null),
+          }
+          : null,
+      };
+    });
+  }
+
+  /**
+   * Upload a file as the new current version of a document the user can
+   * modify. The previous file is kept as an earlier version.
+   */
+  static async uploadDocumentVersion(
+    documentId: string,
+    file: Express.Multer.File,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IDocumentWithJoins> {
+    logger.info('Service: Uploading document version', { 
+      document_id: documentId,
+      original_name: file.originalname,
+      uploaded_by: requestingUserId 
+    });
+
+    await this.getDocumentForWrite(documentId, requestingUserId, userPermissions);
+
+    try {
+      const stored = await this.storeUploadedFile(
+        file,
+        await this.inspectUploadedFile(file),
+        storedFile => DocumentModel.addVersion(documentId, storedFile, requestingUserId)
+      );
+      const document = stored.result;
+
+      logger.info('Service: Document version uploaded successfully', { 
+        document_id: documentId,
+        version_number: document.version_number,
+        uploaded_by: requestingUserId 
+      });
+
+      return this.withNewExtraction(document, requestingUserId);
+    } catch (error) {
+      logger.error('Service: Failed to upload document version', { 
+        document_id: documentId,
+        error,
+        uploaded_by: requestingUserId 
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Make an earlier version's file current again. The restore is recorded
+   * as a new version, so no history is lost.
+   */
+  static async restoreDocumentVersion(
+    documentId: string,
+    versionNumber: number,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IDocumentWithJoins> {
+    logger.info('Service: Restoring document version', { 
+      document_id: documentId,
+      version_number: versionNumber,
+      restored_by: requestingUserId 
+    });
+
+    const current = await this.getDocumentForWrite(documentId, requestingUserId, userPermissions);
+
+    const version = await DocumentVersionModel.findByNumber(documentId, versionNumber);
+    if (!version) {
+      throw new NotFoundError('Document version not found');
+    }
+
+    if (version.version_number === current.version_number) {
+      throw new ConflictError(`Version ${versionNumber} is already the current version`);
+    }
+
+    const document = await DocumentModel.addVersion(
+      documentId,
+      {
+        file_path: version.file_path,
+        file_size_bytes: Number(version.file_size_bytes),
+        ...(version.mime_type && { mime_type: version.mime_type }),
+        ...(version.file_hash && { file_hash: version.file_hash }),
+      },
+      requestingUserId,
+      versionNumber
+    );
+
+    logger.info('Service: Document version restored successfully', { 
+      document_id: documentId,
+      restored_version: versionNumber,
+      version_number: document.version_number,
+      restored_by: requestingUserId 
+    });
+
+    return this.withNewExtraction(document, requestingUserId);
+  }
+
+  /**
+   * Full-text search over the documents the user can read. The query
+   * supports "quoted phrases", prefix* matches, -excluded terms and OR.
    */
   static async searchDocuments(
     searchQuery: string,
     page: number = 1,
     limit: number = 10,
-    filters: Partial<IDocumentFilters> = {},
+    filters: IDocumentSearchFilters = {},
     requestingUserId: string,
     userPermissions: string[]
-  ): Promise<IDocumentListResult> {
+  ): Promise<IDocumentSearchResult> {
     logger.info('Service: Searching documents', { 
       search_query: searchQuery,
       page, 
@@ -323,13 +697,28 @@ export class DocumentService {
       throw new BadRequestError('Search query is required');
     }
 
+    const parsedQuery = parseSearchQuery(searchQuery);
+    if (parsedQuery.length === 0) {
+      throw new BadRequestError('Search query has no searchable terms');
+    }
+
     try {
-      const searchFilters: IDocumentFilters = {
-        ...filters,
-        search: searchQuery
-      };
+      const result = await DocumentModel.search(
+        parsedQuery,
+        page,
+        limit,
+        filters,
+        requestingUserId,
+        userPermissions.includes('view_documents')
+      );
 
-      return await this.getDocuments(page, limit, searchFilters, requestingUserId, userPermissions);
+      logger.info('Service: Document search completed', { 
+        search_query: searchQuery,
+        total: result.total,
+        requesting_user: requestingUserId 
+      });
+
+      return result;
     } catch (error) {
       logger.error('Service: Failed to search documents', { 
         search_query: searchQuery,
@@ -437,6 +826,197 @@ export class DocumentService {
   }
 
   // Private helper methods
+  /**
+   * Check that the user may create the document where it is placed and
+   * insert it, without queueing its extraction
+   */
+  private static async insertDocument(
+    documentData: ICreateDocument,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IDocument> {
+    // Check folder permissions if document is being placed in a folder
+    if (documentData.folder_id) {
+      const hasWriteAccess = await FolderModel.checkUserPermission(
+        requestingUserId,
+        documentData.folder_id,
+        'write'
+      );
+        
+      if (!hasWriteAccess && !userPermissions.includes('create_documents')) {
+        throw new ForbiddenError('Permission denied: insufficient access to create documents in this folder');
+      }
+    } else {
+      // For root-level documents, require create_documents permission
+      if (!userPermissions.includes('create_documents')) {
+        throw new ForbiddenError('Permission denied: create_documents required');
+      }
+    }
+
+    // Set the uploaded_by_user_id to the requesting user
+    return DocumentModel.create({
+      ...documentData,
+      uploaded_by_user_id: requestingUserId,
+    });
+  }
+
+  /**
+   * Validate an uploaded file's type and compute its hash and size
+   */
+  private static async inspectUploadedFile(file: Express.Multer.File): Promise<IInspectedFile> {
+    const fileType = await detectFileType(file.path, file.originalname);
+    if (!fileType || !isAllowedFileType(fileType, config.upload.allowedTypes)) {
+      throw new AppError(
+        `Unsupported file type. Allowed types: ${config.upload.allowedTypes.join(', ')}`,
+        415
+      );
+    }
+
+    const { hash, size } = await hashFile(file.path);
+    if (size === 0) {
+      throw new BadRequestError('Uploaded file is empty');
+    }
+
+    return {
+      mime_type: fileType.mime_type,
+      extension: fileType.extension,
+      file_hash: hash,
+      file_size_bytes: size,
+    };
+  }
+
+  /**
+   * Store an uploaded file and record it with `addReference`, which inserts
+   * the row pointing at the blob. The blob of an active document with the
+   * same content is reused when re-hashing it confirms the content. Reuse
+   * happens in one transaction under the blob's lock, the same lock
+   * removeStoredFileIfUnreferenced takes, so a queued cleanup either runs
+   * first (and the file is stored again) or sees the new reference. A new
+   * blob is deleted again if the reference cannot be added.
+   */
+  private static async storeUploadedFile<T>(
+    file: Express.Multer.File,
+    inspectedFile: IInspectedFile,
+    addReference: (storedFile: IDocumentFile) => Promise<T>
+  ): Promise<{ result: T; reused: boolean }> {
+    const storage = getStorageProvider();
+    const { mime_type, extension, file_hash, file_size_bytes } = inspectedFile;
+
+    const existingPath = await this.findVerifiedStoredFile(file_hash, file_size_bytes);
+    if (existingPath) {
+      const reused = await DatabaseConnection.transaction(async () => {
+        await DocumentModel.lockStoredFile(existingPath);
+        if (!await storage.exists(existingPath)) {
+          return null;
+        }
+        return { result: await addReference({ file_path: existingPath, file_size_bytes, mime_type, file_hash }) };
+      });
+
+      if (reused) {
+        return { result: reused.result, reused: true };
+      }
+    }
+
+    const storageKey = path.posix.join('documents', `${uuidv4()}.${extension}`);
+    await storage.put(storageKey, createReadStream(file.path), {
+      content_type: mime_type,
+      content_length: file_size_bytes,
+    });
+
+    try {
+      const result = await addReference({ file_path: storageKey, file_size_bytes, mime_type, file_hash });
+      return { result, reused: false };
+    } catch (error) {
+      await storage.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a stored blob with the given content that is safe to share. The
+   * candidates are version files of active documents, and each is hashed
+   * again so a blob that does not match its recorded hash is never reused.
+   */
+  private static async findVerifiedStoredFile(fileHash: string, fileSizeBytes: number): Promise<string | null> {
+    const storage = getStorageProvider();
+    const candidates = await DocumentVersionModel.findFilePathsByHash(
+      fileHash,
+      fileSizeBytes,
+      MAX_REUSE_CANDIDATES
+    );
+
+    for (const candidate of candidates) {
+      try {
+        const digest = await hashStream(await storage.stream(candidate));
+        if (digest.hash === fileHash && digest.size === fileSizeBytes) {
+          return candidate;
+        }
+        logger.warn('Service: Stored file does not match its recorded hash', { file_path: candidate });
+      } catch (error) {
+        logger.warn('Service: Could not verify stored file for reuse', { file_path: candidate, error });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The oldest document in a folder with the given content that the user
+   * can read. Documents the user cannot see are not reported.
+   */
+  private static async findReadableDuplicate(
+    fileHash: string,
+    folderId: string | null,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IDocumentWithJoins | null> {
+    const candidates = await DocumentModel.findByHashInFolder(fileHash, folderId);
+
+    for (const candidate of candidates) {
+      if (await this.checkDocumentAccess(candidate, requestingUserId, userPermissions, 'read')) {
+        return DocumentModel.findById(candidate.document_id);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The document with an earlier version's file in place of the current one
+   */
+  private static async withVersionFile(
+    document: IDocumentWithJoins,
+    versionNumber?: number
+  ): Promise<IDocumentWithJoins> {
+    if (versionNumber === undefined || versionNumber === document.version_number) {
+      return document;
+    }
+
+    const version = await DocumentVersionModel.findByNumber(document.document_id, versionNumber);
+    if (!version) {
+      throw new NotFoundError('Document version not found');
+    }
+
+    const { mime_type, file_hash, ...rest } = document;
+    return {
+      ...rest,
+      file_path: version.file_path,
+      file_size_bytes: version.file_size_bytes,
+      ...(version.mime_type && { mime_type: version.mime_type }),
+      ...(version.file_hash && { file_hash: version.file_hash }),
+    };
+  }
+
+  /**
+   * Queue extraction of a document's new current file and return the
+   * document as the API shows it
+   */
+  private static async withNewExtraction(document: IDocument, requestingUserId: string): Promise<IDocumentWithJoins> {
+    const extractionJob = await ExtractionService.scheduleExtraction(document, requestingUserId);
+    const documentWithJoins = (await DocumentModel.findById(document.document_id))!;
+    return { ...documentWithJoins, extraction_status: 'pending', extraction_job_id: extractionJob.job_id };
+  }
+
   private static async applyPermissionFilters(
     filters: IDocumentFilters,
     requestingUserId: string,
@@ -0,0 +1,128 @@
+import {
+  DocumentAccessModel,
+  DocumentAccessType,
+  IDocumentAccessFilters,
+  IDocumentAccessWithJoins
+} from '@models/DocumentAccess.model';
+import { IDocument } from '@models/Document.model';
+import { IVectorSearchHit } from '@services/vectors';
+import { BadRequestError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+type AccessedDocument = Pick<IDocument, 'document_id' | 'document_name'>;
+
+export interface IDocumentAccessPage {
+  entries: IDocumentAccessWithJoins[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+/**
+ * Records who read which documents and chunks, and why. Recording errors
+ * are thrown so a read is never served without its trail.
+ */
+export class DocumentAccessService {
+  /**
+   * Record a download or preview of a document's file
+   */
+  static async recordFileAccess(
+    document: AccessedDocument,
+    userId: string,
+    accessType: Extract<DocumentAccessType, 'download' | 'preview'>,
+    details?: Record<string, any>
+  ): Promise<void> {
+    await DocumentAccessModel.createMany([{
+      document_id: document.document_id,
+      document_name: document.document_name,
+      user_id: userId,
+      access_type: accessType,
+      ...(details && { details }),
+    }]);
+  }
+
+  /**
+   * Record the documents a keyword search returned to a user
+   */
+  static async recordSearchHits(documents: AccessedDocument[], userId: string, query: string): Promise<void> {
+    await DocumentAccessModel.createMany(documents.map((document, index) => ({
+      document_id: document.document_id,
+      document_name: document.document_name,
+      user_id: userId,
+      access_type: 'search_hit',
+      details: { query, rank: index + 1 },
+    })));
+  }
+
+  /**
+   * Record the chunks a semantic search returned to a user
+   */
+  static async recordChunkSearchHits(hits: IVectorSearchHit[], userId: string, query: string): Promise<void> {
+    await DocumentAccessModel.createMany(hits.map((hit, index) => ({
+      document_id: hit.document_id,
+      document_name: hit.document_name,
+      chunk_id: hit.chunk_id,
+      user_id: userId,
+      access_type: 'search_hit',
+      details: { query, rank: index + 1, score: hit.score },
+    })));
+  }
+
+  /**
+   * Record the chunks given to the chat model to answer a user's message
+   */
+  static async recordAIContext(
+    sources: IVectorSearchHit[],
+    userId: string,
+    conversationId: string,
+    messageId: string
+  ): Promise<void> {
+    await DocumentAccessModel.createMany(sources.map((source, index) => ({
+      document_id: source.document_id,
+      document_name: source.document_name,
+      chunk_id: source.chunk_id,
+      user_id: userId,
+      access_type: 'ai_context',
+      conversation_id: conversationId,
+      message_id: messageId,
+      details: { source_index: index + 1, score: source.score },
+    })));
+  }
+
+  /**
+   * Get document accesses, newest first
+   */
+  static async getAccessLog(
+    filters: IDocumentAccessFilters,
+    cursor?: string,
+    limit: number = 50
+  ): Promise<IDocumentAccessPage> {
+    logger.info('Service: Fetching document access log', { filters, cursor, limit });
+
+    if (filters.from && filters.to && filters.from >= filters.to) {
+      throw new BadRequestError('from must be before to');
+    }
+
+    if (cursor && !(await DocumentAccessModel.exists(cursor))) {
+      throw new BadRequestError('Invalid cursor');
+    }
+
+    try {
+      const { entries, hasMore } = await DocumentAccessModel.find(filters, cursor, limit);
+      const lastEntry = entries[entries.length - 1];
+
+      logger.info('Service: Document access log fetched successfully', {
+        count: entries.length,
+        has_more: hasMore
+      });
+
+      return {
+        entries,
+        next_cursor: hasMore && lastEntry ? lastEntry.access_id : null,
+        has_more: hasMore,
+      };
+    } catch (error) {
+      logger.error('Service: Failed to fetch document access log', { filters, error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { ExternalServiceError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+import { withRetry } from '@utils/retry';
+
+/**
+ * Turns text into fixed-length vectors. Every vector a provider returns has
+ * `dimensions` entries; vectors from different models are not comparable.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimensions: number;
+  readonly maxBatchSize: number;
+
+  // Vectors are returned in the same order as the input texts
+  embed(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+export interface IEmbeddingProviderOptions {
+  model: string;
+  dimensions: number;
+  maxBatchSize?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+}
+
+/**
+ * Shared batching, retry/backoff and dimension checks. Subclasses only
+ * implement a single request for one batch.
+ */
+export abstract class BaseEmbeddingProvider implements EmbeddingProvider {
+  public abstract readonly name: string;
+  public readonly model: string;
+  public readonly dimensions: number;
+  public readonly maxBatchSize: number;
+  protected readonly maxRetries: number;
+  protected readonly retryBaseDelayMs: number;
+
+  constructor(options: IEmbeddingProviderOptions) {
+    this.model = options.model;
+    this.dimensions = options.dimensions;
+    this.maxBatchSize = options.maxBatchSize || 64;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+  }
+
+  protected abstract embedBatch(texts: string[]): Promise<number[][]>;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += this.maxBatchSize) {
+      const batch = texts.slice(start, start + this.maxBatchSize);
+
+      const batchVectors = await withRetry(() => this.embedBatch(batch), {
+        retries: this.maxRetries,
+        baseDelayMs: this.retryBaseDelayMs,
+        shouldRetry: error => error instanceof ExternalServiceError && error.retryable,
+        getDelayMs: error => (error instanceof ExternalServiceError ? error.retryAfterMs : undefined),
+        onRetry: (error, attempt, delayMs) => {
+          logger.warn('Embedding request failed, retrying', { 
+            provider: this.name,
+            attempt,
+            delay_ms: delayMs,
+            error: error instanceof Error ? error.message : error 
+          });
+        },
+      });
+
+      this.assertBatchShape(batch, batchVectors);
+      vectors.push(...batchVectors);
+    }
+
+    return vectors;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embed([text]);
+    return vector!;
+  }
+
+  private assertBatchShape(batch: string[], vectors: number[][]): void {
+    if (vectors.length !== batch.length) {
+      throw new ExternalServiceError(
+        this.name,
+        `Embedding provider returned ${vectors.length} vectors for ${batch.length} inputs`
+      );
+    }
+
+    const wrongSize = vectors.find(vector => vector.length !== this.dimensions);
+    if (wrongSize) {
+      throw new ExternalServiceError(
+        this.name,
+        `Embedding provider returned ${wrongSize.length} dimensions, expected ${this.dimensions}`
+      );
+    }
+  }
+}
+
+/**
+ * Scale a vector to unit length so dot product equals cosine similarity
+ */
+export const normalizeVector = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+};
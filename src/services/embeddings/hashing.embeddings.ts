@@ -0,0 +1,57 @@
+import { BaseEmbeddingProvider, IEmbeddingProviderOptions, normalizeVector } from './embedding.provider';
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// 32-bit FNV-1a; stable across processes and platforms
+const fnv1a = (value: string, seed: number = 0x811c9dc5): number => {
+  let hash = seed;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic local embedder using the hashing trick over words and word
+ * bigrams. Texts sharing vocabulary get similar vectors, which is enough to
+ * exercise retrieval end to end without network access or model files.
+ */
+export class HashingEmbeddingProvider extends BaseEmbeddingProvider {
+  public readonly name = 'hashing';
+
+  constructor(options: Partial<IEmbeddingProviderOptions> = {}) {
+    super({
+      ...options,
+      model: options.model || 'hashing-v1',
+      dimensions: options.dimensions || 384,
+      maxBatchSize: options.maxBatchSize || 256,
+      maxRetries: 0,
+    });
+  }
+
+  protected async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = (text.toLowerCase().match(TOKEN_PATTERN) || []);
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // A second hash picks the sign so collisions tend to cancel out
+      const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+      vector[hash % this.dimensions]! += sign * weight;
+    };
+
+    words.forEach((word, index) => {
+      addFeature(word, 1);
+      if (index > 0) {
+        addFeature(`${words[index - 1]} ${word}`, 0.5);
+      }
+    });
+
+    return normalizeVector(vector);
+  }
+}
@@ -0,0 +1,61 @@
+import { config } from '@config/config';
+import { logger } from '@utils/logger';
+import { EmbeddingProvider } from './embedding.provider';
+import { HashingEmbeddingProvider } from './hashing.embeddings';
+import { MockEmbeddingProvider } from './mock.embeddings';
+import { OpenAIEmbeddingProvider } from './openai.embeddings';
+
+export * from './embedding.provider';
+export { HashingEmbeddingProvider } from './hashing.embeddings';
+export { MockEmbeddingProvider } from './mock.embeddings';
+export { OpenAIEmbeddingProvider } from './openai.embeddings';
+
+let provider: EmbeddingProvider | null = null;
+
+const createEmbeddingProvider = (): EmbeddingProvider => {
+  const { embeddings } = config;
+  const options = {
+    ...(embeddings.model && { model: embeddings.model }),
+    ...(embeddings.dimensions && { dimensions: embeddings.dimensions }),
+    maxBatchSize: embeddings.batchSize,
+    maxRetries: embeddings.maxRetries,
+  };
+
+  switch (embeddings.provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider({
+        ...options,
+        apiKey: config.ai.openai.apiKey,
+        organization: config.ai.openai.orgId,
+        baseUrl: config.ai.openai.baseUrl,
+        timeoutMs: embeddings.timeoutMs,
+        requestDimensions: !!embeddings.dimensions,
+      });
+    case 'mock':
+      return new MockEmbeddingProvider(options);
+    case 'hashing':
+    default:
+      return new HashingEmbeddingProvider(options);
+  }
+};
+
+/**
+ * Get the embedding provider selected by EMBEDDING_PROVIDER
+ */
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (!provider) {
+    provider = createEmbeddingProvider();
+    logger.info(`Embedding provider initialized: ${provider.name}`, { 
+      model: provider.model,
+      dimensions: provider.dimensions 
+    });
+  }
+  return provider;
+};
+
+/**
+ * Replace the active embedding provider (e.g. with a mock in tests)
+ */
+export const setEmbeddingProvider = (embeddingProvider: EmbeddingProvider): void => {
+  provider = embeddingProvider;
+};
@@ -0,0 +1,63 @@
+import { ExternalServiceError } from '@utils/AppError';
+import { BaseEmbeddingProvider, IEmbeddingProviderOptions, normalizeVector } from './embedding.provider';
+
+/**
+ * Offline provider for tests: returns a fixed vector per known text (or a
+ * seeded pseudo-random one), records every batch it receives and can be
+ * told to fail the next requests to exercise retry handling.
+ */
+export class MockEmbeddingProvider extends BaseEmbeddingProvider {
+  public readonly name = 'mock';
+  public readonly calls: string[][] = [];
+  private readonly fixedVectors = new Map<string, number[]>();
+  private pendingFailures: ExternalServiceError[] = [];
+
+  constructor(options: Partial<IEmbeddingProviderOptions> = {}) {
+    super({
+      ...options,
+      model: options.model || 'mock-embedding',
+      dimensions: options.dimensions || 8,
+      retryBaseDelayMs: options.retryBaseDelayMs ?? 0,
+    });
+  }
+
+  setVector(text: string, vector: number[]): this {
+    this.fixedVectors.set(text, vector);
+    return this;
+  }
+
+  failNext(count: number = 1, retryable: boolean = true): this {
+    for (let index = 0; index < count; index++) {
+      this.pendingFailures.push(new ExternalServiceError(this.name, 'Mock embedding failure', { retryable }));
+    }
+    return this;
+  }
+
+  protected async embedBatch(texts: string[]): Promise<number[][]> {
+    this.calls.push(texts);
+
+    const failure = this.pendingFailures.shift();
+    if (failure) {
+      throw failure;
+    }
+
+    return texts.map(text => this.fixedVectors.get(text) || this.seededVector(text));
+  }
+
+  private seededVector(text: string): number[] {
+    let state = 0;
+    for (let index = 0; index < text.length; index++) {
+      state = (Math.imul(state, 31) + text.charCodeAt(index)) | 0;
+    }
+
+    const vector: number[] = [];
+    for (let index = 0; index < this.dimensions; index++) {
+      // xorshift32
+      state ^= state << 13;
+      state ^= state >>> 17;
+      state ^= state << 5;
+      vector.push((state >>> 0) / 0xffffffff - 0.5);
+    }
+    return normalizeVector(vector);
+  }
+}
@@ -0,0 +1,93 @@
+import axios, { AxiosInstance } from 'axios';
+import { ExternalServiceError } from '@utils/AppError';
+import { BaseEmbeddingProvider, IEmbeddingProviderOptions } from './embedding.provider';
+
+export interface IOpenAIEmbeddingOptions extends Partial<IEmbeddingProviderOptions> {
+  apiKey?: string | undefined;
+  organization?: string | undefined;
+  baseUrl: string;
+  timeoutMs?: number;
+  // Send `dimensions` in the request (text-embedding-3 models can shorten vectors)
+  requestDimensions?: boolean;
+}
+
+// Native output sizes of the well-known OpenAI embedding models
+const MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+const DEFAULT_MODEL = 'text-embedding-3-small';
+
+const parseRetryAfter = (value: unknown): number | undefined => {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+};
+
+/**
+ * Client for the OpenAI `/embeddings` API. Any server speaking the same
+ * protocol (e.g. a local stand-in) can be used by changing the base URL.
+ */
+export class OpenAIEmbeddingProvider extends BaseEmbeddingProvider {
+  public readonly name = 'openai';
+  private readonly http: AxiosInstance;
+  private readonly requestDimensions: boolean;
+
+  constructor(options: IOpenAIEmbeddingOptions) {
+    const model = options.model || DEFAULT_MODEL;
+    super({
+      ...options,
+      model,
+      dimensions: options.dimensions || MODEL_DIMENSIONS[model] || 1536,
+    });
+
+    this.requestDimensions = options.requestDimensions ?? false;
+    this.http = axios.create({
+      baseURL: options.baseUrl.replace(/\/+$/, ''),
+      timeout: options.timeoutMs || 30000,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+        ...(options.organization && { 'OpenAI-Organization': options.organization }),
+      },
+    });
+  }
+
+  protected async embedBatch(texts: string[]): Promise<number[][]> {
+    try {
+      const response = await this.http.post('/embeddings', {
+        model: this.model,
+        input: texts,
+        encoding_format: 'float',
+        ...(this.requestDimensions && { dimensions: this.dimensions }),
+      });
+
+      const data: Array<{ index: number; embedding: number[] }> = response.data?.data || [];
+      return [...data]
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    } catch (error) {
+      throw this.toServiceError(error);
+    }
+  }
+
+  private toServiceError(error: unknown): ExternalServiceError {
+    if (!axios.isAxiosError(error)) {
+      return new ExternalServiceError(this.name, error instanceof Error ? error.message : String(error));
+    }
+
+    const status = error.response?.status;
+    const detail = error.response?.data?.error?.message || error.message;
+
+    // Rate limits, server errors and network failures are worth retrying
+    const retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+    const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+
+    return new ExternalServiceError(
+      this.name,
+      `Embedding request failed${status ? ` (${status})` : ''}: ${detail}`,
+      { retryable, ...(retryAfterMs !== undefined && { retryAfterMs }) }
+    );
+  }
+}
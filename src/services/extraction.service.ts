@@ -0,0 +1,208 @@
+import { config } from '@config/config';
+import { DocumentModel, IDocument } from '@models/Document.model';
+import {
+  DocumentExtractionModel,
+  ExtractionStatus,
+  IDocumentExtraction,
+} from '@models/DocumentExtraction.model';
+import { DocumentChunkModel } from '@models/DocumentChunk.model';
+import { ChunkingService } from '@services/chunking.service';
+import { DocumentService } from '@services/document.service';
+import { SemanticSearchService } from '@services/semanticSearch.service';
+import { getExtractorForMimeType } from '@services/extraction';
+import { IJob, JobQueue } from '@services/jobs';
+import { getStorageProvider } from '@services/storage';
+import { ConflictError, NotFoundError, UnprocessableEntityError } from '@utils/AppError';
+import { isRetryableError } from '@utils/retry';
+import { logger } from '@utils/logger';
+
+export class ExtractionService {
+  /**
+   * Mark a document's extraction as pending and queue a job to process it.
+   * The calling request does not wait for the extraction to finish.
+   */
+  static async scheduleExtraction(
+    document: Pick<IDocument, 'document_id' | 'version_number'>,
+    requestingUserId?: string
+  ): Promise<IJob<'document.extract'>> {
+    await DocumentExtractionModel.markPending(document.document_id, document.version_number || 1);
+
+    return JobQueue.enqueue(
+      'document.extract',
+      { document_id: document.document_id },
+      { ...(requestingUserId && { created_by_user_id: requestingUserId }) }
+    );
+  }
+
+  /**
+   * Extract text from a document's stored file and record the outcome.
+   * Returns the final status, or null when the extraction was not claimable
+   * or was superseded while running (a new version reset it to pending, or
+   * another worker took it over), in which case nothing is recorded.
+   *
+   * Transient failures (storage, database, embedding provider) are thrown
+   * so the job is retried with backoff, unless this is its last attempt;
+   * the extraction goes back to pending meanwhile. Files that cannot be
+   * parsed, and failures on the last attempt, mark the extraction failed.
+   */
+  static async processDocument(documentId: string, isLastAttempt: boolean = true): Promise<ExtractionStatus | null> {
+    // An extraction whose heartbeat stopped for a job lease lost its worker
+    const versionNumber = await DocumentExtractionModel.markProcessing(documentId, config.jobs.leaseMs);
+    if (versionNumber === null) {
+      return null;
+    }
+
+    logger.info('Service: Extracting document text', { document_id: documentId, version_number: versionNumber });
+
+    try {
+      const document = await DocumentModel.findById(documentId);
+      if (!document) {
+        const failed = await DocumentExtractionModel.markFailed(documentId, versionNumber, 'Document not found');
+        return failed ? 'failed' : this.superseded(documentId, versionNumber);
+      }
+
+      const extractor = getExtractorForMimeType(document.mime_type);
+      if (!extractor) {
+        const skipped = await DocumentExtractionModel.markSkipped(
+          documentId,
+          versionNumber,
+          `No text extractor for type ${document.mime_type || 'unknown'}`
+        );
+        if (!skipped) {
+          return this.superseded(documentId, versionNumber);
+        }
+        await DocumentChunkModel.deleteByDocumentId(documentId);
+        await SemanticSearchService.removeDocument(documentId);
+        logger.info('Service: Document extraction skipped', { document_id: documentId, mime_type: document.mime_type });
+        return 'skipped';
+      }
+
+      const content = await getStorageProvider().get(document.file_path);
+      const result = await extractor.extract(content).catch((error: unknown) => {
+        // A file the extractor cannot parse will not parse on a retry either
+        throw new UnprocessableEntityError(error instanceof Error ? error.message : String(error));
+      });
+      const chunkCount = await ChunkingService.chunkDocument(document, result);
+
+      const indexed = await DocumentExtractionModel.markIndexed(documentId, versionNumber, {
+        extractor: extractor.name,
+        content_text: result.text,
+        structure: result.structure,
+        ...(result.structure.pages.length > 0 && { page_count: result.structure.pages.length }),
+      });
+      if (!indexed) {
+        return this.superseded(documentId, versionNumber);
+      }
+
+      logger.info('Service: Document text extracted', { 
+        document_id: documentId,
+        extractor: extractor.name,
+        character_count: result.text.length,
+        chunk_count: chunkCount 
+      });
+
+      return 'indexed';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (!isLastAttempt && isRetryableError(error)) {
+        await DocumentExtractionModel.markRetrying(documentId, versionNumber, message);
+        logger.warn('Service: Document extraction failed, will retry', { document_id: documentId, error: message });
+        throw error;
+      }
+
+      if (!await DocumentExtractionModel.markFailed(documentId, versionNumber, message)) {
+        return this.superseded(documentId, versionNumber);
+      }
+      // Chunks of a previous version must not outlive a failed re-extraction
+      await DocumentChunkModel.deleteByDocumentId(documentId);
+      await SemanticSearchService.removeDocument(documentId);
+
+      logger.error('Service: Document extraction failed', { document_id: documentId, error });
+      return 'failed';
+    }
+  }
+
+  /**
+   * Log that a run's result was dropped because the extraction moved on
+   */
+  private static superseded(documentId: string, versionNumber: number): null {
+    logger.info('Service: Document extraction superseded, result discarded', {
+      document_id: documentId,
+      version_number: versionNumber
+    });
+    return null;
+  }
+
+  /**
+   * Keep a running extraction from being taken over while its worker lives
+   */
+  static async heartbeat(documentId: string): Promise<void> {
+    await DocumentExtractionModel.heartbeat(documentId);
+  }
+
+  /**
+   * Get the extraction of a document the user can read
+   */
+  static async getDocumentExtraction(
+    documentId: string,
+    requestingUserId: string,
+    userPermissions: string[],
+    includeText: boolean = false
+  ): Promise<IDocumentExtraction> {
+    await DocumentService.getDocumentById(documentId, requestingUserId, userPermissions);
+
+    const extraction = await DocumentExtractionModel.findByDocumentId(documentId, includeText);
+    if (!extraction) {
+      throw new NotFoundError('Document has not been queued for extraction');
+    }
+
+    return extraction;
+  }
+
+  /**
+   * Queue a fresh extraction of a document the user can modify
+   */
+  static async reextractDocument(
+    documentId: string,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<{ extraction: IDocumentExtraction; job: IJob<'document.extract'> }> {
+    const document = await DocumentService.getDocumentForWrite(documentId, requestingUserId, userPermissions);
+
+    const current = await DocumentExtractionModel.findByDocumentId(documentId);
+    if (current?.status === 'processing') {
+      throw new ConflictError('Document extraction is already in progress');
+    }
+
+    const job = await this.scheduleExtraction(document, requestingUserId);
+
+    logger.info('Service: Document re-extraction queued', { 
+      document_id: documentId,
+      job_id: job.job_id,
+      requested_by: requestingUserId 
+    });
+
+    return {
+      extraction: (await DocumentExtractionModel.findByDocumentId(documentId))!,
+      job,
+    };
+  }
+
+  /**
+   * Queue jobs for extractions left unfinished, e.g. pending extractions
+   * whose job was dead-lettered or extractions whose worker died. A
+   * duplicate job for an extraction that is already queued does nothing.
+   */
+  static async resumeUnfinishedExtractions(): Promise<void> {
+    const documentIds = await DocumentExtractionModel.resetUnfinished(config.jobs.leaseMs);
+
+    for (const documentId of documentIds) {
+      await JobQueue.enqueue('document.extract', { document_id: documentId });
+    }
+
+    if (documentIds.length > 0) {
+      logger.info('Service: Resumed unfinished document extractions', { count: documentIds.length });
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import mammoth from 'mammoth';
+import WordExtractor from 'word-extractor';
+import { DocumentExtractor, ExtractedTextBuilder, IExtractionResult } from './extractor';
+import { extractHtml } from './html.extractor';
+
+/**
+ * DOCX files are converted to semantic HTML first so Word heading styles
+ * come through as headings in the structure
+ */
+export class DocxExtractor implements DocumentExtractor {
+  public readonly name = 'docx';
+  public readonly mimeTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'] as const;
+
+  async extract(content: Buffer): Promise<IExtractionResult> {
+    const { value: html } = await mammoth.convertToHtml({ buffer: content });
+    return extractHtml(html);
+  }
+}
+
+/**
+ * Legacy binary Word (.doc) files only expose their body text
+ */
+export class DocExtractor implements DocumentExtractor {
+  public readonly name = 'doc';
+  public readonly mimeTypes = ['application/msword'] as const;
+
+  async extract(content: Buffer): Promise<IExtractionResult> {
+    const document = await new WordExtractor().extract(content);
+    const builder = new ExtractedTextBuilder();
+
+    for (const paragraph of document.getBody().split(/\n\s*\n/)) {
+      builder.appendBlock(paragraph);
+    }
+
+    return builder.build();
+  }
+}
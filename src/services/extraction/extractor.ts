@@ -0,0 +1,112 @@
+export interface IExtractedPage {
+  page_number: number;
+  start_offset: number;
+  end_offset: number;
+}
+
+export interface IExtractedHeading {
+  level: number;
+  text: string;
+  offset: number;
+  page_number?: number;
+}
+
+export interface IExtractionStructure {
+  pages: IExtractedPage[];
+  headings: IExtractedHeading[];
+}
+
+export interface IExtractionResult {
+  text: string;
+  structure: IExtractionStructure;
+}
+
+/**
+ * Turns the bytes of one family of file formats into normalized plain text.
+ * Offsets in the structure refer to positions in the returned text.
+ */
+export interface DocumentExtractor {
+  readonly name: string;
+  readonly mimeTypes: readonly string[];
+
+  extract(content: Buffer): Promise<IExtractionResult>;
+}
+
+/**
+ * Normalize a run of text: unicode NFC, unix newlines, collapsed horizontal
+ * whitespace, trimmed lines and at most one blank line between paragraphs
+ */
+export const normalizeText = (text: string): string => {
+  return text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u00A0\t\f\v ]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+/**
+ * Accumulates normalized blocks of text separated by blank lines while
+ * recording page boundaries and heading positions
+ */
+export class ExtractedTextBuilder {
+  private text = '';
+  private readonly pages: IExtractedPage[] = [];
+  private readonly headings: IExtractedHeading[] = [];
+  private currentPage: number | undefined;
+
+  appendBlock(block: string): number | null {
+    const normalized = normalizeText(block);
+    if (!normalized) {
+      return null;
+    }
+
+    if (this.text) {
+      this.text += '\n\n';
+    }
+    const offset = this.text.length;
+    this.text += normalized;
+    return offset;
+  }
+
+  appendHeading(level: number, heading: string): void {
+    const offset = this.appendBlock(heading);
+    if (offset === null) {
+      return;
+    }
+
+    this.headings.push({
+      level,
+      text: normalizeText(heading),
+      offset,
+      ...(this.currentPage !== undefined && { page_number: this.currentPage }),
+    });
+  }
+
+  appendPage(pageNumber: number, pageText: string): void {
+    this.currentPage = pageNumber;
+    const startOffset = this.appendBlock(pageText);
+    if (startOffset === null) {
+      return;
+    }
+
+    this.pages.push({
+      page_number: pageNumber,
+      start_offset: startOffset,
+      end_offset: this.text.length,
+    });
+  }
+
+  build(): IExtractionResult {
+    return {
+      text: this.text,
+      structure: {
+        pages: this.pages,
+        headings: this.headings,
+      },
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { Parser } from 'htmlparser2';
+import { DocumentExtractor, ExtractedTextBuilder, IExtractionResult } from './extractor';
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg', 'iframe']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'form', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table',
+  'tbody', 'thead', 'tfoot', 'tr', 'ul',
+]);
+const HEADING_LEVELS: Record<string, number> = { h1: 1, h2: 2, h3: 3, h4: 4, h5: 5, h6: 6 };
+
+/**
+ * Convert an HTML string to text blocks, recording h1-h6 as headings
+ */
+export const extractHtml = (html: string): IExtractionResult => {
+  const builder = new ExtractedTextBuilder();
+  let buffer = '';
+  let skipDepth = 0;
+  let headingLevel: number | null = null;
+
+  const flush = () => {
+    if (headingLevel !== null) {
+      builder.appendHeading(headingLevel, buffer);
+    } else {
+      builder.appendBlock(buffer);
+    }
+    buffer = '';
+  };
+
+  const parser = new Parser({
+    onopentag(name) {
+      if (SKIPPED_TAGS.has(name)) {
+        skipDepth++;
+        return;
+      }
+      if (skipDepth > 0) {
+        return;
+      }
+
+      const level = HEADING_LEVELS[name];
+      if (level !== undefined) {
+        flush();
+        headingLevel = level;
+      } else if (BLOCK_TAGS.has(name)) {
+        flush();
+      } else if (name === 'br') {
+        buffer += '\n';
+      } else if (name === 'td' || name === 'th') {
+        buffer += ' ';
+      }
+    },
+    ontext(text) {
+      if (skipDepth === 0) {
+        buffer += text;
+      }
+    },
+    onclosetag(name) {
+      if (SKIPPED_TAGS.has(name)) {
+        skipDepth = Math.max(0, skipDepth - 1);
+        return;
+      }
+      if (skipDepth > 0) {
+        return;
+      }
+
+      if (HEADING_LEVELS[name] !== undefined) {
+        flush();
+        headingLevel = null;
+      } else if (BLOCK_TAGS.has(name)) {
+        flush();
+      }
+    },
+  }, { decodeEntities: true });
+
+  parser.write(html);
+  parser.end();
+  flush();
+
+  return builder.build();
+};
+
+export class HtmlExtractor implements DocumentExtractor {
+  public readonly name = 'html';
+  public readonly mimeTypes = ['text/html'] as const;
+
+  async extract(content: Buffer): Promise<IExtractionResult> {
+    return extractHtml(content.toString('utf8'));
+  }
+}
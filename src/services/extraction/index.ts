@@ -0,0 +1,29 @@
+import { DocumentExtractor } from './extractor';
+import { DocExtractor, DocxExtractor } from './docx.extractor';
+import { HtmlExtractor } from './html.extractor';
+import { MarkdownExtractor } from './markdown.extractor';
+import { PdfExtractor } from './pdf.extractor';
+import { TextExtractor } from './text.extractor';
+
+export * from './extractor';
+
+const extractors: DocumentExtractor[] = [
+  new PdfExtractor(),
+  new DocxExtractor(),
+  new DocExtractor(),
+  new MarkdownExtractor(),
+  new HtmlExtractor(),
+  new TextExtractor(),
+];
+
+/**
+ * Find the extractor for a MIME type, or null when the type has no text
+ * (e.g. images)
+ */
+export const getExtractorForMimeType = (mimeType?: string | null): DocumentExtractor | null => {
+  if (!mimeType) {
+    return null;
+  }
+  const baseType = mimeType.split(';')[0]!.trim().toLowerCase();
+  return extractors.find(extractor => extractor.mimeTypes.includes(baseType)) || null;
+};
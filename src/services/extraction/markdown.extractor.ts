@@ -0,0 +1,91 @@
+import { DocumentExtractor, ExtractedTextBuilder, IExtractionResult } from './extractor';
+
+/**
+ * Strip inline Markdown syntax while keeping the readable text
+ */
+const stripInlineMarkdown = (line: string): string => {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/(\*|_)(.*?)\1/g, '$2')
+    .replace(/~~(.*?)~~/g, '$1')
+    .replace(/`([^`]*)`/g, '$1');
+};
+
+export class MarkdownExtractor implements DocumentExtractor {
+  public readonly name = 'markdown';
+  public readonly mimeTypes = ['text/markdown'] as const;
+
+  async extract(content: Buffer): Promise<IExtractionResult> {
+    const builder = new ExtractedTextBuilder();
+    const lines = content.toString('utf8').replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+
+    let paragraph: string[] = [];
+    let inCodeBlock = false;
+
+    const flushParagraph = () => {
+      builder.appendBlock(paragraph.join('\n'));
+      paragraph = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]!;
+
+      // Fenced code is kept verbatim
+      if (/^\s*(```|~~~)/.test(line)) {
+        if (inCodeBlock) {
+          flushParagraph();
+        }
+        inCodeBlock = !inCodeBlock;
+        continue;
+      }
+      if (inCodeBlock) {
+        paragraph.push(line);
+        continue;
+      }
+
+      const atxHeading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+      if (atxHeading) {
+        flushParagraph();
+        builder.appendHeading(atxHeading[1]!.length, stripInlineMarkdown(atxHeading[2]!));
+        continue;
+      }
+
+      // Setext headings: a text line underlined with === or ---
+      const nextLine = lines[i + 1];
+      if (line.trim() && paragraph.length === 0 && nextLine !== undefined && /^\s{0,3}(=+|-+)\s*$/.test(nextLine)) {
+        builder.appendHeading(nextLine.trim().startsWith('=') ? 1 : 2, stripInlineMarkdown(line));
+        i++;
+        continue;
+      }
+
+      if (!line.trim()) {
+        flushParagraph();
+        continue;
+      }
+
+      // Horizontal rules carry no text
+      if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+        flushParagraph();
+        continue;
+      }
+
+      const text = line
+        .replace(/^\s{0,3}>\s?/, '')
+        .replace(/^\s*([-*+]|\d+[.)])\s+/, '')
+        .replace(/^\s*\|?(.*?)\|?\s*$/, (match, cells: string) => (match.includes('|') ? cells.replace(/\s*\|\s*/g, ' | ') : match));
+
+      // Table separator rows (|---|:---:|) carry no text
+      if (/^[\s|:-]+$/.test(text) && text.includes('-')) {
+        continue;
+      }
+
+      paragraph.push(stripInlineMarkdown(text));
+    }
+    flushParagraph();
+
+    return builder.build();
+  }
+}
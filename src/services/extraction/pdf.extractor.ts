@@ -0,0 +1,24 @@
+import { PDFParse } from 'pdf-parse';
+import { DocumentExtractor, ExtractedTextBuilder, IExtractionResult } from './extractor';
+
+export class PdfExtractor implements DocumentExtractor {
+  public readonly name = 'pdf';
+  public readonly mimeTypes = ['application/pdf'] as const;
+
+  async extract(content: Buffer): Promise<IExtractionResult> {
+    const parser = new PDFParse({ data: content });
+
+    try {
+      const result = await parser.getText();
+      const builder = new ExtractedTextBuilder();
+
+      for (const page of result.pages) {
+        builder.appendPage(page.num, page.text);
+      }
+
+      return builder.build();
+    } finally {
+      await parser.destroy();
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { DocumentExtractor, ExtractedTextBuilder, IExtractionResult } from './extractor';
+
+export class TextExtractor implements DocumentExtractor {
+  public readonly name = 'text';
+  public readonly mimeTypes = ['text/plain'] as const;
+
+  async extract(content: Buffer): Promise<IExtractionResult> {
+    const builder = new ExtractedTextBuilder();
+    builder.appendBlock(content.toString('utf8').replace(/^\uFEFF/, ''));
+    return builder.build();
+  }
+}
@@ -9,6 +9,7 @@ import {
   ICreateFolderPermission,
   IFolderPermission
 } from '@models/Folder.model';
+import { DatabaseConnection } from '@database/connection';
 import { 
   BadRequestError, 
   NotFoundError, 
@@ -16,6 +17,8 @@ import {
   ForbiddenError 
 } from '@utils/AppError';
 import { logger } from '@utils/logger';
+import { ChunkingService } from '@services/chunking.service';
+import { DocumentService } from '@services/document.service';
 
 export class FolderService {
   /**
@@ -224,7 +227,14 @@ export class FolderService {
         throw new ForbiddenError('Permission denied: insufficient access to modify this folder');
       }
 
-      const updatedFolder = await FolderModel.update(folderId, updateData);
+      const updatedFolder = await FolderModel.update(folderId, updateData, requestingUserId);
+
+      // Existing chunks were cut with the old settings
+      const chunkingChanged = (['chunk_size_tokens', 'chunk_overlap_tokens', 'chunking_strategy'] as const)
+        .some(key => updateData[key] !== undefined && updateData[key] !== folder[key]);
+      if (chunkingChanged) {
+        await ChunkingService.scheduleFolderRechunk(folderId, requestingUserId);
+      }
 
       // Get the folder with joins for return
       const folderWithJoins = await FolderModel.findById(updatedFolder.folder_id);
@@ -285,10 +295,14 @@ export class FolderService {
         throw new ForbiddenError('Permission denied: insufficient access to delete this folder');
       }
 
-      await FolderModel.delete(folderId, deleteContents);
+      const deletedDocuments = await FolderModel.delete(folderId, deleteContents, requestingUserId);
+      for (const document of deletedDocuments) {
+        await DocumentService.cleanUpDeletedDocument(document.document_id, document.file_path, requestingUserId);
+      }
 
       logger.info('Service: Folder deleted successfully', { 
         folder_id: folderId,
+        document_count: deletedDocuments.length,
         deleted_by: requestingUserId 
       });
     } catch (error) {
@@ -346,20 +360,28 @@ export class FolderService {
     });
 
     try {
-      // Check if user has permission to manage this folder
-      const hasManageAccess = await this.checkFolderManageAccess(
-        permissionData.folder_id,
-        requestingUserId,
-        userPermissions
-      );
+      // The folder lock serializes permission changes on the folder, so the
+      // access check still holds when the grant commits
+      const permission = await DatabaseConnection.transaction(async () => {
+        if (!await FolderModel.lockForUpdate(permissionData.folder_id)) {
+          throw new NotFoundError('Folder not found');
+        }
 
-      if (!hasManageAccess) {
-        throw new ForbiddenError('Permission denied: insufficient access to manage folder permissions');
-      }
+        // Check if user has permission to manage this folder
+        const hasManageAccess = await this.checkFolderManageAccess(
+          permissionData.folder_id,
+          requestingUserId,
+          userPermissions
+        );
+
+        if (!hasManageAccess) {
+          throw new ForbiddenError('Permission denied: insufficient access to manage folder permissions');
+        }
 
-      const permission = await FolderModel.grantPermission({
-        ...permissionData,
-        granted_by_user_id: requestingUserId
+        return FolderModel.grantPermission({
+          ...permissionData,
+          granted_by_user_id: requestingUserId
+        });
       });
 
       logger.info('Service: Folder permission granted successfully', { 
@@ -397,18 +419,26 @@ export class FolderService {
     });
 
     try {
-      // Check if user has permission to manage this folder
-      const hasManageAccess = await this.checkFolderManageAccess(
-        folderId,
-        requestingUserId,
-        userPermissions
-      );
+      // The folder lock serializes permission changes on the folder, so the
+      // access check still holds when the revocation commits
+      await DatabaseConnection.transaction(async () => {
+        if (!await FolderModel.lockForUpdate(folderId)) {
+          throw new NotFoundError('Folder not found');
+        }
 
-      if (!hasManageAccess) {
-        throw new ForbiddenError('Permission denied: insufficient access to manage folder permissions');
-      }
+        // Check if user has permission to manage this folder
+        const hasManageAccess = await this.checkFolderManageAccess(
+          folderId,
+          requestingUserId,
+          userPermissions
+        );
+
+        if (!hasManageAccess) {
+          throw new ForbiddenError('Permission denied: insufficient access to manage folder permissions');
+        }
 
-      await FolderModel.revokePermission(folderId, userId, departmentId, permissionType);
+        await FolderModel.revokePermission(folderId, userId, departmentId, permissionType, requestingUserId);
+      });
 
       logger.info('Service: Folder permission revoked successfully', { 
         folder_id: folderId,
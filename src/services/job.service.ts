@@ -0,0 +1,25 @@
+import { IJob, JobQueue } from '@services/jobs';
+import { ForbiddenError, NotFoundError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+export class JobService {
+  /**
+   * Get a background job. Users see the jobs they started; system_settings
+   * holders see every job.
+   */
+  static async getJob(jobId: string, requestingUserId: string, userPermissions: string[]): Promise<IJob> {
+    logger.info('Service: Fetching job', { job_id: jobId, requesting_user: requestingUserId });
+
+    const job = await JobQueue.getJob(jobId);
+    if (!job) {
+      // Completed jobs expire after the retention period
+      throw new NotFoundError('Job not found');
+    }
+
+    if (job.created_by_user_id !== requestingUserId && !userPermissions.includes('system_settings')) {
+      throw new ForbiddenError('Permission denied: this job was started by another user');
+    }
+
+    return job;
+  }
+}
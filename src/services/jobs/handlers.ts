@@ -0,0 +1,32 @@
+import { ChunkingService } from '@services/chunking.service';
+import { DocumentService } from '@services/document.service';
+import { ExtractionService } from '@services/extraction.service';
+import { JobHandlers } from './job';
+
+/**
+ * What each job type does. Kept apart from the queue so services can
+ * enqueue jobs without importing the services the handlers call.
+ */
+export const jobHandlers: JobHandlers = {
+  'document.extract': {
+    // Extraction parses whole files in memory
+    concurrency: 2,
+    run: async ({ document_id }, job) => ({
+      // null when another job holds the extraction or a newer version superseded it
+      extraction_status: await ExtractionService.processDocument(document_id, job.attempts >= job.max_attempts),
+    }),
+    heartbeat: ({ document_id }) => ExtractionService.heartbeat(document_id),
+  },
+  'folder.rechunk': {
+    concurrency: 1,
+    run: async ({ folder_id }) => ({
+      document_count: await ChunkingService.rechunkFolder(folder_id),
+    }),
+  },
+  'storage.cleanup': {
+    concurrency: 2,
+    run: async ({ file_path }) => ({
+      deleted: await DocumentService.removeStoredFileIfUnreferenced(file_path),
+    }),
+  },
+};
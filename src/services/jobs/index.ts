@@ -0,0 +1,4 @@
+export * from './job';
+export { JobQueue } from './job.queue';
+export { JobWorker } from './job.worker';
+export type { IJobWorkerOptions } from './job.worker';
@@ -0,0 +1,371 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '@config/config';
+import { RedisConnection } from '@database/redis';
+import { logger } from '@utils/logger';
+import { IEnqueueOptions, IJob, IJobPayloads, JobStatus, JobType } from './job';
+
+/**
+ * Redis layout:
+ *   jobs:job:<id>        hash with the job's fields
+ *   jobs:waiting:<type>  list of ids ready to run, oldest at the right
+ *   jobs:delayed         sorted set of delayed jobs and retries by due time (ms)
+ *   jobs:active          sorted set of running jobs by lease expiry (ms)
+ *   jobs:dead            list of jobs that used up their attempts, newest first,
+ *                        capped at JOB_DEAD_LETTER_MAX
+ *
+ * Every key a script touches is passed in KEYS. Job ids (and so job keys)
+ * are read first and the script re-checks that the job is still where it
+ * was found, so two workers never move the same job.
+ */
+const PREFIX = 'jobs:';
+const JOB_KEY = `${PREFIX}job:`;
+const WAITING_KEY = `${PREFIX}waiting:`;
+const DELAYED_KEY = `${PREFIX}delayed`;
+const ACTIVE_KEY = `${PREFIX}active`;
+const DEAD_KEY = `${PREFIX}dead`;
+
+// Jobs moved per maintenance pass
+const MAINTENANCE_BATCH = 100;
+
+// Times a worker looks for another waiting job when the one it found was taken first
+const CLAIM_TRIES = 5;
+
+const STALLED_ERROR = 'Worker stopped renewing its lease';
+
+// Lease the oldest waiting job of a type to the caller, if it is still the
+// oldest. Returns 1 when leased, 0 when another worker took it first, and
+// -1 when the job's hash has expired (its id is dropped).
+const CLAIM_SCRIPT = `
+if redis.call('LINDEX', KEYS[1], -1) ~= ARGV[1] then return 0 end
+redis.call('RPOP', KEYS[1])
+if redis.call('EXISTS', KEYS[3]) == 0 then return -1 end
+redis.call('ZADD', KEYS[2], ARGV[2], ARGV[1])
+redis.call('HSET', KEYS[3], 'status', 'active', 'lease_token', ARGV[3], 'started_at', ARGV[4], 'updated_at', ARGV[4])
+redis.call('HINCRBY', KEYS[3], 'attempts', 1)
+return 1
+`;
+
+// Extend a lease, unless the job was taken back from this holder
+const RENEW_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'lease_token') ~= ARGV[2] then return 0 end
+redis.call('ZADD', KEYS[2], 'XX', ARGV[3], ARGV[1])
+return 1
+`;
+
+// End a lease by completing, rescheduling or dead-lettering the job
+const RELEASE_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'lease_token') ~= ARGV[2] then return 0 end
+redis.call('ZREM', KEYS[2], ARGV[1])
+redis.call('HDEL', KEYS[1], 'lease_token')
+redis.call('HSET', KEYS[1], 'status', ARGV[3], unpack(ARGV, 6))
+if ARGV[3] == 'delayed' then redis.call('ZADD', KEYS[3], ARGV[4], ARGV[1]) end
+if ARGV[3] == 'dead' then redis.call('LPUSH', KEYS[4], ARGV[1]) end
+if tonumber(ARGV[5]) > 0 then redis.call('EXPIRE', KEYS[1], ARGV[5]) end
+return 1
+`;
+
+// Move a due delayed job to its waiting list, unless another worker already did
+const PROMOTE_SCRIPT = `
+local due = redis.call('ZSCORE', KEYS[1], ARGV[1])
+if not due or tonumber(due) > tonumber(ARGV[2]) then return 0 end
+redis.call('ZREM', KEYS[1], ARGV[1])
+if redis.call('EXISTS', KEYS[2]) == 0 then return 0 end
+redis.call('HSET', KEYS[2], 'status', 'waiting', 'updated_at', ARGV[3])
+redis.call('LPUSH', KEYS[3], ARGV[1])
+return 1
+`;
+
+// Requeue (or dead-letter) a running job whose lease expired, e.g. after a
+// worker crash, unless its lease was renewed or another worker recovered it
+const RECOVER_SCRIPT = `
+local expiry = redis.call('ZSCORE', KEYS[1], ARGV[1])
+if not expiry or tonumber(expiry) > tonumber(ARGV[2]) then return 0 end
+redis.call('ZREM', KEYS[1], ARGV[1])
+local job = redis.call('HMGET', KEYS[2], 'attempts', 'max_attempts')
+if not job[1] then return 0 end
+redis.call('HDEL', KEYS[2], 'lease_token')
+redis.call('HSET', KEYS[2], 'last_error', ARGV[4], 'updated_at', ARGV[3])
+if tonumber(job[1]) >= tonumber(job[2]) then
+  redis.call('HSET', KEYS[2], 'status', 'dead', 'finished_at', ARGV[3])
+  redis.call('LPUSH', KEYS[4], ARGV[1])
+else
+  redis.call('HSET', KEYS[2], 'status', 'waiting')
+  redis.call('LPUSH', KEYS[3], ARGV[1])
+end
+return 1
+`;
+
+const toDate = (value?: string): Date | undefined => (value ? new Date(value) : undefined);
+
+const parseJob = (fields: Record<string, string>): IJob | null => {
+  if (!fields['job_id']) {
+    return null;
+  }
+
+  const runAt = toDate(fields['run_at']);
+  const startedAt = toDate(fields['started_at']);
+  const finishedAt = toDate(fields['finished_at']);
+
+  return {
+    job_id: fields['job_id'],
+    type: fields['type'] as JobType,
+    payload: JSON.parse(fields['payload'] || '{}'),
+    status: fields['status'] as JobStatus,
+    attempts: Number(fields['attempts'] || 0),
+    max_attempts: Number(fields['max_attempts']),
+    ...(fields['created_by_user_id'] && { created_by_user_id: fields['created_by_user_id'] }),
+    ...(runAt && { run_at: runAt }),
+    ...(startedAt && { started_at: startedAt }),
+    ...(finishedAt && { finished_at: finishedAt }),
+    ...(fields['last_error'] && { last_error: fields['last_error'] }),
+    ...(fields['result'] !== undefined && { result: JSON.parse(fields['result']) }),
+    created_at: new Date(fields['created_at']!),
+    updated_at: new Date(fields['updated_at']!),
+  };
+};
+
+export class JobQueue {
+  /**
+   * Add a job. It runs as soon as a worker is free, or after `delay_ms`.
+   */
+  static async enqueue<T extends JobType>(
+    type: T,
+    payload: IJobPayloads[T],
+    options: IEnqueueOptions = {}
+  ): Promise<IJob<T>> {
+    const client = RedisConnection.getClient();
+    const now = new Date();
+    const jobId = uuidv4();
+    const delayMs = options.delay_ms || 0;
+    const runAt = new Date(now.getTime() + delayMs);
+    const status: JobStatus = delayMs > 0 ? 'delayed' : 'waiting';
+
+    const job: IJob<T> = {
+      job_id: jobId,
+      type,
+      payload,
+      status,
+      attempts: 0,
+      max_attempts: options.max_attempts || config.jobs.maxAttempts,
+      ...(options.created_by_user_id && { created_by_user_id: options.created_by_user_id }),
+      ...(delayMs > 0 && { run_at: runAt }),
+      created_at: now,
+      updated_at: now,
+    };
+
+    const transaction = client.multi().hSet(`${JOB_KEY}${jobId}`, {
+      job_id: jobId,
+      type,
+      payload: JSON.stringify(payload),
+      status,
+      attempts: 0,
+      max_attempts: job.max_attempts,
+      ...(options.created_by_user_id && { created_by_user_id: options.created_by_user_id }),
+      ...(delayMs > 0 && { run_at: runAt.toISOString() }),
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    });
+
+    if (delayMs > 0) {
+      transaction.zAdd(DELAYED_KEY, { score: runAt.getTime(), value: jobId });
+    } else {
+      transaction.lPush(`${WAITING_KEY}${type}`, jobId);
+    }
+
+    await transaction.exec();
+
+    logger.info('Service: Job enqueued', { job_id: jobId, type, delay_ms: delayMs });
+
+    return job;
+  }
+
+  static async getJob(jobId: string): Promise<IJob | null> {
+    const fields = await RedisConnection.hgetall(`${JOB_KEY}${jobId}`);
+    return parseJob(fields);
+  }
+
+  /**
+   * Lease the oldest waiting job of a type. The lease must be renewed
+   * before `leaseMs` passes or the job is handed to another worker.
+   */
+  static async claim(type: JobType, leaseToken: string): Promise<IJob | null> {
+    const client = RedisConnection.getClient();
+    const waitingKey = `${WAITING_KEY}${type}`;
+
+    for (let tries = 0; tries < CLAIM_TRIES; tries++) {
+      const jobId = await client.lIndex(waitingKey, -1);
+      if (!jobId) {
+        return null;
+      }
+
+      const now = new Date();
+      const claimed = await client.eval(CLAIM_SCRIPT, {
+        keys: [waitingKey, ACTIVE_KEY, `${JOB_KEY}${jobId}`],
+        arguments: [jobId, String(now.getTime() + config.jobs.leaseMs), leaseToken, now.toISOString()],
+      });
+      if (claimed === 1) {
+        return this.getJob(jobId);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Extend the lease on a running job. Returns false when the job is no
+   * longer held with this token.
+   */
+  static async renewLease(jobId: string, leaseToken: string): Promise<boolean> {
+    const renewed = await RedisConnection.getClient().eval(RENEW_SCRIPT, {
+      keys: [`${JOB_KEY}${jobId}`, ACTIVE_KEY],
+      arguments: [jobId, leaseToken, String(Date.now() + config.jobs.leaseMs)],
+    });
+    return renewed === 1;
+  }
+
+  /**
+   * Mark a running job completed. Completed jobs are kept for the retention period.
+   */
+  static async complete(job: IJob, leaseToken: string, result: unknown): Promise<boolean> {
+    const now = new Date().toISOString();
+    return this.release(job, leaseToken, 'completed', 0, config.jobs.retentionSeconds, {
+      result: JSON.stringify(result ?? null),
+      finished_at: now,
+      updated_at: now,
+    });
+  }
+
+  /**
+   * Record a failed attempt: the job is retried after `retryDelayMs`, or
+   * moved to the dead-letter list once it used up its attempts
+   */
+  static async fail(job: IJob, leaseToken: string, errorMessage: string, retryDelayMs: number): Promise<JobStatus> {
+    const now = new Date();
+    const exhausted = job.attempts >= job.max_attempts;
+    const runAt = new Date(now.getTime() + retryDelayMs);
+
+    const released = await this.release(job, leaseToken, exhausted ? 'dead' : 'delayed', runAt.getTime(), 0, {
+      last_error: errorMessage,
+      updated_at: now.toISOString(),
+      ...(exhausted ? { finished_at: now.toISOString() } : { run_at: runAt.toISOString() }),
+    });
+
+    if (!released) {
+      return job.status;
+    }
+    return exhausted ? 'dead' : 'delayed';
+  }
+
+  /**
+   * Move due delayed jobs to their waiting lists, requeue jobs whose worker
+   * died and trim the dead-letter list. Safe to run from every worker.
+   */
+  static async runMaintenance(): Promise<void> {
+    const client = RedisConnection.getClient();
+    const now = new Date();
+
+    const dueJobs = await this.findJobTypes(DELAYED_KEY, now.getTime());
+    for (const [jobId, type] of dueJobs) {
+      await client.eval(PROMOTE_SCRIPT, {
+        keys: [DELAYED_KEY, `${JOB_KEY}${jobId}`, `${WAITING_KEY}${type}`],
+        arguments: [jobId, String(now.getTime()), now.toISOString()],
+      });
+    }
+
+    const recovered: string[] = [];
+    const stalledJobs = await this.findJobTypes(ACTIVE_KEY, now.getTime());
+    for (const [jobId, type] of stalledJobs) {
+      const moved = await client.eval(RECOVER_SCRIPT, {
+        keys: [ACTIVE_KEY, `${JOB_KEY}${jobId}`, `${WAITING_KEY}${type}`, DEAD_KEY],
+        arguments: [jobId, String(now.getTime()), now.toISOString(), STALLED_ERROR],
+      });
+      if (moved === 1) {
+        recovered.push(jobId);
+      }
+    }
+
+    if (recovered.length > 0) {
+      logger.warn('Service: Recovered stalled jobs', { job_ids: recovered });
+    }
+
+    await this.trimDeadLetters();
+  }
+
+  /**
+   * The ids and types of the jobs in a sorted set (delayed or active) whose
+   * score is due. Ids whose job hash has expired are removed from the set.
+   */
+  private static async findJobTypes(setKey: string, nowMs: number): Promise<Array<[string, string]>> {
+    const client = RedisConnection.getClient();
+    const jobIds = await client.zRangeByScore(setKey, '-inf', nowMs, {
+      LIMIT: { offset: 0, count: MAINTENANCE_BATCH },
+    });
+    if (jobIds.length === 0) {
+      return [];
+    }
+
+    const types = await Promise.all(jobIds.map(jobId => client.hGet(`${JOB_KEY}${jobId}`, 'type')));
+    const jobs: Array<[string, string]> = [];
+    const expired: string[] = [];
+    jobIds.forEach((jobId, index) => {
+      const type = types[index];
+      if (type) {
+        jobs.push([jobId, type]);
+      } else {
+        expired.push(jobId);
+      }
+    });
+
+    if (expired.length > 0) {
+      await client.zRem(setKey, expired);
+    }
+    return jobs;
+  }
+
+  /**
+   * Keep the newest JOB_DEAD_LETTER_MAX dead jobs and delete the older ones
+   */
+  private static async trimDeadLetters(): Promise<void> {
+    const client = RedisConnection.getClient();
+    const maxDead = config.jobs.deadLetterMax;
+
+    const droppedIds = await client.lRange(DEAD_KEY, maxDead, -1);
+    if (droppedIds.length === 0) {
+      return;
+    }
+
+    await client.multi()
+      .lTrim(DEAD_KEY, 0, maxDead - 1)
+      .del(droppedIds.map(jobId => `${JOB_KEY}${jobId}`))
+      .exec();
+
+    logger.info('Service: Trimmed dead-letter list', { dropped_count: droppedIds.length });
+  }
+
+  private static async release(
+    job: IJob,
+    leaseToken: string,
+    status: JobStatus,
+    runAtMs: number,
+    ttlSeconds: number,
+    fields: Record<string, string>
+  ): Promise<boolean> {
+    const released = await RedisConnection.getClient().eval(RELEASE_SCRIPT, {
+      keys: [`${JOB_KEY}${job.job_id}`, ACTIVE_KEY, DELAYED_KEY, DEAD_KEY],
+      arguments: [
+        job.job_id,
+        leaseToken,
+        status,
+        String(runAtMs),
+        String(ttlSeconds),
+        ...Object.entries(fields).flat(),
+      ],
+    });
+
+    if (released !== 1) {
+      logger.warn('Service: Job lease was lost before it finished', { job_id: job.job_id, type: job.type });
+      return false;
+    }
+    return true;
+  }
+}
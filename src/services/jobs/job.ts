@@ -0,0 +1,53 @@
+export type JobStatus = 'waiting' | 'delayed' | 'active' | 'completed' | 'dead';
+
+/**
+ * Payload of each job type. Payloads are stored as JSON, so they hold ids
+ * rather than loaded rows.
+ */
+export interface IJobPayloads {
+  // Extract, chunk and embed an uploaded or replaced document
+  'document.extract': { document_id: string };
+  // Re-chunk and re-embed the indexed documents of a folder tree
+  'folder.rechunk': { folder_id: string };
+  // Delete a stored file once no active document references it
+  'storage.cleanup': { file_path: string };
+}
+
+export type JobType = keyof IJobPayloads;
+
+export interface IJob<T extends JobType = JobType> {
+  job_id: string;
+  type: T;
+  payload: IJobPayloads[T];
+  status: JobStatus;
+  // Attempts started so far, including the running one
+  attempts: number;
+  max_attempts: number;
+  created_by_user_id?: string;
+  // When a delayed job or retry becomes due
+  run_at?: Date;
+  started_at?: Date;
+  finished_at?: Date;
+  last_error?: string;
+  // Whatever the handler returned, for completed jobs
+  result?: unknown;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface IEnqueueOptions {
+  // Wait this long before the job may run
+  delay_ms?: number;
+  max_attempts?: number;
+  created_by_user_id?: string;
+}
+
+export interface IJobHandler<T extends JobType> {
+  // Most jobs of this type one worker runs at the same time
+  concurrency: number;
+  run: (payload: IJobPayloads[T], job: IJob<T>) => Promise<unknown>;
+  // Called whenever the worker renews the lease of a running job of this type
+  heartbeat?: (payload: IJobPayloads[T], job: IJob<T>) => Promise<void>;
+}
+
+export type JobHandlers = { [T in JobType]: IJobHandler<T> };
@@ -0,0 +1,234 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '@config/config';
+import { backoffDelay } from '@utils/retry';
+import { logger } from '@utils/logger';
+import { IJob, JobHandlers, JobType } from './job';
+import { JobQueue } from './job.queue';
+
+interface IRunningJob {
+  job: IJob;
+  leaseToken: string;
+}
+
+export interface IJobWorkerOptions {
+  // Jobs this worker runs at the same time across all types
+  concurrency: number;
+  pollIntervalMs: number;
+}
+
+/**
+ * Runs queued jobs with the given handlers. Each worker process (or the API
+ * process when JOB_RUN_IN_API is set) runs one JobWorker.
+ */
+export class JobWorker {
+  private readonly types: JobType[];
+  private readonly running = new Map<string, IRunningJob>();
+  private readonly runningByType = new Map<JobType, number>();
+  private slots: Promise<void>[] = [];
+  private maintenanceTimer: NodeJS.Timeout | null = null;
+  private wakeUps: Array<() => void> = [];
+  private nextType = 0;
+  private stopping = false;
+
+  constructor(
+    private readonly handlers: JobHandlers,
+    private readonly options: IJobWorkerOptions = {
+      concurrency: config.jobs.concurrency,
+      pollIntervalMs: config.jobs.pollIntervalMs,
+    }
+  ) {
+    this.types = Object.keys(handlers) as JobType[];
+  }
+
+  start(): void {
+    if (this.slots.length > 0) {
+      return;
+    }
+
+    this.stopping = false;
+    this.maintenanceTimer = setInterval(() => {
+      JobQueue.runMaintenance().catch(error => {
+        logger.error('Job worker: Queue maintenance failed', { error });
+      });
+    }, this.options.pollIntervalMs);
+
+    for (let slot = 0; slot < this.options.concurrency; slot++) {
+      this.slots.push(this.runSlot());
+    }
+
+    logger.info('Job worker started', { concurrency: this.options.concurrency, types: this.types });
+  }
+
+  /**
+   * Stop taking jobs and wait up to `timeoutMs` for running jobs to finish.
+   * Jobs still running after that are rescheduled so another worker picks
+   * them up right away.
+   */
+  async stop(timeoutMs: number = config.jobs.shutdownTimeoutMs): Promise<void> {
+    if (this.slots.length === 0) {
+      return;
+    }
+
+    logger.info('Job worker stopping', { running: this.running.size });
+    this.stopping = true;
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = null;
+    }
+    this.wakeUps.splice(0).forEach(wakeUp => wakeUp());
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<'timeout'>(resolve => {
+      timer = setTimeout(() => resolve('timeout'), timeoutMs);
+    });
+    const outcome = await Promise.race([Promise.all(this.slots), timedOut]);
+    clearTimeout(timer);
+
+    if (outcome === 'timeout') {
+      for (const { job, leaseToken } of this.running.values()) {
+        await JobQueue.fail(job, leaseToken, 'Interrupted by worker shutdown', 0).catch(error => {
+          logger.error('Job worker: Failed to reschedule interrupted job', { job_id: job.job_id, error });
+        });
+      }
+      logger.warn('Job worker stopped with jobs still running', { job_ids: [...this.running.keys()] });
+    }
+
+    this.slots = [];
+    logger.info('Job worker stopped');
+  }
+
+  private async runSlot(): Promise<void> {
+    while (!this.stopping) {
+      let job: IJob | null = null;
+      const leaseToken = uuidv4();
+
+      try {
+        job = await this.claimNext(leaseToken);
+      } catch (error) {
+        logger.error('Job worker: Failed to claim a job', { error });
+      }
+
+      if (!job) {
+        await this.idle();
+        continue;
+      }
+
+      this.running.set(job.job_id, { job, leaseToken });
+      await this.runJob(job, leaseToken);
+      this.running.delete(job.job_id);
+    }
+  }
+
+  /**
+   * Claim a job of the next type, in turn, that is under its concurrency limit
+   */
+  private async claimNext(leaseToken: string): Promise<IJob | null> {
+    for (let i = 0; i < this.types.length; i++) {
+      const type = this.types[(this.nextType + i) % this.types.length]!;
+      const runningOfType = this.runningByType.get(type) || 0;
+      if (runningOfType >= this.handlers[type].concurrency) {
+        continue;
+      }
+
+      // Count the slot against the type while claiming so slots do not overshoot
+      this.runningByType.set(type, runningOfType + 1);
+      const job = await JobQueue.claim(type, leaseToken).catch(error => {
+        this.runningByType.set(type, (this.runningByType.get(type) || 1) - 1);
+        throw error;
+      });
+
+      if (job) {
+        this.nextType = (this.nextType + i + 1) % this.types.length;
+        return job;
+      }
+      this.runningByType.set(type, (this.runningByType.get(type) || 1) - 1);
+    }
+
+    return null;
+  }
+
+  private async runJob(job: IJob, leaseToken: string): Promise<void> {
+    const handler = this.handlers[job.type] as JobHandlers[JobType] | undefined;
+    const renewTimer = setInterval(() => {
+      JobQueue.renewLease(job.job_id, leaseToken)
+        .then(async renewed => {
+          if (!renewed) {
+            logger.warn('Job worker: Lost the lease on a running job', { job_id: job.job_id, type: job.type });
+            return;
+          }
+          await (handler?.heartbeat as ((payload: unknown, job: IJob) => Promise<void>) | undefined)?.(job.payload, job);
+        })
+        .catch(error => logger.error('Job worker: Failed to renew job lease', { job_id: job.job_id, error }));
+    }, Math.floor(config.jobs.leaseMs / 3));
+
+    logger.info('Job worker: Running job', { job_id: job.job_id, type: job.type, attempt: job.attempts });
+
+    try {
+      let result: unknown;
+      try {
+        if (!handler) {
+          throw new Error(`No handler for job type ${job.type}`);
+        }
+        result = await (handler.run as (payload: unknown, job: IJob) => Promise<unknown>)(job.payload, job);
+      } catch (error) {
+        await this.recordFailure(job, leaseToken, error);
+        return;
+      }
+
+      // When this fails the lease runs out and the job runs again
+      await JobQueue.complete(job, leaseToken, result).catch(error => {
+        logger.error('Job worker: Failed to record job completion', { job_id: job.job_id, error });
+      });
+
+      logger.info('Job worker: Job completed', { job_id: job.job_id, type: job.type });
+    } finally {
+      clearInterval(renewTimer);
+      this.runningByType.set(job.type, (this.runningByType.get(job.type) || 1) - 1);
+    }
+  }
+
+  private async recordFailure(job: IJob, leaseToken: string, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryDelayMs = backoffDelay(job.attempts, config.jobs.backoffBaseMs, config.jobs.backoffMaxMs);
+
+    try {
+      const status = await JobQueue.fail(job, leaseToken, message, retryDelayMs);
+      if (status === 'dead') {
+        logger.error('Job worker: Job failed and moved to the dead-letter list', {
+          job_id: job.job_id,
+          type: job.type,
+          attempts: job.attempts,
+          error
+        });
+      } else {
+        logger.warn('Job worker: Job failed, retrying', {
+          job_id: job.job_id,
+          type: job.type,
+          attempt: job.attempts,
+          retry_in_ms: retryDelayMs,
+          error: message
+        });
+      }
+    } catch (failError) {
+      // The lease runs out and queue maintenance retries the job
+      logger.error('Job worker: Failed to record job failure', { job_id: job.job_id, error: failError });
+    }
+  }
+
+  /**
+   * Wait one poll interval, or less when the worker is stopping
+   */
+  private idle(): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.wakeUps = this.wakeUps.filter(wakeUp => wakeUp !== done);
+        resolve();
+      }, this.options.pollIntervalMs);
+      const done = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      this.wakeUps.push(done);
+    });
+  }
+}
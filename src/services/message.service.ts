@@ -0,0 +1,257 @@
+import { config } from '@config/config';
+import { ConversationModel, IConversationWithJoins } from '@models/Conversation.model';
+import { IMessage, IMessageListResult, IMessageWithSender, MessageModel } from '@models/Message.model';
+import { UserModel } from '@models/User.model';
+import { AIModelService } from '@services/aiModel.service';
+import { ConversationService } from '@services/conversation.service';
+import { DocumentAccessService } from '@services/documentAccess.service';
+import { IQuotaWarning, QuotaService } from '@services/quota.service';
+import { ICitation, IRetrievalScope, IRetrievedContext, RagService } from '@services/rag.service';
+import { ChatFinishReason, ChatProvider, IChatMessage, IChatUsage, estimateUsage, getChatProvider } from '@services/chat';
+import { AppError, ForbiddenError, InternalServerError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+export interface ISendMessageOptions {
+  // Ground the reply in readable documents (default true); optionally narrowed to a folder or documents
+  use_documents?: boolean;
+  retrieval_scope?: IRetrievalScope;
+  // Aborts generation, e.g. when the SSE client disconnects
+  signal?: AbortSignal;
+  // Called once the user's message is stored, before generation starts
+  onUserMessage?: (message: IMessage) => void;
+  // Called with the sources given to the model, before generation starts
+  onCitations?: (citations: ICitation[]) => void;
+  onToken?: (delta: string) => void;
+}
+
+export interface ISendMessageResult {
+  user_message: IMessage;
+  // Null when generation was aborted before any text was produced
+  ai_message: IMessage | null;
+  // Monthly quotas of the sender or their department that were 80% or more used before the message
+  quota_warnings: IQuotaWarning[];
+}
+
+export class MessageService {
+  /**
+   * Get the messages of a conversation the user can read
+   */
+  static async getMessages(
+    conversationId: string,
+    limit: number,
+    before: Date | undefined,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IMessageListResult> {
+    logger.info('Service: Fetching conversation messages', {
+      conversation_id: conversationId,
+      limit,
+      before,
+      requesting_user: requestingUserId
+    });
+
+    await ConversationService.getConversationForRead(conversationId, requestingUserId, userPermissions);
+    return MessageModel.findByConversation(conversationId, limit, before);
+  }
+
+  /**
+   * Store a user's message, generate the assistant's reply with the chat
+   * model and store it as well. The reply is grounded in the document
+   * chunks the user can read and its metadata lists them as citations.
+   * Tokens are passed to `onToken` as they arrive so callers can stream them.
+   * The sender's department must still be allowed to use the conversation's
+   * model, and the sender's and their department's monthly quotas are checked first.
+   * The chunks given to the model are recorded in the document access log.
+   */
+  static async sendMessage(
+    conversationId: string,
+    content: string,
+    requestingUserId: string,
+    userPermissions: string[],
+    departmentId: string,
+    options: ISendMessageOptions = {}
+  ): Promise<ISendMessageResult> {
+    logger.info('Service: Sending message', {
+      conversation_id: conversationId,
+      requesting_user: requestingUserId
+    });
+
+    const conversation = await ConversationService.getConversationForRead(conversationId, requestingUserId, userPermissions);
+    ConversationService.assertWritable(conversation);
+
+    if (conversation.ai_model_status === 'maintenance') {
+      throw new AppError(`AI model ${conversation.ai_model_name} is under maintenance, try again later`, 503);
+    }
+
+    const participant = await ConversationModel.findParticipant(conversationId, requestingUserId);
+    if (!participant) {
+      throw new ForbiddenError('Only conversation participants can send messages');
+    }
+
+    if (conversation.ai_model_used_id) {
+      await AIModelService.assertDepartmentCanUse(
+        conversation.ai_model_used_id,
+        conversation.ai_model_name ?? conversation.ai_model_used_id,
+        departmentId
+      );
+    }
+
+    const assistantUserId = await this.resolveAssistant(conversationId);
+    const provider = getChatProvider({
+      provider: conversation.ai_model_provider,
+      api_endpoint: conversation.ai_model_endpoint,
+    });
+    const quotaWarnings = await QuotaService.assertWithinQuota(requestingUserId, departmentId);
+
+    // History is read before the new message is stored so it is not included twice
+    const history = await MessageModel.findRecentForContext(conversationId, config.chat.historyMessages);
+
+    const userMessage = await MessageModel.create({
+      conversation_id: conversationId,
+      sender_user_id: requestingUserId,
+      message_type: 'text',
+      message_content: content,
+    });
+    options.onUserMessage?.(userMessage);
+
+    const context: IRetrievedContext = options.use_documents === false
+      ? { sources: [] }
+      : await RagService.retrieveContext(content, requestingUserId, userPermissions, options.retrieval_scope);
+    await DocumentAccessService.recordAIContext(context.sources, requestingUserId, conversationId, userMessage.message_id);
+    options.onCitations?.(RagService.buildCitations(context.sources, ''));
+
+    const aiMessage = await this.generateReply(
+      provider,
+      conversation,
+      [...this.toChatMessages(history), { role: 'user', content }],
+      context,
+      userMessage,
+      assistantUserId,
+      options
+    );
+
+    logger.info('Service: Message exchange completed', {
+      conversation_id: conversationId,
+      user_message_id: userMessage.message_id,
+      ai_message_id: aiMessage?.message_id,
+      ai_tokens_used: aiMessage?.ai_tokens_used
+    });
+
+    return { user_message: userMessage, ai_message: aiMessage, quota_warnings: quotaWarnings };
+  }
+
+  private static async generateReply(
+    provider: ChatProvider,
+    conversation: IConversationWithJoins,
+    messages: IChatMessage[],
+    context: IRetrievedContext,
+    userMessage: IMessage,
+    assistantUserId: string,
+    options: ISendMessageOptions
+  ): Promise<IMessage | null> {
+    const model = conversation.ai_model_name || config.chat.model;
+    const systemPrompt = context.sources.length > 0
+      ? `${config.chat.systemPrompt}\n\n${RagService.buildContextPrompt(context.sources)}`
+      : config.chat.systemPrompt;
+    const prompt: IChatMessage[] = [{ role: 'system', content: systemPrompt }, ...messages];
+
+    const startedAt = Date.now();
+    let completion = '';
+    let finishReason: ChatFinishReason = 'stop';
+    let usage: IChatUsage | undefined;
+
+    try {
+      for await (const event of provider.stream({
+        model,
+        messages: prompt,
+        max_tokens: config.chat.maxTokens,
+        ...(options.signal && { signal: options.signal }),
+      })) {
+        if (event.type === 'token') {
+          completion += event.delta;
+          options.onToken?.(event.delta);
+        } else {
+          finishReason = event.finish_reason;
+          usage = event.usage;
+        }
+      }
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        logger.error('Service: Chat generation failed', {
+          conversation_id: conversation.conversation_id,
+          provider: provider.name,
+          model,
+          error
+        });
+        throw error;
+      }
+      finishReason = 'aborted';
+    }
+
+    if (options.signal?.aborted) {
+      finishReason = 'aborted';
+    }
+
+    if (finishReason === 'aborted' && completion.length === 0) {
+      return null;
+    }
+
+    const finalUsage = usage && usage.total_tokens > 0 ? usage : estimateUsage(prompt, completion);
+
+    return MessageModel.create({
+      conversation_id: conversation.conversation_id,
+      sender_user_id: assistantUserId,
+      message_type: 'text',
+      message_content: completion,
+      ai_response_to_message_id: userMessage.message_id,
+      ai_model_version: model,
+      ai_processing_time_ms: Date.now() - startedAt,
+      ai_tokens_used: finalUsage.total_tokens,
+      message_metadata: {
+        provider: provider.name,
+        finish_reason: finishReason,
+        usage: finalUsage,
+        usage_estimated: finalUsage !== usage,
+        citations: RagService.buildCitations(context.sources, completion),
+        ...(context.model && { retrieval_model: context.model }),
+        ...(context.error && { retrieval_error: context.error }),
+      },
+      usage: {
+        user_id: userMessage.sender_user_id,
+        ...(conversation.ai_model_used_id && { ai_model_id: conversation.ai_model_used_id }),
+        model_name: model,
+        provider: provider.name,
+        prompt_tokens: finalUsage.prompt_tokens,
+        completion_tokens: finalUsage.completion_tokens,
+        total_tokens: finalUsage.total_tokens,
+        usage_estimated: finalUsage !== usage,
+      },
+    });
+  }
+
+  /**
+   * The AI user answering in a conversation: its AI participant, or the
+   * default AI user, which then joins the conversation
+   */
+  private static async resolveAssistant(conversationId: string): Promise<string> {
+    const aiParticipant = await ConversationModel.findAiParticipant(conversationId);
+    if (aiParticipant) {
+      return aiParticipant.user_id;
+    }
+
+    const aiUser = await UserModel.findDefaultAiUser();
+    if (!aiUser) {
+      throw new InternalServerError('No AI assistant user is configured');
+    }
+
+    await ConversationModel.ensureParticipant(conversationId, aiUser.user_id, 'ai');
+    return aiUser.user_id;
+  }
+
+  private static toChatMessages(history: IMessageWithSender[]): IChatMessage[] {
+    return history.map(message => ({
+      role: message.message_type === 'system' ? 'system' : message.sender_is_ai ? 'assistant' : 'user',
+      content: message.message_content || '',
+    }));
+  }
+}
@@ -1,4 +1,9 @@
-import { PermissionModel, IPermission } from '@models/Permission.model';
+import {
+  PermissionModel,
+  IPermission,
+  ICreatePermission,
+  IUpdatePermission
+} from '@models/Permission.model';
 import { DepartmentModel } from '@models/Department.model';
 import { UserModel } from '@models/User.model';
 import { DatabaseConnection } from '@database/connection';
@@ -10,18 +15,7 @@ import {
 } from '@utils/AppError';
 import { logger } from '@utils/logger';
 
-export interface ICreatePermission {
-  permission_name: string;
-  description?: string;
-  category: string;
-}
-
-export interface IUpdatePermission {
-  permission_name?: string;
-  description?: string;
-  category?: string;
-  is_active?: boolean;
-}
+export type { ICreatePermission, IUpdatePermission };
 
 export class PermissionService {
   // Get all permissions with optional category filtering
@@ -181,20 +175,7 @@ export class PermissionService {
         throw new ConflictError('Permission with this name already exists');
       }
 
-      const query = `
-        INSERT INTO permissions (permission_name, description, category, is_active, created_at)
-        VALUES ($1, $2, $3, true, NOW())
-        RETURNING *
-      `;
-
-      const values = [
-        permissionData.permission_name,
-        permissionData.description,
-        permissionData.category
-      ];
-
-      const result = await DatabaseConnection.query(query, values);
-      const permission = result.rows[0];
+      const permission = await PermissionModel.create(permissionData, createdBy);
 
       logger.info('Permission created successfully:', {
         permission_id: permission.permission_id,
@@ -234,46 +215,21 @@ export class PermissionService {
         }
       }
 
-      const updateFields: string[] = [];
-      const values: any[] = [];
-      let paramIndex = 1;
-
-      if (updateData.permission_name !== undefined) {
-        updateFields.push(`permission_name = $${paramIndex++}`);
-        values.push(updateData.permission_name);
-      }
-
-      if (updateData.description !== undefined) {
-        updateFields.push(`description = $${paramIndex++}`);
-        values.push(updateData.description);
-      }
+      const fields: IUpdatePermission = {
+        ...(updateData.permission_name !== undefined && { permission_name: updateData.permission_name }),
+        ...(updateData.description !== undefined && { description: updateData.description }),
+        ...(updateData.category !== undefined && { category: updateData.category }),
+        ...(updateData.is_active !== undefined && { is_active: updateData.is_active }),
+      };
 
-      if (updateData.category !== undefined) {
-        updateFields.push(`category = $${paramIndex++}`);
-        values.push(updateData.category);
-      }
-
-      if (updateData.is_active !== undefined) {
-        updateFields.push(`is_active = $${paramIndex++}`);
-        values.push(updateData.is_active);
-      }
-
-      if (updateFields.length === 0) {
+      if (Object.keys(fields).length === 0) {
         throw new BadRequestError('No valid fields to update');
       }
 
-      updateFields.push(`updated_at = NOW()`);
-      values.push(permissionId);
-
-      const query = `
-        UPDATE permissions 
-        SET ${updateFields.join(', ')}
-        WHERE permission_id = $${paramIndex}
-        RETURNING *
-      `;
-
-      const result = await DatabaseConnection.query(query, values);
-      const permission = result.rows[0];
+      const permission = await PermissionModel.update(permissionId, fields, updatedBy);
+      if (!permission) {
+        throw new NotFoundError('Permission not found');
+      }
 
       logger.info('Permission updated successfully:', {
         permission_id: permissionId,
@@ -300,34 +256,31 @@ export class PermissionService {
     assignedBy: string
   ): Promise<void> {
     try {
-      // Verify department exists
-      const department = await DepartmentModel.findById(departmentId);
-      if (!department) {
-        throw new NotFoundError('Department not found');
-      }
-
-      // Verify permission exists
-      const permission = await PermissionModel.findById(permissionId);
-      if (!permission) {
-        throw new NotFoundError('Permission not found');
-      }
+      // The department lock keeps the checks below valid until the assignment commits
+      await DatabaseConnection.transaction(async () => {
+        // Verify department exists
+        if (!await DepartmentModel.lockForUpdate(departmentId)) {
+          throw new NotFoundError('Department not found');
+        }
 
-      // Check if permission is already assigned to department
-      const existingAssignment = await DatabaseConnection.query(
-        'SELECT * FROM departmentpermissions WHERE department_id = $1 AND permission_id = $2',
-        [departmentId, permissionId]
-      );
+        // Verify permission exists
+        const permission = await PermissionModel.findById(permissionId);
+        if (!permission) {
+          throw new NotFoundError('Permission not found');
+        }
 
-      if (existingAssignment.rows.length > 0) {
-        throw new ConflictError('Permission already assigned to this department');
-      }
+        // Check if permission is already assigned to department
+        const existingAssignment = await DatabaseConnection.query(
+          'SELECT * FROM departmentpermissions WHERE department_id = $1 AND permission_id = $2',
+          [departmentId, permissionId]
+        );
 
-      const query = `
-        INSERT INTO departmentpermissions (department_id, permission_id, granted_at, granted_by_user_id)
-        VALUES ($1, $2, NOW(), $3)
-      `;
+        if (existingAssignment.rows.length > 0) {
+          throw new ConflictError('Permission already assigned to this department');
+        }
 
-      await DatabaseConnection.query(query, [departmentId, permissionId, assignedBy]);
+        await DepartmentModel.addPermission(departmentId, permissionId, assignedBy);
+      });
 
       logger.info('Permission assigned to department successfully:', {
         department_id: departmentId,
@@ -352,34 +305,31 @@ export class PermissionService {
     removedBy: string
   ): Promise<void> {
     try {
-      // Verify department exists
-      const department = await DepartmentModel.findById(departmentId);
-      if (!department) {
-        throw new NotFoundError('Department not found');
-      }
-
-      // Verify permission exists
-      const permission = await PermissionModel.findById(permissionId);
-      if (!permission) {
-        throw new NotFoundError('Permission not found');
-      }
+      // The department lock keeps the checks below valid until the removal commits
+      await DatabaseConnection.transaction(async () => {
+        // Verify department exists
+        if (!await DepartmentModel.lockForUpdate(departmentId)) {
+          throw new NotFoundError('Department not found');
+        }
 
-      // Check if permission is assigned to department
-      const existingAssignment = await DatabaseConnection.query(
-        'SELECT * FROM departmentpermissions WHERE department_id = $1 AND permission_id = $2',
-        [departmentId, permissionId]
-      );
+        // Verify permission exists
+        const permission = await PermissionModel.findById(permissionId);
+        if (!permission) {
+          throw new NotFoundError('Permission not found');
+        }
 
-      if (existingAssignment.rows.length === 0) {
-        throw new NotFoundError('Permission not assigned to this department');
-      }
+        // Check if permission is assigned to department
+        const existingAssignment = await DatabaseConnection.query(
+          'SELECT * FROM departmentpermissions WHERE department_id = $1 AND permission_id = $2',
+          [departmentId, permissionId]
+        );
 
-      const query = `
-        DELETE FROM departmentpermissions 
-        WHERE department_id = $1 AND permission_id = $2
-      `;
+        if (existingAssignment.rows.length === 0) {
+          throw new NotFoundError('Permission not assigned to this department');
+        }
 
-      await DatabaseConnection.query(query, [departmentId, permissionId]);
+        await DepartmentModel.removePermission(departmentId, permissionId, removedBy);
+      });
 
       logger.info('Permission removed from department successfully:', {
         department_id: departmentId,
@@ -407,13 +357,7 @@ export class PermissionService {
       }
 
       // Soft delete by setting is_active to false
-      const query = `
-        UPDATE permissions 
-        SET is_active = false, updated_at = NOW()
-        WHERE permission_id = $1
-      `;
-
-      await DatabaseConnection.query(query, [permissionId]);
+      await PermissionModel.delete(permissionId, deletedBy);
 
       logger.info('Permission deactivated successfully:', {
         permission_id: permissionId,
@@ -0,0 +1,202 @@
+import {
+  IQuotaWithTarget,
+  ISetQuota,
+  QuotaModel,
+  QuotaScope
+} from '@models/Quota.model';
+import { IUsageTotals, UsageModel } from '@models/Usage.model';
+import { BadRequestError, QuotaExceededError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+// Share of a quota after which chat replies carry a warning
+const SOFT_LIMIT_RATIO = 0.8;
+
+export type QuotaLimitType = 'tokens' | 'cost';
+
+export interface IQuotaStatus {
+  quota_id: string;
+  scope: QuotaScope;
+  target_id: string;
+  target_name: string;
+  limit_type: QuotaLimitType;
+  limit: number;
+  used: number;
+  remaining: number;
+  percent_used: number;
+  period_start: Date;
+  period_end: Date;
+}
+
+export interface IQuotaWarning {
+  scope: QuotaScope;
+  limit_type: QuotaLimitType;
+  limit: number;
+  used: number;
+  percent_used: number;
+  message: string;
+}
+
+export interface IQuotaWithStatus extends IQuotaWithTarget {
+  usage: IUsageTotals;
+  statuses: IQuotaStatus[];
+}
+
+/**
+ * The current quota period: the calendar month (UTC)
+ */
+const getCurrentPeriod = (now: Date = new Date()): { start: Date; end: Date } => ({
+  start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+  end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+});
+
+const describeQuota = (status: IQuotaStatus): string => {
+  const owner = status.scope === 'user' ? 'Your' : `Department ${status.target_name}'s`;
+  const kind = status.limit_type === 'tokens' ? 'token' : 'spend';
+  return `${owner} monthly AI ${kind} quota`;
+};
+
+export class QuotaService {
+  /**
+   * Get all quotas with their usage in the current month
+   */
+  static async getQuotas(scope?: QuotaScope): Promise<IQuotaWithStatus[]> {
+    logger.info('Service: Fetching AI usage quotas', { scope });
+
+    const quotas = await QuotaModel.findAll(scope);
+    return Promise.all(quotas.map(quota => this.withStatus(quota)));
+  }
+
+  /**
+   * Create or replace the monthly quota of a department or user
+   */
+  static async setQuota(
+    scope: QuotaScope,
+    targetId: string,
+    quotaData: ISetQuota,
+    requestingUserId: string
+  ): Promise<IQuotaWithStatus> {
+    logger.info('Service: Setting AI usage quota', {
+      scope,
+      target_id: targetId,
+      ...quotaData,
+      requesting_user: requestingUserId
+    });
+
+    if (quotaData.monthly_token_limit === null && quotaData.monthly_cost_limit === null) {
+      throw new BadRequestError('A quota needs a monthly token limit, a monthly cost limit or both');
+    }
+
+    const quota = await QuotaModel.upsert(scope, targetId, quotaData, requestingUserId);
+
+    logger.info('Service: AI usage quota set successfully', {
+      quota_id: quota.quota_id,
+      scope,
+      target_id: targetId
+    });
+
+    return this.withStatus(quota);
+  }
+
+  /**
+   * Remove the quota of a department or user
+   */
+  static async deleteQuota(scope: QuotaScope, targetId: string, requestingUserId: string): Promise<void> {
+    logger.info('Service: Deleting AI usage quota', {
+      scope,
+      target_id: targetId,
+      requesting_user: requestingUserId
+    });
+
+    await QuotaModel.delete(scope, targetId);
+  }
+
+  /**
+   * Get the status of every limit that applies to a user: their own quota
+   * and their department's
+   */
+  static async getQuotaStatus(userId: string, departmentId: string): Promise<IQuotaStatus[]> {
+    const quotas = await QuotaModel.findApplicable(userId, departmentId);
+    const withStatus = await Promise.all(quotas.map(quota => this.withStatus(quota)));
+    return withStatus.flatMap(quota => quota.statuses);
+  }
+
+  /**
+   * Check a user's quotas before calling a chat provider. Throws when a
+   * limit is used up and returns warnings for limits past the soft limit.
+   */
+  static async assertWithinQuota(userId: string, departmentId: string): Promise<IQuotaWarning[]> {
+    const statuses = await this.getQuotaStatus(userId, departmentId);
+
+    const exceeded = statuses.find(status => status.used >= status.limit);
+    if (exceeded) {
+      logger.warn('Service: AI usage quota exceeded', {
+        user_id: userId,
+        quota_id: exceeded.quota_id,
+        limit_type: exceeded.limit_type,
+        limit: exceeded.limit,
+        used: exceeded.used
+      });
+
+      throw new QuotaExceededError(
+        `${describeQuota(exceeded)} is used up (${exceeded.used} of ${exceeded.limit}${exceeded.limit_type === 'tokens' ? ' tokens' : ''}); it resets on ${exceeded.period_end.toISOString().slice(0, 10)}`,
+        exceeded.scope,
+        exceeded.limit_type,
+        exceeded.period_end
+      );
+    }
+
+    return this.toWarnings(statuses);
+  }
+
+  private static toWarnings(statuses: IQuotaStatus[]): IQuotaWarning[] {
+    return statuses
+      .filter(status => status.used >= status.limit * SOFT_LIMIT_RATIO)
+      .map(status => ({
+        scope: status.scope,
+        limit_type: status.limit_type,
+        limit: status.limit,
+        used: status.used,
+        percent_used: status.percent_used,
+        message: status.used >= status.limit
+          ? `${describeQuota(status)} is used up`
+          : `${describeQuota(status)} is ${status.percent_used}% used`,
+      }));
+  }
+
+  private static async withStatus(quota: IQuotaWithTarget): Promise<IQuotaWithStatus> {
+    const period = getCurrentPeriod();
+    const targetId = (quota.scope === 'department' ? quota.department_id : quota.user_id)!;
+
+    const usage = await UsageModel.getTotals({
+      from: period.start,
+      to: period.end,
+      ...(quota.scope === 'department' ? { department_id: targetId } : { user_id: targetId }),
+    });
+
+    const limits: Array<[QuotaLimitType, number, number]> = [];
+    if (quota.monthly_token_limit != null) {
+      limits.push(['tokens', Number(quota.monthly_token_limit), usage.total_tokens]);
+    }
+    if (quota.monthly_cost_limit != null) {
+      limits.push(['cost', Number(quota.monthly_cost_limit), usage.cost]);
+    }
+
+    return {
+      ...quota,
+      usage,
+      statuses: limits.map(([limitType, limit, used]) => ({
+        quota_id: quota.quota_id,
+        scope: quota.scope,
+        target_id: targetId,
+        target_name: quota.target_name,
+        limit_type: limitType,
+        limit,
+        used,
+        remaining: Math.max(limit - used, 0),
+        percent_used: limit > 0 ? Math.floor((used / limit) * 100) : 100,
+        period_start: period.start,
+        period_end: period.end,
+      })),
+    };
+  }
+}
@@ -0,0 +1,188 @@
+import { config } from '@config/config';
+import { DocumentModel } from '@models/Document.model';
+import { FolderModel } from '@models/Folder.model';
+import { RetrievalService } from '@services/retrieval.service';
+import { IVectorSearchHit } from '@services/vectors';
+import { countTokens } from '@utils/tokenizer';
+import { logger } from '@utils/logger';
+
+export interface IRetrievalScope {
+  folder_id?: string;
+  document_ids?: string[];
+}
+
+export interface ICitation {
+  // 1-based source number the model cites as [n]
+  index: number;
+  document_id: string;
+  document_name: string;
+  chunk_id: string;
+  chunk_index: number;
+  page?: number;
+  page_end?: number;
+  heading?: string;
+  snippet: string;
+  score: number;
+  // Whether the answer actually references this source
+  cited: boolean;
+}
+
+export interface IRetrievedContext {
+  sources: IVectorSearchHit[];
+  model?: string;
+  error?: string;
+}
+
+const SNIPPET_LENGTH = 280;
+
+const toSnippet = (content: string): string => {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (text.length <= SNIPPET_LENGTH) {
+    return text;
+  }
+  const cut = text.lastIndexOf(' ', SNIPPET_LENGTH);
+  return `${text.slice(0, cut > SNIPPET_LENGTH / 2 ? cut : SNIPPET_LENGTH)}…`;
+};
+
+export class RagService {
+  /**
+   * Find the document chunks relevant to a question among the documents
+   * the asker can read, using hybrid full-text and semantic retrieval.
+   * Retrieval problems are reported, not thrown, so the chat can still
+   * answer without sources.
+   */
+  static async retrieveContext(
+    question: string,
+    requestingUserId: string,
+    userPermissions: string[],
+    scope: IRetrievalScope = {}
+  ): Promise<IRetrievedContext> {
+    if (!config.rag.enabled) {
+      return { sources: [] };
+    }
+
+    try {
+      const { results, model } = await RetrievalService.query({
+        query: question,
+        top_k: config.rag.topK,
+        min_vector_score: config.rag.minScore,
+        ...(scope.folder_id && { folder_id: scope.folder_id }),
+        ...(scope.document_ids && { document_ids: scope.document_ids }),
+      }, requestingUserId, userPermissions);
+
+      const readable = await this.filterCitable(results, requestingUserId);
+      const sources = this.fitToBudget(readable, config.rag.maxContextTokens);
+
+      logger.info('Service: Retrieved answer context', {
+        requesting_user: requestingUserId,
+        candidate_count: results.length,
+        source_count: sources.length
+      });
+
+      return { sources, ...(model && { model }) };
+    } catch (error) {
+      logger.warn('Service: Context retrieval failed, answering without sources', {
+        requesting_user: requestingUserId,
+        error
+      });
+      return { sources: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * System prompt section listing the numbered sources the model may cite
+   */
+  static buildContextPrompt(sources: IVectorSearchHit[]): string {
+    const blocks = sources.map((source, index) => {
+      const location = [
+        source.document_name,
+        source.page_start != null && (source.page_end != null && source.page_end !== source.page_start
+          ? `pages ${source.page_start}-${source.page_end}`
+          : `page ${source.page_start}`),
+        source.heading,
+      ].filter(Boolean).join(' | ');
+      return `[${index + 1}] ${location}\n${source.content.trim()}`;
+    });
+
+    return [
+      'Answer using the numbered sources below. Cite the sources you rely on with their number in square brackets, e.g. [1] or [2][3].',
+      'If the sources do not contain the answer, say so instead of guessing.',
+      '',
+      'Sources:',
+      blocks.join('\n\n'),
+    ].join('\n');
+  }
+
+  /**
+   * Structured citations for the sources given to the model
+   */
+  static buildCitations(sources: IVectorSearchHit[], answer: string): ICitation[] {
+    const referenced = new Set<number>();
+    for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+      referenced.add(Number(match[1]));
+    }
+
+    return sources.map((source, position) => {
+      const index = position + 1;
+      return {
+        index,
+        document_id: source.document_id,
+        document_name: source.document_name,
+        chunk_id: source.chunk_id,
+        chunk_index: source.chunk_index,
+        ...(source.page_start != null && { page: source.page_start }),
+        ...(source.page_end != null && source.page_end !== source.page_start && { page_end: source.page_end }),
+        ...(source.heading && { heading: source.heading }),
+        snippet: toSnippet(source.content),
+        score: Math.round(source.score * 10000) / 10000,
+        cited: referenced.has(index),
+      };
+    });
+  }
+
+  /**
+   * Keep only chunks of documents the asker can read according to
+   * FolderModel.checkUserPermission (or owns, for documents outside any
+   * folder). The vector search already enforces access; this second check
+   * guarantees an answer never cites a document the asker cannot open.
+   */
+  private static async filterCitable(hits: IVectorSearchHit[], requestingUserId: string): Promise<IVectorSearchHit[]> {
+    const allowed = new Map<string, boolean>();
+
+    for (const documentId of new Set(hits.map(hit => hit.document_id))) {
+      const document = await DocumentModel.findById(documentId);
+      if (!document) {
+        allowed.set(documentId, false);
+      } else if (document.folder_id) {
+        allowed.set(documentId, await FolderModel.checkUserPermission(requestingUserId, document.folder_id, 'read'));
+      } else {
+        allowed.set(documentId, document.uploaded_by_user_id === requestingUserId);
+      }
+    }
+
+    const citable = hits.filter(hit => allowed.get(hit.document_id));
+    if (citable.length < hits.length) {
+      logger.info('Service: Dropped sources without folder read access', {
+        requesting_user: requestingUserId,
+        dropped: hits.length - citable.length
+      });
+    }
+    return citable;
+  }
+
+  private static fitToBudget(hits: IVectorSearchHit[], maxTokens: number): IVectorSearchHit[] {
+    const selected: IVectorSearchHit[] = [];
+    let used = 0;
+
+    for (const hit of hits) {
+      const tokens = countTokens(hit.content);
+      if (used + tokens > maxTokens && selected.length > 0) {
+        break;
+      }
+      selected.push(hit);
+      used += tokens;
+    }
+
+    return selected;
+  }
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { DocumentChunkModel } from '@models/DocumentChunk.model';
+import { setReranker } from '@services/retrieval';
+import { RetrievalService } from '@services/retrieval.service';
+import { SemanticSearchService } from '@services/semanticSearch.service';
+import { IVectorSearchHit } from '@services/vectors';
+
+const hit = (chunkId: string, score: number): IVectorSearchHit => ({
+  chunk_id: chunkId,
+  chunk_index: 0,
+  content: `content of ${chunkId}`,
+  document_id: `document-${chunkId}`,
+  document_name: `${chunkId}.txt`,
+  score,
+});
+
+const ids = (hits: IVectorSearchHit[]) => hits.map(result => result.chunk_id);
+
+describe('RetrievalService.query', () => {
+  let searchText: ReturnType<typeof spyOn>;
+  let semanticSearch: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    searchText = spyOn(DocumentChunkModel, 'searchText').mockResolvedValue([
+      hit('a', 0.9),
+      hit('b', 0.5),
+      hit('c', 0.1),
+    ]);
+    semanticSearch = spyOn(SemanticSearchService, 'search').mockResolvedValue({
+      results: [hit('c', 0.8), hit('b', 0.7), hit('d', 0.6)],
+      model: 'test-model',
+    } as any);
+    setReranker(null);
+  });
+
+  afterEach(() => {
+    searchText.mockRestore();
+    semanticSearch.mockRestore();
+    setReranker(null);
+  });
+
+  it('orders hits by fused score, favouring chunks found by both rankings', async () => {
+    const result = await RetrievalService.query({ query: 'budget', rrf_k: 60 }, 'user-1', []);
+
+    // c: 1/63 + 1/61, b: 1/62 + 1/62, a: 1/61, d: 1/63
+    expect(ids(result.results)).toEqual(['c', 'b', 'a', 'd']);
+    expect(result.retrievers).toEqual({ lexical: 'ok', vector: 'ok', reranker: 'skipped' });
+    expect(result.model).toBe('test-model');
+  });
+
+  it('explains the rank and raw score of each ranking', async () => {
+    const result = await RetrievalService.query({ query: 'budget', rrf_k: 60 }, 'user-1', []);
+    const a = result.results.find(entry => entry.chunk_id === 'a')!;
+    const c = result.results.find(entry => entry.chunk_id === 'c')!;
+
+    expect(a.explanation).toMatchObject({ lexical_rank: 1, lexical_score: 0.9, vector_rank: null, vector_score: null });
+    expect(c.explanation).toMatchObject({ lexical_rank: 3, lexical_score: 0.1, vector_rank: 1, vector_score: 0.8 });
+    expect(c.score).toBeCloseTo(1 / 63 + 1 / 61);
+    expect(c.explanation.fused_score).toBe(c.score);
+  });
+
+  it('lets the weights decide between the rankings', async () => {
+    const result = await RetrievalService.query(
+      { query: 'budget', rrf_k: 60, lexical_weight: 1, vector_weight: 2 },
+      'user-1',
+      []
+    );
+
+    // d (2/63) now outranks a (1/61)
+    expect(ids(result.results)).toEqual(['c', 'b', 'd', 'a']);
+  });
+
+  it('runs only the ranking of a single-ranking mode', async () => {
+    const result = await RetrievalService.query({ query: 'budget', mode: 'lexical' }, 'user-1', []);
+
+    expect(semanticSearch).not.toHaveBeenCalled();
+    expect(ids(result.results)).toEqual(['a', 'b', 'c']);
+    expect(result.retrievers.vector).toBe('skipped');
+  });
+
+  it('keeps the other ranking when one fails', async () => {
+    semanticSearch.mockRejectedValue(new Error('embedding provider down'));
+
+    const result = await RetrievalService.query({ query: 'budget' }, 'user-1', []);
+
+    expect(ids(result.results)).toEqual(['a', 'b', 'c']);
+    expect(result.retrievers).toMatchObject({ lexical: 'ok', vector: 'failed' });
+    expect(result.model).toBeUndefined();
+  });
+
+  it('fails when every ranking it uses fails', async () => {
+    const failure = new Error('embedding provider down');
+    semanticSearch.mockRejectedValue(failure);
+
+    await expect(RetrievalService.query({ query: 'budget', mode: 'vector' }, 'user-1', [])).rejects.toBe(failure);
+  });
+
+  it('rejects queries with both weights at 0 or without text', async () => {
+    await expect(RetrievalService.query({ query: 'budget', lexical_weight: 0, vector_weight: 0 }, 'user-1', []))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(RetrievalService.query({ query: '   ' }, 'user-1', [])).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('reranks the fused hits, keeping fused order between ties', async () => {
+    // Scores by chunk: d first, then b and c tied (c is ahead after fusion)
+    const scores: Record<string, number> = { 'content of d': 3, 'content of b': 1, 'content of c': 1 };
+    setReranker({
+      name: 'stub',
+      rerank: async (_query, candidates) => candidates.map(candidate => scores[candidate.content] ?? 0),
+    });
+
+    const result = await RetrievalService.query({ query: 'budget', rrf_k: 60, top_k: 4 }, 'user-1', []);
+
+    expect(ids(result.results)).toEqual(['d', 'c', 'b', 'a']);
+    expect(result.reranker).toBe('stub');
+    expect(result.retrievers.reranker).toBe('ok');
+    expect(result.results[0]!.explanation.rerank_score).toBe(3);
+  });
+
+  it('keeps the fused order when the reranker fails', async () => {
+    setReranker({
+      name: 'stub',
+      rerank: async () => {
+        throw new Error('reranker down');
+      },
+    });
+
+    const result = await RetrievalService.query({ query: 'budget', rrf_k: 60 }, 'user-1', []);
+
+    expect(ids(result.results)).toEqual(['c', 'b', 'a', 'd']);
+    expect(result.retrievers.reranker).toBe('failed');
+  });
+});
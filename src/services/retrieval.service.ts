@@ -0,0 +1,274 @@
+import { config } from '@config/config';
+import { DocumentChunkModel } from '@models/DocumentChunk.model';
+import { getReranker, reciprocalRankFusion, Reranker } from '@services/retrieval';
+import { SemanticSearchService } from '@services/semanticSearch.service';
+import { IVectorSearchHit } from '@services/vectors';
+import { BadRequestError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+export type RetrievalMode = 'hybrid' | 'lexical' | 'vector';
+
+export type RetrieverStatus = 'ok' | 'failed' | 'skipped';
+
+export interface IRetrievalParams {
+  query: string;
+  top_k?: number;
+  mode?: RetrievalMode;
+  // Weights of each ranking in the fusion; 0 leaves a ranking out
+  lexical_weight?: number;
+  vector_weight?: number;
+  rrf_k?: number;
+  // Minimum cosine similarity for vector candidates
+  min_vector_score?: number;
+  // Set to false to skip the configured reranker
+  rerank?: boolean;
+  folder_id?: string;
+  document_ids?: string[];
+  mime_type?: string;
+}
+
+// Why a hit ranks where it does; null when it is missing from a ranking
+export interface IRetrievalExplanation {
+  lexical_rank: number | null;
+  lexical_score: number | null;
+  vector_rank: number | null;
+  vector_score: number | null;
+  fused_score: number;
+  rerank_score: number | null;
+}
+
+// `score` is the rerank score when the hit was reranked, otherwise the fused score
+export interface IRetrievalHit extends IVectorSearchHit {
+  explanation: IRetrievalExplanation;
+}
+
+export interface IRetrievalResult {
+  results: IRetrievalHit[];
+  mode: RetrievalMode;
+  // Embedding model of the vector ranking
+  model?: string;
+  // Reranker that ran (or failed), null when none was used
+  reranker: string | null;
+  retrievers: {
+    lexical: RetrieverStatus;
+    vector: RetrieverStatus;
+    reranker: RetrieverStatus;
+  };
+}
+
+const DEFAULT_TOP_K = 10;
+
+export class RetrievalService {
+  /**
+   * Find the chunks most relevant to a query among the documents the user
+   * can read. Full-text and vector rankings are merged with weighted
+   * reciprocal rank fusion and the best fused hits are optionally reranked.
+   * In hybrid mode a failing ranking or reranker is left out rather than
+   * failing the query.
+   */
+  static async query(
+    params: IRetrievalParams,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<IRetrievalResult> {
+    const query = params.query.trim();
+    if (!query) {
+      throw new BadRequestError('Search query is required');
+    }
+
+    const mode = params.mode || 'hybrid';
+    const topK = params.top_k || DEFAULT_TOP_K;
+    const rrfK = params.rrf_k ?? config.retrieval.rrfK;
+    const lexicalWeight = mode === 'vector' ? 0 : params.lexical_weight ?? config.retrieval.lexicalWeight;
+    const vectorWeight = mode === 'lexical' ? 0 : params.vector_weight ?? config.retrieval.vectorWeight;
+    if (lexicalWeight === 0 && vectorWeight === 0) {
+      throw new BadRequestError('At least one of lexical_weight and vector_weight must be above 0');
+    }
+
+    logger.info('Service: Retrieval query', {
+      mode,
+      top_k: topK,
+      lexical_weight: lexicalWeight,
+      vector_weight: vectorWeight,
+      folder_id: params.folder_id,
+      requesting_user: requestingUserId
+    });
+
+    const candidateCount = Math.max(config.retrieval.candidates, topK);
+    const scope = {
+      ...(params.folder_id && { folder_id: params.folder_id }),
+      ...(params.document_ids && { document_ids: params.document_ids }),
+      ...(params.mime_type && { mime_type: params.mime_type }),
+    };
+
+    const [lexical, vector] = await Promise.all([
+      lexicalWeight > 0
+        ? this.runRetriever('lexical', requestingUserId, () => DocumentChunkModel.searchText({
+          query,
+          top_k: candidateCount,
+          user_id: requestingUserId,
+          has_global_read: userPermissions.includes('view_documents'),
+          ...scope,
+        }).then(results => ({ results, model: undefined })))
+        : null,
+      vectorWeight > 0
+        ? this.runRetriever('vector', requestingUserId, () => SemanticSearchService.search({
+          query,
+          top_k: candidateCount,
+          ...(params.min_vector_score !== undefined && { min_score: params.min_vector_score }),
+          ...scope,
+        }, requestingUserId, userPermissions))
+        : null,
+    ]);
+
+    const lexicalFailed = lexical instanceof Error;
+    const vectorFailed = vector instanceof Error;
+    if ((lexicalFailed || !lexical) && (vectorFailed || !vector)) {
+      // Nothing to fall back to
+      throw lexicalFailed ? lexical : vector;
+    }
+
+    const lexicalHits = lexical && !lexicalFailed ? lexical.results : [];
+    const vectorHits = vector && !vectorFailed ? vector.results : [];
+    let hits = this.fuse(lexicalHits, vectorHits, lexicalWeight, vectorWeight, rrfK);
+
+    let rerankerName: string | null = null;
+    let rerankerStatus: RetrieverStatus = 'skipped';
+    if (params.rerank !== false && hits.length > 0) {
+      const rerankCount = Math.max(config.retrieval.reranker.topN, topK);
+      try {
+        const reranker = getReranker();
+        if (reranker) {
+          rerankerName = reranker.name;
+          hits = await this.rerank(query, hits, rerankCount, reranker);
+          rerankerStatus = 'ok';
+        }
+      } catch (error) {
+        rerankerName = rerankerName || config.retrieval.reranker.provider;
+        rerankerStatus = 'failed';
+        logger.warn('Service: Reranking failed, keeping fused order', {
+          reranker: rerankerName,
+          requesting_user: requestingUserId,
+          error
+        });
+      }
+    }
+
+    const results = hits.slice(0, topK);
+
+    logger.info('Service: Retrieval query completed', {
+      result_count: results.length,
+      lexical_candidates: lexicalHits.length,
+      vector_candidates: vectorHits.length,
+      requesting_user: requestingUserId
+    });
+
+    return {
+      results,
+      mode,
+      ...(vector && !vectorFailed && { model: vector.model }),
+      reranker: rerankerName,
+      retrievers: {
+        lexical: !lexical ? 'skipped' : lexicalFailed ? 'failed' : 'ok',
+        vector: !vector ? 'skipped' : vectorFailed ? 'failed' : 'ok',
+        reranker: rerankerStatus,
+      },
+    };
+  }
+
+  /**
+   * Run one ranking, returning its error instead of throwing so the other
+   * ranking can still answer
+   */
+  private static async runRetriever<T>(
+    name: string,
+    requestingUserId: string,
+    retrieve: () => Promise<T>
+  ): Promise<T | Error> {
+    try {
+      return await retrieve();
+    } catch (error) {
+      logger.warn(`Service: ${name} retrieval failed`, {
+        requesting_user: requestingUserId,
+        error
+      });
+      return error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * Merge the two rankings by weighted reciprocal rank fusion, best first
+   */
+  private static fuse(
+    lexicalHits: IVectorSearchHit[],
+    vectorHits: IVectorSearchHit[],
+    lexicalWeight: number,
+    vectorWeight: number,
+    rrfK: number
+  ): IRetrievalHit[] {
+    const fused = reciprocalRankFusion([
+      { ids: lexicalHits.map(hit => hit.chunk_id), weight: lexicalWeight },
+      { ids: vectorHits.map(hit => hit.chunk_id), weight: vectorWeight },
+    ], rrfK);
+
+    const hits = new Map<string, IRetrievalHit>();
+    const addHits = (rankedHits: IVectorSearchHit[], ranking: 'lexical' | 'vector') => {
+      rankedHits.forEach((hit, index) => {
+        const fusedScore = fused.get(hit.chunk_id) || 0;
+        const entry = hits.get(hit.chunk_id) || {
+          ...hit,
+          score: fusedScore,
+          explanation: {
+            lexical_rank: null,
+            lexical_score: null,
+            vector_rank: null,
+            vector_score: null,
+            fused_score: fusedScore,
+            rerank_score: null,
+          },
+        };
+        entry.explanation[`${ranking}_rank`] = index + 1;
+        entry.explanation[`${ranking}_score`] = hit.score;
+        hits.set(hit.chunk_id, entry);
+      });
+    };
+
+    addHits(vectorHits, 'vector');
+    addHits(lexicalHits, 'lexical');
+
+    return [...hits.values()].sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Rerank the best `count` fused hits; the rest keep their fused order
+   * after them
+   */
+  private static async rerank(
+    query: string,
+    hits: IRetrievalHit[],
+    count: number,
+    reranker: Reranker
+  ): Promise<IRetrievalHit[]> {
+    const head = hits.slice(0, count);
+    const scores = await reranker.rerank(query, head.map(hit => ({
+      content: hit.content,
+      document_name: hit.document_name,
+      ...(hit.heading && { heading: hit.heading }),
+    })));
+
+    const reranked = head
+      .map((hit, index) => {
+        const rerankScore = scores[index] ?? Number.NEGATIVE_INFINITY;
+        return {
+          ...hit,
+          score: rerankScore,
+          explanation: { ...hit.explanation, rerank_score: Number.isFinite(rerankScore) ? rerankScore : null },
+        };
+      })
+      // Ties (and hits the reranker skipped) keep their fused order
+      .sort((a, b) => b.score - a.score || b.explanation.fused_score - a.explanation.fused_score)
+      .map(hit => (hit.explanation.rerank_score === null ? { ...hit, score: hit.explanation.fused_score } : hit));
+
+    return [...reranked, ...hits.slice(count)];
+  }
+}
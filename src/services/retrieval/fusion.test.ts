@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'bun:test';
+import { reciprocalRankFusion } from './fusion';
+
+describe('reciprocalRankFusion', () => {
+  it('scores each id weight / (k + rank) with 1-based ranks', () => {
+    const scores = reciprocalRankFusion([{ ids: ['a', 'b', 'c'], weight: 1 }], 60);
+
+    expect(scores.get('a')).toBeCloseTo(1 / 61);
+    expect(scores.get('b')).toBeCloseTo(1 / 62);
+    expect(scores.get('c')).toBeCloseTo(1 / 63);
+  });
+
+  it('sums the scores of an id over the lists it appears in', () => {
+    const scores = reciprocalRankFusion([
+      { ids: ['a', 'b'], weight: 1 },
+      { ids: ['b', 'c'], weight: 1 },
+    ], 60);
+
+    expect(scores.get('b')).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(scores.get('b')!).toBeGreaterThan(scores.get('a')!);
+    expect(scores.get('a')!).toBeGreaterThan(scores.get('c')!);
+  });
+
+  it('applies each list weight', () => {
+    const scores = reciprocalRankFusion([
+      { ids: ['lexical'], weight: 2 },
+      { ids: ['vector'], weight: 0.5 },
+    ], 10);
+
+    expect(scores.get('lexical')).toBeCloseTo(2 / 11);
+    expect(scores.get('vector')).toBeCloseTo(0.5 / 11);
+  });
+
+  it('flattens the gap between ranks as k grows', () => {
+    const ratio = (k: number) => {
+      const scores = reciprocalRankFusion([{ ids: ['first', 'second'], weight: 1 }], k);
+      return scores.get('first')! / scores.get('second')!;
+    };
+
+    expect(ratio(1)).toBeGreaterThan(ratio(60));
+  });
+
+  it('returns no scores for empty lists', () => {
+    expect(reciprocalRankFusion([{ ids: [], weight: 1 }], 60).size).toBe(0);
+  });
+});
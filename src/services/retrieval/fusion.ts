@@ -0,0 +1,22 @@
+export interface IRankedList {
+  // Ids in rank order, best first
+  ids: string[];
+  weight: number;
+}
+
+/**
+ * Weighted reciprocal rank fusion: an id scores weight / (k + rank) in each
+ * list it appears in (rank is 1-based), summed over the lists. A larger `k`
+ * flattens the difference between top and lower ranks.
+ */
+export const reciprocalRankFusion = (lists: IRankedList[], k: number): Map<string, number> => {
+  const scores = new Map<string, number>();
+
+  for (const { ids, weight } of lists) {
+    ids.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + weight / (k + index + 1));
+    });
+  }
+
+  return scores;
+};
@@ -0,0 +1,58 @@
+import { IRerankCandidate, Reranker } from './reranker';
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Words too common to say anything about relevance
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+  'i', 'in', 'is', 'it', 'of', 'on', 'or', 'our', 'that', 'the', 'this', 'to', 'was', 'we',
+  'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you', 'your',
+]);
+
+// Crude suffix stripping so "policies" meets "policy" and "approved" meets "approve"
+const stem = (word: string): string => {
+  if (word.length <= 4) {
+    return word;
+  }
+  return word.replace(/(ies|ing|ed|es|s|e|y)$/, '');
+};
+
+const terms = (text: string): string[] => (text.toLowerCase().match(TOKEN_PATTERN) || []).map(stem);
+
+/**
+ * Local reranker without a model: scores how much of the query a chunk
+ * covers, whether it contains consecutive query words, and whether the
+ * document name or heading mention the query. Scores are between 0 and 1.
+ */
+export class HeuristicReranker implements Reranker {
+  public readonly name = 'heuristic';
+
+  async rerank(query: string, candidates: IRerankCandidate[]): Promise<number[]> {
+    const queryTerms = terms(query).filter(term => !STOPWORDS.has(term));
+    const distinctTerms = [...new Set(queryTerms)];
+    if (distinctTerms.length === 0) {
+      return candidates.map(() => 0);
+    }
+
+    const queryBigrams = new Set(queryTerms.slice(1).map((term, index) => `${queryTerms[index]} ${term}`));
+
+    return candidates.map(candidate => {
+      const contentTerms = terms(candidate.content);
+      const contentSet = new Set(contentTerms);
+      const titleSet = new Set(terms(`${candidate.document_name} ${candidate.heading || ''}`));
+
+      const coverage = distinctTerms.filter(term => contentSet.has(term)).length / distinctTerms.length;
+      const titleCoverage = distinctTerms.filter(term => titleSet.has(term)).length / distinctTerms.length;
+
+      let bigramMatches = 0;
+      for (let index = 1; index < contentTerms.length && queryBigrams.size > 0; index++) {
+        if (queryBigrams.has(`${contentTerms[index - 1]} ${contentTerms[index]}`)) {
+          bigramMatches++;
+        }
+      }
+      const proximity = queryBigrams.size > 0 ? Math.min(bigramMatches / queryBigrams.size, 1) : 0;
+
+      return 0.6 * coverage + 0.25 * proximity + 0.15 * titleCoverage;
+    });
+  }
+}
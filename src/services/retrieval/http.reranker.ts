@@ -0,0 +1,73 @@
+import axios, { AxiosInstance } from 'axios';
+import { ExternalServiceError } from '@utils/AppError';
+import { IRerankCandidate, Reranker } from './reranker';
+
+export interface IHttpRerankerOptions {
+  url: string;
+  model?: string | undefined;
+  apiKey?: string | undefined;
+  timeoutMs?: number;
+}
+
+/**
+ * Client for a cross-encoder reranking service. Sends
+ * `{ model, query, documents, texts }` and accepts either the Cohere/Jina response
+ * (`{ results: [{ index, relevance_score }] }`) or the Hugging Face text
+ * embeddings inference one (`[{ index, score }]`).
+ */
+export class HttpReranker implements Reranker {
+  public readonly name = 'http';
+  private readonly http: AxiosInstance;
+  private readonly url: string;
+  private readonly model: string | undefined;
+
+  constructor(options: IHttpRerankerOptions) {
+    this.url = options.url;
+    this.model = options.model;
+    this.http = axios.create({
+      timeout: options.timeoutMs || 10000,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+      },
+    });
+  }
+
+  async rerank(query: string, candidates: IRerankCandidate[]): Promise<number[]> {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const documents = candidates.map(candidate => candidate.content);
+
+    try {
+      const response = await this.http.post(this.url, {
+        ...(this.model && { model: this.model }),
+        query,
+        documents,
+        // Text embeddings inference reads `texts`
+        texts: documents,
+      });
+
+      const results: Array<{ index: number; relevance_score?: number; score?: number }> =
+        Array.isArray(response.data) ? response.data : response.data?.results || [];
+
+      const scores = candidates.map(() => Number.NEGATIVE_INFINITY);
+      for (const result of results) {
+        const score = result.relevance_score ?? result.score;
+        if (Number.isInteger(result.index) && result.index >= 0 && result.index < scores.length && typeof score === 'number') {
+          scores[result.index] = score;
+        }
+      }
+      return scores;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const detail = error instanceof Error ? error.message : String(error);
+      throw new ExternalServiceError(
+        this.name,
+        `Rerank request failed${status ? ` (${status})` : ''}: ${detail}`,
+        { retryable: status === undefined || status === 429 || status >= 500 }
+      );
+    }
+  }
+}
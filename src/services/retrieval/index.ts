@@ -0,0 +1,52 @@
+import { config } from '@config/config';
+import { logger } from '@utils/logger';
+import { HeuristicReranker } from './heuristic.reranker';
+import { HttpReranker } from './http.reranker';
+import { Reranker } from './reranker';
+
+export * from './reranker';
+export * from './fusion';
+export { HeuristicReranker } from './heuristic.reranker';
+export { HttpReranker } from './http.reranker';
+
+let reranker: Reranker | null | undefined;
+
+const createReranker = (): Reranker | null => {
+  const { reranker: options } = config.retrieval;
+
+  switch (options.provider) {
+    case 'heuristic':
+      return new HeuristicReranker();
+    case 'http':
+      if (!options.url) {
+        throw new Error('RERANKER_URL is required when RERANKER=http');
+      }
+      return new HttpReranker({
+        url: options.url,
+        model: options.model,
+        apiKey: options.apiKey,
+        timeoutMs: options.timeoutMs,
+      });
+    case 'none':
+    default:
+      return null;
+  }
+};
+
+/**
+ * Get the reranker selected by RERANKER, or null when reranking is off
+ */
+export const getReranker = (): Reranker | null => {
+  if (reranker === undefined) {
+    reranker = createReranker();
+    logger.info(`Reranker initialized: ${reranker ? reranker.name : 'none'}`);
+  }
+  return reranker;
+};
+
+/**
+ * Replace the active reranker (e.g. with a stub in tests); null turns reranking off
+ */
+export const setReranker = (customReranker: Reranker | null): void => {
+  reranker = customReranker;
+};
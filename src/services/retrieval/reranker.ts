@@ -0,0 +1,17 @@
+// What a reranker sees of a retrieved chunk
+export interface IRerankCandidate {
+  content: string;
+  document_name: string;
+  heading?: string;
+}
+
+/**
+ * Scores retrieved chunks against the query, typically with a model that
+ * reads query and chunk together (a cross-encoder). Scores are returned in
+ * the order of the candidates; higher is more relevant.
+ */
+export interface Reranker {
+  readonly name: string;
+
+  rerank(query: string, candidates: IRerankCandidate[]): Promise<number[]>;
+}
@@ -0,0 +1,126 @@
+import { IDocument } from '@models/Document.model';
+import { IDocumentChunk } from '@models/DocumentChunk.model';
+import { getEmbeddingProvider } from '@services/embeddings';
+import { getVectorStore, IVectorSearchHit } from '@services/vectors';
+import { BadRequestError } from '@utils/AppError';
+import { logger } from '@utils/logger';
+
+export type IndexableDocument = Pick<IDocument, 'document_id' | 'document_name' | 'folder_id' | 'uploaded_by_user_id' | 'mime_type'>;
+
+export interface ISemanticSearchParams {
+  query: string;
+  top_k?: number;
+  min_score?: number;
+  folder_id?: string;
+  document_ids?: string[];
+  mime_type?: string;
+}
+
+export interface ISemanticSearchResult {
+  results: IVectorSearchHit[];
+  model: string;
+}
+
+const DEFAULT_TOP_K = 10;
+
+export class SemanticSearchService {
+  /**
+   * Embed a document's chunks and store the vectors
+   */
+  static async indexDocumentChunks(document: IndexableDocument, chunks: IDocumentChunk[]): Promise<void> {
+    const store = getVectorStore();
+    const provider = getEmbeddingProvider();
+
+    // Chunk ids change whenever a document is re-chunked
+    await store.deleteByDocument(document.document_id);
+    if (chunks.length === 0) {
+      return;
+    }
+
+    const embeddings = await provider.embed(chunks.map(chunk => chunk.content));
+
+    await store.upsert(chunks.map((chunk, index) => ({
+      document: {
+        document_id: document.document_id,
+        document_name: document.document_name,
+        uploaded_by_user_id: document.uploaded_by_user_id,
+        ...(document.folder_id && { folder_id: document.folder_id }),
+        ...(document.mime_type && { mime_type: document.mime_type }),
+      },
+      chunk: {
+        chunk_id: chunk.chunk_id,
+        chunk_index: chunk.chunk_index,
+        content: chunk.content,
+        ...(chunk.page_start != null && { page_start: chunk.page_start }),
+        ...(chunk.page_end != null && { page_end: chunk.page_end }),
+        ...(chunk.heading && { heading: chunk.heading }),
+      },
+      embedding: embeddings[index]!,
+      model: provider.model,
+    })));
+
+    logger.info('Service: Document chunks embedded', { 
+      document_id: document.document_id,
+      chunk_count: chunks.length,
+      model: provider.model 
+    });
+  }
+
+  /**
+   * Drop a document's vectors so it no longer appears in search results
+   */
+  static async removeDocument(documentId: string): Promise<void> {
+    await getVectorStore().deleteByDocument(documentId);
+  }
+
+  /**
+   * Find the chunks most similar to a query among the documents the user
+   * can read
+   */
+  static async search(
+    params: ISemanticSearchParams,
+    requestingUserId: string,
+    userPermissions: string[]
+  ): Promise<ISemanticSearchResult> {
+    logger.info('Service: Semantic search', { 
+      top_k: params.top_k,
+      folder_id: params.folder_id,
+      requesting_user: requestingUserId 
+    });
+
+    const query = params.query.trim();
+    if (!query) {
+      throw new BadRequestError('Search query is required');
+    }
+
+    try {
+      const provider = getEmbeddingProvider();
+      const embedding = await provider.embedQuery(query);
+
+      const results = await getVectorStore().search({
+        embedding,
+        model: provider.model,
+        top_k: params.top_k || DEFAULT_TOP_K,
+        user_id: requestingUserId,
+        has_global_read: userPermissions.includes('view_documents'),
+        ...(params.min_score !== undefined && { min_score: params.min_score }),
+        ...(params.folder_id && { folder_id: params.folder_id }),
+        ...(params.document_ids && { document_ids: params.document_ids }),
+        ...(params.mime_type && { mime_type: params.mime_type }),
+      });
+
+      logger.info('Service: Semantic search completed', { 
+        result_count: results.length,
+        requesting_user: requestingUserId 
+      });
+
+      return { results, model: provider.model };
+    } catch (error) {
+      logger.error('Service: Semantic search failed', { 
+        error,
+        requesting_user: requestingUserId 
+      });
+      throw error;
+    }
+  }
+}
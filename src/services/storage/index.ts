@@ -0,0 +1,31 @@
+import { config } from '@config/config';
+import { logger } from '@utils/logger';
+import { LocalStorageProvider } from './local.storage';
+import { S3StorageProvider } from './s3.storage';
+import { StorageProvider } from './storage.provider';
+
+export * from './storage.provider';
+export { LocalStorageProvider } from './local.storage';
+export { S3StorageProvider } from './s3.storage';
+
+let provider: StorageProvider | null = null;
+
+/**
+ * Get the storage provider selected by STORAGE_DRIVER
+ */
+export const getStorageProvider = (): StorageProvider => {
+  if (!provider) {
+    provider = config.storage.driver === 's3'
+      ? S3StorageProvider.fromConfig()
+      : new LocalStorageProvider();
+    logger.info(`Storage provider initialized: ${provider.name}`);
+  }
+  return provider;
+};
+
+/**
+ * Replace the active storage provider (e.g. with a stand-in in tests)
+ */
+export const setStorageProvider = (storageProvider: StorageProvider): void => {
+  provider = storageProvider;
+};
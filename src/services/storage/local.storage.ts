@@ -0,0 +1,146 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readFile, rename, stat, unlink } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '@config/config';
+import { NotFoundError } from '@utils/AppError';
+import {
+  IStorageObjectInfo,
+  IStoragePutOptions,
+  IStorageSignedUrlOptions,
+  IStorageStreamOptions,
+  StorageProvider,
+  normalizeStorageKey,
+} from './storage.provider';
+
+/**
+ * Stores blobs on the local filesystem under a root directory
+ * (config.upload.destination by default).
+ *
+ * Signed URLs point at the API's /storage route and carry an HMAC of the
+ * key and expiry, so they can be handed to browsers without a JWT.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  public readonly name = 'local';
+  private readonly rootPath: string;
+  private readonly signingSecret: string;
+
+  constructor(rootPath: string = config.upload.destination, signingSecret: string = config.jwt.secret) {
+    this.rootPath = path.resolve(rootPath);
+    this.signingSecret = signingSecret;
+  }
+
+  async put(key: string, body: Readable | Buffer, options: IStoragePutOptions = {}): Promise<void> {
+    const targetPath = this.resolvePath(key);
+    await mkdir(path.dirname(targetPath), { recursive: true });
+
+    // Write to a sibling temp file and rename, so readers never see a partial blob
+    const tempPath = `${targetPath}.${uuidv4()}.partial`;
+    try {
+      const source = Buffer.isBuffer(body) ? Readable.from([body]) : body;
+      await pipeline(source, createWriteStream(tempPath));
+      await rename(tempPath, targetPath);
+    } catch (error) {
+      await unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.resolvePath(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new NotFoundError('Stored file not found');
+      }
+      throw error;
+    }
+  }
+
+  async stream(key: string, options: IStorageStreamOptions = {}): Promise<Readable> {
+    const filePath = this.resolvePath(key);
+    if (!(await this.exists(key))) {
+      throw new NotFoundError('Stored file not found');
+    }
+
+    return createReadStream(filePath, {
+      ...(options.start !== undefined && { start: options.start }),
+      ...(options.end !== undefined && { end: options.end }),
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolvePath(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== null;
+  }
+
+  async stat(key: string): Promise<IStorageObjectInfo | null> {
+    try {
+      const info = await stat(this.resolvePath(key));
+      if (!info.isFile()) {
+        return null;
+      }
+      return { size: info.size, last_modified: info.mtime };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getSignedUrl(key: string, options: IStorageSignedUrlOptions = {}): Promise<string> {
+    const normalizedKey = normalizeStorageKey(key);
+    const expires = Math.floor(Date.now() / 1000) + (options.expires_in_seconds || config.storage.signedUrlTtl);
+
+    const params = new URLSearchParams({
+      expires: String(expires),
+      signature: this.sign(normalizedKey, expires, options.content_disposition),
+    });
+    if (options.content_disposition) {
+      params.set('disposition', options.content_disposition);
+    }
+
+    const baseUrl = config.storage.publicBaseUrl.replace(/\/+$/, '');
+    return `${baseUrl}/api/${config.apiVersion}/storage/${encodeURIComponent(normalizedKey)}?${params.toString()}`;
+  }
+
+  /**
+   * Verify a signature produced by getSignedUrl
+   */
+  verifySignedUrl(key: string, expires: number, signature: string, contentDisposition?: string): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(normalizeStorageKey(key), expires, contentDisposition));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  private sign(key: string, expires: number, contentDisposition?: string): string {
+    return createHmac('sha256', this.signingSecret)
+      .update(`${key}\n${expires}\n${contentDisposition || ''}`)
+      .digest('hex');
+  }
+
+  private resolvePath(key: string): string {
+    const resolved = path.resolve(this.rootPath, normalizeStorageKey(key));
+    if (!resolved.startsWith(this.rootPath + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  S3ClientConfig,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
+import { config } from '@config/config';
+import { NotFoundError } from '@utils/AppError';
+import {
+  IStorageObjectInfo,
+  IStoragePutOptions,
+  IStorageSignedUrlOptions,
+  IStorageStreamOptions,
+  StorageProvider,
+  normalizeStorageKey,
+} from './storage.provider';
+
+export interface IS3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string | undefined;
+  accessKeyId?: string | undefined;
+  secretAccessKey?: string | undefined;
+  forcePathStyle?: boolean;
+}
+
+const isNotFound = (error: any): boolean => {
+  return error?.name === 'NotFound' || error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404;
+};
+
+/**
+ * Stores blobs in an S3-compatible bucket. Setting an endpoint with
+ * path-style addressing lets it target MinIO or another local stand-in.
+ */
+export class S3StorageProvider implements StorageProvider {
+  public readonly name = 's3';
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor(options: IS3StorageOptions) {
+    this.bucket = options.bucket;
+
+    const clientConfig: S3ClientConfig = {
+      region: options.region,
+      forcePathStyle: options.forcePathStyle || false,
+    };
+    if (options.endpoint) {
+      clientConfig.endpoint = options.endpoint;
+    }
+    if (options.accessKeyId && options.secretAccessKey) {
+      clientConfig.credentials = {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      };
+    }
+
+    this.client = new S3Client(clientConfig);
+  }
+
+  static fromConfig(): S3StorageProvider {
+    const { bucket, ...rest } = config.storage.s3;
+    if (!bucket) {
+      throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+    }
+    return new S3StorageProvider({ bucket, ...rest });
+  }
+
+  async put(key: string, body: Readable | Buffer, options: IStoragePutOptions = {}): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: normalizeStorageKey(key),
+      Body: body,
+      ...(options.content_type && { ContentType: options.content_type }),
+      ...(options.content_length !== undefined && { ContentLength: options.content_length }),
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const stream = await this.stream(key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async stream(key: string, options: IStorageStreamOptions = {}): Promise<Readable> {
+    const range = options.start !== undefined || options.end !== undefined
+      ? `bytes=${options.start ?? 0}-${options.end ?? ''}`
+      : undefined;
+
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: normalizeStorageKey(key),
+        ...(range && { Range: range }),
+      }));
+      return response.Body as Readable;
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new NotFoundError('Stored file not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 deletes are idempotent: deleting a missing key succeeds
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: normalizeStorageKey(key),
+    }));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== null;
+  }
+
+  async stat(key: string): Promise<IStorageObjectInfo | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: normalizeStorageKey(key),
+      }));
+
+      return {
+        size: response.ContentLength || 0,
+        ...(response.ContentType && { content_type: response.ContentType }),
+        ...(response.LastModified && { last_modified: response.LastModified }),
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getSignedUrl(key: string, options: IStorageSignedUrlOptions = {}): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: normalizeStorageKey(key),
+      ...(options.content_type && { ResponseContentType: options.content_type }),
+      ...(options.content_disposition && { ResponseContentDisposition: options.content_disposition }),
+    });
+
+    return getSignedUrl(this.client, command, {
+      expiresIn: options.expires_in_seconds || config.storage.signedUrlTtl,
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { Readable } from 'stream';
+
+export interface IStorageObjectInfo {
+  size: number;
+  content_type?: string;
+  last_modified?: Date;
+}
+
+export interface IStoragePutOptions {
+  content_type?: string;
+  content_length?: number;
+}
+
+export interface IStorageStreamOptions {
+  // Inclusive byte range, as in HTTP Range requests
+  start?: number;
+  end?: number;
+}
+
+export interface IStorageSignedUrlOptions {
+  expires_in_seconds?: number;
+  content_type?: string;
+  content_disposition?: string;
+}
+
+/**
+ * Backend for document blobs. Keys are forward-slash separated relative
+ * paths (e.g. "documents/<uuid>.pdf") and are what documents.file_path stores.
+ */
+export interface StorageProvider {
+  readonly name: string;
+
+  put(key: string, body: Readable | Buffer, options?: IStoragePutOptions): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  stream(key: string, options?: IStorageStreamOptions): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  stat(key: string): Promise<IStorageObjectInfo | null>;
+  getSignedUrl(key: string, options?: IStorageSignedUrlOptions): Promise<string>;
+}
+
+/**
+ * Reject keys that are absolute or try to escape the storage root
+ */
+export const normalizeStorageKey = (key: string): string => {
+  const normalized = key.replace(/\\/g, '/').replace(/^\/+/, '');
+  const segments = normalized.split('/');
+
+  if (!normalized || segments.some(segment => segment === '..' || segment === '')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+
+  return normalized;
+};
@@ -83,11 +83,11 @@ export class UserService {
   /**
    * Create new user
    */
-  static async createUser(userData: ICreateUser) {
+  static async createUser(userData: ICreateUser, createdByUserId?: string) {
     logger.info('Service: Creating new user', { email: userData.email });
 
     try {
-      const user = await UserModel.create(userData);
+      const user = await UserModel.create(userData, createdByUserId);
 
       logger.info('Service: User created successfully', { 
         user_id: user.user_id, 
@@ -139,7 +139,7 @@ export class UserService {
         }
       }
 
-      const user = await UserModel.update(userId, updateData);
+      const user = await UserModel.update(userId, updateData, requestingUserId);
 
       logger.info('Service: User updated successfully', { user_id: userId });
       return user;
@@ -165,7 +165,7 @@ export class UserService {
         throw new BadRequestError('Cannot deactivate your own account');
       }
 
-      await UserModel.delete(userId);
+      await UserModel.delete(userId, requestingUserId);
       
       logger.info('Service: User deleted successfully', { user_id: userId });
     } catch (error) {
@@ -198,7 +198,7 @@ export class UserService {
         throw new ForbiddenError('Access denied');
       }
 
-      await UserModel.changePassword(userId, newPassword);
+      await UserModel.changePassword(userId, newPassword, requestingUserId);
 
       logger.info('Service: User password changed successfully', { user_id: userId });
     } catch (error) {
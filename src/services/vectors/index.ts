@@ -0,0 +1,32 @@
+import { config } from '@config/config';
+import { FolderModel } from '@models/Folder.model';
+import { logger } from '@utils/logger';
+import { InMemoryVectorStore } from './memory.store';
+import { PgVectorStore } from './pgvector.store';
+import { VectorStore } from './vector.store';
+
+export * from './vector.store';
+export { InMemoryVectorStore } from './memory.store';
+export { PgVectorStore } from './pgvector.store';
+
+let store: VectorStore | null = null;
+
+/**
+ * Get the vector store selected by VECTOR_STORE
+ */
+export const getVectorStore = (): VectorStore => {
+  if (!store) {
+    store = config.vectorStore.driver === 'memory'
+      ? new InMemoryVectorStore((userId, folderId) => FolderModel.checkUserPermission(userId, folderId, 'read'))
+      : new PgVectorStore();
+    logger.info(`Vector store initialized: ${store.name}`);
+  }
+  return store;
+};
+
+/**
+ * Replace the active vector store (e.g. with an in-memory one in tests)
+ */
+export const setVectorStore = (vectorStore: VectorStore): void => {
+  store = vectorStore;
+};
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test';
+import { InMemoryVectorStore } from './memory.store';
+import { IVectorDocumentInfo, IVectorSearchQuery } from './vector.store';
+
+const MODEL = 'test-model';
+
+const record = (chunkId: string, document: IVectorDocumentInfo, embedding: number[] = [1, 0]) => ({
+  document,
+  chunk: { chunk_id: chunkId, chunk_index: 0, content: `content of ${chunkId}` },
+  embedding,
+  model: MODEL,
+});
+
+const owned: IVectorDocumentInfo = { document_id: 'owned', document_name: 'owned.txt', uploaded_by_user_id: 'alice' };
+const rootOfOther: IVectorDocumentInfo = { document_id: 'root', document_name: 'root.txt', uploaded_by_user_id: 'bob' };
+const inShared: IVectorDocumentInfo = {
+  document_id: 'shared',
+  document_name: 'shared.txt',
+  folder_id: 'shared-folder',
+  uploaded_by_user_id: 'bob',
+  mime_type: 'text/plain',
+};
+const inPrivate: IVectorDocumentInfo = {
+  document_id: 'private',
+  document_name: 'private.txt',
+  folder_id: 'private-folder',
+  uploaded_by_user_id: 'bob',
+};
+
+const query = (overrides: Partial<IVectorSearchQuery> = {}): IVectorSearchQuery => ({
+  embedding: [1, 0],
+  model: MODEL,
+  top_k: 10,
+  user_id: 'alice',
+  has_global_read: false,
+  ...overrides,
+});
+
+const documentIds = (hits: { document_id: string }[]) => hits.map(hit => hit.document_id).sort();
+
+describe('InMemoryVectorStore access filtering', () => {
+  const canReadFolder = mock((userId: string, folderId: string) => userId === 'alice' && folderId === 'shared-folder');
+  let store: InMemoryVectorStore;
+
+  beforeEach(async () => {
+    canReadFolder.mockClear();
+    store = new InMemoryVectorStore(canReadFolder);
+    await store.upsert([
+      record('owned-1', owned),
+      record('root-1', rootOfOther),
+      record('shared-1', inShared),
+      record('shared-2', inShared, [0.8, 0.6]),
+      // Closest to the top_k query below, but not readable by alice
+      record('private-1', inPrivate, [0.6, 0.8]),
+    ]);
+  });
+
+  it('returns own documents and documents in readable folders', async () => {
+    expect(documentIds(await store.search(query()))).toEqual(['owned', 'shared', 'shared']);
+  });
+
+  it('returns every document to callers with global read', async () => {
+    const hits = await store.search(query({ user_id: 'carol', has_global_read: true }));
+
+    expect(documentIds(hits)).toEqual(['owned', 'private', 'root', 'shared', 'shared']);
+    expect(canReadFolder).not.toHaveBeenCalled();
+  });
+
+  it('never returns top-level documents of other users without global read', async () => {
+    const hits = await store.search(query({ user_id: 'bob' }));
+
+    expect(documentIds(hits)).toEqual(['private', 'root', 'shared', 'shared']);
+    expect(documentIds(await store.search(query({ user_id: 'carol' })))).toEqual([]);
+  });
+
+  it('checks each folder once per search', async () => {
+    await store.search(query());
+
+    expect(canReadFolder).toHaveBeenCalledTimes(2);
+    expect(canReadFolder).toHaveBeenCalledWith('alice', 'shared-folder');
+    expect(canReadFolder).toHaveBeenCalledWith('alice', 'private-folder');
+  });
+
+  it('fills top_k with readable chunks only', async () => {
+    const hits = await store.search(query({ top_k: 1, embedding: [0.6, 0.8] }));
+
+    expect(hits.map(hit => hit.chunk_id)).toEqual(['shared-2']);
+  });
+
+  it('applies scope filters on top of access', async () => {
+    expect(documentIds(await store.search(query({ folder_id: 'private-folder' })))).toEqual([]);
+    expect(documentIds(await store.search(query({ document_ids: ['private', 'owned'] })))).toEqual(['owned']);
+    expect(documentIds(await store.search(query({ mime_type: 'text/plain' })))).toEqual(['shared', 'shared']);
+  });
+
+  it('denies folder access by default', async () => {
+    const defaultStore = new InMemoryVectorStore();
+    await defaultStore.upsert([record('shared-1', inShared), record('owned-1', owned)]);
+
+    expect(documentIds(await defaultStore.search(query()))).toEqual(['owned']);
+  });
+
+  it('stops returning a document once it is deleted', async () => {
+    await store.deleteByDocument('shared');
+
+    expect(documentIds(await store.search(query()))).toEqual(['owned']);
+  });
+});
@@ -0,0 +1,88 @@
+import { cosineSimilarity, IVectorRecord, IVectorSearchHit, IVectorSearchQuery, VectorStore } from './vector.store';
+
+export type FolderReadCheck = (userId: string, folderId: string) => boolean | Promise<boolean>;
+
+/**
+ * In-process vector store for tests and local runs without pgvector. Access
+ * follows the same rule as the database (global read, ownership or folder
+ * read), with folder checks supplied by the caller.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  public readonly name = 'memory';
+  private readonly records = new Map<string, IVectorRecord>();
+
+  constructor(private readonly canReadFolder: FolderReadCheck = () => false) {}
+
+  async upsert(records: IVectorRecord[]): Promise<void> {
+    for (const record of records) {
+      this.records.set(record.chunk.chunk_id, record);
+    }
+  }
+
+  async deleteByDocument(documentId: string): Promise<void> {
+    for (const [chunkId, record] of this.records) {
+      if (record.document.document_id === documentId) {
+        this.records.delete(chunkId);
+      }
+    }
+  }
+
+  async search(query: IVectorSearchQuery): Promise<IVectorSearchHit[]> {
+    const folderAccess = new Map<string, boolean>();
+    const hits: IVectorSearchHit[] = [];
+
+    for (const { document, chunk, embedding, model } of this.records.values()) {
+      if (model !== query.model || embedding.length !== query.embedding.length) {
+        continue;
+      }
+      if (query.folder_id && document.folder_id !== query.folder_id) {
+        continue;
+      }
+      if (query.document_ids?.length && !query.document_ids.includes(document.document_id)) {
+        continue;
+      }
+      if (query.mime_type && document.mime_type !== query.mime_type) {
+        continue;
+      }
+      if (!(await this.canRead(query, document, folderAccess))) {
+        continue;
+      }
+
+      const score = cosineSimilarity(query.embedding, embedding);
+      if (score < (query.min_score ?? -1)) {
+        continue;
+      }
+
+      hits.push({
+        ...chunk,
+        document_id: document.document_id,
+        document_name: document.document_name,
+        score,
+        ...(document.folder_id && { folder_id: document.folder_id }),
+        ...(document.mime_type && { mime_type: document.mime_type }),
+      });
+    }
+
+    return hits
+      .sort((a, b) => b.score - a.score)
+      .slice(0, query.top_k);
+  }
+
+  private async canRead(
+    query: IVectorSearchQuery,
+    document: IVectorRecord['document'],
+    folderAccess: Map<string, boolean>
+  ): Promise<boolean> {
+    if (query.has_global_read || document.uploaded_by_user_id === query.user_id) {
+      return true;
+    }
+    if (!document.folder_id) {
+      return false;
+    }
+
+    if (!folderAccess.has(document.folder_id)) {
+      folderAccess.set(document.folder_id, await this.canReadFolder(query.user_id, document.folder_id));
+    }
+    return folderAccess.get(document.folder_id)!;
+  }
+}
@@ -0,0 +1,116 @@
+import { DatabaseConnection } from '@database/connection';
+import { DocumentModel } from '@models/Document.model';
+import { IVectorRecord, IVectorSearchHit, IVectorSearchQuery, VectorStore, toVectorLiteral } from './vector.store';
+
+/**
+ * Keeps embeddings on the document_chunks rows using the pgvector extension.
+ * Read access is part of the SQL: only chunks of readable_documents are ranked.
+ */
+export class PgVectorStore implements VectorStore {
+  public readonly name = 'pgvector';
+
+  async upsert(records: IVectorRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    const query = `
+      UPDATE document_chunks AS c
+      SET embedding = v.embedding::vector,
+          embedding_model = v.model,
+          embedded_at = CURRENT_TIMESTAMP
+      FROM (
+        SELECT unnest($1::uuid[]) as chunk_id,
+               unnest($2::text[]) as embedding,
+               unnest($3::text[]) as model
+      ) v
+      WHERE c.chunk_id = v.chunk_id
+    `;
+
+    await DatabaseConnection.query(query, [
+      records.map(record => record.chunk.chunk_id),
+      records.map(record => toVectorLiteral(record.embedding)),
+      records.map(record => record.model),
+    ]);
+  }
+
+  async deleteByDocument(documentId: string): Promise<void> {
+    const query = `
+      UPDATE document_chunks
+      SET embedding = NULL, embedding_model = NULL, embedded_at = NULL
+      WHERE document_id = $1
+    `;
+
+    await DatabaseConnection.query(query, [documentId]);
+  }
+
+  async search(searchQuery: IVectorSearchQuery): Promise<IVectorSearchHit[]> {
+    const params: any[] = [
+      searchQuery.user_id,
+      searchQuery.has_global_read,
+      toVectorLiteral(searchQuery.embedding),
+      searchQuery.model,
+      searchQuery.embedding.length,
+    ];
+    const conditions: string[] = [
+      'c.embedding IS NOT NULL',
+      'c.embedding_model = $4',
+      'vector_dims(c.embedding) = $5',
+      // Only the chunks of the document's current version
+      'c.version_number = rd.version_number',
+    ];
+
+    if (searchQuery.folder_id) {
+      params.push(searchQuery.folder_id);
+      conditions.push(`rd.folder_id = $${params.length}`);
+    }
+
+    if (searchQuery.document_ids && searchQuery.document_ids.length > 0) {
+      params.push(searchQuery.document_ids);
+      conditions.push(`rd.document_id = ANY($${params.length}::uuid[])`);
+    }
+
+    if (searchQuery.mime_type) {
+      params.push(searchQuery.mime_type);
+      conditions.push(`rd.mime_type = $${params.length}`);
+    }
+
+    params.push(searchQuery.min_score ?? -1);
+    const minScoreParam = `$${params.length}`;
+    params.push(searchQuery.top_k);
+    const limitParam = `$${params.length}`;
+
+    const query = `
+      WITH ${DocumentModel.readableDocumentsCte('$1', '$2')},
+      ranked AS (
+        SELECT
+          c.chunk_id, c.chunk_index, c.content, c.page_start, c.page_end, c.heading,
+          rd.document_id, rd.document_name, rd.folder_id, rd.mime_type,
+          1 - (c.embedding <=> $3::vector) as score
+        FROM document_chunks c
+        JOIN readable_documents rd ON c.document_id = rd.document_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY c.embedding <=> $3::vector
+        LIMIT ${limitParam}
+      )
+      SELECT * FROM ranked
+      WHERE score >= ${minScoreParam}
+      ORDER BY score DESC
+    `;
+
+    const result = await DatabaseConnection.query(query, params);
+    return result.rows.map((row: any) => ({
+      chunk_id: row.chunk_id,
+      chunk_index: row.chunk_index,
+      content: row.content,
+      document_id: row.document_id,
+      document_name: row.document_name,
+      score: Number(row.score),
+      ...(row.page_start !== null && { page_start: row.page_start }),
+      ...(row.page_end !== null && { page_end: row.page_end }),
+      ...(row.heading !== null && { heading: row.heading }),
+      ...(row.folder_id !== null && { folder_id: row.folder_id }),
+      ...(row.mime_type !== null && { mime_type: row.mime_type }),
+    }));
+  }
+}
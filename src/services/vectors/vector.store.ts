@@ -0,0 +1,78 @@
+export interface IVectorDocumentInfo {
+  document_id: string;
+  document_name: string;
+  folder_id?: string;
+  uploaded_by_user_id: string;
+  mime_type?: string;
+}
+
+export interface IVectorChunkInfo {
+  chunk_id: string;
+  chunk_index: number;
+  content: string;
+  page_start?: number;
+  page_end?: number;
+  heading?: string;
+}
+
+export interface IVectorRecord {
+  document: IVectorDocumentInfo;
+  chunk: IVectorChunkInfo;
+  embedding: number[];
+  model: string;
+}
+
+export interface IVectorSearchQuery {
+  embedding: number[];
+  model: string;
+  top_k: number;
+  // The caller whose read access bounds the results
+  user_id: string;
+  has_global_read: boolean;
+  min_score?: number;
+  folder_id?: string;
+  document_ids?: string[];
+  mime_type?: string;
+}
+
+export interface IVectorSearchHit extends IVectorChunkInfo {
+  document_id: string;
+  document_name: string;
+  folder_id?: string;
+  mime_type?: string;
+  // Cosine similarity, 1 = same direction
+  score: number;
+}
+
+/**
+ * Stores chunk embeddings and answers similarity queries. Implementations
+ * must apply the caller's read access while selecting candidates, never by
+ * filtering a result list afterwards, so top-k is always k readable chunks.
+ */
+export interface VectorStore {
+  readonly name: string;
+
+  upsert(records: IVectorRecord[]): Promise<void>;
+  deleteByDocument(documentId: string): Promise<void>;
+  search(query: IVectorSearchQuery): Promise<IVectorSearchHit[]>;
+}
+
+/**
+ * Serialize a vector in pgvector's text format
+ */
+export const toVectorLiteral = (vector: number[]): string => `[${vector.join(',')}]`;
+
+/**
+ * Cosine similarity of two vectors of equal length
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index++) {
+    dot += a[index]! * b[index]!;
+    normA += a[index]! * a[index]!;
+    normB += b[index]! * b[index]!;
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
@@ -0,0 +1,12 @@
+/**
+ * Loaded by `bun test` before any spec (see bunfig.toml). Supplies the
+ * settings config requires so services can be imported; specs stub every
+ * database, Redis and storage call, so nothing connects with them.
+ */
+process.env.NODE_ENV = 'test';
+process.env.LOG_LEVEL ||= 'error';
+process.env.DB_PASSWORD ||= 'test';
+process.env.JWT_SECRET ||= 'test-jwt-secret-0123456789abcdefghij';
+process.env.JWT_REFRESH_SECRET ||= 'test-jwt-refresh-secret-0123456789abcdef';
+process.env.EMBEDDING_PROVIDER ||= 'mock';
+process.env.RERANKER ||= 'none';
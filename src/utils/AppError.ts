@@ -56,8 +56,57 @@ export class BadRequestError extends AppError {
   }
 }
 
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string = 'Unprocessable entity') {
+    super(message, 422);
+  }
+}
+
 export class InternalServerError extends AppError {
   constructor(message: string = 'Internal server error') {
     super(message, 500);
   }
-} 
\ No newline at end of file
+} 
+export class ExternalServiceError extends AppError {
+  public readonly service: string;
+  public readonly retryable: boolean;
+  public readonly retryAfterMs: number | undefined;
+
+  constructor(
+    service: string,
+    message: string = 'External service request failed',
+    options: { retryable?: boolean; retryAfterMs?: number; statusCode?: number } = {}
+  ) {
+    super(message, options.statusCode || 502);
+    this.service = service;
+    this.retryable = options.retryable || false;
+    this.retryAfterMs = options.retryAfterMs;
+    Object.setPrototypeOf(this, ExternalServiceError.prototype);
+  }
+}
+
+export class QuotaExceededError extends AppError {
+  public readonly scope: string;
+  public readonly limitType: string;
+  // When the quota period ends and usage starts from zero again
+  public readonly resetsAt: Date;
+
+  constructor(message: string, scope: string, limitType: string, resetsAt: Date) {
+    super(message, 429);
+    this.scope = scope;
+    this.limitType = limitType;
+    this.resetsAt = resetsAt;
+    Object.setPrototypeOf(this, QuotaExceededError.prototype);
+  }
+}
+
+export class DuplicateDocumentError extends AppError {
+  // The existing document with the same content
+  public readonly duplicateOf: { document_id: string; document_name: string };
+
+  constructor(message: string, duplicateOf: { document_id: string; document_name: string }) {
+    super(message, 409);
+    this.duplicateOf = duplicateOf;
+    Object.setPrototypeOf(this, DuplicateDocumentError.prototype);
+  }
+}
@@ -0,0 +1,31 @@
+export type DispositionType = 'inline' | 'attachment';
+
+// MIME types browsers can safely render inline for previews
+const INLINE_PREVIEW_TYPES = [
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'text/plain',
+  'text/markdown',
+];
+
+/**
+ * Whether a file of this type should be previewed inline by default.
+ * HTML is deliberately excluded so uploaded pages never run in our origin.
+ */
+export const isInlinePreviewable = (mimeType?: string | null): boolean => {
+  return !!mimeType && INLINE_PREVIEW_TYPES.includes(mimeType);
+};
+
+/**
+ * Build a Content-Disposition header value with an ASCII fallback file name
+ * and an RFC 5987 encoded UTF-8 file name
+ */
+export const buildContentDisposition = (type: DispositionType, fileName: string): string => {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName)
+    .replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
@@ -0,0 +1,13 @@
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse the end of a period. A date without a time includes the whole day,
+ * so it is turned into the start of the next day.
+ */
+export const parsePeriodEnd = (value: string): Date => {
+  const date = new Date(value);
+  if (DATE_ONLY_PATTERN.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+};
@@ -0,0 +1,33 @@
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+
+export interface IFileDigest {
+  hash: string;
+  size: number;
+}
+
+/**
+ * Consume a stream and compute the SHA-256 hash and byte size of its content
+ */
+export const hashStream = (stream: Readable): Promise<IFileDigest> => {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    let size = 0;
+
+    stream
+      .on('data', (chunk: string | Buffer) => {
+        size += chunk.length;
+        hash.update(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => resolve({ hash: hash.digest('hex'), size }));
+  });
+};
+
+/**
+ * Stream a file from disk and compute its SHA-256 hash and byte size
+ */
+export const hashFile = (filePath: string): Promise<IFileDigest> => {
+  return hashStream(createReadStream(filePath));
+};
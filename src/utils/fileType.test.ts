@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { detectFileType, getFileExtension, isAllowedFileType } from './fileType';
+
+const PDF = Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n1 0 obj\n<<>>\nendobj\n', 'latin1');
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46]);
+const DOC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0x00, 0x00]);
+const ZIP_HEADER = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const DOCX = Buffer.concat([ZIP_HEADER, Buffer.alloc(100), Buffer.from('word/document.xml'), Buffer.alloc(20)]);
+const ZIP = Buffer.concat([ZIP_HEADER, Buffer.alloc(100), Buffer.from('xl/workbook.xml'), Buffer.alloc(20)]);
+const ELF = Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00, 0x00, 0x00]);
+
+describe('detectFileType', () => {
+  let directory: string;
+  let fileCount = 0;
+
+  // Write content to a temporary file and detect it under the client's file name
+  const detect = async (content: Buffer | string, originalName: string) => {
+    const filePath = path.join(directory, `upload-${fileCount++}`);
+    await writeFile(filePath, content);
+    return detectFileType(filePath, originalName);
+  };
+
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'file-type-'));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('detects binary formats by their magic bytes', async () => {
+    expect(await detect(PDF, 'report.pdf')).toEqual({ extension: 'pdf', mime_type: 'application/pdf' });
+    expect(await detect(PNG, 'image.PNG')).toEqual({ extension: 'png', mime_type: 'image/png' });
+    expect(await detect(JPEG, 'photo.jpeg')).toEqual({ extension: 'jpeg', mime_type: 'image/jpeg' });
+    expect(await detect('GIF89a\x01\x00\x01\x00', 'anim.gif')).toEqual({ extension: 'gif', mime_type: 'image/gif' });
+    expect(await detect(DOC, 'letter.doc')).toEqual({ extension: 'doc', mime_type: 'application/msword' });
+    expect(await detect(DOCX, 'letter.docx')).toEqual({
+      extension: 'docx',
+      mime_type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    });
+  });
+
+  it('rejects content whose extension claims another type', async () => {
+    expect(await detect(PNG, 'invoice.pdf')).toBeNull();
+    expect(await detect(PDF, 'avatar.png')).toBeNull();
+    expect(await detect(DOC, 'letter.docx')).toBeNull();
+    expect(await detect('<html><script>alert(1)</script></html>', 'photo.jpg')).toBeNull();
+    expect(await detect('plain words', 'report.pdf')).toBeNull();
+  });
+
+  it('rejects unknown magic bytes and binary content', async () => {
+    expect(await detect(ELF, 'tool.txt')).toBeNull();
+    expect(await detect(ELF, 'tool')).toBeNull();
+    expect(await detect(Buffer.from([0x41, 0x00, 0x42]), 'notes.txt')).toBeNull();
+    expect(await detect(Buffer.from([0xc3, 0x28, 0xa0, 0xa1]), 'notes.txt')).toBeNull();
+  });
+
+  it('accepts a ZIP archive only when it is a Word document', async () => {
+    expect(await detect(ZIP, 'sheet.docx')).toBeNull();
+    expect(await detect(ZIP, 'archive.zip')).toBeNull();
+  });
+
+  it('treats an empty file as text, so only text extensions pass', async () => {
+    expect(await detect('', 'empty.txt')).toEqual({ extension: 'txt', mime_type: 'text/plain' });
+    expect(await detect('', 'empty.pdf')).toBeNull();
+    expect(await detect('', 'empty.png')).toBeNull();
+  });
+
+  it('uses the extension to tell text formats apart', async () => {
+    expect(await detect('# Title\n', 'readme.md')).toEqual({ extension: 'md', mime_type: 'text/markdown' });
+    expect(await detect('<p>hi</p>', 'page.htm')).toEqual({ extension: 'htm', mime_type: 'text/html' });
+    expect(await detect('# Title\n', 'readme.txt')).toEqual({ extension: 'txt', mime_type: 'text/plain' });
+  });
+
+  it('sniffs HTML and falls back to plain text without an extension', async () => {
+    expect(await detect('\uFEFF  <!DOCTYPE html><html></html>', 'page')).toEqual({ extension: 'html', mime_type: 'text/html' });
+    expect(await detect('just text', 'notes')).toEqual({ extension: 'txt', mime_type: 'text/plain' });
+    expect(await detect(PDF, 'scan')).toEqual({ extension: 'pdf', mime_type: 'application/pdf' });
+  });
+
+  it('accepts UTF-8 text cut off in the middle of a character', async () => {
+    const text = Buffer.from(`${'a'.repeat(4099)}é`);
+    expect(await detect(text, 'long.txt')).toEqual({ extension: 'txt', mime_type: 'text/plain' });
+  });
+});
+
+describe('getFileExtension', () => {
+  it('returns the lower-case extension without the dot', () => {
+    expect(getFileExtension('Report.Final.PDF')).toBe('pdf');
+    expect(getFileExtension('archive.tar.gz')).toBe('gz');
+    expect(getFileExtension('README')).toBe('');
+    expect(getFileExtension('.env')).toBe('');
+  });
+});
+
+describe('isAllowedFileType', () => {
+  it('compares the detected extension with the configured list', () => {
+    const pdf = { extension: 'pdf', mime_type: 'application/pdf' };
+
+    expect(isAllowedFileType(pdf, ['txt', ' .PDF '])).toBe(true);
+    expect(isAllowedFileType(pdf, ['txt', 'docx'])).toBe(false);
+  });
+});
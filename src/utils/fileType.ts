@@ -0,0 +1,178 @@
+import { open } from 'fs/promises';
+import path from 'path';
+
+export interface IDetectedFileType {
+  extension: string;
+  mime_type: string;
+}
+
+interface IFileSignature {
+  mime_type: string;
+  extensions: string[];
+}
+
+// Extension to MIME type map for every type we know how to sniff
+export const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+};
+
+const HEAD_BYTES = 4100;
+const TAIL_BYTES = 65536;
+
+const startsWith = (buffer: Buffer, signature: number[], offset: number = 0): boolean => {
+  if (buffer.length < offset + signature.length) {
+    return false;
+  }
+  return signature.every((byte, index) => buffer[offset + index] === byte);
+};
+
+/**
+ * Read the first and last bytes of a file. The tail is needed for ZIP based
+ * formats (DOCX) whose central directory lives at the end of the archive.
+ */
+const readHeadAndTail = async (filePath: string): Promise<{ head: Buffer; tail: Buffer }> => {
+  const handle = await open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+
+    const head = Buffer.alloc(Math.min(HEAD_BYTES, size));
+    await handle.read(head, 0, head.length, 0);
+
+    const tailLength = Math.min(TAIL_BYTES, size);
+    const tail = Buffer.alloc(tailLength);
+    await handle.read(tail, 0, tailLength, size - tailLength);
+
+    return { head, tail };
+  } finally {
+    await handle.close();
+  }
+};
+
+const detectBinarySignature = (head: Buffer, tail: Buffer): IFileSignature | null => {
+  if (startsWith(head, [0x25, 0x50, 0x44, 0x46, 0x2d])) {
+    return { mime_type: 'application/pdf', extensions: ['pdf'] };
+  }
+
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { mime_type: 'image/png', extensions: ['png'] };
+  }
+
+  if (startsWith(head, [0xff, 0xd8, 0xff])) {
+    return { mime_type: 'image/jpeg', extensions: ['jpg', 'jpeg'] };
+  }
+
+  if (head.subarray(0, 6).toString('ascii') === 'GIF87a' || head.subarray(0, 6).toString('ascii') === 'GIF89a') {
+    return { mime_type: 'image/gif', extensions: ['gif'] };
+  }
+
+  // OLE2 compound document (legacy Word .doc)
+  if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return { mime_type: MIME_TYPES_BY_EXTENSION.doc!, extensions: ['doc'] };
+  }
+
+  // ZIP archive: only accept it as DOCX when it contains the Word main part
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) {
+    const marker = 'word/document.xml';
+    if (tail.includes(marker) || head.includes(marker)) {
+      return { mime_type: MIME_TYPES_BY_EXTENSION.docx!, extensions: ['docx'] };
+    }
+    return null;
+  }
+
+  return null;
+};
+
+const isProbablyText = (head: Buffer): boolean => {
+  if (head.includes(0x00)) {
+    return false;
+  }
+
+  try {
+    // stream: true tolerates a multi-byte sequence cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const detectTextSignature = (head: Buffer, originalExtension: string): IFileSignature => {
+  if (['html', 'htm'].includes(originalExtension)) {
+    return { mime_type: 'text/html', extensions: ['html', 'htm'] };
+  }
+
+  if (['md', 'markdown'].includes(originalExtension)) {
+    return { mime_type: 'text/markdown', extensions: ['md', 'markdown'] };
+  }
+
+  if (originalExtension === 'txt') {
+    return { mime_type: 'text/plain', extensions: ['txt'] };
+  }
+
+  const sample = head.toString('utf8').replace(/^\uFEFF/, '').trimStart().toLowerCase();
+  if (sample.startsWith('<!doctype html') || sample.startsWith('<html')) {
+    return { mime_type: 'text/html', extensions: ['html', 'htm'] };
+  }
+
+  return { mime_type: 'text/plain', extensions: ['txt'] };
+};
+
+/**
+ * Get the lower-case extension (without dot) of a file name
+ */
+export const getFileExtension = (fileName: string): string => {
+  return path.extname(fileName).replace(/^\./, '').toLowerCase();
+};
+
+/**
+ * Detect the real type of a file from its content (magic bytes), using the
+ * original file name only to disambiguate between text formats.
+ *
+ * Returns null when the content is not a recognised type or does not match
+ * the extension the client supplied.
+ */
+export const detectFileType = async (
+  filePath: string,
+  originalName: string
+): Promise<IDetectedFileType | null> => {
+  const { head, tail } = await readHeadAndTail(filePath);
+  const originalExtension = getFileExtension(originalName);
+
+  let signature = detectBinarySignature(head, tail);
+  if (!signature && isProbablyText(head)) {
+    signature = detectTextSignature(head, originalExtension);
+  }
+
+  if (!signature) {
+    return null;
+  }
+
+  // A known extension that disagrees with the content is treated as spoofed
+  if (originalExtension && !signature.extensions.includes(originalExtension)) {
+    return null;
+  }
+
+  return {
+    extension: originalExtension || signature.extensions[0]!,
+    mime_type: signature.mime_type,
+  };
+};
+
+/**
+ * Check a detected type against the configured list of allowed extensions
+ */
+export const isAllowedFileType = (fileType: IDetectedFileType, allowedTypes: readonly string[]): boolean => {
+  const allowed = allowedTypes.map(type => type.trim().toLowerCase().replace(/^\./, ''));
+  return allowed.includes(fileType.extension);
+};
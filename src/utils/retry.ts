@@ -0,0 +1,57 @@
+import { AppError, ExternalServiceError } from '@utils/AppError';
+
+export interface IRetryOptions {
+  retries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  // Lets an error dictate the wait (e.g. from a Retry-After header)
+  getDelayMs?: (error: unknown, attempt: number) => number | undefined;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with full jitter for the given attempt (1-based)
+ */
+export const backoffDelay = (attempt: number, baseDelayMs: number = 500, maxDelayMs: number = 30000): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+};
+
+/**
+ * Run an async operation, retrying failures the caller marks as retryable
+ */
+export const withRetry = async <T>(operation: (attempt: number) => Promise<T>, options: IRetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const canRetry = attempt <= options.retries && (options.shouldRetry ? options.shouldRetry(error, attempt) : true);
+      if (!canRetry) {
+        throw error;
+      }
+
+      const delayMs = options.getDelayMs?.(error, attempt)
+        ?? backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+      options.onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
+
+/**
+ * Whether an operation that threw may succeed when run again. External
+ * services say so themselves and client errors (4xx) never do; anything
+ * else, such as database, storage or network trouble, may be transient.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof ExternalServiceError) {
+    return error.retryable;
+  }
+  if (error instanceof AppError) {
+    return error.statusCode >= 500;
+  }
+  return true;
+};
@@ -0,0 +1,57 @@
+import { Response } from 'express';
+
+export interface IEventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  readonly closed: boolean;
+}
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Switch a response to a Server-Sent Events stream. A comment line is sent
+ * periodically so proxies do not drop the idle connection.
+ */
+export const openEventStream = (res: Response): IEventStream => {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable response buffering in nginx
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let closed = false;
+  const heartbeat = setInterval(() => {
+    if (!closed) {
+      res.write(': ping\n\n');
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const close = (): void => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeat);
+    res.end();
+  };
+
+  res.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+  });
+
+  return {
+    send(event: string, data: unknown): void {
+      if (closed) {
+        return;
+      }
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close,
+    get closed(): boolean {
+      return closed;
+    },
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'bun:test';
+import { formatHighlight, HIGHLIGHT_START, HIGHLIGHT_STOP, parseSearchQuery } from './textSearch';
+
+describe('parseSearchQuery', () => {
+  it('puts each bare word in its own group', () => {
+    expect(parseSearchQuery('budget forecast')).toEqual([
+      [{ kind: 'word', text: 'budget', exclude: false }],
+      [{ kind: 'word', text: 'forecast', exclude: false }],
+    ]);
+  });
+
+  it('parses quoted phrases, with or without a closing quote', () => {
+    expect(parseSearchQuery('"annual report" "draft')).toEqual([
+      [{ kind: 'phrase', text: 'annual report', exclude: false }],
+      [{ kind: 'phrase', text: 'draft', exclude: false }],
+    ]);
+  });
+
+  it('marks excluded words and phrases', () => {
+    expect(parseSearchQuery('-draft -"old version"')).toEqual([
+      [{ kind: 'word', text: 'draft', exclude: true }],
+      [{ kind: 'phrase', text: 'old version', exclude: true }],
+    ]);
+  });
+
+  it('keeps only letters and digits of prefixes', () => {
+    expect(parseSearchQuery('bud-get* -q3*')).toEqual([
+      [{ kind: 'prefix', text: 'budget', exclude: false }],
+      [{ kind: 'prefix', text: 'q3', exclude: true }],
+    ]);
+  });
+
+  it('joins terms around OR into one group', () => {
+    expect(parseSearchQuery('pdf OR docx OR "plain text" budget')).toEqual([
+      [
+        { kind: 'word', text: 'pdf', exclude: false },
+        { kind: 'word', text: 'docx', exclude: false },
+        { kind: 'phrase', text: 'plain text', exclude: false },
+      ],
+      [{ kind: 'word', text: 'budget', exclude: false }],
+    ]);
+  });
+
+  it('ignores a leading or trailing OR', () => {
+    expect(parseSearchQuery('OR pdf OR')).toEqual([
+      [{ kind: 'word', text: 'pdf', exclude: false }],
+    ]);
+  });
+
+  it('drops tokens without searchable characters', () => {
+    expect(parseSearchQuery('- -- "" * ??? ok')).toEqual([
+      [{ kind: 'word', text: 'ok', exclude: false }],
+    ]);
+    expect(parseSearchQuery('   ')).toEqual([]);
+  });
+
+  it('only excludes when the dash is followed by a term', () => {
+    expect(parseSearchQuery('-')).toEqual([]);
+    expect(parseSearchQuery('-é')).toEqual([[{ kind: 'word', text: 'é', exclude: true }]]);
+  });
+});
+
+describe('formatHighlight', () => {
+  it('escapes the document text and turns markers into <mark>', () => {
+    const headline = `a <b> & "c" ${HIGHLIGHT_START}it's${HIGHLIGHT_STOP} here`;
+    expect(formatHighlight(headline)).toBe('a &lt;b&gt; &amp; &quot;c&quot; <mark>it&#39;s</mark> here');
+  });
+
+  it('replaces every marker pair', () => {
+    const headline = `${HIGHLIGHT_START}one${HIGHLIGHT_STOP} and ${HIGHLIGHT_START}two${HIGHLIGHT_STOP}`;
+    expect(formatHighlight(headline)).toBe('<mark>one</mark> and <mark>two</mark>');
+  });
+
+  it('does not let text that looks like markup through', () => {
+    expect(formatHighlight('<mark>not a match</mark>')).toBe('&lt;mark&gt;not a match&lt;/mark&gt;');
+  });
+});
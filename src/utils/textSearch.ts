@@ -0,0 +1,89 @@
+export type SearchTermKind = 'word' | 'phrase' | 'prefix';
+
+export interface ISearchTerm {
+  kind: SearchTermKind;
+  text: string;
+  // Documents matching the term are left out
+  exclude: boolean;
+}
+
+/**
+ * A parsed query: every group must match, and a group matches when any of
+ * its terms (joined with OR) does
+ */
+export type ParsedSearchQuery = ISearchTerm[][];
+
+// Markers ts_headline puts around matches, replaced by <mark> after escaping
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_STOP = '\u0003';
+
+// -"quoted phrase" (closing quote optional) or a bare word
+const TOKEN_PATTERN = /(-)?"([^"]*)"?|(\S+)/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const phraseTerm = (text: string, exclude: boolean): ISearchTerm | null => {
+  const phrase = text.trim();
+  return phrase ? { kind: 'phrase', text: phrase, exclude } : null;
+};
+
+const bareTerm = (token: string): ISearchTerm | null => {
+  const exclude = token.length > 1 && token.startsWith('-');
+  const text = exclude ? token.slice(1) : token;
+
+  if (text.endsWith('*')) {
+    // Prefixes are passed to to_tsquery, so only letters and digits are kept
+    const prefix = text.replace(/[^\p{L}\p{N}_]/gu, '');
+    return prefix ? { kind: 'prefix', text: prefix, exclude } : null;
+  }
+
+  return /[\p{L}\p{N}]/u.test(text) ? { kind: 'word', text, exclude } : null;
+};
+
+/**
+ * Parse a search box query. Supports "quoted phrases", prefix* matches,
+ * -excluded terms and OR between terms; everything else must all match.
+ */
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const groups: ParsedSearchQuery = [];
+  let joinNext = false;
+
+  for (const [, excludePhrase, phrase, bare] of input.matchAll(TOKEN_PATTERN)) {
+    if (bare === 'OR') {
+      joinNext = groups.length > 0;
+      continue;
+    }
+
+    const term = phrase !== undefined ? phraseTerm(phrase, !!excludePhrase) : bareTerm(bare!);
+    if (!term) {
+      continue;
+    }
+
+    const lastGroup = groups[groups.length - 1];
+    if (joinNext && lastGroup) {
+      lastGroup.push(term);
+    } else {
+      groups.push([term]);
+    }
+    joinNext = false;
+  }
+
+  return groups;
+};
+
+/**
+ * Turn a ts_headline result into HTML: the document text is escaped and
+ * the match markers become <mark> elements
+ */
+export const formatHighlight = (headline: string): string => {
+  return headline
+    .replace(/[&<>"']/g, char => HTML_ESCAPES[char]!)
+    .replace(new RegExp(HIGHLIGHT_START, 'g'), '<mark>')
+    .replace(new RegExp(HIGHLIGHT_STOP, 'g'), '</mark>');
+};
@@ -0,0 +1,30 @@
+export interface ITokenSpan {
+  start: number;
+  end: number;
+}
+
+// Words (letters, digits, underscore) and individual punctuation marks.
+// A rough, model-independent approximation of sub-word token counts.
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+|[^\p{L}\p{N}_\s]/gu;
+
+/**
+ * Split text into token spans, as character offsets into the text
+ */
+export const tokenize = (text: string): ITokenSpan[] => {
+  const spans: ITokenSpan[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    spans.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+  return spans;
+};
+
+/**
+ * Count the tokens in a piece of text
+ */
+export const countTokens = (text: string): number => {
+  let count = 0;
+  for (const _match of text.matchAll(TOKEN_PATTERN)) {
+    count++;
+  }
+  return count;
+};
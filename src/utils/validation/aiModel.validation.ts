@@ -0,0 +1,94 @@
+import { z } from 'zod';
+
+// Common validation rules
+const uuidSchema = z.string().uuid('Invalid UUID format');
+const statusSchema = z.enum(['beta', 'active', 'maintenance', 'deprecated']);
+const modelNameSchema = z.string()
+  .trim()
+  .min(1, 'Model name is required')
+  .max(255, 'Model name too long');
+const providerSchema = z.string().trim().min(1, 'Provider is required').max(255, 'Provider too long');
+const endpointSchema = z.string().url('Invalid API endpoint URL').max(500, 'API endpoint too long');
+const capabilitiesSchema = z.record(z.any());
+
+// Get AI models list validation
+export const getAIModelsListSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    page: z.string().transform(Number).pipe(z.number().min(1)).optional().default('1'),
+    limit: z.string().transform(Number).pipe(z.number().min(1).max(100)).optional().default('10'),
+    search: z.string().optional(),
+    status: statusSchema.optional(),
+    provider: z.string().optional(),
+  }),
+  params: z.object({}),
+});
+
+// Get AI model by ID validation
+export const getAIModelByIdSchema = z.object({
+  body: z.object({}),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Create AI model validation
+export const createAIModelSchema = z.object({
+  body: z.object({
+    model_name: modelNameSchema,
+    provider: providerSchema,
+    version: z.string().max(100, 'Version too long').optional(),
+    description: z.string().max(1000, 'Description too long').optional(),
+    status: z.enum(['beta', 'active']).optional(),
+    api_endpoint: endpointSchema.optional(),
+    max_tokens: z.number().int().positive().optional(),
+    cost_per_1k_tokens: z.number().min(0).optional(),
+    capabilities: capabilitiesSchema.optional(),
+  }),
+  query: z.object({}),
+  params: z.object({}),
+});
+
+// Update AI model validation
+export const updateAIModelSchema = z.object({
+  body: z.object({
+    model_name: modelNameSchema.optional(),
+    provider: providerSchema.optional(),
+    version: z.string().max(100, 'Version too long').nullable().optional(),
+    description: z.string().max(1000, 'Description too long').nullable().optional(),
+    api_endpoint: endpointSchema.nullable().optional(),
+    max_tokens: z.number().int().positive().nullable().optional(),
+    cost_per_1k_tokens: z.number().min(0).nullable().optional(),
+    capabilities: capabilitiesSchema.nullable().optional(),
+    // false opens a restricted model to every department again
+    is_restricted: z.boolean().optional(),
+  }),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Change AI model status validation
+export const changeAIModelStatusSchema = z.object({
+  body: z.object({
+    status: statusSchema,
+  }),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Export all validation schemas
+export const aiModelValidation = {
+  getAIModelsList: getAIModelsListSchema,
+  getAIModelById: getAIModelByIdSchema,
+  createAIModel: createAIModelSchema,
+  updateAIModel: updateAIModelSchema,
+  changeAIModelStatus: changeAIModelStatusSchema,
+  setDefaultAIModel: getAIModelByIdSchema,
+  deleteAIModel: getAIModelByIdSchema,
+  checkAIModelHealth: getAIModelByIdSchema,
+};
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+// Common validation rules
+const uuidSchema = z.string().uuid('Invalid UUID format');
+// A date (YYYY-MM-DD) or an ISO timestamp
+const dateSchema = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+const groupBySchema = z.string().regex(
+  /^(user|department|model|day)(,(user|department|model|day))*$/,
+  'group_by must be a comma-separated list of user, department, model and day'
+);
+
+// Get AI usage report validation
+export const getUsageSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    group_by: groupBySchema.optional().default('day'),
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+    user_id: uuidSchema.optional(),
+    department_id: uuidSchema.optional(),
+    ai_model_id: uuidSchema.optional(),
+    page: z.string().transform(Number).pipe(z.number().min(1)).optional().default('1'),
+    limit: z.string().transform(Number).pipe(z.number().min(1).max(1000)).optional().default('100'),
+  }),
+  params: z.object({}),
+});
+
+// Export all validation schemas
+export const analyticsValidation = {
+  getUsage: getUsageSchema,
+};
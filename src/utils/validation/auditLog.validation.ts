@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+// Common validation rules
+const uuidSchema = z.string().uuid('Invalid UUID format');
+// A date (YYYY-MM-DD) or an ISO timestamp
+const dateSchema = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+
+// Get audit logs validation
+export const getAuditLogsSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    table: z.string().regex(/^[a-z_]+$/, 'Invalid table name').optional(),
+    record_id: uuidSchema.optional(),
+    folder_id: uuidSchema.optional(),
+    changed_by: uuidSchema.optional(),
+    action: z.enum(['INSERT', 'UPDATE', 'DELETE']).optional(),
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+    cursor: uuidSchema.optional(),
+    limit: z.string().transform(Number).pipe(z.number().min(1).max(200)).optional().default('50'),
+  }),
+  params: z.object({}),
+});
+
+// Get document access log validation
+export const getDocumentAccessSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    document_id: uuidSchema.optional(),
+    user_id: uuidSchema.optional(),
+    access_type: z.enum(['download', 'preview', 'search_hit', 'ai_context']).optional(),
+    conversation_id: uuidSchema.optional(),
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+    cursor: uuidSchema.optional(),
+    limit: z.string().transform(Number).pipe(z.number().min(1).max(200)).optional().default('50'),
+  }),
+  params: z.object({}),
+});
+
+// Export all validation schemas
+export const auditLogValidation = {
+  getAuditLogs: getAuditLogsSchema,
+  getDocumentAccess: getDocumentAccessSchema,
+};
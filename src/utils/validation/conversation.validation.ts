@@ -0,0 +1,114 @@
+import { z } from 'zod';
+
+// Common validation rules
+const uuidSchema = z.string().uuid('Invalid UUID format');
+const conversationNameSchema = z.string()
+  .trim()
+  .min(1, 'Conversation name is required')
+  .max(255, 'Conversation name too long');
+const participantRoleSchema = z.enum(['human', 'ai', 'moderator']);
+
+// Get conversations list validation
+export const getConversationsListSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    page: z.string().transform(Number).pipe(z.number().min(1)).optional().default('1'),
+    limit: z.string().transform(Number).pipe(z.number().min(1).max(100)).optional().default('10'),
+    search: z.string().optional(),
+    status: z.enum(['active', 'archived']).optional(),
+    all: z.enum(['true', 'false']).optional(),
+  }),
+  params: z.object({}),
+});
+
+// Get conversation by ID validation
+export const getConversationByIdSchema = z.object({
+  body: z.object({}),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Create conversation validation
+export const createConversationSchema = z.object({
+  body: z.object({
+    conversation_name: conversationNameSchema.optional(),
+    ai_model_used_id: uuidSchema.optional(),
+    participants: z.array(z.object({
+      user_id: uuidSchema,
+      role: participantRoleSchema.default('human'),
+    })).max(100, 'Too many participants').optional(),
+  }),
+  query: z.object({}),
+  params: z.object({}),
+});
+
+// Update conversation validation
+export const updateConversationSchema = z.object({
+  body: z.object({
+    conversation_name: conversationNameSchema.optional(),
+    ai_model_used_id: uuidSchema.optional(),
+    status: z.enum(['active', 'archived']).optional(),
+  }),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Delete conversation validation
+export const deleteConversationSchema = z.object({
+  body: z.object({}),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Add participant validation
+export const addParticipantSchema = z.object({
+  body: z.object({
+    user_id: uuidSchema,
+    role: participantRoleSchema.default('human'),
+  }),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Update participant role validation
+export const updateParticipantSchema = z.object({
+  body: z.object({
+    role: participantRoleSchema,
+  }),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+    userId: uuidSchema,
+  }),
+});
+
+// Remove participant validation
+export const removeParticipantSchema = z.object({
+  body: z.object({}),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+    userId: uuidSchema,
+  }),
+});
+
+// Export all validation schemas
+export const conversationValidation = {
+  getConversationsList: getConversationsListSchema,
+  getConversationById: getConversationByIdSchema,
+  createConversation: createConversationSchema,
+  updateConversation: updateConversationSchema,
+  deleteConversation: deleteConversationSchema,
+  getParticipants: getConversationByIdSchema,
+  addParticipant: addParticipantSchema,
+  updateParticipant: updateParticipantSchema,
+  removeParticipant: removeParticipantSchema,
+};
@@ -99,6 +99,27 @@ export const removeDepartmentPermissionSchema = z.object({
   }),
 });
 
+// Add AI model to department validation
+export const addDepartmentAIModelSchema = z.object({
+  body: z.object({
+    ai_model_id: uuidSchema,
+  }),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Remove AI model from department validation
+export const removeDepartmentAIModelSchema = z.object({
+  body: z.object({}),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+    ai_model_id: uuidSchema,
+  }),
+});
+
 // Export all validation schemas
 export const departmentValidation = {
   createDepartment: createDepartmentSchema,
@@ -110,4 +131,6 @@ export const departmentValidation = {
   getDepartmentPermissions: getDepartmentPermissionsSchema,
   addDepartmentPermission: addDepartmentPermissionSchema,
   removeDepartmentPermission: removeDepartmentPermissionSchema,
-}; 
\ No newline at end of file
+  addDepartmentAIModel: addDepartmentAIModelSchema,
+  removeDepartmentAIModel: removeDepartmentAIModelSchema,
+}; 
\ No newline at end of file
@@ -3,34 +3,18 @@ import { z } from 'zod';
 // Common validation rules
 const uuidSchema = z.string().uuid('Invalid UUID format');
 const documentNameSchema = z.string().min(1, 'Document name is required').max(255, 'Document name too long');
-const filePathSchema = z.string().min(1, 'File path is required').max(1000, 'File path too long');
-const fileSizeSchema = z.number().min(0, 'File size must be non-negative');
-const mimeTypeSchema = z.string().max(255, 'MIME type too long').optional();
+const descriptionSchema = z.string().max(10000, 'Description too long');
+const versionNumberSchema = z.string().regex(/^[1-9]\d*$/, 'Invalid version number');
 
-// Create document validation
-export const createDocumentSchema = z.object({
-  body: z.object({
-    document_name: documentNameSchema,
-    file_path: filePathSchema,
-    folder_id: uuidSchema.optional(),
-    file_size_bytes: fileSizeSchema,
-    mime_type: mimeTypeSchema,
-    file_hash: z.string().max(128, 'File hash too long').optional(),
-  }),
-  query: z.object({}),
-  params: z.object({}),
-});
-
-// Update document validation
+// Update document validation. File fields are set by uploads only
+// (POST /documents/upload and POST /documents/:id/versions).
 export const updateDocumentSchema = z.object({
   body: z.object({
     document_name: documentNameSchema.optional(),
-    file_path: filePathSchema.optional(),
+    description: descriptionSchema.nullable().optional(),
     folder_id: uuidSchema.nullable().optional(),
-    file_size_bytes: fileSizeSchema.optional(),
-    mime_type: mimeTypeSchema,
     is_active: z.boolean().optional(),
-  }),
+  }).strict(),
   query: z.object({}),
   params: z.object({
     id: uuidSchema,
@@ -46,6 +30,100 @@ export const getDocumentByIdSchema = z.object({
   }),
 });
 
+// Get document content validation
+export const getDocumentContentSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    disposition: z.enum(['inline', 'attachment']).optional(),
+  }),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Get document download URL validation
+export const getDocumentDownloadUrlSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    disposition: z.enum(['inline', 'attachment']).optional(),
+  }),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Get document versions validation
+export const getDocumentVersionsSchema = z.object({
+  body: z.object({}),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Upload document version validation (multipart/form-data, file in "file")
+export const uploadDocumentVersionSchema = z.object({
+  body: z.object({}),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Get document version content / download URL validation
+export const getDocumentVersionContentSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    disposition: z.enum(['inline', 'attachment']).optional(),
+  }),
+  params: z.object({
+    id: uuidSchema,
+    versionNumber: versionNumberSchema,
+  }),
+});
+
+// Restore document version validation
+export const restoreDocumentVersionSchema = z.object({
+  body: z.object({}),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+    versionNumber: versionNumberSchema,
+  }),
+});
+
+// Get document extraction validation
+export const getDocumentExtractionSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    include_text: z.enum(['true', 'false']).optional(),
+  }),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Get document chunks validation
+export const getDocumentChunksSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    page: z.string().transform(Number).pipe(z.number().min(1)).optional().default('1'),
+    limit: z.string().transform(Number).pipe(z.number().min(1).max(100)).optional().default('20'),
+  }),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Re-run document extraction validation
+export const extractDocumentSchema = z.object({
+  body: z.object({}),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
 // Get documents list validation
 export const getDocumentsListSchema = z.object({
   body: z.object({}),
@@ -57,6 +135,7 @@ export const getDocumentsListSchema = z.object({
     mime_type: z.string().optional(),
     search: z.string().optional(),
     is_active: z.string().transform(val => val === 'true').optional(),
+    extraction_status: z.enum(['pending', 'processing', 'indexed', 'failed', 'skipped']).optional(),
   }),
   params: z.object({}),
 });
@@ -74,7 +153,9 @@ export const deleteDocumentSchema = z.object({
 export const uploadDocumentSchema = z.object({
   body: z.object({
     document_name: documentNameSchema.optional(), // Can be derived from file name
+    description: descriptionSchema.optional(),
     folder_id: uuidSchema.optional(),
+    on_duplicate: z.enum(['reject', 'link', 'allow']).optional(),
   }),
   query: z.object({}),
   params: z.object({}),
@@ -89,7 +170,22 @@ export const searchDocumentsSchema = z.object({
     limit: z.string().transform(Number).pipe(z.number().min(1).max(100)).optional().default('10'),
     folder_id: uuidSchema.optional(),
     mime_type: z.string().optional(),
+    uploaded_by_user_id: uuidSchema.optional(),
+  }),
+  params: z.object({}),
+});
+
+// Semantic search validation
+export const semanticSearchSchema = z.object({
+  body: z.object({
+    query: z.string().trim().min(1, 'Search query is required').max(2000, 'Search query too long'),
+    top_k: z.number().int().min(1).max(50).optional(),
+    min_score: z.number().min(-1).max(1).optional(),
+    folder_id: uuidSchema.optional(),
+    document_ids: z.array(uuidSchema).max(100, 'Too many document IDs').optional(),
+    mime_type: z.string().max(255, 'MIME type too long').optional(),
   }),
+  query: z.object({}),
   params: z.object({}),
 });
 
@@ -114,13 +210,22 @@ export const getDocumentsStatsSchema = z.object({
 
 // Export validation object
 export const documentValidation = {
-  createDocument: createDocumentSchema,
   updateDocument: updateDocumentSchema,
   getDocumentById: getDocumentByIdSchema,
+  getDocumentContent: getDocumentContentSchema,
+  getDocumentDownloadUrl: getDocumentDownloadUrlSchema,
+  getDocumentVersions: getDocumentVersionsSchema,
+  uploadDocumentVersion: uploadDocumentVersionSchema,
+  getDocumentVersionContent: getDocumentVersionContentSchema,
+  restoreDocumentVersion: restoreDocumentVersionSchema,
+  getDocumentExtraction: getDocumentExtractionSchema,
+  extractDocument: extractDocumentSchema,
+  getDocumentChunks: getDocumentChunksSchema,
   getDocumentsList: getDocumentsListSchema,
   deleteDocument: deleteDocumentSchema,
   uploadDocument: uploadDocumentSchema,
   searchDocuments: searchDocumentsSchema,
+  semanticSearch: semanticSearchSchema,
   getDocumentsByFolder: getDocumentsByFolderSchema,
   getDocumentsStats: getDocumentsStatsSchema,
 }; 
\ No newline at end of file
@@ -15,6 +15,15 @@ const permissionTypeSchema = z.enum(['read', 'write', 'delete', 'manage'], {
   errorMap: () => ({ message: 'Permission type must be read, write, delete, or manage' })
 });
 
+const chunkSizeSchema = z.number().int().min(32, 'Chunk size must be at least 32 tokens').max(8192, 'Chunk size must be at most 8192 tokens');
+const chunkOverlapSchema = z.number().int().min(0, 'Chunk overlap must be non-negative').max(4096, 'Chunk overlap must be at most 4096 tokens');
+const chunkingStrategySchema = z.enum(['auto', 'fixed', 'heading', 'page'], {
+  errorMap: () => ({ message: 'Chunking strategy must be auto, fixed, heading, or page' })
+});
+
+const overlapSmallerThanSize = (body: { chunk_size_tokens?: number | null | undefined; chunk_overlap_tokens?: number | null | undefined }) =>
+  body.chunk_size_tokens == null || body.chunk_overlap_tokens == null || body.chunk_overlap_tokens < body.chunk_size_tokens;
+
 // Create folder validation
 export const createFolderSchema = z.object({
   body: z.object({
@@ -23,6 +32,12 @@ export const createFolderSchema = z.object({
     description: z.string().max(1000, 'Description too long').optional(),
     access_level: accessLevelSchema.optional(),
     inherit_permissions: z.boolean().optional(),
+    chunk_size_tokens: chunkSizeSchema.optional(),
+    chunk_overlap_tokens: chunkOverlapSchema.optional(),
+    chunking_strategy: chunkingStrategySchema.optional(),
+  }).refine(overlapSmallerThanSize, {
+    message: 'Chunk overlap must be smaller than chunk size',
+    path: ['chunk_overlap_tokens'],
   }),
   query: z.object({}),
   params: z.object({}),
@@ -36,7 +51,13 @@ export const updateFolderSchema = z.object({
     description: z.string().max(1000, 'Description too long').optional(),
     access_level: accessLevelSchema.optional(),
     inherit_permissions: z.boolean().optional(),
+    chunk_size_tokens: chunkSizeSchema.nullable().optional(),
+    chunk_overlap_tokens: chunkOverlapSchema.nullable().optional(),
+    chunking_strategy: chunkingStrategySchema.nullable().optional(),
     is_active: z.boolean().optional(),
+  }).refine(overlapSmallerThanSize, {
+    message: 'Chunk overlap must be smaller than chunk size',
+    path: ['chunk_overlap_tokens'],
   }),
   query: z.object({}),
   params: z.object({
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// Common validation rules
+const uuidSchema = z.string().uuid('Invalid UUID format');
+
+// Get job validation
+export const getJobSchema = z.object({
+  body: z.object({}),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Export all validation schemas
+export const jobValidation = {
+  getJob: getJobSchema,
+};
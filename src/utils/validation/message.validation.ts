@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+// Common validation rules
+const uuidSchema = z.string().uuid('Invalid UUID format');
+
+// Get conversation messages validation
+export const getMessagesSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    limit: z.string().transform(Number).pipe(z.number().min(1).max(100)).optional().default('50'),
+    // Return messages sent before this timestamp (for paging backwards)
+    before: z.string().datetime({ offset: true, message: 'Invalid timestamp' }).optional(),
+  }),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Send message validation
+export const sendMessageSchema = z.object({
+  body: z.object({
+    content: z.string()
+      .trim()
+      .min(1, 'Message content is required')
+      .max(32000, 'Message content too long'),
+    // Stream the assistant reply as Server-Sent Events (default) or wait for the full reply
+    stream: z.boolean().optional().default(true),
+    // Ground the reply in documents the sender can read, optionally limited to a folder or documents
+    use_documents: z.boolean().optional().default(true),
+    folder_id: uuidSchema.optional(),
+    document_ids: z.array(uuidSchema).min(1).max(100).optional(),
+  }),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Export all validation schemas
+export const messageValidation = {
+  getMessages: getMessagesSchema,
+  sendMessage: sendMessageSchema,
+};
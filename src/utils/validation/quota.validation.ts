@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+// Common validation rules
+const uuidSchema = z.string().uuid('Invalid UUID format');
+const quotaScopeSchema = z.enum(['department', 'user']);
+
+// Get quotas list validation
+export const getQuotasSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    scope: quotaScopeSchema.optional(),
+  }),
+  params: z.object({}),
+});
+
+// Set quota validation (a missing or null limit is not enforced)
+export const setQuotaSchema = z.object({
+  body: z.object({
+    monthly_token_limit: z.number().int().min(0).nullable().optional(),
+    monthly_cost_limit: z.number().min(0).nullable().optional(),
+  }),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Delete quota validation
+export const deleteQuotaSchema = z.object({
+  body: z.object({}),
+  query: z.object({}),
+  params: z.object({
+    id: uuidSchema,
+  }),
+});
+
+// Export all validation schemas
+export const quotaValidation = {
+  getQuotas: getQuotasSchema,
+  setQuota: setQuotaSchema,
+  deleteQuota: deleteQuotaSchema,
+};
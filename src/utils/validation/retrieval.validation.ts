@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+// Common validation rules
+const uuidSchema = z.string().uuid('Invalid UUID format');
+
+// Hybrid retrieval query validation
+export const querySchema = z.object({
+  body: z.object({
+    query: z.string().trim().min(1, 'Search query is required').max(2000, 'Search query too long'),
+    top_k: z.number().int().min(1).max(50).optional(),
+    mode: z.enum(['hybrid', 'lexical', 'vector']).optional(),
+    lexical_weight: z.number().min(0).max(10).optional(),
+    vector_weight: z.number().min(0).max(10).optional(),
+    rrf_k: z.number().int().min(1).max(1000).optional(),
+    min_vector_score: z.number().min(-1).max(1).optional(),
+    rerank: z.boolean().optional(),
+    folder_id: uuidSchema.optional(),
+    document_ids: z.array(uuidSchema).max(100, 'Too many document IDs').optional(),
+    mime_type: z.string().max(255, 'MIME type too long').optional(),
+  }),
+  query: z.object({}),
+  params: z.object({}),
+});
+
+// Export all validation schemas
+export const retrievalValidation = {
+  query: querySchema,
+};
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// Get signed file validation
+export const getSignedFileSchema = z.object({
+  body: z.object({}),
+  query: z.object({
+    expires: z.string().regex(/^\d+$/, 'Invalid expiry'),
+    signature: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid signature'),
+    disposition: z.string().max(1000).optional(),
+  }),
+  params: z.object({
+    key: z.string().min(1).max(1000),
+  }),
+});
+
+// Export validation object
+export const storageValidation = {
+  getSignedFile: getSignedFileSchema,
+};
@@ -0,0 +1,88 @@
+import { config } from '@config/config';
+import { logger } from '@utils/logger';
+import { DatabaseConnection } from '@database/connection';
+import { RedisConnection } from '@database/redis';
+import { JobWorker } from '@services/jobs';
+import { jobHandlers } from '@services/jobs/handlers';
+
+/**
+ * Background job worker: runs document extraction, re-chunking and storage
+ * cleanup jobs queued by the API. Run as many worker processes as needed.
+ */
+class Worker {
+  private worker = new JobWorker(jobHandlers);
+  private shuttingDown = false;
+
+  public async start(): Promise<void> {
+    try {
+      // Initialize database connection
+      await DatabaseConnection.initialize();
+      logger.info('Database connection established');
+
+      // Initialize Redis connection
+      await RedisConnection.initialize();
+      logger.info('Redis connection established');
+
+      this.worker.start();
+      logger.info(`Job worker is running in ${config.nodeEnv} mode`);
+
+      // Graceful shutdown handlers
+      process.on('SIGTERM', this.gracefulShutdown.bind(this));
+      process.on('SIGINT', this.gracefulShutdown.bind(this));
+      process.on('unhandledRejection', this.handleUnhandledRejection.bind(this));
+      process.on('uncaughtException', this.handleUncaughtException.bind(this));
+
+    } catch (error) {
+      logger.error('Failed to start job worker:', error);
+      process.exit(1);
+    }
+  }
+
+  private async gracefulShutdown(signal: string): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+    this.shuttingDown = true;
+    logger.info(`Received ${signal}. Starting graceful shutdown...`);
+
+    try {
+      // Let running jobs finish before closing the connections they use
+      await this.worker.stop();
+
+      await DatabaseConnection.close();
+      logger.info('Database connections closed');
+
+      await RedisConnection.close();
+      logger.info('Redis connection closed');
+
+      logger.info('Graceful shutdown completed');
+      process.exit(0);
+    } catch (error) {
+      logger.error('Error during graceful shutdown:', error);
+      process.exit(1);
+    }
+  }
+
+  private handleUnhandledRejection(reason: any, promise: Promise<any>): void {
+    logger.error('Unhandled Rejection at:', promise, 'reason:', reason);
+    if (config.nodeEnv === 'production') {
+      this.gracefulShutdown('UNHANDLED_REJECTION');
+    }
+  }
+
+  private handleUncaughtException(error: Error): void {
+    logger.error('Uncaught Exception:', error);
+    if (config.nodeEnv === 'production') {
+      this.gracefulShutdown('UNCAUGHT_EXCEPTION');
+    }
+  }
+}
+
+// Start the worker
+const worker = new Worker();
+worker.start().catch((error) => {
+  logger.error('Failed to start job worker:', error);
+  process.exit(1);
+});
+
+export { Worker };